@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserId, getUserIdFromApiKey, getUserIdFromToken } from '@/lib/auth'
+import { buyBoxRepository } from '@/lib/repositories'
+import { supabaseBuyBoxRepository } from '@/lib/repositories/supabase-buy-box-repository'
+import { createAdminClient } from '@/lib/supabase/server'
+import { buyBoxSchema } from '@/lib/schemas'
+
+function shouldUseSupabase(): boolean {
+  if (process.env.NODE_ENV === 'production') return true
+  return process.env.USE_SUPABASE === 'true'
+}
+
+// GET /api/buy-box - Get the user's buy box (null until one is saved)
+export async function GET(request: NextRequest) {
+  try {
+    // The extension sidebar authenticates with a Bearer token (API key or JWT)
+    const authHeader = request.headers.get('authorization')
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.substring(7)
+      const userId = token.startsWith('dm_')
+        ? await getUserIdFromApiKey(token)
+        : await getUserIdFromToken(token)
+
+      // No cookie session with a Bearer token, so RLS would hide the row
+      const buyBox = shouldUseSupabase()
+        ? await supabaseBuyBoxRepository.findByUserIdWithClient(createAdminClient(), userId)
+        : await buyBoxRepository.findByUserId(userId)
+      return NextResponse.json({ buyBox })
+    }
+
+    const userId = await getCurrentUserId()
+    const buyBox = await buyBoxRepository.findByUserId(userId)
+    return NextResponse.json({ buyBox })
+  } catch (error: any) {
+    if (['Unauthorized', 'Invalid API key', 'Invalid or expired token'].includes(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    console.error('Error fetching buy box:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch buy box' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/buy-box - Save the user's buy box
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    const body = await request.json()
+
+    const validated = buyBoxSchema.parse(body)
+
+    const buyBox = await buyBoxRepository.upsert({ ...validated, userId })
+    return NextResponse.json({ buyBox })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error saving buy box:', error)
+    return NextResponse.json(
+      { error: 'Failed to save buy box' },
+      { status: 500 }
+    )
+  }
+}
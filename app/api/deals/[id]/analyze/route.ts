@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUserId } from '@/lib/auth'
-import { dealRepository, analysisRepository } from '@/lib/repositories'
+import { dealRepository, analysisRepository, buyBoxRepository } from '@/lib/repositories'
 import { analyzeDealSchema } from '@/lib/schemas'
 import { 
   calculateUnderwriting, 
@@ -8,12 +8,15 @@ import {
   calculatePrimaryResidenceAnalysis,
   calculatePrimaryResidenceHoldingPeriod
 } from '@/lib/underwriting/engine'
+import { runMonteCarloSimulation } from '@/lib/underwriting/monte-carlo'
+import { applyScenario, findScenario } from '@/lib/scenarios'
+import { getBuyBoxProperty, scoreBuyBox } from '@/lib/buy-box'
+import { buildHoldingPeriodInputs, buildUnderwritingInputs } from '@/lib/analysis-inputs'
 import { 
-  UnderwritingInputs, 
-  HoldingPeriodInputs, 
   HoldingPeriodOutputs,
   PrimaryResidenceOutputs,
-  PrimaryResidenceHoldingPeriodOutputs
+  PrimaryResidenceHoldingPeriodOutputs,
+  MonteCarloOutputs
 } from '@/lib/types'
 
 // POST /api/deals/[id]/analyze
@@ -37,70 +40,76 @@ export async function POST(
     // Validate inputs
     const validated = analyzeDealSchema.parse(body)
     
-    // Prepare inputs
-    const inputs: UnderwritingInputs = {
-      purchasePrice: validated.purchasePrice,
-      closingCostRate: validated.closingCostRate,
-      rehabCost: validated.rehabCost,
-      downPaymentPct: validated.downPaymentPct,
-      interestRate: validated.interestRate,
-      termYears: validated.termYears,
-      pmiEnabled: validated.pmiEnabled,
-      pmiMonthly: validated.pmiMonthly,
-      taxesAnnual: validated.taxesAnnual,
-      insuranceAnnual: validated.insuranceAnnual,
-      hoaMonthly: validated.hoaMonthly,
-      utilitiesMonthly: validated.utilitiesMonthly,
-      rentMonthly: validated.rentMonthly,
-      otherIncomeMonthly: validated.otherIncomeMonthly,
-      vacancyRate: validated.vacancyRate,
-      maintenanceRate: validated.maintenanceRate,
-      capexRate: validated.capexRate,
-      managementRate: validated.managementRate,
+    // Scenario fields override the deal's (no scenario = the base deal)
+    const scenario = findScenario(deal, validated.scenarioId)
+    if (validated.scenarioId && !scenario) {
+      return NextResponse.json(
+        { error: 'Scenario not found' },
+        { status: 404 }
+      )
     }
+    const scenarioDeal = applyScenario(deal, scenario)
+    
+    // Prepare inputs
+    const inputs = buildUnderwritingInputs(validated)
     
-    // Calculate outputs
-    const outputs = calculateUnderwriting(inputs)
+    // Calculate outputs, with the math behind each metric for the "show the math" expanders
+    const outputs = calculateUnderwriting(inputs, { trace: true })
     
     // Calculate holding period analysis for all property types
     let holdingPeriodAnalysis: HoldingPeriodOutputs | null = null
+    let monteCarloAnalysis: MonteCarloOutputs | null = null
     
     // Calculate primary residence specific outputs
     let primaryResidenceOutputs: PrimaryResidenceOutputs | null = null
     let primaryResidenceHoldingPeriod: PrimaryResidenceHoldingPeriodOutputs | null = null
-    const isPrimaryResidence = deal.purchaseType === 'primary_residence'
+    const isPrimaryResidence = scenarioDeal.purchaseType === 'primary_residence'
     
     if (isPrimaryResidence) {
       primaryResidenceOutputs = calculatePrimaryResidenceAnalysis(inputs)
     }
     
-    if (validated.holdingPeriodYears) {
-      const holdingPeriodInputs: HoldingPeriodInputs = {
-        underwritingInputs: inputs,
-        holdingPeriodYears: validated.holdingPeriodYears || 10,
-        appreciationRate: validated.appreciationRate ?? 3,
-        rentGrowthRate: validated.rentGrowthRate ?? 2,
-        expenseGrowthRate: validated.expenseGrowthRate ?? 2,
-        sellingCostRate: validated.sellingCostRate ?? 6,
-      }
+    // Flips are sold after the rehab, so there is no long hold to project
+    if (validated.holdingPeriodYears && !validated.flip) {
+      const holdingPeriodInputs = buildHoldingPeriodInputs(validated, inputs)
       
-      holdingPeriodAnalysis = calculateHoldingPeriodAnalysis(holdingPeriodInputs)
+      holdingPeriodAnalysis = calculateHoldingPeriodAnalysis(holdingPeriodInputs, { trace: true })
+      
+      // Run Monte Carlo simulation around the deterministic rates
+      if (validated.monteCarlo) {
+        monteCarloAnalysis = runMonteCarloSimulation({
+          holdingPeriodInputs,
+          appreciationRate: { mean: holdingPeriodInputs.appreciationRate, volatility: validated.monteCarlo.appreciationVolatility },
+          rentGrowthRate: { mean: holdingPeriodInputs.rentGrowthRate, volatility: validated.monteCarlo.rentGrowthVolatility },
+          expenseGrowthRate: { mean: holdingPeriodInputs.expenseGrowthRate, volatility: validated.monteCarlo.expenseGrowthVolatility },
+          vacancyRate: { mean: inputs.vacancyRate, volatility: validated.monteCarlo.vacancyVolatility },
+          trials: validated.monteCarlo.trials,
+          seed: validated.monteCarlo.seed,
+        })
+      }
       
       // Calculate primary residence holding period analysis
       if (isPrimaryResidence) {
         // Use market rent equivalent if provided, otherwise estimate from property value
-        const marketRentMonthly = deal.rentMonthly || (inputs.purchasePrice * 0.005) // ~0.5% of value as rough estimate
+        const marketRentMonthly = scenarioDeal.rentMonthly || (inputs.purchasePrice * 0.005) // ~0.5% of value as rough estimate
         primaryResidenceHoldingPeriod = calculatePrimaryResidenceHoldingPeriod(holdingPeriodInputs, marketRentMonthly)
       }
     }
     
-    // Create analysis (include holding period outputs if calculated)
+    // Score against the user's buy box as of this analysis
+    const buyBox = await buyBoxRepository.findByUserId(userId)
+    const buyBoxScore = buyBox
+      ? scoreBuyBox(buyBox, getBuyBoxProperty(scenarioDeal, { inputs, outputs, holdingPeriodOutputs: holdingPeriodAnalysis || undefined }))
+      : null
+    
+    // Create analysis (include holding period and Monte Carlo outputs if calculated)
     const analysis = await analysisRepository.create({
       dealId: params.id,
       userId,
       inputs,
       outputs,
       holdingPeriodOutputs: holdingPeriodAnalysis || undefined,
+      monteCarloOutputs: monteCarloAnalysis || undefined,
       assumptionsSnapshot: {
         ...inputs,
         holdingPeriodYears: validated.holdingPeriodYears,
@@ -108,14 +117,24 @@ export async function POST(
         rentGrowthRate: validated.rentGrowthRate,
         expenseGrowthRate: validated.expenseGrowthRate,
         sellingCostRate: validated.sellingCostRate,
+        exitValuation: validated.exitValuation ?? { method: 'appreciation' },
+        renterInvestmentReturn: validated.renterInvestmentReturn,
+        refinance: validated.refinance,
+        monteCarlo: validated.monteCarlo,
+        tax: validated.tax,
+        returnMetrics: validated.returnMetrics,
+        partnership: validated.partnership,
         calculatedAt: new Date().toISOString(),
       },
       version: 'v1',
+      scenarioId: scenario?.id ?? null,
+      buyBoxScore,
     })
     
     return NextResponse.json({ 
       analysis,
       holdingPeriodAnalysis,
+      monteCarloAnalysis,
       primaryResidenceOutputs,
       primaryResidenceHoldingPeriod,
     }, { status: 201 })
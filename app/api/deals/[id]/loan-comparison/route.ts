@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserId } from '@/lib/auth'
+import { dealRepository } from '@/lib/repositories'
+import { loanComparisonSchema } from '@/lib/schemas'
+import { compareLoanOffers } from '@/lib/underwriting/loan-comparison'
+import { buildUnderwritingInputs, buildHoldingPeriodInputs } from '@/lib/analysis-inputs'
+
+// POST /api/deals/[id]/loan-comparison
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await getCurrentUserId()
+    const body = await request.json()
+    
+    // Verify deal exists
+    const deal = await dealRepository.findById(params.id, userId)
+    if (!deal) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Validate inputs
+    const validated = loanComparisonSchema.parse(body)
+    
+    // Prepare property inputs (each offer replaces the financing)
+    const inputs = buildUnderwritingInputs(validated)
+    
+    const loanComparison = compareLoanOffers({
+      underwritingInputs: inputs,
+      holdingPeriod: validated.holdingPeriodYears ? buildHoldingPeriodInputs(validated, inputs) : undefined,
+      offers: validated.offers,
+    })
+    
+    return NextResponse.json({ loanComparison })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error comparing loan offers:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare loan offers' },
+      { status: 500 }
+    )
+  }
+}
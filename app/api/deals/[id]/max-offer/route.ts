@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserId } from '@/lib/auth'
+import { dealRepository } from '@/lib/repositories'
+import { maxOfferSchema } from '@/lib/schemas'
+import { calculateMaxOffer } from '@/lib/underwriting/solver'
+import { buildUnderwritingInputs, buildHoldingPeriodInputs } from '@/lib/analysis-inputs'
+
+// POST /api/deals/[id]/max-offer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await getCurrentUserId()
+    const body = await request.json()
+    
+    // Verify deal exists
+    const deal = await dealRepository.findById(params.id, userId)
+    if (!deal) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Validate inputs
+    const validated = maxOfferSchema.parse(body)
+    
+    // Prepare inputs (purchase price is the starting point; the solver varies it)
+    const inputs = buildUnderwritingInputs(validated)
+    
+    const maxOffer = calculateMaxOffer({
+      underwritingInputs: inputs,
+      holdingPeriod: validated.holdingPeriodYears ? buildHoldingPeriodInputs(validated, inputs) : undefined,
+      targets: validated.targets,
+    })
+    
+    return NextResponse.json({ maxOffer })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error solving max offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to solve max offer' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserId } from '@/lib/auth'
+import { dealRepository } from '@/lib/repositories'
+import { sensitivitySchema } from '@/lib/schemas'
+import {
+  calculateSensitivityGrid,
+  calculateTornado,
+  getDefaultTornadoRanges
+} from '@/lib/underwriting/sensitivity'
+import { buildHoldingPeriodInputs, buildUnderwritingInputs } from '@/lib/analysis-inputs'
+import { SensitivityGrid, TornadoOutputs } from '@/lib/types'
+
+// POST /api/deals/[id]/sensitivity
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await getCurrentUserId()
+    const body = await request.json()
+    
+    // Verify deal exists
+    const deal = await dealRepository.findById(params.id, userId)
+    if (!deal) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Validate inputs
+    const validated = sensitivitySchema.parse(body)
+    
+    // Prepare inputs (the base case each sensitivity varies from)
+    const inputs = buildUnderwritingInputs(validated)
+    
+    const holdingPeriodInputs = buildHoldingPeriodInputs(validated, inputs)
+    
+    let grid: SensitivityGrid | null = null
+    let tornado: TornadoOutputs | null = null
+    
+    if (validated.grid) {
+      grid = calculateSensitivityGrid(
+        holdingPeriodInputs,
+        validated.grid.rowAxis,
+        validated.grid.columnAxis,
+        validated.grid.metric
+      )
+    }
+    
+    if (validated.tornado) {
+      tornado = calculateTornado(
+        holdingPeriodInputs,
+        validated.tornado.ranges || getDefaultTornadoRanges(holdingPeriodInputs),
+        validated.tornado.metric
+      )
+    }
+    
+    return NextResponse.json({ grid, tornado })
+  } catch (error: any) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error running sensitivity analysis:', error)
+    return NextResponse.json(
+      { error: 'Failed to run sensitivity analysis' },
+      { status: 500 }
+    )
+  }
+}
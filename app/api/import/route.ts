@@ -159,12 +159,34 @@ export async function POST(request: NextRequest) {
       purchaseType: validated.purchaseType,
       purchasePrice: validated.extractedData.listPrice || null,
       closingCostRate: 3.0,
+      closingCostItems: [],
+      sellerConcessions: null,
+      lenderCredits: null,
       rehabCost: 0, // Always assume $0 rehab
+      rehabMonths: null,
+      rehabHoldingCostsMonthly: null,
+      leaseUpMonths: null,
+      bridgeLoanAmount: null,
+      bridgeLoanRate: null,
+      bridgeLoanPoints: null,
+      bridgeInterestReserveMonths: null,
       downPaymentPct: validated.downPaymentPct,
       interestRate: 7.0,
       termYears: 30,
       pmiEnabled: false,
       pmiMonthly: null,
+      loanProgram: null,
+      creditTier: null,
+      vaSubsequentUse: false,
+      vaFundingFeeExempt: false,
+      loanType: null,
+      interestOnlyYears: null,
+      armFixedYears: null,
+      armAdjustedRate: null,
+      armPeriodicCap: null,
+      armLifetimeCap: null,
+      balloonYears: null,
+      financingTranches: [],
       insuranceAnnual: estimatedInsurance,
       utilitiesMonthly: null,
       rentMonthly: estimatedRent,
@@ -172,15 +194,78 @@ export async function POST(request: NextRequest) {
       numberOfUnits: null, // Will be set by user if multi-family
       rentPerUnit: null,
       vacancyRatePerUnit: null,
+      ownerUnitMarketRent: null,
+      moveOutYear: null,
+      rentRoll: [],
+      rentalStrategy: null,
+      strAverageDailyRate: null,
+      strMonthlyOccupancy: [],
+      strAverageStayNights: null,
+      strCleaningFeePerStay: null,
+      strPlatformFeeRate: null,
+      strSuppliesMonthly: null,
+      strFurnishingCost: null,
+      strManagementRate: null,
       vacancyRate: vacancyRate,
       maintenanceRate: 8.0,
       capexRate: 5.0,
+      capexSchedule: [],
+      capexReserveMonthly: null,
       managementRate: managementRate,
       holdingPeriodYears: null,
       appreciationRate: null,
       rentGrowthRate: null,
       expenseGrowthRate: null,
       sellingCostRate: null,
+      discountRate: null,
+      mirrFinanceRate: null,
+      mirrReinvestmentRate: null,
+      closingDate: null,
+      renterInvestmentReturn: null,
+      exitValuationMethod: null,
+      exitCapRate: null,
+      exitCapRateExpansion: null,
+      exitGrossRentMultiplier: null,
+      afterRepairValue: null,
+      flipMonthsToSell: null,
+      flipLoanPointsPct: null,
+      valueAddEnabled: false,
+      stabilizedRentMonthly: null,
+      stabilizationMonth: null,
+      refinanceEnabled: false,
+      refinanceMonth: null,
+      refinanceAppraisedValue: null,
+      refinanceLtv: null,
+      refinanceInterestRate: null,
+      refinanceTermYears: null,
+      refinanceClosingCostRate: null,
+      monteCarloEnabled: false,
+      monteCarloTrials: null,
+      monteCarloSeed: null,
+      appreciationVolatility: null,
+      rentGrowthVolatility: null,
+      expenseGrowthVolatility: null,
+      vacancyVolatility: null,
+      taxAnalysisEnabled: false,
+      marginalTaxRate: null,
+      capitalGainsRate: null,
+      landValuePct: null,
+      depreciationYears: null,
+      costSegregationPct: null,
+      bonusDepreciationPct: null,
+      partnershipEnabled: false,
+      lpEquityPct: null,
+      preferredReturn: null,
+      promoteTiers: [],
+      acquisitionFeePct: null,
+      assetManagementFeePct: null,
+      targetCashOnCash: null,
+      targetDscr: null,
+      targetCashFlowMonthly: null,
+      targetCapRate: null,
+      targetIrr: null,
+      loanOffers: [],
+      scenarios: [],
       notes: null,
     }
     
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { shareRepository, dealRepository, analysisRepository } from '@/lib/repositories'
+import { listScenarioAnalyses } from '@/lib/scenarios'
 
 // GET /api/share/[token] - Public route (no auth required)
 export async function GET(
@@ -25,13 +26,15 @@ export async function GET(
       )
     }
     
-    // Get latest analysis
+    // Latest analysis of each scenario; the primary scenario's is shown first
     const analyses = await analysisRepository.findByDealId(shareLink.dealId, shareLink.userId)
-    const latestAnalysis = analyses.length > 0 ? analyses[0] : null
+    const scenarios = listScenarioAnalyses(deal, analyses)
+    const primary = scenarios.find((scenario) => scenario.isPrimary)
     
     return NextResponse.json({
       deal,
-      analysis: latestAnalysis,
+      analysis: primary?.analysis ?? null,
+      scenarios,
       shareLink,
     })
   } catch (error) {
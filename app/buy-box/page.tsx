@@ -0,0 +1,296 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AppHeader } from '@/components/AppHeader'
+import { BUY_BOX_METRIC_LABELS } from '@/lib/buy-box'
+import { BuyBox, BuyBoxMetric } from '@/lib/types'
+
+interface CriterionRow {
+  metric: BuyBoxMetric
+  operator: 'min' | 'max'
+  threshold: string
+  weight: string
+}
+
+// Starting point until a buy box is saved
+const DEFAULT_CRITERIA: CriterionRow[] = [
+  { metric: 'cashOnCash', operator: 'min', threshold: '8', weight: '2' },
+  { metric: 'dscr', operator: 'min', threshold: '1.25', weight: '2' },
+  { metric: 'purchasePrice', operator: 'max', threshold: '400000', weight: '1' },
+]
+
+const splitList = (value: string) =>
+  value.split(/[\s,]+/).map((item) => item.trim()).filter(Boolean)
+
+export default function BuyBoxPage() {
+  const [criteria, setCriteria] = useState<CriterionRow[]>(DEFAULT_CRITERIA)
+  const [states, setStates] = useState('')
+  const [zips, setZips] = useState('')
+  const [locationWeight, setLocationWeight] = useState('1')
+  const [passingScore, setPassingScore] = useState('70')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchBuyBox = async () => {
+      try {
+        const res = await fetch('/api/buy-box')
+        if (res.ok) {
+          const data = await res.json()
+          const buyBox: BuyBox | null = data.buyBox
+          if (buyBox) {
+            setCriteria(buyBox.criteria.map((criterion) => ({
+              metric: criterion.metric,
+              operator: criterion.operator,
+              threshold: String(criterion.threshold),
+              weight: String(criterion.weight),
+            })))
+            setStates(buyBox.states.join(', '))
+            setZips(buyBox.zips.join(', '))
+            setLocationWeight(String(buyBox.locationWeight))
+            setPassingScore(String(buyBox.passingScore))
+            setSavedAt(buyBox.updatedAt)
+          }
+        }
+      } catch (err) {
+        console.error('Error fetching buy box:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchBuyBox()
+  }, [])
+
+  const updateCriterion = (index: number, updates: Partial<CriterionRow>) => {
+    setCriteria((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSaving(true)
+
+    try {
+      const payload = {
+        criteria: criteria
+          .filter((row) => row.threshold !== '')
+          .map((row) => ({
+            metric: row.metric,
+            operator: row.operator,
+            threshold: parseFloat(row.threshold),
+            weight: parseFloat(row.weight) || 0,
+          })),
+        states: splitList(states).map((state) => state.toUpperCase()),
+        zips: splitList(zips),
+        locationWeight: parseFloat(locationWeight) || 0,
+        passingScore: parseFloat(passingScore) || 0,
+      }
+
+      const res = await fetch('/api/buy-box', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save buy box')
+      }
+      setSavedAt(data.buyBox.updatedAt)
+    } catch (err: any) {
+      setError(err.message || 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Buy Box</h1>
+          <p className="mt-2 text-gray-600">
+            Every deal is scored by the weighted share of these checks it passes. Checks without data yet
+            (e.g. IRR before an analysis) are left out of the score.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading buy box...</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Criteria</h2>
+              <div className="space-y-2">
+                {criteria.map((row, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={row.metric}
+                      onChange={(e) => updateCriterion(index, { metric: e.target.value as BuyBoxMetric })}
+                      className={inputClass}
+                      disabled={saving}
+                    >
+                      {Object.entries(BUY_BOX_METRIC_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={row.operator}
+                      onChange={(e) => updateCriterion(index, { operator: e.target.value as 'min' | 'max' })}
+                      className={inputClass}
+                      disabled={saving}
+                    >
+                      <option value="min">≥</option>
+                      <option value="max">≤</option>
+                    </select>
+                    <input
+                      type="number"
+                      step="any"
+                      value={row.threshold}
+                      onChange={(e) => updateCriterion(index, { threshold: e.target.value })}
+                      className={`${inputClass} w-32`}
+                      aria-label="Threshold"
+                      disabled={saving}
+                    />
+                    <label className="text-sm text-gray-600">Weight</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="any"
+                      value={row.weight}
+                      onChange={(e) => updateCriterion(index, { weight: e.target.value })}
+                      className={`${inputClass} w-20`}
+                      disabled={saving}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setCriteria((prev) => prev.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-800 font-medium"
+                      disabled={saving}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {criteria.length < 20 && (
+                <button
+                  type="button"
+                  onClick={() => setCriteria((prev) => [...prev, { metric: 'cashFlowMonthly', operator: 'min', threshold: '', weight: '1' }])}
+                  className="mt-3 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  disabled={saving}
+                >
+                  + Add criterion
+                </button>
+              )}
+            </div>
+
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Location</h2>
+              <p className="text-sm text-gray-500 mb-3">
+                A deal passes when it is in any listed state or any listed zip. Leave both empty to skip this check.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor="states" className="block text-sm font-medium text-gray-700 mb-1">States</label>
+                  <input
+                    id="states"
+                    type="text"
+                    value={states}
+                    onChange={(e) => setStates(e.target.value)}
+                    placeholder="OH, IN"
+                    className={`${inputClass} w-full`}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="zips" className="block text-sm font-medium text-gray-700 mb-1">Zips</label>
+                  <input
+                    id="zips"
+                    type="text"
+                    value={zips}
+                    onChange={(e) => setZips(e.target.value)}
+                    placeholder="43215, 46201"
+                    className={`${inputClass} w-full`}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="locationWeight" className="block text-sm font-medium text-gray-700 mb-1">Weight</label>
+                  <input
+                    id="locationWeight"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="any"
+                    value={locationWeight}
+                    onChange={(e) => setLocationWeight(e.target.value)}
+                    className={`${inputClass} w-full`}
+                    disabled={saving}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="passingScore" className="block text-sm font-medium text-gray-700 mb-1">
+                Passing Score
+              </label>
+              <div className="relative w-32">
+                <input
+                  id="passingScore"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={passingScore}
+                  onChange={(e) => setPassingScore(e.target.value)}
+                  className={`${inputClass} w-full`}
+                  disabled={saving}
+                />
+                <span className="absolute right-3 top-2 text-gray-500">%</span>
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <div className="flex items-center gap-4">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                {saving ? 'Saving...' : 'Save Buy Box'}
+              </button>
+              {savedAt && (
+                <span className="text-sm text-gray-500">Saved {new Date(savedAt).toLocaleString()}</span>
+              )}
+            </div>
+          </form>
+        )}
+
+        <div className="mt-6">
+          <Link
+            href="/dashboard"
+            className="text-blue-600 hover:text-blue-700 font-medium"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,9 @@ import Link from 'next/link'
 import { Deal, Analysis } from '@/lib/types'
 import { AppHeader } from '@/components/AppHeader'
 import { useAuth } from '@/components/AuthProvider'
+import { ScreeningChips } from '@/components/ScreeningChips'
+import { screenDeal } from '@/lib/underwriting/screening'
+import { findLatestAnalysis, getPrimaryScenarioId } from '@/lib/scenarios'
 
 const MAX_COMPARE = 5
 const MIN_COMPARE = 2
@@ -74,13 +77,8 @@ function CompareContent() {
           let latestAnalysis: Analysis | null = null
           if (analysesRes.ok) {
             const analysesData = await analysesRes.json()
-            if (analysesData.analyses?.length > 0) {
-              const sorted = analysesData.analyses.sort(
-                (a: Analysis, b: Analysis) =>
-                  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-              )
-              latestAnalysis = sorted[0]
-            }
+            // Compare the primary scenario, as on the dashboard
+            latestAnalysis = findLatestAnalysis(analysesData.analyses || [], getPrimaryScenarioId(deal))
           }
           results.push({ deal, latestAnalysis })
         } catch (e) {
@@ -229,6 +227,17 @@ function CompareContent() {
                   </td>
                 ))}
               </tr>
+              <tr className="bg-gray-50">
+                <td className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">Quick Screen</td>
+                {dealsWithAnalyses.map(({ deal }) => {
+                  const screening = screenDeal(deal)
+                  return (
+                    <td key={deal.id} className="px-4 py-2 text-sm text-gray-900">
+                      {screening ? <ScreeningChips screening={screening} /> : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
               {/* Year 1 metrics */}
               <tr className="bg-blue-50/50">
                 <td colSpan={dealsWithAnalyses.length + 1} className="px-4 py-2 text-xs font-semibold text-gray-600 uppercase">
@@ -317,6 +326,63 @@ function CompareContent() {
                   </td>
                 ))}
               </tr>
+              <tr>
+                <td className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">NPV</td>
+                {dealsWithAnalyses.map(({ deal, latestAnalysis }) => {
+                  const returnMetrics = latestAnalysis?.holdingPeriodOutputs?.returnMetrics
+                  return (
+                    <td key={deal.id} className="px-4 py-2 text-sm">
+                      {returnMetrics ? (
+                        <span className={metricClass(returnMetrics.npv, (v) => v > 0, (v) => v === 0)}>
+                          {formatCurrency(returnMetrics.npv)}
+                          <span className="text-xs text-gray-500"> @ {returnMetrics.discountRate}%</span>
+                        </span>
+                      ) : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
+              <tr className="bg-gray-50">
+                <td className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">MIRR</td>
+                {dealsWithAnalyses.map(({ deal, latestAnalysis }) => {
+                  const returnMetrics = latestAnalysis?.holdingPeriodOutputs?.returnMetrics
+                  return (
+                    <td key={deal.id} className="px-4 py-2 text-sm">
+                      {returnMetrics ? (
+                        <span className={metricClass(returnMetrics.mirr, (v) => v > 12, (v) => v > 8)}>
+                          {returnMetrics.mirr.toFixed(1)}%
+                        </span>
+                      ) : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
+              <tr>
+                <td className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">XIRR</td>
+                {dealsWithAnalyses.map(({ deal, latestAnalysis }) => {
+                  const xirr = latestAnalysis?.holdingPeriodOutputs?.returnMetrics?.xirr
+                  return (
+                    <td key={deal.id} className="px-4 py-2 text-sm">
+                      {xirr !== undefined ? (
+                        <span className={metricClass(xirr, (v) => v > 15, (v) => v > 10)}>{xirr.toFixed(1)}%</span>
+                      ) : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
+              <tr className="bg-gray-50">
+                <td className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">Payback</td>
+                {dealsWithAnalyses.map(({ deal, latestAnalysis }) => {
+                  const returnMetrics = latestAnalysis?.holdingPeriodOutputs?.returnMetrics
+                  return (
+                    <td key={deal.id} className="px-4 py-2 text-sm text-gray-900">
+                      {returnMetrics
+                        ? returnMetrics.paybackYear !== null ? `Year ${returnMetrics.paybackYear}` : 'Not within hold'
+                        : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
               <tr>
                 <td className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">Equity Multiple</td>
                 {dealsWithAnalyses.map(({ deal, latestAnalysis }) => (
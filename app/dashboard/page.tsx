@@ -3,9 +3,14 @@
 import { useEffect, useState, useMemo, Suspense } from 'react'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { Deal, ImportStatus, PurchaseType, Analysis } from '@/lib/types'
+import { Deal, ImportStatus, PurchaseType, Analysis, ScreeningOutputs, BuyBox, BuyBoxScore } from '@/lib/types'
 import { useAuth } from '@/components/AuthProvider'
 import { AppHeader } from '@/components/AppHeader'
+import { ScreeningChips } from '@/components/ScreeningChips'
+import { BuyBoxBadge } from '@/components/BuyBoxBadge'
+import { scoreDeal } from '@/lib/buy-box'
+import { findLatestAnalysis, getPrimaryScenarioId } from '@/lib/scenarios'
+import { screenDeal } from '@/lib/underwriting/screening'
 
 const statusColors: Record<ImportStatus, string> = {
   success: 'bg-green-100 text-green-800',
@@ -25,6 +30,7 @@ const purchaseTypeLabels: Record<PurchaseType, string> = {
   primary_residence: 'Primary Residence',
   investment_property: 'Investment Property',
   house_hack: 'House Hack',
+  flip: 'Fix and Flip',
   vacation_home: 'Vacation Home',
   other: 'Other',
 }
@@ -33,6 +39,7 @@ type SortOption =
   | 'date_desc' | 'date_asc' 
   | 'price_desc' | 'price_asc' 
   | 'address_asc' 
+  | 'buy_box_desc'
   | 'cap_rate_desc' | 'cash_flow_desc' | 'coc_desc'
   | 'irr_desc' | 'equity_multiple_desc' | 'total_roi_desc' | 'total_profit_desc'
 
@@ -42,6 +49,7 @@ const sortLabels: Record<SortOption, string> = {
   price_desc: 'Price: High to Low',
   price_asc: 'Price: Low to High',
   address_asc: 'Address: A to Z',
+  buy_box_desc: 'Buy Box Score: High to Low',
   cap_rate_desc: 'Cap Rate: High to Low',
   cash_flow_desc: 'Cash Flow: High to Low',
   coc_desc: 'Cash-on-Cash: High to Low',
@@ -53,8 +61,12 @@ const sortLabels: Record<SortOption, string> = {
 
 interface DealWithAnalysis extends Deal {
   latestAnalysis?: Analysis
+  screening?: ScreeningOutputs | null
+  buyBoxScore?: BuyBoxScore | null
 }
 
+type BuyBoxFilter = 'all' | 'passing' | 'failing'
+
 function DashboardContent() {
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -67,6 +79,8 @@ function DashboardContent() {
   const [sortBy, setSortBy] = useState<SortOption>('date_desc')
   const [filterPurchaseType, setFilterPurchaseType] = useState<PurchaseType | 'all'>('all')
   const [filterImportStatus, setFilterImportStatus] = useState<ImportStatus | 'all'>('all')
+  const [buyBox, setBuyBox] = useState<BuyBox | null>(null)
+  const [filterBuyBox, setFilterBuyBox] = useState<BuyBoxFilter>('all')
   const [showUpgradeSuccess, setShowUpgradeSuccess] = useState(false)
   const [extensionInstalled, setExtensionInstalled] = useState(false)
   const [selectedDealIds, setSelectedDealIds] = useState<Set<string>>(new Set())
@@ -109,8 +123,11 @@ function DashboardContent() {
   const fetchDeals = async () => {
     setLoading(true)
     try {
-      const res = await fetch('/api/deals')
+      const [res, buyBoxRes] = await Promise.all([fetch('/api/deals'), fetch('/api/buy-box')])
       const data = await res.json()
+      const buyBoxData = buyBoxRes.ok ? await buyBoxRes.json() : null
+      const userBuyBox: BuyBox | null = buyBoxData?.buyBox ?? null
+      setBuyBox(userBuyBox)
       const rawDeals: unknown[] = data.deals || []
       const dealsData: DealWithAnalysis[] = rawDeals.filter(
         (d): d is DealWithAnalysis => d != null && typeof (d as Deal)?.id === 'string'
@@ -123,12 +140,10 @@ function DashboardContent() {
             const analysisRes = await fetch(`/api/deals/${deal.id}/analyses`)
             if (analysisRes.ok) {
               const analysisData = await analysisRes.json()
-              if (analysisData.analyses && analysisData.analyses.length > 0) {
-                // Get the most recent analysis
-                const sorted = analysisData.analyses.sort(
-                  (a: Analysis, b: Analysis) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-                )
-                return { ...deal, latestAnalysis: sorted[0] }
+              // Show the most recent analysis of the primary scenario
+              const latestAnalysis = findLatestAnalysis(analysisData.analyses || [], getPrimaryScenarioId(deal))
+              if (latestAnalysis) {
+                return { ...deal, latestAnalysis }
               }
             }
           } catch (e) {
@@ -138,7 +153,12 @@ function DashboardContent() {
         })
       )
       
-      setDeals(dealsWithAnalyses)
+      // Score live against the current buy box (it may have changed since the analysis ran)
+      setDeals(dealsWithAnalyses.map((deal) => ({
+        ...deal,
+        screening: screenDeal(deal),
+        buyBoxScore: userBuyBox ? scoreDeal(userBuyBox, deal, deal.latestAnalysis ?? null) : null,
+      })))
     } catch (error) {
       console.error('Error fetching deals:', error)
     } finally {
@@ -171,6 +191,11 @@ function DashboardContent() {
       result = result.filter(deal => deal.importStatus === filterImportStatus)
     }
     
+    // Apply buy box filter
+    if (filterBuyBox !== 'all') {
+      result = result.filter(deal => (deal.buyBoxScore?.passes ?? false) === (filterBuyBox === 'passing'))
+    }
+    
     // Apply sorting
     result.sort((a, b) => {
       switch (sortBy) {
@@ -184,6 +209,8 @@ function DashboardContent() {
           return (a.listPrice || 0) - (b.listPrice || 0)
         case 'address_asc':
           return (a.address || '').localeCompare(b.address || '')
+        case 'buy_box_desc':
+          return (b.buyBoxScore?.score ?? -Infinity) - (a.buyBoxScore?.score ?? -Infinity)
         case 'cap_rate_desc':
           const aCapRate = a.latestAnalysis?.outputs?.capRate ?? -Infinity
           const bCapRate = b.latestAnalysis?.outputs?.capRate ?? -Infinity
@@ -218,7 +245,7 @@ function DashboardContent() {
     })
     
     return result
-  }, [deals, searchQuery, filterPurchaseType, filterImportStatus, sortBy])
+  }, [deals, searchQuery, filterPurchaseType, filterImportStatus, filterBuyBox, sortBy])
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -417,6 +444,7 @@ function DashboardContent() {
                 <option value="price_desc">Price: High to Low</option>
                 <option value="price_asc">Price: Low to High</option>
                 <option value="address_asc">Address: A to Z</option>
+                {buyBox && <option value="buy_box_desc">Buy Box Score: High to Low</option>}
               </optgroup>
               <optgroup label="Year 1 Metrics">
                 <option value="cap_rate_desc">Cap Rate: High to Low</option>
@@ -464,13 +492,34 @@ function DashboardContent() {
             </select>
           </div>
           
-          {(filterPurchaseType !== 'all' || filterImportStatus !== 'all' || searchQuery) && (
+          <div className="w-px h-6 bg-gray-300 hidden sm:block" />
+          
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-gray-700">Buy Box:</label>
+            {buyBox && (
+              <select
+                value={filterBuyBox}
+                onChange={(e) => setFilterBuyBox(e.target.value as BuyBoxFilter)}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+              >
+                <option value="all">All</option>
+                <option value="passing">Passing</option>
+                <option value="failing">Failing</option>
+              </select>
+            )}
+            <Link href="/buy-box" className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+              {buyBox ? 'Edit' : 'Set up'}
+            </Link>
+          </div>
+          
+          {(filterPurchaseType !== 'all' || filterImportStatus !== 'all' || filterBuyBox !== 'all' || searchQuery) && (
             <>
               <div className="w-px h-6 bg-gray-300 hidden sm:block" />
               <button
                 onClick={() => {
                   setFilterPurchaseType('all')
                   setFilterImportStatus('all')
+                  setFilterBuyBox('all')
                   setSearchQuery('')
                 }}
                 className="text-sm text-blue-600 hover:text-blue-800 font-medium"
@@ -492,11 +541,11 @@ function DashboardContent() {
         ) : filteredAndSortedDeals.length === 0 ? (
           <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
             <p className="text-gray-500 mb-4">
-              {searchQuery || filterPurchaseType !== 'all' || filterImportStatus !== 'all' 
+              {searchQuery || filterPurchaseType !== 'all' || filterImportStatus !== 'all' || filterBuyBox !== 'all'
                 ? 'No deals found matching your filters.' 
                 : 'No deals yet.'}
             </p>
-            {!searchQuery && filterPurchaseType === 'all' && filterImportStatus === 'all' && (
+            {!searchQuery && filterPurchaseType === 'all' && filterImportStatus === 'all' && filterBuyBox === 'all' && (
               <Link
                 href="/deals/new"
                 className="inline-block px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -542,6 +591,7 @@ function DashboardContent() {
                           {purchaseTypeLabels[deal.purchaseType]}
                         </span>
                       )}
+                      {deal.buyBoxScore && <BuyBoxBadge score={deal.buyBoxScore} />}
                     </div>
                     <div className="flex flex-wrap gap-4 text-sm text-gray-600 mt-2">
                       <span>List Price: {formatCurrency(deal.listPrice)}</span>
@@ -558,6 +608,13 @@ function DashboardContent() {
                       )}
                     </div>
                     
+                    {/* Quick screen (rules of thumb, no analysis needed) */}
+                    {deal.screening && (
+                      <div className="mt-3">
+                        <ScreeningChips screening={deal.screening} />
+                      </div>
+                    )}
+                    
                     {/* Analysis Metrics */}
                     {deal.latestAnalysis && (
                       <div className="flex flex-wrap gap-4 mt-3 pt-3 border-t border-gray-100">
@@ -3,17 +3,100 @@
 import { useEffect, useState, useRef } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
-import { Deal, Analysis, HoldingPeriodOutputs, PrimaryResidenceOutputs, PrimaryResidenceHoldingPeriodOutputs } from '@/lib/types'
+import { Deal, Analysis, CapexItem, ClosingCostCategory, ClosingCostItem, DealScenario, ExitValuationMethod, FinancingTranche, LoanOffer, LoanOfferResult, LoanProgram, PromoteTier, RentRollUnit, HoldingPeriodOutputs, MonteCarloOutputs, MaxOfferResult, MaxOfferTarget, SensitivityAxis, SensitivityGrid, SensitivityMetric, SensitivityVariable, TornadoOutputs, PrimaryResidenceOutputs, PrimaryResidenceHoldingPeriodOutputs } from '@/lib/types'
 import { AppHeader } from '@/components/AppHeader'
+import { BuyBoxBadge } from '@/components/BuyBoxBadge'
+import { FanChart } from '@/components/FanChart'
+import { SensitivityHeatmap } from '@/components/SensitivityHeatmap'
+import { TornadoChart } from '@/components/TornadoChart'
+import { MetricTraceDetails } from '@/components/MetricTraceDetails'
+import { deriveRentRollInputs } from '@/lib/underwriting/engine'
+import { LOAN_PROGRAM_MIN_DOWN_PAYMENT } from '@/lib/underwriting/loan-programs'
+import { addMonths } from '@/lib/underwriting/returns'
+import { applyScenario, findLatestAnalysis, findScenario, listScenarioAnalyses } from '@/lib/scenarios'
+
+const MAX_OFFER_TARGET_LABELS: Record<MaxOfferTarget, string> = {
+  minCashOnCash: 'Cash-on-Cash',
+  minDscr: 'DSCR',
+  minCashFlowMonthly: 'Monthly Cash Flow',
+  minCapRate: 'Cap Rate',
+  minIrr: 'IRR',
+}
+
+const CLOSING_COST_CATEGORY_LABELS: Record<ClosingCostCategory, string> = {
+  origination: 'Origination',
+  points: 'Points',
+  appraisal: 'Appraisal',
+  title: 'Title',
+  escrow: 'Escrow / Prepaids',
+  transfer_tax: 'Transfer Taxes',
+  other: 'Other',
+}
+
+const EXIT_VALUATION_LABELS: Record<ExitValuationMethod, string> = {
+  appreciation: 'Appreciation',
+  cap_rate: 'Exit Cap Rate',
+  grm: 'Gross Rent Multiplier',
+}
+
+const BUYDOWN_LABELS: Record<LoanOffer['buydown'], string> = {
+  'none': 'None',
+  '2-1': '2-1',
+  '1-0': '1-0',
+}
+
+const SENSITIVITY_VARIABLES: Record<SensitivityVariable, { label: string; currency: boolean }> = {
+  purchasePrice: { label: 'Purchase Price', currency: true },
+  downPaymentPct: { label: 'Down Payment', currency: false },
+  interestRate: { label: 'Interest Rate', currency: false },
+  rehabCost: { label: 'Rehab Cost', currency: true },
+  rentMonthly: { label: 'Monthly Rent', currency: true },
+  vacancyRate: { label: 'Vacancy', currency: false },
+  taxesAnnual: { label: 'Property Taxes', currency: true },
+  insuranceAnnual: { label: 'Insurance', currency: true },
+  maintenanceRate: { label: 'Maintenance', currency: false },
+  capexRate: { label: 'CapEx', currency: false },
+  managementRate: { label: 'Management', currency: false },
+  appreciationRate: { label: 'Appreciation', currency: false },
+  rentGrowthRate: { label: 'Rent Growth', currency: false },
+  expenseGrowthRate: { label: 'Expense Growth', currency: false },
+  sellingCostRate: { label: 'Selling Costs', currency: false },
+  exitCapRate: { label: 'Exit Cap Rate', currency: false },
+}
+
+const SENSITIVITY_METRICS: Record<SensitivityMetric, { label: string; format: 'currency' | 'percent' | 'ratio' }> = {
+  cashFlowMonthly: { label: 'Monthly Cash Flow', format: 'currency' },
+  cashOnCash: { label: 'Cash-on-Cash', format: 'percent' },
+  capRate: { label: 'Cap Rate', format: 'percent' },
+  dscr: { label: 'DSCR', format: 'ratio' },
+  noiAnnual: { label: 'NOI (Annual)', format: 'currency' },
+  irr: { label: 'IRR', format: 'percent' },
+  equityMultiple: { label: 'Equity Multiple', format: 'ratio' },
+  totalProfit: { label: 'Total Profit', format: 'currency' },
+}
+
+const formatSensitivityVariable = (variable: SensitivityVariable, value: number) =>
+  SENSITIVITY_VARIABLES[variable].currency ? `$${Math.round(value).toLocaleString()}` : `${value.toFixed(2)}%`
+
+const formatSensitivityMetric = (metric: SensitivityMetric, value: number) => {
+  const { format } = SENSITIVITY_METRICS[metric]
+  if (format === 'currency') return `$${Math.round(value).toLocaleString()}`
+  if (format === 'percent') return `${value.toFixed(2)}%`
+  return `${value.toFixed(2)}x`
+}
 
 export default function DealDetailPage() {
   const router = useRouter()
   const params = useParams()
   const dealId = params.id as string
   
-  const [deal, setDeal] = useState<Deal | null>(null)
+  const [baseDeal, setDeal] = useState<Deal | null>(null)
   const [analysis, setAnalysis] = useState<Analysis | null>(null)
+  const [analyses, setAnalyses] = useState<Analysis[]>([])
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null)
+  const [newScenarioName, setNewScenarioName] = useState('')
   const [holdingPeriodAnalysis, setHoldingPeriodAnalysis] = useState<HoldingPeriodOutputs | null>(null)
+  const [monteCarloAnalysis, setMonteCarloAnalysis] = useState<MonteCarloOutputs | null>(null)
   const [primaryResidenceOutputs, setPrimaryResidenceOutputs] = useState<PrimaryResidenceOutputs | null>(null)
   const [primaryResidenceHoldingPeriod, setPrimaryResidenceHoldingPeriod] = useState<PrimaryResidenceHoldingPeriodOutputs | null>(null)
   const [loading, setLoading] = useState(true)
@@ -23,9 +106,23 @@ export default function DealDetailPage() {
   const [shareUrl, setShareUrl] = useState<string | null>(null)
   const [showCashFlowSchedule, setShowCashFlowSchedule] = useState(false)
   const [showAdvancedMetrics, setShowAdvancedMetrics] = useState(false)
+  const [maxOffer, setMaxOffer] = useState<MaxOfferResult | null>(null)
+  const [solvingMaxOffer, setSolvingMaxOffer] = useState(false)
+  const [loanComparison, setLoanComparison] = useState<LoanOfferResult[] | null>(null)
+  const [comparingLoans, setComparingLoans] = useState(false)
+  const [sensitivityRowAxis, setSensitivityRowAxis] = useState<SensitivityAxis | null>(null)
+  const [sensitivityColumnAxis, setSensitivityColumnAxis] = useState<SensitivityAxis | null>(null)
+  const [sensitivityMetric, setSensitivityMetric] = useState<SensitivityMetric>('cashFlowMonthly')
+  const [sensitivityGrid, setSensitivityGrid] = useState<SensitivityGrid | null>(null)
+  const [tornado, setTornado] = useState<TornadoOutputs | null>(null)
+  const [runningSensitivity, setRunningSensitivity] = useState(false)
   
   const fieldRefs = useRef<Record<string, HTMLInputElement | null>>({})
 
+  // Inputs shown, edited and analyzed are the active scenario's (the base deal when none is active)
+  const activeScenario = baseDeal ? findScenario(baseDeal, activeScenarioId) : null
+  const deal = baseDeal ? applyScenario(baseDeal, activeScenario) : null
+
   useEffect(() => {
     fetchDeal()
     fetchLatestAnalysis()
@@ -55,9 +152,11 @@ export default function DealDetailPage() {
       const res = await fetch(`/api/deals/${dealId}/analyses`)
       if (res.ok) {
         const data = await res.json()
-        if (data.analyses && data.analyses.length > 0) {
-          setAnalysis(data.analyses[0])
-        }
+        setAnalyses(data.analyses || [])
+        const latest = findLatestAnalysis(data.analyses || [], null)
+        setAnalysis(latest)
+        setHoldingPeriodAnalysis(latest?.holdingPeriodOutputs ?? null)
+        setMonteCarloAnalysis(latest?.monteCarloOutputs ?? null)
       }
     } catch (err) {
       // Analysis fetch is optional
@@ -102,7 +201,7 @@ export default function DealDetailPage() {
     }
   }
 
-  const handleInputChange = (field: keyof Deal, value: string | number | boolean | null) => {
+  const handleInputChange = (field: keyof Deal, value: string | number | boolean | number[] | FinancingTranche[] | RentRollUnit[] | CapexItem[] | ClosingCostItem[] | PromoteTier[] | LoanOffer[] | DealScenario[] | null) => {
     if (!deal) return
     
     let processedValue: any = value
@@ -117,15 +216,29 @@ export default function DealDetailPage() {
       }
     }
     
-    const updates = { [field]: processedValue }
-    // Use functional update to avoid stale closure issues when multiple handleInputChange calls happen
-    setDeal(prevDeal => prevDeal ? { ...prevDeal, ...updates } : prevDeal)
-    
     // Accumulate pending updates instead of replacing them
     if (!(window as any).pendingUpdates) {
       (window as any).pendingUpdates = {}
     }
-    (window as any).pendingUpdates[field] = processedValue
+    
+    if (activeScenarioId && field !== 'scenarios') {
+      // While a scenario is active, edits only change its overrides
+      setDeal(prevDeal => {
+        if (!prevDeal) return prevDeal
+        const scenarios = (prevDeal.scenarios || []).map((scenario) =>
+          scenario.id === activeScenarioId
+            ? { ...scenario, overrides: { ...scenario.overrides, [field]: processedValue } }
+            : scenario
+        )
+        ;(window as any).pendingUpdates.scenarios = scenarios
+        return { ...prevDeal, scenarios }
+      })
+    } else {
+      const updates = { [field]: processedValue }
+      // Use functional update to avoid stale closure issues when multiple handleInputChange calls happen
+      setDeal(prevDeal => prevDeal ? { ...prevDeal, ...updates } : prevDeal)
+      ;(window as any).pendingUpdates[field] = processedValue
+    }
     
     clearTimeout((window as any).saveTimeout)
     ;(window as any).saveTimeout = setTimeout(() => {
@@ -135,6 +248,433 @@ export default function DealDetailPage() {
     }, 1000)
   }
 
+  const handleSelectScenario = (scenarioId: string | null) => {
+    setActiveScenarioId(scenarioId)
+    // Results on screen belong to the previous scenario
+    const latest = findLatestAnalysis(analyses, scenarioId)
+    setAnalysis(latest)
+    setHoldingPeriodAnalysis(latest?.holdingPeriodOutputs ?? null)
+    setMonteCarloAnalysis(latest?.monteCarloOutputs ?? null)
+    setPrimaryResidenceOutputs(null)
+    setPrimaryResidenceHoldingPeriod(null)
+    setMaxOffer(null)
+    setLoanComparison(null)
+    setSensitivityGrid(null)
+    setTornado(null)
+  }
+
+  const handleAddScenario = () => {
+    if (!baseDeal) return
+    const name = newScenarioName.trim() || `Scenario ${(baseDeal.scenarios || []).length + 1}`
+    const newScenario: DealScenario = {
+      id: `scenario_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      overrides: {},
+      isPrimary: false,
+    }
+    handleInputChange('scenarios', [...(baseDeal.scenarios || []), newScenario])
+    setNewScenarioName('')
+    handleSelectScenario(newScenario.id)
+  }
+
+  const handleRemoveScenario = (scenarioId: string) => {
+    if (!baseDeal) return
+    handleInputChange('scenarios', (baseDeal.scenarios || []).filter((scenario) => scenario.id !== scenarioId))
+    if (activeScenarioId === scenarioId) handleSelectScenario(null)
+  }
+
+  // Marking the base scenario primary (null) clears the flag on every named scenario
+  const handleSetPrimaryScenario = (scenarioId: string | null) => {
+    if (!baseDeal) return
+    handleInputChange('scenarios', (baseDeal.scenarios || []).map((scenario) => ({ ...scenario, isPrimary: scenario.id === scenarioId })))
+  }
+
+  const handleClearScenarioOverride = (scenarioId: string, field: string) => {
+    if (!baseDeal) return
+    handleInputChange('scenarios', (baseDeal.scenarios || []).map((scenario) => {
+      if (scenario.id !== scenarioId) return scenario
+      const overrides = { ...scenario.overrides }
+      delete overrides[field as keyof typeof overrides]
+      return { ...scenario, overrides }
+    }))
+  }
+
+  const handleTrancheChange = (index: number, updates: Partial<FinancingTranche>) => {
+    if (!deal) return
+    const tranches = (deal.financingTranches || []).map((tranche, i) =>
+      i === index ? { ...tranche, ...updates } : tranche
+    )
+    handleInputChange('financingTranches', tranches)
+  }
+
+  const handleAddTranche = () => {
+    if (!deal) return
+    const tranches = deal.financingTranches || []
+    // Seed the first lien from the single-loan inputs
+    const newTranche: FinancingTranche = tranches.length === 0
+      ? {
+          type: 'first_mortgage',
+          amount: Math.round((deal.purchasePrice || 0) * (1 - (deal.downPaymentPct ?? 20) / 100)),
+          interestRate: deal.interestRate ?? 7,
+          termYears: deal.termYears ?? 30,
+          amortizationYears: deal.termYears ?? 30,
+        }
+      : { type: 'seller_carry', amount: 0, interestRate: 6, termYears: 5, amortizationYears: 30 }
+    handleInputChange('financingTranches', [...tranches, newTranche])
+  }
+
+  const handleRemoveTranche = (index: number) => {
+    if (!deal) return
+    handleInputChange('financingTranches', (deal.financingTranches || []).filter((_, i) => i !== index))
+  }
+
+  // Loan programs price PMI themselves and start at the program's minimum down payment
+  const handleLoanProgramChange = (program: LoanProgram | null) => {
+    if (!deal) return
+    handleInputChange('loanProgram', program)
+    if (program) {
+      handleInputChange('pmiEnabled', false)
+      const minDownPaymentPct = LOAN_PROGRAM_MIN_DOWN_PAYMENT[program]
+      if ((deal.downPaymentPct ?? 0) < minDownPaymentPct) {
+        handleInputChange('downPaymentPct', minDownPaymentPct)
+      }
+    }
+  }
+
+  // Rent roll edits keep the deal's unit count and total rent in sync
+  const handleRentRollUpdate = (units: RentRollUnit[]) => {
+    if (!deal) return
+    handleInputChange('rentRoll', units)
+    if (units.length > 0) {
+      handleInputChange('numberOfUnits', units.length)
+      handleInputChange('rentMonthly', deriveRentRollInputs(units, deal.vacancyRate ?? 0).rentMonthly)
+    }
+  }
+
+  const handleRentRollChange = (index: number, updates: Partial<RentRollUnit>) => {
+    if (!deal) return
+    handleRentRollUpdate((deal.rentRoll || []).map((unit, i) => (i === index ? { ...unit, ...updates } : unit)))
+  }
+
+  const handleAddRentRollUnit = () => {
+    if (!deal) return
+    const units = deal.rentRoll || []
+    const rent = deal.rentPerUnit ?? 0
+    // House hacks start with the owner's unit
+    const newUnit: RentRollUnit = {
+      label: `Unit ${units.length + 1}`,
+      beds: null,
+      baths: null,
+      currentRent: rent,
+      marketRent: rent,
+      leaseEndDate: null,
+      status: deal.purchaseType === 'house_hack' && !units.some((unit) => unit.status === 'owner_occupied') ? 'owner_occupied' : 'occupied',
+    }
+    handleRentRollUpdate([...units, newUnit])
+  }
+
+  const handleRemoveRentRollUnit = (index: number) => {
+    if (!deal) return
+    handleRentRollUpdate((deal.rentRoll || []).filter((_, i) => i !== index))
+  }
+
+  const handleClosingCostItemChange = (index: number, updates: Partial<ClosingCostItem>) => {
+    if (!deal) return
+    const items = (deal.closingCostItems || []).map((item, i) => (i === index ? { ...item, ...updates } : item))
+    handleInputChange('closingCostItems', items)
+  }
+
+  const handleAddClosingCostItem = () => {
+    if (!deal) return
+    const newItem: ClosingCostItem = { category: 'other', label: '', amount: 0 }
+    handleInputChange('closingCostItems', [...(deal.closingCostItems || []), newItem])
+  }
+
+  const handleRemoveClosingCostItem = (index: number) => {
+    if (!deal) return
+    handleInputChange('closingCostItems', (deal.closingCostItems || []).filter((_, i) => i !== index))
+  }
+
+  const handleLoanOfferChange = (index: number, updates: Partial<LoanOffer>) => {
+    if (!deal) return
+    const offers = (deal.loanOffers || []).map((offer, i) => (i === index ? { ...offer, ...updates } : offer))
+    handleInputChange('loanOffers', offers)
+  }
+
+  const handleAddLoanOffer = () => {
+    if (!deal) return
+    const newOffer: LoanOffer = {
+      label: `Offer ${(deal.loanOffers || []).length + 1}`,
+      interestRate: deal.interestRate ?? 7,
+      pointsPct: 0,
+      lenderCredit: 0,
+      buydown: 'none',
+      buydownPaidBy: 'buyer',
+    }
+    handleInputChange('loanOffers', [...(deal.loanOffers || []), newOffer])
+  }
+
+  const handleRemoveLoanOffer = (index: number) => {
+    if (!deal) return
+    handleInputChange('loanOffers', (deal.loanOffers || []).filter((_, i) => i !== index))
+  }
+
+  const handleCapexItemChange = (index: number, updates: Partial<CapexItem>) => {
+    if (!deal) return
+    const items = (deal.capexSchedule || []).map((item, i) => (i === index ? { ...item, ...updates } : item))
+    handleInputChange('capexSchedule', items)
+  }
+
+  const handleAddCapexItem = () => {
+    if (!deal) return
+    const newItem: CapexItem = { component: '', cost: 0, remainingLifeYears: 5, inflationRate: 3 }
+    handleInputChange('capexSchedule', [...(deal.capexSchedule || []), newItem])
+  }
+
+  const handleRemoveCapexItem = (index: number) => {
+    if (!deal) return
+    handleInputChange('capexSchedule', (deal.capexSchedule || []).filter((_, i) => i !== index))
+  }
+
+  const handlePromoteTierChange = (index: number, updates: Partial<PromoteTier>) => {
+    if (!deal) return
+    const tiers = (deal.promoteTiers || []).map((tier, i) => (i === index ? { ...tier, ...updates } : tier))
+    handleInputChange('promoteTiers', tiers)
+  }
+
+  const handleAddPromoteTier = () => {
+    if (!deal) return
+    const tiers = deal.promoteTiers || []
+    // Each new tier starts a few points above the last hurdle with a larger promote
+    const last = tiers[tiers.length - 1]
+    const newTier: PromoteTier = last
+      ? { irrHurdle: last.irrHurdle + 4, promotePct: last.promotePct + 10 }
+      : { irrHurdle: deal.preferredReturn ?? 8, promotePct: 20 }
+    handleInputChange('promoteTiers', [...tiers, newTier])
+  }
+
+  const handleRemovePromoteTier = (index: number) => {
+    if (!deal) return
+    handleInputChange('promoteTiers', (deal.promoteTiers || []).filter((_, i) => i !== index))
+  }
+
+  // Validate required fields and build the analyze payload (null when incomplete)
+  const buildAnalysisInputs = () => {
+    if (!deal) return null
+    
+    // Validate required fields (varies by purchase type)
+    const requiredFields: string[] = [
+      'purchasePrice', 'closingCostRate', 'rehabCost', 'downPaymentPct',
+      'interestRate', 'termYears', 'taxesAnnual', 'insuranceAnnual',
+      'maintenanceRate', 'capexRate'
+    ]
+    
+    // Add rental-related fields only if not primary residence; flips need an ARV instead
+    if (deal.purchaseType === 'flip') {
+      requiredFields.push('afterRepairValue')
+    } else if (deal.purchaseType !== 'primary_residence' && deal.rentalStrategy === 'short_term') {
+      requiredFields.push('strAverageDailyRate')
+    } else if (deal.purchaseType !== 'primary_residence') {
+      requiredFields.push('rentMonthly', 'vacancyRate', 'managementRate')
+    } else {
+      // For primary residence, ensure rent is 0 and vacancy/management are 0
+      if (deal.rentMonthly !== 0 && deal.rentMonthly !== null) {
+        setError('Rental income must be $0 for primary residences')
+        return null
+      }
+    }
+    
+    const missing = requiredFields.filter(field => {
+      const value = deal[field as keyof Deal]
+      return value === null || value === undefined || value === ''
+    })
+    
+    if (missing.length > 0) {
+      setError(`Please fill in: ${missing.join(', ')}`)
+      return null
+    }
+
+    // Long-term rentals with a rent roll derive rent and vacancy from it
+    const rentRollInputs = (deal.rentRoll || []).length > 0 && deal.rentalStrategy !== 'short_term'
+      ? deriveRentRollInputs(deal.rentRoll, deal.vacancyRate || 0)
+      : null
+
+    return {
+      purchasePrice: deal.purchasePrice!,
+      closingCostRate: deal.closingCostRate!,
+      ...((deal.closingCostItems || []).length > 0 && { closingCostItems: deal.closingCostItems }),
+      ...(deal.sellerConcessions ? { sellerConcessions: deal.sellerConcessions } : {}),
+      ...(deal.lenderCredits ? { lenderCredits: deal.lenderCredits } : {}),
+      rehabCost: deal.rehabCost || 0,
+      downPaymentPct: deal.downPaymentPct!,
+      interestRate: deal.interestRate!,
+      termYears: deal.termYears!,
+      pmiEnabled: deal.pmiEnabled || false,
+      pmiMonthly: deal.pmiMonthly || 0,
+      ...(deal.loanProgram && {
+        loanProgram: deal.loanProgram,
+        creditTier: deal.creditTier || 'good',
+        vaSubsequentUse: deal.vaSubsequentUse || false,
+        vaFundingFeeExempt: deal.vaFundingFeeExempt || false,
+      }),
+      taxesAnnual: deal.taxesAnnual!,
+      insuranceAnnual: deal.insuranceAnnual!,
+      hoaMonthly: deal.hoaMonthly || 0,
+      utilitiesMonthly: deal.utilitiesMonthly || 0,
+      rentMonthly: deal.purchaseType === 'primary_residence' ? 0 : (rentRollInputs?.rentMonthly ?? (deal.rentMonthly || 0)),
+      otherIncomeMonthly: deal.otherIncomeMonthly || 0,
+      vacancyRate: deal.purchaseType === 'primary_residence' ? 0 : (rentRollInputs?.vacancyRate ?? (deal.vacancyRate || 0)),
+      // For primary residence: use 0.5% each (1% total annually) for maintenance reserve
+      maintenanceRate: deal.purchaseType === 'primary_residence' ? 0.5 : deal.maintenanceRate!,
+      capexRate: deal.purchaseType === 'primary_residence' ? 0.5 : deal.capexRate!,
+      managementRate: deal.purchaseType === 'primary_residence' ? 0 : (deal.managementRate || 0),
+      ...(deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && ((deal.rehabMonths || 0) > 0 || (deal.leaseUpMonths || 0) > 0 || (deal.bridgeLoanAmount || 0) > 0) && {
+        rehabPeriod: {
+          rehabMonths: deal.rehabMonths || 0,
+          holdingCostsMonthly: deal.rehabHoldingCostsMonthly || 0,
+          leaseUpMonths: deal.leaseUpMonths || 0,
+          ...((deal.bridgeLoanAmount || 0) > 0 && {
+            bridgeLoan: {
+              amount: deal.bridgeLoanAmount!,
+              interestRate: deal.bridgeLoanRate ?? 10,
+              pointsPct: deal.bridgeLoanPoints ?? 2,
+              interestReserveMonths: deal.bridgeInterestReserveMonths || 0,
+            },
+          }),
+        },
+      }),
+      // Fix-and-flip: rehab timeline and holding costs, then sale at the ARV
+      ...(deal.purchaseType === 'flip' && {
+        flip: {
+          afterRepairValue: deal.afterRepairValue!,
+          rehabMonths: deal.rehabMonths ?? 4,
+          monthsToSell: deal.flipMonthsToSell ?? 2,
+          holdingCostsMonthly: deal.rehabHoldingCostsMonthly || 0,
+          loanPointsPct: deal.flipLoanPointsPct ?? 0,
+          sellingCostRate: deal.sellingCostRate ?? 6,
+        },
+      }),
+      // Value-add: value and rent step up at stabilization (defaults to the end of the lease-up)
+      ...(deal.valueAddEnabled && deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && deal.afterRepairValue && {
+        valueAdd: {
+          afterRepairValue: deal.afterRepairValue,
+          stabilizedRentMonthly: deal.stabilizedRentMonthly ?? deal.rentMonthly ?? 0,
+          stabilizationMonth: deal.stabilizationMonth ?? (deal.rehabMonths || 0) + (deal.leaseUpMonths || 0) + 1,
+        },
+      }),
+      ...(deal.purchaseType !== 'primary_residence' && (deal.capexSchedule || []).length > 0 && {
+        capexSchedule: deal.capexSchedule,
+        capexReserveMonthly: deal.capexReserveMonthly || 0,
+      }),
+      // Loan structure
+      loanType: deal.loanType || 'fixed',
+      ...(deal.loanType === 'arm' && {
+        armFixedYears: deal.armFixedYears ?? 5,
+        armAdjustedRate: deal.armAdjustedRate ?? deal.interestRate!,
+        armPeriodicCap: deal.armPeriodicCap ?? 2,
+        armLifetimeCap: deal.armLifetimeCap ?? 5,
+      }),
+      ...(deal.loanType === 'interest_only' && { interestOnlyYears: deal.interestOnlyYears ?? 10 }),
+      ...(deal.loanType === 'balloon' && { balloonYears: deal.balloonYears ?? 7 }),
+      // Financing stack (liens with no amount are ignored)
+      financingTranches: (deal.financingTranches || []).filter((tranche) => tranche.amount > 0),
+      // Short-term rental (investment properties only)
+      ...(deal.rentalStrategy === 'short_term' && deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && {
+        rentalStrategy: 'short_term' as const,
+        shortTermRental: {
+          averageDailyRate: deal.strAverageDailyRate!,
+          monthlyOccupancy: Array.from({ length: 12 }, (_, m) => deal.strMonthlyOccupancy?.[m] ?? 65),
+          averageStayNights: deal.strAverageStayNights ?? 3,
+          cleaningFeePerStay: deal.strCleaningFeePerStay ?? 100,
+          platformFeeRate: deal.strPlatformFeeRate ?? 3,
+          suppliesMonthly: deal.strSuppliesMonthly ?? 75,
+          furnishingCost: deal.strFurnishingCost ?? 0,
+          managementRate: deal.strManagementRate ?? 20,
+        },
+      }),
+      // House hack: owner occupies one unit until the move-out year
+      ...(deal.purchaseType === 'house_hack' && deal.rentalStrategy !== 'short_term' && {
+        houseHack: {
+          totalUnits: deal.numberOfUnits || 2,
+          ownerUnitMarketRent: deal.ownerUnitMarketRent
+            ?? deal.rentRoll?.find((unit) => unit.status === 'owner_occupied')?.marketRent
+            ?? deal.rentPerUnit
+            ?? 0,
+          ...(deal.moveOutYear ? { moveOutYear: deal.moveOutYear } : {}),
+        },
+      }),
+      // Rent roll (rent and vacancy above are derived from it)
+      ...(rentRollInputs && { rentRoll: deal.rentRoll }),
+      // Holding period inputs (for all property types)
+      holdingPeriodYears: deal.holdingPeriodYears || 10,
+      appreciationRate: deal.appreciationRate ?? 3,
+      rentGrowthRate: deal.rentGrowthRate ?? 2,
+      expenseGrowthRate: deal.expenseGrowthRate ?? 2,
+      sellingCostRate: deal.sellingCostRate ?? 6,
+      renterInvestmentReturn: deal.renterInvestmentReturn ?? 3,
+      // Exit valuation (investment properties only; GRM needs a multiplier)
+      exitValuation: deal.purchaseType !== 'primary_residence' &&
+        (deal.exitValuationMethod === 'cap_rate' || (deal.exitValuationMethod === 'grm' && deal.exitGrossRentMultiplier))
+        ? {
+            method: deal.exitValuationMethod,
+            exitCapRate: deal.exitCapRate ?? undefined,
+            capRateExpansion: deal.exitCapRateExpansion ?? 0,
+            grossRentMultiplier: deal.exitGrossRentMultiplier ?? undefined,
+          }
+        : undefined,
+      // Time-value return metrics (XIRR assumes closing today when no date is set)
+      returnMetrics: {
+        discountRate: deal.discountRate ?? 10,
+        financeRate: deal.mirrFinanceRate ?? deal.interestRate!,
+        reinvestmentRate: deal.mirrReinvestmentRate ?? deal.discountRate ?? 10,
+        closingDate: deal.closingDate || new Date().toISOString().slice(0, 10),
+      },
+      // Cash-out refinance event (investment properties only)
+      refinance: deal.refinanceEnabled && deal.purchaseType !== 'primary_residence' && deal.refinanceAppraisedValue
+        ? {
+            month: deal.refinanceMonth ?? 12,
+            appraisedValue: deal.refinanceAppraisedValue,
+            ltv: deal.refinanceLtv ?? 75,
+            interestRate: deal.refinanceInterestRate ?? deal.interestRate!,
+            termYears: deal.refinanceTermYears ?? 30,
+            closingCostRate: deal.refinanceClosingCostRate ?? 2,
+          }
+        : undefined,
+      // After-tax analysis (investment properties only)
+      tax: deal.taxAnalysisEnabled && deal.purchaseType !== 'primary_residence'
+        ? {
+            marginalTaxRate: deal.marginalTaxRate ?? 24,
+            capitalGainsRate: deal.capitalGainsRate ?? 15,
+            landValuePct: deal.landValuePct ?? 20,
+            depreciationYears: deal.depreciationYears ?? 27.5,
+            costSegregationPct: deal.costSegregationPct ?? 0,
+            bonusDepreciationPct: deal.bonusDepreciationPct ?? 0,
+          }
+        : undefined,
+      // LP/GP waterfall (investment properties only)
+      partnership: deal.partnershipEnabled && deal.purchaseType !== 'primary_residence'
+        ? {
+            lpEquityPct: deal.lpEquityPct ?? 90,
+            preferredReturn: deal.preferredReturn ?? 8,
+            promoteTiers: deal.promoteTiers || [],
+            acquisitionFeePct: deal.acquisitionFeePct ?? 0,
+            assetManagementFeePct: deal.assetManagementFeePct ?? 0,
+          }
+        : undefined,
+      // Monte Carlo simulation around the holding period rates
+      monteCarlo: deal.monteCarloEnabled
+        ? {
+            trials: deal.monteCarloTrials ?? 1000,
+            seed: deal.monteCarloSeed ?? 42,
+            appreciationVolatility: deal.appreciationVolatility ?? 2,
+            rentGrowthVolatility: deal.rentGrowthVolatility ?? 1.5,
+            expenseGrowthVolatility: deal.expenseGrowthVolatility ?? 1,
+            vacancyVolatility: deal.vacancyVolatility ?? 2,
+          }
+        : undefined,
+    }
+  }
+
   const handleAnalyze = async () => {
     if (!deal) return
     
@@ -142,68 +682,13 @@ export default function DealDetailPage() {
     setError(null)
 
     try {
-      // Validate required fields (varies by purchase type)
-      const requiredFields: string[] = [
-        'purchasePrice', 'closingCostRate', 'rehabCost', 'downPaymentPct',
-        'interestRate', 'termYears', 'taxesAnnual', 'insuranceAnnual',
-        'maintenanceRate', 'capexRate'
-      ]
-      
-      // Add rental-related fields only if not primary residence
-      if (deal.purchaseType !== 'primary_residence') {
-        requiredFields.push('rentMonthly', 'vacancyRate', 'managementRate')
-      } else {
-        // For primary residence, ensure rent is 0 and vacancy/management are 0
-        if (deal.rentMonthly !== 0 && deal.rentMonthly !== null) {
-          setError('Rental income must be $0 for primary residences')
-          setAnalyzing(false)
-          return
-        }
-      }
-      
-      const missing = requiredFields.filter(field => {
-        const value = deal[field as keyof Deal]
-        return value === null || value === undefined || value === ''
-      })
-      
-      if (missing.length > 0) {
-        setError(`Please fill in: ${missing.join(', ')}`)
-        setAnalyzing(false)
-        return
-      }
-
-      const inputs = {
-        purchasePrice: deal.purchasePrice!,
-        closingCostRate: deal.closingCostRate!,
-        rehabCost: deal.rehabCost || 0,
-        downPaymentPct: deal.downPaymentPct!,
-        interestRate: deal.interestRate!,
-        termYears: deal.termYears!,
-        pmiEnabled: deal.pmiEnabled || false,
-        pmiMonthly: deal.pmiMonthly || 0,
-        taxesAnnual: deal.taxesAnnual!,
-        insuranceAnnual: deal.insuranceAnnual!,
-        hoaMonthly: deal.hoaMonthly || 0,
-        utilitiesMonthly: deal.utilitiesMonthly || 0,
-        rentMonthly: deal.purchaseType === 'primary_residence' ? 0 : (deal.rentMonthly || 0),
-        otherIncomeMonthly: deal.otherIncomeMonthly || 0,
-        vacancyRate: deal.purchaseType === 'primary_residence' ? 0 : (deal.vacancyRate || 0),
-        // For primary residence: use 0.5% each (1% total annually) for maintenance reserve
-        maintenanceRate: deal.purchaseType === 'primary_residence' ? 0.5 : deal.maintenanceRate!,
-        capexRate: deal.purchaseType === 'primary_residence' ? 0.5 : deal.capexRate!,
-        managementRate: deal.purchaseType === 'primary_residence' ? 0 : (deal.managementRate || 0),
-        // Holding period inputs (for all property types)
-        holdingPeriodYears: deal.holdingPeriodYears || 10,
-        appreciationRate: deal.appreciationRate ?? 3,
-        rentGrowthRate: deal.rentGrowthRate ?? 2,
-        expenseGrowthRate: deal.expenseGrowthRate ?? 2,
-        sellingCostRate: deal.sellingCostRate ?? 6,
-      }
+      const inputs = buildAnalysisInputs()
+      if (!inputs) return
 
       const res = await fetch(`/api/deals/${dealId}/analyze`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(inputs),
+        body: JSON.stringify({ ...inputs, scenarioId: activeScenarioId }),
       })
 
       if (!res.ok) {
@@ -213,9 +698,11 @@ export default function DealDetailPage() {
 
       const data = await res.json()
       setAnalysis(data.analysis)
+      setAnalyses((prev) => [data.analysis, ...prev])
       if (data.holdingPeriodAnalysis) {
         setHoldingPeriodAnalysis(data.holdingPeriodAnalysis)
       }
+      setMonteCarloAnalysis(data.monteCarloAnalysis || null)
       if (data.primaryResidenceOutputs) {
         setPrimaryResidenceOutputs(data.primaryResidenceOutputs)
       }
@@ -229,6 +716,135 @@ export default function DealDetailPage() {
     }
   }
 
+  const handleFindMaxOffer = async () => {
+    if (!deal) return
+    
+    setSolvingMaxOffer(true)
+    setError(null)
+
+    try {
+      const inputs = buildAnalysisInputs()
+      if (!inputs) return
+
+      const targets = {
+        ...(typeof deal.targetCashOnCash === 'number' && { minCashOnCash: deal.targetCashOnCash }),
+        ...(typeof deal.targetDscr === 'number' && { minDscr: deal.targetDscr }),
+        ...(typeof deal.targetCashFlowMonthly === 'number' && { minCashFlowMonthly: deal.targetCashFlowMonthly }),
+        ...(typeof deal.targetCapRate === 'number' && { minCapRate: deal.targetCapRate }),
+        ...(typeof deal.targetIrr === 'number' && { minIrr: deal.targetIrr }),
+      }
+      if (Object.keys(targets).length === 0) {
+        setError('Set at least one target to find a max offer')
+        return
+      }
+
+      const res = await fetch(`/api/deals/${dealId}/max-offer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...inputs, targets }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to find max offer')
+      }
+
+      const data = await res.json()
+      setMaxOffer(data.maxOffer)
+    } catch (err: any) {
+      setError(err.message || 'An error occurred')
+    } finally {
+      setSolvingMaxOffer(false)
+    }
+  }
+
+  const handleCompareLoanOffers = async () => {
+    if (!deal) return
+    
+    setComparingLoans(true)
+    setError(null)
+
+    try {
+      const inputs = buildAnalysisInputs()
+      if (!inputs) return
+
+      if ((deal.loanOffers || []).length === 0) {
+        setError('Add at least one loan offer to compare')
+        return
+      }
+
+      const res = await fetch(`/api/deals/${dealId}/loan-comparison`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...inputs, offers: deal.loanOffers }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to compare loan offers')
+      }
+
+      const data = await res.json()
+      setLoanComparison(data.loanComparison)
+    } catch (err: any) {
+      setError(err.message || 'An error occurred')
+    } finally {
+      setComparingLoans(false)
+    }
+  }
+
+  // Default axis: ±20% around currency inputs, ±2 points around rates
+  const getDefaultSensitivityAxis = (variable: SensitivityVariable): SensitivityAxis => {
+    const fallbacks: Partial<Record<SensitivityVariable, number>> = {
+      appreciationRate: 3, rentGrowthRate: 2, expenseGrowthRate: 2, sellingCostRate: 6, exitCapRate: 6,
+    }
+    const base = (deal?.[variable] as number | null | undefined) ?? fallbacks[variable] ?? 0
+    if (SENSITIVITY_VARIABLES[variable].currency) {
+      return { variable, min: Math.round(base * 0.8), max: Math.round(base * 1.2) || 1, steps: 5 }
+    }
+    const canBeNegative = variable === 'appreciationRate' || variable === 'rentGrowthRate' || variable === 'expenseGrowthRate'
+    return { variable, min: canBeNegative ? base - 2 : Math.max(0, base - 2), max: base + 2, steps: 5 }
+  }
+
+  const handleRunSensitivity = async () => {
+    if (!deal) return
+    
+    setRunningSensitivity(true)
+    setError(null)
+
+    try {
+      const inputs = buildAnalysisInputs()
+      if (!inputs) return
+
+      const res = await fetch(`/api/deals/${dealId}/sensitivity`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...inputs,
+          grid: {
+            rowAxis: sensitivityRowAxis ?? getDefaultSensitivityAxis('interestRate'),
+            columnAxis: sensitivityColumnAxis ?? getDefaultSensitivityAxis('purchasePrice'),
+            metric: sensitivityMetric,
+          },
+          tornado: { metric: 'irr' },
+        }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to run sensitivity analysis')
+      }
+
+      const data = await res.json()
+      setSensitivityGrid(data.grid)
+      setTornado(data.tornado)
+    } catch (err: any) {
+      setError(err.message || 'An error occurred')
+    } finally {
+      setRunningSensitivity(false)
+    }
+  }
+
   const handleShare = async () => {
     try {
       const res = await fetch(`/api/deals/${dealId}/share`, {
@@ -262,9 +878,9 @@ export default function DealDetailPage() {
     if (!deal) return []
     const required: string[] = ['purchasePrice', 'taxesAnnual', 'insuranceAnnual', 'interestRate', 'downPaymentPct']
     
-    // Only require rentMonthly if not primary residence
+    // Only require rental income if not primary residence (nightly rate for short-term rentals)
     if (deal.purchaseType !== 'primary_residence') {
-      required.push('rentMonthly')
+      required.push(deal.rentalStrategy === 'short_term' ? 'strAverageDailyRate' : 'rentMonthly')
     }
     
     return required.filter(field => {
@@ -326,6 +942,8 @@ export default function DealDetailPage() {
   }
 
   const missingFields = getMissingFields()
+  const scenarioAnalyses = baseDeal ? listScenarioAnalyses(baseDeal, analyses) : []
+  const hasRentRoll = (deal.rentRoll || []).length > 0
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -512,6 +1130,149 @@ export default function DealDetailPage() {
           </div>
         </div>
 
+        {/* Scenarios - named what-ifs that override some of the inputs below */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Scenarios</h2>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newScenarioName}
+                maxLength={50}
+                placeholder="Upside, Downside..."
+                onChange={(e) => setNewScenarioName(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+              />
+              <button
+                type="button"
+                onClick={handleAddScenario}
+                disabled={(baseDeal?.scenarios || []).length >= 10}
+                className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                + Add Scenario
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            A scenario starts from the base inputs; anything you change while it is selected is saved to that scenario only.
+            Each scenario keeps its own analysis. The primary scenario is the one shown on the dashboard and shared first.
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {scenarioAnalyses.map((scenario) => (
+              <button
+                key={scenario.scenarioId ?? 'base'}
+                onClick={() => handleSelectScenario(scenario.scenarioId)}
+                className={`px-3 py-1 text-sm font-medium rounded-lg ${
+                  scenario.scenarioId === activeScenarioId
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {scenario.name}
+                {scenario.isPrimary && ' (Primary)'}
+              </button>
+            ))}
+          </div>
+
+          {activeScenario && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+              Editing <span className="font-semibold">{activeScenario.name}</span>. Changes apply to this scenario only.
+              {Object.keys(activeScenario.overrides).length > 0 ? (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {Object.keys(activeScenario.overrides).map((field) => (
+                    <button
+                      key={field}
+                      type="button"
+                      onClick={() => handleClearScenarioOverride(activeScenario.id, field)}
+                      title="Revert to the base value"
+                      className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded text-xs hover:bg-blue-200"
+                    >
+                      {field} ×
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <> No inputs differ from the base yet.</>
+              )}
+            </div>
+          )}
+
+          {(baseDeal?.scenarios || []).length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Scenario</th>
+                    <th className="py-2 pr-4 font-medium text-right">Changed Inputs</th>
+                    <th className="py-2 pr-4 font-medium text-right">Monthly Cash Flow</th>
+                    <th className="py-2 pr-4 font-medium text-right">Cash-on-Cash</th>
+                    <th className="py-2 pr-4 font-medium text-right">Cap Rate</th>
+                    <th className="py-2 pr-4 font-medium text-right">DSCR</th>
+                    <th className="py-2 pr-4 font-medium text-right">All-In Cash</th>
+                    <th className="py-2 pr-4 font-medium text-right">IRR</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scenarioAnalyses.map((scenario) => {
+                    const outputs = scenario.analysis?.outputs
+                    const overrides = baseDeal && findScenario(baseDeal, scenario.scenarioId)?.overrides
+                    return (
+                      <tr key={scenario.scenarioId ?? 'base'} className="border-b border-gray-100 text-gray-900">
+                        <td className="py-2 pr-4 font-medium">
+                          {scenario.name}
+                          {scenario.isPrimary && <span className="ml-2 text-xs text-blue-600">Primary</span>}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{overrides ? Object.keys(overrides).length : '—'}</td>
+                        {outputs ? (
+                          <>
+                            <td className={`py-2 pr-4 text-right ${outputs.cashFlowMonthly >= 0 ? '' : 'text-red-600'}`}>
+                              ${Math.round(outputs.cashFlowMonthly).toLocaleString()}
+                            </td>
+                            <td className="py-2 pr-4 text-right">{outputs.cashOnCash.toFixed(2)}%</td>
+                            <td className="py-2 pr-4 text-right">{outputs.capRate.toFixed(2)}%</td>
+                            <td className="py-2 pr-4 text-right">{outputs.dscr.toFixed(2)}</td>
+                            <td className="py-2 pr-4 text-right">${Math.round(outputs.allInCashRequired).toLocaleString()}</td>
+                            <td className="py-2 pr-4 text-right">
+                              {scenario.analysis?.holdingPeriodOutputs ? `${scenario.analysis.holdingPeriodOutputs.irr.toFixed(1)}%` : '—'}
+                            </td>
+                          </>
+                        ) : (
+                          <td colSpan={6} className="py-2 pr-4 text-right text-gray-400 italic">Not analyzed yet</td>
+                        )}
+                        <td className="py-2 text-right whitespace-nowrap">
+                          {!scenario.isPrimary && (
+                            <button
+                              type="button"
+                              onClick={() => handleSetPrimaryScenario(scenario.scenarioId)}
+                              className="px-2 py-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              Make Primary
+                            </button>
+                          )}
+                          {scenario.scenarioId && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveScenario(scenario.scenarioId!)}
+                              className="px-2 py-1 text-xs font-medium text-red-600 hover:text-red-800"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                Metrics are from each scenario&apos;s latest analysis. Select a scenario and run the analysis to refresh it.
+              </p>
+            </div>
+          )}
+        </div>
+
         {/* Purchase Inputs */}
         <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Purchase</h2>
@@ -538,6 +1299,15 @@ export default function DealDetailPage() {
                     handleInputChange('numberOfUnits', null)
                     handleInputChange('rentPerUnit', null)
                     handleInputChange('vacancyRatePerUnit', null)
+                    handleInputChange('rentRoll', [])
+                  }
+                  
+                  // Flips earn no rent; they're sold after the rehab
+                  if (purchaseType === 'flip') {
+                    handleInputChange('rentMonthly', 0)
+                    handleInputChange('vacancyRate', 0)
+                    handleInputChange('managementRate', 0)
+                    handleInputChange('rentalStrategy', 'long_term')
                   }
                   
                   // If switching away from house_hack/investment_property, clear multi-unit fields
@@ -546,6 +1316,7 @@ export default function DealDetailPage() {
                     handleInputChange('numberOfUnits', null)
                     handleInputChange('rentPerUnit', null)
                     handleInputChange('vacancyRatePerUnit', null)
+                    handleInputChange('rentRoll', [])
                   }
                 }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
@@ -554,6 +1325,7 @@ export default function DealDetailPage() {
                 <option value="primary_residence">Primary Residence</option>
                 <option value="investment_property">Investment Property</option>
                 <option value="house_hack">House Hack (Multi-Family)</option>
+                <option value="flip">Fix and Flip</option>
                 <option value="vacation_home">Vacation Home</option>
                 <option value="other">Other</option>
               </select>
@@ -606,6 +1378,9 @@ export default function DealDetailPage() {
                 />
                 <span className="absolute right-3 top-2 text-gray-500">%</span>
               </div>
+              {(deal.closingCostItems || []).length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">Replaced by the itemized closing costs below</p>
+              )}
             </div>
 
             <div>
@@ -628,14 +1403,372 @@ export default function DealDetailPage() {
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Loan Inputs */}
-        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Loan</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <div className="flex items-center gap-2 mb-1">
+          {/* Closing Costs - itemized estimate and credits instead of a flat percentage */}
+          <div className="mt-6 pt-4 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Itemized Closing Costs</label>
+              <button
+                type="button"
+                onClick={handleAddClosingCostItem}
+                className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
+              >
+                + Add Item
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Enter the lender and title estimates line by line to replace the closing cost rate.
+              Seller concessions and lender credits reduce the cash you bring to close, up to the total closing costs.
+            </p>
+
+            {(deal.closingCostItems || []).map((item, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2 items-end">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Category</label>
+                  <select
+                    value={item.category}
+                    onChange={(e) => handleClosingCostItemChange(index, { category: e.target.value as ClosingCostCategory })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  >
+                    {Object.entries(CLOSING_COST_CATEGORY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Description</label>
+                  <input
+                    type="text"
+                    value={item.label}
+                    placeholder="Owner's title policy"
+                    onChange={(e) => handleClosingCostItemChange(index, { label: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Amount</label>
+                  <div className="relative">
+                    <span className="absolute left-2 top-2 text-gray-500 text-sm">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(item.amount)}
+                      onChange={(e) => handleClosingCostItemChange(index, { amount: parseCurrency(e.target.value) ?? 0 })}
+                      className="w-full pl-5 pr-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveClosingCostItem(index)}
+                  className="px-3 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Seller Concessions</label>
+                <div className="relative">
+                  <span className="absolute left-3 top-2 text-gray-500">$</span>
+                  <input
+                    type="text"
+                    value={formatCurrency(deal.sellerConcessions)}
+                    onChange={(e) => handleInputChange('sellerConcessions', parseCurrency(e.target.value))}
+                    className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lender Credits</label>
+                <div className="relative">
+                  <span className="absolute left-3 top-2 text-gray-500">$</span>
+                  <input
+                    type="text"
+                    value={formatCurrency(deal.lenderCredits)}
+                    onChange={(e) => handleInputChange('lenderCredits', parseCurrency(e.target.value))}
+                    className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Fix and Flip - renovate and sell at the after-repair value */}
+          {deal.purchaseType === 'flip' && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Fix &amp; Flip</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                The purchase loan is interest-only until the sale. Taxes, insurance and HOA are carried for the whole hold on top of the holding costs below.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">After-Repair Value (ARV) *</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(deal.afterRepairValue)}
+                      onChange={(e) => handleInputChange('afterRepairValue', parseCurrency(e.target.value))}
+                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rehab Duration (Months)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="36"
+                    placeholder="4"
+                    value={deal.rehabMonths ?? ''}
+                    onChange={(e) => handleInputChange('rehabMonths', e.target.value ? parseInt(e.target.value) : null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Months to Sell</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="24"
+                    placeholder="2"
+                    value={deal.flipMonthsToSell ?? ''}
+                    onChange={(e) => handleInputChange('flipMonthsToSell', e.target.value ? parseInt(e.target.value) : null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Listing through closing</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Other Holding Costs (Monthly)</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(deal.rehabHoldingCostsMonthly)}
+                      onChange={(e) => handleInputChange('rehabHoldingCostsMonthly', parseCurrency(e.target.value))}
+                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Utilities, security, lawn care</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Loan Points (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="0.25"
+                      value={deal.flipLoanPointsPct ?? 0}
+                      onChange={(e) => handleInputChange('flipLoanPointsPct', parsePercent(e.target.value))}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Of the loan, paid at close</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Selling Costs (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      step="0.5"
+                      value={deal.sellingCostRate ?? 6}
+                      onChange={(e) => handleInputChange('sellingCostRate', parsePercent(e.target.value))}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Of the ARV</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Rehab & Lease-Up - months without full rent and bridge financing */}
+          {deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Rehab &amp; Lease-Up</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                The property earns no rent during the rehab, then occupancy ramps up evenly over the lease-up period.
+                A hard-money or construction loan can fund the rehab; it is interest-only and repaid by a refinance or at sale.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rehab Duration (Months)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="36"
+                    value={deal.rehabMonths ?? ''}
+                    onChange={(e) => handleInputChange('rehabMonths', e.target.value ? parseInt(e.target.value) : null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Holding Costs During Rehab (Monthly)</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(deal.rehabHoldingCostsMonthly)}
+                      onChange={(e) => handleInputChange('rehabHoldingCostsMonthly', parseCurrency(e.target.value))}
+                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Lease-Up (Months)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="24"
+                    value={deal.leaseUpMonths ?? ''}
+                    onChange={(e) => handleInputChange('leaseUpMonths', e.target.value ? parseInt(e.target.value) : null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Bridge Loan Amount</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(deal.bridgeLoanAmount)}
+                      onChange={(e) => handleInputChange('bridgeLoanAmount', parseCurrency(e.target.value))}
+                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  {(deal.bridgeLoanAmount || 0) > (deal.rehabCost || 0) && (
+                    <p className="text-xs text-amber-700 mt-1">Exceeds the rehab budget</p>
+                  )}
+                </div>
+                {(deal.bridgeLoanAmount || 0) > 0 && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Bridge Rate / Points (%)</label>
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          placeholder="10"
+                          value={deal.bridgeLoanRate ?? ''}
+                          onChange={(e) => handleInputChange('bridgeLoanRate', parsePercent(e.target.value))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          max="20"
+                          step="0.25"
+                          placeholder="2"
+                          value={deal.bridgeLoanPoints ?? ''}
+                          onChange={(e) => handleInputChange('bridgeLoanPoints', parsePercent(e.target.value))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Interest Reserve (Months)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="36"
+                        value={deal.bridgeInterestReserveMonths ?? ''}
+                        onChange={(e) => handleInputChange('bridgeInterestReserveMonths', e.target.value ? parseInt(e.target.value) : null)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Value-Add - forced appreciation once the work is done */}
+          {deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <div className="flex items-center gap-2 mb-1">
+                <input
+                  type="checkbox"
+                  id="valueAddEnabled"
+                  checked={deal.valueAddEnabled || false}
+                  onChange={(e) => handleInputChange('valueAddEnabled', e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="valueAddEnabled" className="text-sm font-semibold text-gray-900">
+                  Value-Add (Forced Appreciation)
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                The projections step the property value up to the after-repair value and rent up to market at stabilization,
+                then apply normal appreciation and rent growth. Year-one metrics above use today&apos;s rent.
+              </p>
+              {deal.valueAddEnabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">After-Repair Value (ARV)</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                      <input
+                        type="text"
+                        value={formatCurrency(deal.afterRepairValue)}
+                        onChange={(e) => handleInputChange('afterRepairValue', parseCurrency(e.target.value))}
+                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Market Rent After Rehab (Monthly)</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                      <input
+                        type="text"
+                        placeholder={formatCurrency(deal.rentMonthly)}
+                        value={formatCurrency(deal.stabilizedRentMonthly)}
+                        onChange={(e) => handleInputChange('stabilizedRentMonthly', parseCurrency(e.target.value))}
+                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Stabilized (Month After Purchase)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="60"
+                      placeholder={String((deal.rehabMonths || 0) + (deal.leaseUpMonths || 0) + 1)}
+                      value={deal.stabilizationMonth ?? ''}
+                      onChange={(e) => handleInputChange('stabilizationMonth', e.target.value ? parseInt(e.target.value) : null)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    {deal.closingDate && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Around {addMonths(deal.closingDate, (deal.stabilizationMonth ?? (deal.rehabMonths || 0) + (deal.leaseUpMonths || 0) + 1) - 1)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+              {deal.valueAddEnabled && !deal.afterRepairValue && (
+                <p className="text-xs text-amber-700 mt-2">Enter an after-repair value to model forced appreciation</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Loan Inputs */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Loan</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
                 <label className="block text-sm font-medium text-gray-700">Down Payment (%) *</label>
                 {deal.assumedFields?.includes('downPaymentPct') && (
                   <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
@@ -700,16 +1833,72 @@ export default function DealDetailPage() {
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">PMI Enabled</label>
-              <input
-                type="checkbox"
-                checked={deal.pmiEnabled || false}
-                onChange={(e) => handleInputChange('pmiEnabled', e.target.checked)}
-                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
-              />
+              <label className="block text-sm font-medium text-gray-700 mb-1">Loan Program</label>
+              <select
+                value={deal.loanProgram || ''}
+                onChange={(e) => handleLoanProgramChange(e.target.value ? e.target.value as LoanProgram : null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+              >
+                <option value="">Custom (manual PMI)</option>
+                <option value="conventional">Conventional</option>
+                <option value="fha">FHA</option>
+                <option value="va">VA</option>
+              </select>
             </div>
 
-            {deal.pmiEnabled && (
+            {deal.loanProgram === 'conventional' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Credit Tier</label>
+                <select
+                  value={deal.creditTier || 'good'}
+                  onChange={(e) => handleInputChange('creditTier', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                >
+                  <option value="excellent">Excellent (760+)</option>
+                  <option value="good">Good (700-759)</option>
+                  <option value="fair">Fair (660-699)</option>
+                  <option value="poor">Poor (620-659)</option>
+                </select>
+              </div>
+            )}
+
+            {deal.loanProgram === 'va' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">VA Funding Fee</label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={deal.vaSubsequentUse || false}
+                    onChange={(e) => handleInputChange('vaSubsequentUse', e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  Subsequent use
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 mt-1">
+                  <input
+                    type="checkbox"
+                    checked={deal.vaFundingFeeExempt || false}
+                    onChange={(e) => handleInputChange('vaFundingFeeExempt', e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  Exempt (service-connected disability)
+                </label>
+              </div>
+            )}
+
+            {!deal.loanProgram && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">PMI Enabled</label>
+                <input
+                  type="checkbox"
+                  checked={deal.pmiEnabled || false}
+                  onChange={(e) => handleInputChange('pmiEnabled', e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            {!deal.loanProgram && deal.pmiEnabled && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">PMI Monthly</label>
                 <div className="relative">
@@ -723,40 +1912,252 @@ export default function DealDetailPage() {
                 </div>
               </div>
             )}
-          </div>
-        </div>
 
-        {/* Monthly Costs */}
-        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Monthly Costs</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <div className="flex items-center gap-2 mb-1">
-                <label className="block text-sm font-medium text-gray-700">Taxes (Annual) *</label>
-                {deal.assumedFields?.includes('taxesAnnual') && (
-                  <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
-                    Assumed
-                  </span>
-                )}
-                {deal.importedFields?.includes('taxesAnnual') && deal.fieldConfidences?.['taxesAnnual'] && (
-                  <span className="text-xs text-gray-500">
-                    ({Math.round(deal.fieldConfidences['taxesAnnual'] * 100)}% confidence)
-                  </span>
-                )}
+              <label className="block text-sm font-medium text-gray-700 mb-1">Loan Type</label>
+              <select
+                value={deal.loanType || 'fixed'}
+                onChange={(e) => handleInputChange('loanType', e.target.value === 'fixed' ? null : e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+              >
+                <option value="fixed">Fixed Rate</option>
+                <option value="arm">Adjustable Rate (ARM)</option>
+                <option value="interest_only">Interest-Only</option>
+                <option value="balloon">Balloon</option>
+              </select>
+            </div>
+
+            {deal.loanType === 'arm' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Initial Fixed Period (Years)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    step="1"
+                    value={deal.armFixedYears ?? 5}
+                    onChange={(e) => handleInputChange('armFixedYears', parseInt(e.target.value) || 5)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">5 for a 5/1 ARM</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Adjusted Rate (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.125"
+                      value={deal.armAdjustedRate ?? deal.interestRate ?? 7}
+                      onChange={(e) => handleInputChange('armAdjustedRate', parseFloat(e.target.value) || 0)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Fully indexed rate (index + margin)</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Adjustment Cap (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={deal.armPeriodicCap ?? 2}
+                      onChange={(e) => handleInputChange('armPeriodicCap', parseFloat(e.target.value) || 0)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Max change per annual adjustment</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Lifetime Cap (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={deal.armLifetimeCap ?? 5}
+                      onChange={(e) => handleInputChange('armLifetimeCap', parseFloat(e.target.value) || 0)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Max increase over the initial rate</p>
+                </div>
+              </>
+            )}
+
+            {deal.loanType === 'interest_only' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Interest-Only Period (Years)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="30"
+                  step="1"
+                  value={deal.interestOnlyYears ?? 10}
+                  onChange={(e) => handleInputChange('interestOnlyYears', parseInt(e.target.value) || 10)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+                <p className="text-xs text-gray-500 mt-1">Then amortizes over the remaining term</p>
               </div>
-              <div className="relative">
-                <span className="absolute left-3 top-2 text-gray-500">$</span>
+            )}
+
+            {deal.loanType === 'balloon' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Balloon Due (Years)</label>
                 <input
-                  ref={el => { fieldRefs.current['taxesAnnual'] = el }}
-                  type="text"
-                  value={formatCurrency(deal.taxesAnnual)}
-                  onChange={(e) => handleInputChange('taxesAnnual', parseCurrency(e.target.value))}
-                  className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  type="number"
+                  min="1"
+                  max="50"
+                  step="1"
+                  value={deal.balloonYears ?? 7}
+                  onChange={(e) => handleInputChange('balloonYears', parseInt(e.target.value) || 7)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
                 />
+                <p className="text-xs text-gray-500 mt-1">Remaining balance is due in full</p>
               </div>
-            </div>
+            )}
 
-            <div>
+            {/* Financing Stack */}
+            <div className="md:col-span-2 pt-4 border-t border-gray-200">
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">Financing Stack</label>
+                <button
+                  type="button"
+                  onClick={handleAddTranche}
+                  className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
+                >
+                  + Add Lien
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                For seller carry, assumed loans, second mortgages or HELOCs. When liens are listed they replace the single loan above,
+                and your down payment is whatever they don&apos;t cover.
+              </p>
+
+              {(deal.financingTranches || []).map((tranche, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-2 items-end">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Type</label>
+                    <select
+                      value={tranche.type}
+                      onChange={(e) => handleTrancheChange(index, { type: e.target.value as FinancingTranche['type'] })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    >
+                      <option value="first_mortgage">First Mortgage</option>
+                      <option value="assumed_loan">Assumed Loan</option>
+                      <option value="second_mortgage">Second Mortgage</option>
+                      <option value="seller_carry">Seller Carry</option>
+                      <option value="heloc">HELOC</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Amount</label>
+                    <div className="relative">
+                      <span className="absolute left-2 top-2 text-gray-500 text-sm">$</span>
+                      <input
+                        type="text"
+                        value={formatCurrency(tranche.amount)}
+                        onChange={(e) => handleTrancheChange(index, { amount: parseCurrency(e.target.value) ?? 0 })}
+                        className="w-full pl-5 pr-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Rate (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.125"
+                      value={tranche.interestRate}
+                      onChange={(e) => handleTrancheChange(index, { interestRate: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Term (Years)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="50"
+                      value={tranche.termYears}
+                      onChange={(e) => handleTrancheChange(index, { termYears: parseInt(e.target.value) || 1 })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Amortization (Years)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="50"
+                      value={tranche.amortizationYears}
+                      onChange={(e) => handleTrancheChange(index, { amortizationYears: parseInt(e.target.value) || 0 })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveTranche(index)}
+                    className="px-3 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+
+              {(deal.financingTranches || []).length > 0 && (
+                <p className="text-xs text-gray-600 mt-2">
+                  Total financed: <span className="font-semibold">${Math.round((deal.financingTranches || []).reduce((sum, t) => sum + t.amount, 0)).toLocaleString()}</span>
+                  {' '}· 0 amortization years = interest-only; a term shorter than amortization ends in a balloon.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Monthly Costs */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Monthly Costs</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <label className="block text-sm font-medium text-gray-700">Taxes (Annual) *</label>
+                {deal.assumedFields?.includes('taxesAnnual') && (
+                  <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
+                    Assumed
+                  </span>
+                )}
+                {deal.importedFields?.includes('taxesAnnual') && deal.fieldConfidences?.['taxesAnnual'] && (
+                  <span className="text-xs text-gray-500">
+                    ({Math.round(deal.fieldConfidences['taxesAnnual'] * 100)}% confidence)
+                  </span>
+                )}
+              </div>
+              <div className="relative">
+                <span className="absolute left-3 top-2 text-gray-500">$</span>
+                <input
+                  ref={el => { fieldRefs.current['taxesAnnual'] = el }}
+                  type="text"
+                  value={formatCurrency(deal.taxesAnnual)}
+                  onChange={(e) => handleInputChange('taxesAnnual', parseCurrency(e.target.value))}
+                  className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+            </div>
+
+            <div>
               <div className="flex items-center gap-2 mb-1">
                 <label className="block text-sm font-medium text-gray-700">Insurance (Annual) *</label>
                 {deal.assumedFields?.includes('insuranceAnnual') && (
@@ -805,13 +2206,162 @@ export default function DealDetailPage() {
           </div>
         </div>
 
-        {/* Income - Hidden for Primary Residence */}
-        {deal.purchaseType !== 'primary_residence' && (
+        {/* Income - Hidden for Primary Residence and flips */}
+        {deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && (
           <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Income</h2>
             
+            {/* Rental Strategy */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rental Strategy</label>
+              <select
+                value={deal.rentalStrategy || 'long_term'}
+                onChange={(e) => handleInputChange('rentalStrategy', e.target.value === 'long_term' ? null : e.target.value)}
+                className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+              >
+                <option value="long_term">Long-Term Rental</option>
+                <option value="short_term">Short-Term Rental (Airbnb)</option>
+              </select>
+            </div>
+            
+            {/* Short-Term Rental Inputs */}
+            {deal.rentalStrategy === 'short_term' && (
+              <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Short-Term Rental</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Booking revenue replaces monthly rent, and occupancy replaces the vacancy rate.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Average Daily Rate *</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                      <input
+                        ref={el => { fieldRefs.current['strAverageDailyRate'] = el }}
+                        type="text"
+                        value={formatCurrency(deal.strAverageDailyRate)}
+                        onChange={(e) => handleInputChange('strAverageDailyRate', parseCurrency(e.target.value))}
+                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Average Stay (nights)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.5"
+                      value={deal.strAverageStayNights ?? 3}
+                      onChange={(e) => handleInputChange('strAverageStayNights', parseFloat(e.target.value) || 3)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Sets the number of turnovers</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Cleaning Cost per Stay</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                      <input
+                        type="text"
+                        value={formatCurrency(deal.strCleaningFeePerStay ?? 100)}
+                        onChange={(e) => handleInputChange('strCleaningFeePerStay', parseCurrency(e.target.value) ?? 0)}
+                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Platform Fee (%)</label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        value={deal.strPlatformFeeRate ?? 3}
+                        onChange={(e) => handleInputChange('strPlatformFeeRate', parsePercent(e.target.value) ?? 0)}
+                        className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                      <span className="absolute right-3 top-2 text-gray-500">%</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">% of booking revenue</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">STR Management (%)</label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="1"
+                        value={deal.strManagementRate ?? 20}
+                        onChange={(e) => handleInputChange('strManagementRate', parsePercent(e.target.value) ?? 0)}
+                        className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                      <span className="absolute right-3 top-2 text-gray-500">%</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">% of booking revenue</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Supplies (Monthly)</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                      <input
+                        type="text"
+                        value={formatCurrency(deal.strSuppliesMonthly ?? 75)}
+                        onChange={(e) => handleInputChange('strSuppliesMonthly', parseCurrency(e.target.value) ?? 0)}
+                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Furnishing Cost</label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                      <input
+                        type="text"
+                        value={formatCurrency(deal.strFurnishingCost)}
+                        onChange={(e) => handleInputChange('strFurnishingCost', parseCurrency(e.target.value))}
+                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Paid in cash at close</p>
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Occupancy by Month (%)</label>
+                  <div className="grid grid-cols-4 md:grid-cols-6 lg:grid-cols-12 gap-2">
+                    {['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'].map((month, i) => (
+                      <div key={month}>
+                        <span className="block text-xs text-gray-500 mb-1">{month}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          value={deal.strMonthlyOccupancy?.[i] ?? 65}
+                          onChange={(e) => {
+                            const occupancy = Array.from({ length: 12 }, (_, m) => deal.strMonthlyOccupancy?.[m] ?? 65)
+                            occupancy[i] = Math.min(100, Math.max(0, parseFloat(e.target.value) || 0))
+                            handleInputChange('strMonthlyOccupancy', occupancy)
+                          }}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+            
             {/* Multi-Family / House Hack: Per-Unit Inputs */}
-            {(deal.purchaseType === 'house_hack' || deal.purchaseType === 'investment_property') && (
+            {deal.rentalStrategy !== 'short_term' && (deal.purchaseType === 'house_hack' || deal.purchaseType === 'investment_property') && (
               <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
                 <div className="flex items-center justify-between mb-4">
                   <div>
@@ -824,17 +2374,40 @@ export default function DealDetailPage() {
                         : 'All units are rented out (investment property)'}
                     </p>
                   </div>
-                  <div className="flex gap-2">
-                    {deal.numberOfUnits && deal.numberOfUnits > (deal.purchaseType === 'house_hack' ? 2 : 1) && (
+                  {!hasRentRoll && (
+                    <div className="flex gap-2">
+                      {deal.numberOfUnits && deal.numberOfUnits > (deal.purchaseType === 'house_hack' ? 2 : 1) && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            const currentUnits = deal.numberOfUnits || (deal.purchaseType === 'house_hack' ? 2 : 1)
+                            const minUnits = deal.purchaseType === 'house_hack' ? 2 : 1
+                            const newUnits = Math.max(minUnits, currentUnits - 1)
+                            handleInputChange('numberOfUnits', newUnits)
+                            // Auto-calculate total rent based on rent per unit OR derive from current rent
+                            const rentPerUnit = deal.rentPerUnit || (deal.rentMonthly && currentUnits > 0 ? Math.round(deal.rentMonthly / (deal.purchaseType === 'house_hack' ? currentUnits - 1 : currentUnits)) : null)
+                            if (rentPerUnit) {
+                              const rentedUnits = deal.purchaseType === 'house_hack' ? newUnits - 1 : newUnits
+                              handleInputChange('rentMonthly', rentPerUnit * rentedUnits)
+                              if (!deal.rentPerUnit) {
+                                handleInputChange('rentPerUnit', rentPerUnit)
+                              }
+                            }
+                          }}
+                          className="px-3 py-1 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                        >
+                          - Remove Unit
+                        </button>
+                      )}
                       <button
                         type="button"
                         onClick={() => {
                           const currentUnits = deal.numberOfUnits || (deal.purchaseType === 'house_hack' ? 2 : 1)
-                          const minUnits = deal.purchaseType === 'house_hack' ? 2 : 1
-                          const newUnits = Math.max(minUnits, currentUnits - 1)
+                          const newUnits = currentUnits + 1
                           handleInputChange('numberOfUnits', newUnits)
                           // Auto-calculate total rent based on rent per unit OR derive from current rent
-                          const rentPerUnit = deal.rentPerUnit || (deal.rentMonthly && currentUnits > 0 ? Math.round(deal.rentMonthly / (deal.purchaseType === 'house_hack' ? currentUnits - 1 : currentUnits)) : null)
+                          const currentRentedUnits = deal.purchaseType === 'house_hack' ? Math.max(1, currentUnits - 1) : currentUnits
+                          const rentPerUnit = deal.rentPerUnit || (deal.rentMonthly && currentRentedUnits > 0 ? Math.round(deal.rentMonthly / currentRentedUnits) : null)
                           if (rentPerUnit) {
                             const rentedUnits = deal.purchaseType === 'house_hack' ? newUnits - 1 : newUnits
                             handleInputChange('rentMonthly', rentPerUnit * rentedUnits)
@@ -843,33 +2416,12 @@ export default function DealDetailPage() {
                             }
                           }
                         }}
-                        className="px-3 py-1 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                        className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
                       >
-                        - Remove Unit
+                        + Add Unit
                       </button>
-                    )}
-                    <button
-                      type="button"
-                      onClick={() => {
-                        const currentUnits = deal.numberOfUnits || (deal.purchaseType === 'house_hack' ? 2 : 1)
-                        const newUnits = currentUnits + 1
-                        handleInputChange('numberOfUnits', newUnits)
-                        // Auto-calculate total rent based on rent per unit OR derive from current rent
-                        const currentRentedUnits = deal.purchaseType === 'house_hack' ? Math.max(1, currentUnits - 1) : currentUnits
-                        const rentPerUnit = deal.rentPerUnit || (deal.rentMonthly && currentRentedUnits > 0 ? Math.round(deal.rentMonthly / currentRentedUnits) : null)
-                        if (rentPerUnit) {
-                          const rentedUnits = deal.purchaseType === 'house_hack' ? newUnits - 1 : newUnits
-                          handleInputChange('rentMonthly', rentPerUnit * rentedUnits)
-                          if (!deal.rentPerUnit) {
-                            handleInputChange('rentPerUnit', rentPerUnit)
-                          }
-                        }
-                      }}
-                      className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
-                    >
-                      + Add Unit
-                    </button>
-                  </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* House Hack Info Banner */}
@@ -884,153 +2436,314 @@ export default function DealDetailPage() {
                   </div>
                 )}
                 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      {deal.purchaseType === 'house_hack' ? 'Total Units (Including Yours)' : 'Number of Units'}
-                    </label>
-                    <input
-                      type="number"
-                      min={deal.purchaseType === 'house_hack' ? 2 : 1}
-                      max="20"
-                      value={deal.numberOfUnits ?? (deal.purchaseType === 'house_hack' ? 2 : 1)}
-                      onChange={(e) => {
-                        const minUnits = deal.purchaseType === 'house_hack' ? 2 : 1
-                        const oldUnits = deal.numberOfUnits || minUnits
-                        const units = Math.max(minUnits, parseInt(e.target.value) || minUnits)
-                        handleInputChange('numberOfUnits', units)
-                        // Auto-calculate total rent based on rent per unit OR derive from current rent
-                        const oldRentedUnits = deal.purchaseType === 'house_hack' ? Math.max(1, oldUnits - 1) : oldUnits
-                        const rentPerUnit = deal.rentPerUnit || (deal.rentMonthly && oldRentedUnits > 0 ? Math.round(deal.rentMonthly / oldRentedUnits) : null)
-                        if (rentPerUnit) {
-                          const rentedUnits = deal.purchaseType === 'house_hack' ? units - 1 : units
-                          handleInputChange('rentMonthly', rentPerUnit * rentedUnits)
-                          if (!deal.rentPerUnit) {
-                            handleInputChange('rentPerUnit', rentPerUnit)
-                          }
-                        }
-                      }}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
-                    />
-                    <p className="text-xs text-gray-500 mt-1">
-                      {deal.purchaseType === 'house_hack' 
-                        ? `${(deal.numberOfUnits || 2) - 1} rented, 1 owner-occupied`
-                        : 'All units are rented out'}
-                    </p>
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Rent Per Unit (Monthly)</label>
-                    <div className="relative">
-                      <span className="absolute left-3 top-2 text-gray-500">$</span>
+                {!hasRentRoll && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {deal.purchaseType === 'house_hack' ? 'Total Units (Including Yours)' : 'Number of Units'}
+                      </label>
                       <input
-                        type="text"
-                        value={formatCurrency(deal.rentPerUnit)}
+                        type="number"
+                        min={deal.purchaseType === 'house_hack' ? 2 : 1}
+                        max="20"
+                        value={deal.numberOfUnits ?? (deal.purchaseType === 'house_hack' ? 2 : 1)}
                         onChange={(e) => {
-                          const rentPerUnit = parseCurrency(e.target.value)
-                          handleInputChange('rentPerUnit', rentPerUnit)
-                          // Auto-calculate total rent based on rented units
-                          const totalUnits = deal.numberOfUnits || (deal.purchaseType === 'house_hack' ? 2 : 1)
-                          const rentedUnits = deal.purchaseType === 'house_hack' ? totalUnits - 1 : totalUnits
+                          const minUnits = deal.purchaseType === 'house_hack' ? 2 : 1
+                          const oldUnits = deal.numberOfUnits || minUnits
+                          const units = Math.max(minUnits, parseInt(e.target.value) || minUnits)
+                          handleInputChange('numberOfUnits', units)
+                          // Auto-calculate total rent based on rent per unit OR derive from current rent
+                          const oldRentedUnits = deal.purchaseType === 'house_hack' ? Math.max(1, oldUnits - 1) : oldUnits
+                          const rentPerUnit = deal.rentPerUnit || (deal.rentMonthly && oldRentedUnits > 0 ? Math.round(deal.rentMonthly / oldRentedUnits) : null)
                           if (rentPerUnit) {
+                            const rentedUnits = deal.purchaseType === 'house_hack' ? units - 1 : units
                             handleInputChange('rentMonthly', rentPerUnit * rentedUnits)
-                          } else {
-                            handleInputChange('rentMonthly', null)
+                            if (!deal.rentPerUnit) {
+                              handleInputChange('rentPerUnit', rentPerUnit)
+                            }
                           }
                         }}
-                        className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
                       />
+                      <p className="text-xs text-gray-500 mt-1">
+                        {deal.purchaseType === 'house_hack' 
+                          ? `${(deal.numberOfUnits || 2) - 1} rented, 1 owner-occupied`
+                          : 'All units are rented out'}
+                      </p>
                     </div>
-                    <p className="text-xs text-gray-500 mt-1">Average monthly rent per rented unit</p>
-                  </div>
                   
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Vacancy Rate (%)</label>
-                    <div className="relative">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Rent Per Unit (Monthly)</label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-2 text-gray-500">$</span>
+                        <input
+                          type="text"
+                          value={formatCurrency(deal.rentPerUnit)}
+                          onChange={(e) => {
+                            const rentPerUnit = parseCurrency(e.target.value)
+                            handleInputChange('rentPerUnit', rentPerUnit)
+                            // Auto-calculate total rent based on rented units
+                            const totalUnits = deal.numberOfUnits || (deal.purchaseType === 'house_hack' ? 2 : 1)
+                            const rentedUnits = deal.purchaseType === 'house_hack' ? totalUnits - 1 : totalUnits
+                            if (rentPerUnit) {
+                              handleInputChange('rentMonthly', rentPerUnit * rentedUnits)
+                            } else {
+                              handleInputChange('rentMonthly', null)
+                            }
+                          }}
+                          className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Average monthly rent per rented unit</p>
+                    </div>
+                  
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Vacancy Rate (%)</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          value={deal.vacancyRatePerUnit ?? deal.vacancyRate ?? ''}
+                          onChange={(e) => {
+                            const rate = parsePercent(e.target.value)
+                            handleInputChange('vacancyRatePerUnit', rate)
+                            // If per-unit rate is set, use it for overall vacancy
+                            if (rate !== null) {
+                              handleInputChange('vacancyRate', rate)
+                            }
+                          }}
+                          className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <span className="absolute right-3 top-2 text-gray-500">%</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Expected vacancy rate for rented units</p>
+                    </div>
+                  </div>
+                )}
+                
+                {deal.purchaseType === 'house_hack' && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Your Unit&apos;s Market Rent</label>
+                      <div className="relative">
+                        <span className="absolute left-3 top-2 text-gray-500">$</span>
+                        <input
+                          type="text"
+                          value={formatCurrency(deal.ownerUnitMarketRent)}
+                          placeholder={deal.rentPerUnit ? formatCurrency(deal.rentPerUnit) : ''}
+                          onChange={(e) => handleInputChange('ownerUnitMarketRent', parseCurrency(e.target.value))}
+                          className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Rent your unit would earn (defaults to rent per unit)</p>
+                    </div>
+                    
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Move-Out Year</label>
                       <input
                         type="number"
-                        min="0"
-                        max="100"
-                        step="0.1"
-                        value={deal.vacancyRatePerUnit ?? deal.vacancyRate ?? ''}
-                        onChange={(e) => {
-                          const rate = parsePercent(e.target.value)
-                          handleInputChange('vacancyRatePerUnit', rate)
-                          // If per-unit rate is set, use it for overall vacancy
-                          if (rate !== null) {
-                            handleInputChange('vacancyRate', rate)
-                          }
-                        }}
-                        className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        min="2"
+                        max="30"
+                        value={deal.moveOutYear ?? ''}
+                        onChange={(e) => handleInputChange('moveOutYear', e.target.value ? Math.max(2, parseInt(e.target.value) || 2) : null)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
                       />
-                      <span className="absolute right-3 top-2 text-gray-500">%</span>
+                      <p className="text-xs text-gray-500 mt-1">Your unit is rented from this year on. Leave blank to stay the whole hold</p>
                     </div>
-                    <p className="text-xs text-gray-500 mt-1">Expected vacancy rate for rented units</p>
                   </div>
-                </div>
+                )}
                 
                 {/* Summary of rental income */}
-                <div className="mt-4 p-3 bg-white rounded border border-gray-200">
-                  <div className="text-sm text-gray-600">
-                    {deal.purchaseType === 'house_hack' ? (
-                      <>
-                        <strong>Rental Income:</strong> {formatCurrency(deal.rentMonthly || 0)}/month
-                        {deal.rentPerUnit && deal.numberOfUnits && (
-                          <span className="text-gray-500 ml-2">
-                            ({(deal.numberOfUnits || 2) - 1} rented unit{(deal.numberOfUnits || 2) - 1 > 1 ? 's' : ''} × {formatCurrency(deal.rentPerUnit)})
-                          </span>
-                        )}
-                      </>
-                    ) : (
-                      <>
-                        <strong>Total Monthly Rent:</strong> {formatCurrency(deal.rentMonthly || 0)}
-                        {deal.rentPerUnit && deal.numberOfUnits && (
-                          <span className="text-gray-500 ml-2">
-                            ({deal.numberOfUnits} units × {formatCurrency(deal.rentPerUnit)})
-                          </span>
-                        )}
-                      </>
-                    )}
+                {!hasRentRoll && (
+                  <div className="mt-4 p-3 bg-white rounded border border-gray-200">
+                    <div className="text-sm text-gray-600">
+                      {deal.purchaseType === 'house_hack' ? (
+                        <>
+                          <strong>Rental Income:</strong> {formatCurrency(deal.rentMonthly || 0)}/month
+                          {deal.rentPerUnit && deal.numberOfUnits && (
+                            <span className="text-gray-500 ml-2">
+                              ({(deal.numberOfUnits || 2) - 1} rented unit{(deal.numberOfUnits || 2) - 1 > 1 ? 's' : ''} × {formatCurrency(deal.rentPerUnit)})
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <strong>Total Monthly Rent:</strong> {formatCurrency(deal.rentMonthly || 0)}
+                          {deal.rentPerUnit && deal.numberOfUnits && (
+                            <span className="text-gray-500 ml-2">
+                              ({deal.numberOfUnits} units × {formatCurrency(deal.rentPerUnit)})
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </div>
+                )}
+                
+                {/* Rent Roll */}
+                <div className="mt-4 pt-4 border-t border-blue-200">
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Rent Roll</label>
+                    <button
+                      type="button"
+                      onClick={handleAddRentRollUnit}
+                      className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
+                    >
+                      + Add Unit
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-3">
+                    List each unit&apos;s lease when units differ. Rent comes from current leases (vacant units at market rent),
+                    and vacancy is the vacant units&apos; share of rent, never below your vacancy assumption.
+                  </p>
+
+                  {(deal.rentRoll || []).map((unit, index) => (
+                    <div key={index} className="grid grid-cols-2 md:grid-cols-8 gap-2 mb-2 items-end">
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Unit</label>
+                        <input
+                          type="text"
+                          value={unit.label}
+                          onChange={(e) => handleRentRollChange(index, { label: e.target.value })}
+                          className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Beds / Baths</label>
+                        <div className="flex gap-1">
+                          <input
+                            type="number"
+                            min="0"
+                            value={unit.beds ?? ''}
+                            onChange={(e) => handleRentRollChange(index, { beds: e.target.value ? parseFloat(e.target.value) : null })}
+                            className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={unit.baths ?? ''}
+                            onChange={(e) => handleRentRollChange(index, { baths: e.target.value ? parseFloat(e.target.value) : null })}
+                            className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Status</label>
+                        <select
+                          value={unit.status}
+                          onChange={(e) => handleRentRollChange(index, { status: e.target.value as RentRollUnit['status'] })}
+                          className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                        >
+                          <option value="occupied">Occupied</option>
+                          <option value="vacant">Vacant</option>
+                          {deal.purchaseType === 'house_hack' && <option value="owner_occupied">Owner&apos;s Unit</option>}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Current Rent</label>
+                        <div className="relative">
+                          <span className="absolute left-2 top-2 text-gray-500 text-sm">$</span>
+                          <input
+                            type="text"
+                            value={formatCurrency(unit.currentRent)}
+                            disabled={unit.status !== 'occupied'}
+                            onChange={(e) => handleRentRollChange(index, { currentRent: parseCurrency(e.target.value) ?? 0 })}
+                            className="w-full pl-5 pr-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm disabled:bg-gray-100"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">Market Rent</label>
+                        <div className="relative">
+                          <span className="absolute left-2 top-2 text-gray-500 text-sm">$</span>
+                          <input
+                            type="text"
+                            value={formatCurrency(unit.marketRent)}
+                            onChange={(e) => handleRentRollChange(index, { marketRent: parseCurrency(e.target.value) ?? 0 })}
+                            className="w-full pl-5 pr-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div className="md:col-span-2">
+                        <label className="block text-xs text-gray-600 mb-1">Lease End</label>
+                        <input
+                          type="date"
+                          value={unit.leaseEndDate ?? ''}
+                          disabled={unit.status !== 'occupied'}
+                          onChange={(e) => handleRentRollChange(index, { leaseEndDate: e.target.value || null })}
+                          className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm disabled:bg-gray-100"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveRentRollUnit(index)}
+                        className="px-3 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+
+                  {hasRentRoll && (() => {
+                    const rented = (deal.rentRoll || []).filter((unit) => unit.status !== 'owner_occupied')
+                    const occupied = rented.filter((unit) => unit.status === 'occupied')
+                    const derived = deriveRentRollInputs(deal.rentRoll, deal.vacancyRate ?? 0)
+                    return (
+                      <p className="text-xs text-gray-600 mt-2">
+                        {occupied.length} of {rented.length} rentable unit{rented.length === 1 ? '' : 's'} occupied ·
+                        Scheduled rent: <span className="font-semibold">${Math.round(derived.rentMonthly).toLocaleString()}/mo</span> ·
+                        Market rent: <span className="font-semibold">${Math.round(rented.reduce((sum, unit) => sum + unit.marketRent, 0)).toLocaleString()}/mo</span> ·
+                        Vacancy used: <span className="font-semibold">{derived.vacancyRate.toFixed(1)}%</span>
+                      </p>
+                    )
+                  })()}
+                </div>
+              </div>
             )}
             
             {/* Standard Rental Income Inputs */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <div className="flex items-center gap-2 mb-1">
-                  <label className="block text-sm font-medium text-gray-700">
-                    {deal.purchaseType === 'house_hack' 
-                      ? 'Rental Income (Monthly) *' 
-                      : deal.numberOfUnits && deal.numberOfUnits > 1 
-                        ? 'Total Rent (Monthly) *' 
-                        : 'Rent (Monthly) *'}
-                  </label>
-                  {deal.assumedFields?.includes('rentMonthly') && (
-                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
-                      Assumed
-                    </span>
+              {deal.rentalStrategy !== 'short_term' && (
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {deal.purchaseType === 'house_hack' 
+                        ? 'Rental Income (Monthly) *' 
+                        : deal.numberOfUnits && deal.numberOfUnits > 1 
+                          ? 'Total Rent (Monthly) *' 
+                          : 'Rent (Monthly) *'}
+                    </label>
+                    {deal.assumedFields?.includes('rentMonthly') && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
+                        Assumed
+                      </span>
+                    )}
+                  </div>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      ref={el => { fieldRefs.current['rentMonthly'] = el }}
+                      type="text"
+                      value={formatCurrency(deal.rentMonthly)}
+                      disabled={hasRentRoll}
+                      onChange={(e) => handleInputChange('rentMonthly', parseCurrency(e.target.value))}
+                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black disabled:bg-gray-100"
+                    />
+                  </div>
+                  {hasRentRoll ? (
+                    <p className="text-xs text-gray-500 mt-1">From the rent roll</p>
+                  ) : deal.numberOfUnits && deal.rentPerUnit && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {deal.purchaseType === 'house_hack' 
+                        ? `From ${(deal.numberOfUnits || 2) - 1} rented unit${(deal.numberOfUnits || 2) - 1 > 1 ? 's' : ''} × ${formatCurrency(deal.rentPerUnit)}/unit`
+                        : `Auto-calculated from ${deal.numberOfUnits} units × ${formatCurrency(deal.rentPerUnit)}/unit`}
+                    </p>
                   )}
                 </div>
-                <div className="relative">
-                  <span className="absolute left-3 top-2 text-gray-500">$</span>
-                  <input
-                    ref={el => { fieldRefs.current['rentMonthly'] = el }}
-                    type="text"
-                    value={formatCurrency(deal.rentMonthly)}
-                    onChange={(e) => handleInputChange('rentMonthly', parseCurrency(e.target.value))}
-                    className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
-                  />
-                </div>
-                {deal.numberOfUnits && deal.rentPerUnit && (
-                  <p className="text-xs text-gray-500 mt-1">
-                    {deal.purchaseType === 'house_hack' 
-                      ? `From ${(deal.numberOfUnits || 2) - 1} rented unit${(deal.numberOfUnits || 2) - 1 > 1 ? 's' : ''} × ${formatCurrency(deal.rentPerUnit)}/unit`
-                      : `Auto-calculated from ${deal.numberOfUnits} units × ${formatCurrency(deal.rentPerUnit)}/unit`}
-                  </p>
-                )}
-              </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Other Income (Monthly)</label>
@@ -1079,8 +2792,8 @@ export default function DealDetailPage() {
           )}
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Vacancy Rate - Only show for non-primary residence */}
-            {deal.purchaseType !== 'primary_residence' && (
+            {/* Vacancy Rate - Only show for long-term rentals (occupancy covers short-term) */}
+            {deal.purchaseType !== 'primary_residence' && deal.rentalStrategy !== 'short_term' && (
               <div>
                 <div className="flex items-center gap-2 mb-1">
                   <label className="block text-sm font-medium text-gray-700">Vacancy Rate (%) *</label>
@@ -1106,8 +2819,8 @@ export default function DealDetailPage() {
               </div>
             )}
 
-            {/* Management Rate - Only show for non-primary residence */}
-            {deal.purchaseType !== 'primary_residence' && (
+            {/* Management Rate - Only show for long-term rentals (STR management is under Income) */}
+            {deal.purchaseType !== 'primary_residence' && deal.rentalStrategy !== 'short_term' && (
               <div>
                 <div className="flex items-center gap-2 mb-1">
                   <label className="block text-sm font-medium text-gray-700">Management Rate (%) *</label>
@@ -1198,105 +2911,1154 @@ export default function DealDetailPage() {
                   />
                   <span className="absolute right-3 top-2 text-gray-500">%</span>
                 </div>
+                {(deal.capexSchedule || []).length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Replaced by the CapEx schedule below</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* CapEx Schedule - itemized replacements instead of a flat percentage */}
+          {deal.purchaseType !== 'primary_residence' && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">CapEx Schedule</label>
+                <button
+                  type="button"
+                  onClick={handleAddCapexItem}
+                  className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
+                >
+                  + Add Item
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                List upcoming replacements (roof, HVAC, water heater) to charge each one in the year it happens instead of a flat CapEx %.
+                A monthly reserve smooths the cost: replacements are paid from the reserve first, and whatever is left comes back at sale.
+              </p>
+
+              {(deal.capexSchedule || []).map((item, index) => (
+                <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-2 items-end">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Component</label>
+                    <input
+                      type="text"
+                      value={item.component}
+                      placeholder="Roof"
+                      onChange={(e) => handleCapexItemChange(index, { component: e.target.value })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Cost (Today)</label>
+                    <div className="relative">
+                      <span className="absolute left-2 top-2 text-gray-500 text-sm">$</span>
+                      <input
+                        type="text"
+                        value={formatCurrency(item.cost)}
+                        onChange={(e) => handleCapexItemChange(index, { cost: parseCurrency(e.target.value) ?? 0 })}
+                        className="w-full pl-5 pr-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Remaining Life (Years)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="50"
+                      value={item.remainingLifeYears}
+                      onChange={(e) => handleCapexItemChange(index, { remainingLifeYears: e.target.value ? parseInt(e.target.value) : 0 })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Inflation (%/yr)</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={item.inflationRate}
+                      onChange={(e) => handleCapexItemChange(index, { inflationRate: e.target.value ? parseFloat(e.target.value) : 0 })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveCapexItem(index)}
+                    className="px-3 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+
+              {(deal.capexSchedule || []).length > 0 && (
+                <div className="mt-3 max-w-xs">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">CapEx Reserve (Monthly)</label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-2 text-gray-500">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(deal.capexReserveMonthly)}
+                      onChange={(e) => handleInputChange('capexReserveMonthly', parseCurrency(e.target.value))}
+                      className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Holding Period Projections - Not used for flips, which are sold after the rehab */}
+        {deal.purchaseType !== 'flip' && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Holding Period Projections</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {deal.purchaseType === 'primary_residence' 
+                ? 'Configure assumptions for multi-year projections to estimate appreciation, equity buildup, and potential return at sale.'
+                : 'Configure assumptions for multi-year projections to estimate appreciation, cash flow growth, and total return.'}
+            </p>
+            
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {/* Holding Period */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Holding Period (Years)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    step="1"
+                    value={deal.holdingPeriodYears ?? 10}
+                    onChange={(e) => handleInputChange('holdingPeriodYears', parseInt(e.target.value) || 10)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+              
+                {/* Appreciation Rate */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Annual Appreciation (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="-20"
+                      max="20"
+                      step="0.5"
+                      value={deal.appreciationRate ?? 3}
+                      onChange={(e) => handleInputChange('appreciationRate', parseFloat(e.target.value) || 3)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                </div>
+              
+                {/* Rent Growth Rate */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Annual Rent Growth (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="-10"
+                      max="20"
+                      step="0.5"
+                      value={deal.rentGrowthRate ?? 2}
+                      onChange={(e) => handleInputChange('rentGrowthRate', parseFloat(e.target.value) || 2)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                </div>
+              
+                {/* Expense Growth Rate */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Annual Expense Growth (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="-10"
+                      max="20"
+                      step="0.5"
+                      value={deal.expenseGrowthRate ?? 2}
+                      onChange={(e) => handleInputChange('expenseGrowthRate', parseFloat(e.target.value) || 2)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                </div>
+              
+                {/* Selling Costs */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Selling Costs (%)</label>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      min="0"
+                      max="20"
+                      step="0.5"
+                      value={deal.sellingCostRate ?? 6}
+                      onChange={(e) => handleInputChange('sellingCostRate', parseFloat(e.target.value) || 6)}
+                      className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <span className="absolute right-3 top-2 text-gray-500">%</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Typically 5-6% for realtor fees + closing</p>
+                </div>
+
+                {/* Renter's investment return - Primary residence only */}
+                {deal.purchaseType === 'primary_residence' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Renter Investment Return (%)</label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min="-20"
+                        max="30"
+                        step="0.5"
+                        value={deal.renterInvestmentReturn ?? 3}
+                        onChange={(e) => handleInputChange('renterInvestmentReturn', parsePercent(e.target.value))}
+                        className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                      <span className="absolute right-3 top-2 text-gray-500">%</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">What your down payment and monthly savings would earn if you rented</p>
+                  </div>
+                )}
+              </div>
+
+              {/* Time-value return metrics (NPV, MIRR, XIRR) - Investment properties only */}
+              {deal.purchaseType !== 'primary_residence' && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-1">Return Metrics</h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    NPV discounts the cash flows at your required return. MIRR borrows at the finance rate and reinvests at the reinvestment rate.
+                    XIRR dates monthly cash flows from the closing date.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Discount Rate (%)</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min="0"
+                          max="50"
+                          step="0.5"
+                          value={deal.discountRate ?? 10}
+                          onChange={(e) => handleInputChange('discountRate', parsePercent(e.target.value))}
+                          className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <span className="absolute right-3 top-2 text-gray-500">%</span>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">MIRR Finance Rate (%)</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min="0"
+                          max="50"
+                          step="0.5"
+                          value={deal.mirrFinanceRate ?? deal.interestRate ?? ''}
+                          onChange={(e) => handleInputChange('mirrFinanceRate', parsePercent(e.target.value))}
+                          className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <span className="absolute right-3 top-2 text-gray-500">%</span>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">MIRR Reinvestment Rate (%)</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min="0"
+                          max="50"
+                          step="0.5"
+                          value={deal.mirrReinvestmentRate ?? deal.discountRate ?? 10}
+                          onChange={(e) => handleInputChange('mirrReinvestmentRate', parsePercent(e.target.value))}
+                          className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <span className="absolute right-3 top-2 text-gray-500">%</span>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Closing Date</label>
+                      <input
+                        type="date"
+                        value={deal.closingDate ?? ''}
+                        onChange={(e) => handleInputChange('closingDate', e.target.value || null)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Defaults to today</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Exit Valuation - Investment properties only */}
+              {deal.purchaseType !== 'primary_residence' && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-1">Exit Valuation</h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    How the sale price is set. Cap rate and GRM value the property on the year after the sale, the way a buyer would.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                      <select
+                        value={deal.exitValuationMethod ?? 'appreciation'}
+                        onChange={(e) => handleInputChange('exitValuationMethod', e.target.value as ExitValuationMethod)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                      >
+                        {(Object.keys(EXIT_VALUATION_LABELS) as ExitValuationMethod[]).map((method) => (
+                          <option key={method} value={method}>{EXIT_VALUATION_LABELS[method]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {deal.exitValuationMethod === 'cap_rate' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Exit Cap Rate (%)</label>
+                          <div className="relative">
+                            <input
+                              type="number"
+                              min="0.1"
+                              max="30"
+                              step="0.25"
+                              value={deal.exitCapRate ?? ''}
+                              onChange={(e) => handleInputChange('exitCapRate', parsePercent(e.target.value))}
+                              placeholder="Going-in"
+                              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                            />
+                            <span className="absolute right-3 top-2 text-gray-500">%</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">Blank uses the going-in cap rate</p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Cap Rate Expansion (pts)</label>
+                          <input
+                            type="number"
+                            min="-5"
+                            max="5"
+                            step="0.25"
+                            value={deal.exitCapRateExpansion ?? 0}
+                            onChange={(e) => handleInputChange('exitCapRateExpansion', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">Added to the exit cap for a softer market</p>
+                        </div>
+                      </>
+                    )}
+                    {deal.exitValuationMethod === 'grm' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Gross Rent Multiplier</label>
+                        <input
+                          type="number"
+                          min="0.1"
+                          max="50"
+                          step="0.5"
+                          value={deal.exitGrossRentMultiplier ?? ''}
+                          onChange={(e) => handleInputChange('exitGrossRentMultiplier', parsePercent(e.target.value))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Sale price ÷ annual gross rent</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Cash-Out Refinance (BRRRR) */}
+              {deal.purchaseType !== 'primary_residence' && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <div className="flex items-center gap-2 mb-4">
+                    <input
+                      type="checkbox"
+                      id="refinanceEnabled"
+                      checked={deal.refinanceEnabled || false}
+                      onChange={(e) => handleInputChange('refinanceEnabled', e.target.checked)}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="refinanceEnabled" className="text-sm font-medium text-gray-700">
+                      Cash-Out Refinance (BRRRR)
+                    </label>
+                  </div>
+
+                  {deal.refinanceEnabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Refinance Month</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max={(deal.holdingPeriodYears || 10) * 12}
+                          value={deal.refinanceMonth ?? 12}
+                          onChange={(e) => handleInputChange('refinanceMonth', parseInt(e.target.value) || 12)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Months after purchase</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Appraised Value</label>
+                        <div className="relative">
+                          <span className="absolute left-3 top-2 text-gray-500">$</span>
+                          <input
+                            type="text"
+                            value={formatCurrency(deal.refinanceAppraisedValue)}
+                            onChange={(e) => handleInputChange('refinanceAppraisedValue', parseCurrency(e.target.value))}
+                            className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Refinance LTV (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="1"
+                            value={deal.refinanceLtv ?? 75}
+                            onChange={(e) => handleInputChange('refinanceLtv', parseFloat(e.target.value) || 75)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">New Interest Rate (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.125"
+                            value={deal.refinanceInterestRate ?? deal.interestRate ?? 7}
+                            onChange={(e) => handleInputChange('refinanceInterestRate', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">New Loan Term (Years)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="50"
+                          value={deal.refinanceTermYears ?? 30}
+                          onChange={(e) => handleInputChange('refinanceTermYears', parseInt(e.target.value) || 30)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Refinance Costs (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="20"
+                            step="0.5"
+                            value={deal.refinanceClosingCostRate ?? 2}
+                            onChange={(e) => handleInputChange('refinanceClosingCostRate', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Percent of the new loan amount</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* After-Tax Analysis */}
+              {deal.purchaseType !== 'primary_residence' && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <div className="flex items-center gap-2 mb-4">
+                    <input
+                      type="checkbox"
+                      id="taxAnalysisEnabled"
+                      checked={deal.taxAnalysisEnabled || false}
+                      onChange={(e) => handleInputChange('taxAnalysisEnabled', e.target.checked)}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="taxAnalysisEnabled" className="text-sm font-medium text-gray-700">
+                      After-Tax Analysis
+                    </label>
+                  </div>
+
+                  {deal.taxAnalysisEnabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Marginal Tax Rate (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="60"
+                            step="1"
+                            value={deal.marginalTaxRate ?? 24}
+                            onChange={(e) => handleInputChange('marginalTaxRate', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Your ordinary income bracket</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Capital Gains Rate (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="40"
+                            step="1"
+                            value={deal.capitalGainsRate ?? 15}
+                            onChange={(e) => handleInputChange('capitalGainsRate', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Long-term rate at sale</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Land Value (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="1"
+                            value={deal.landValuePct ?? 20}
+                            onChange={(e) => handleInputChange('landValuePct', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Share of price that can&apos;t be depreciated</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Depreciation Schedule</label>
+                        <select
+                          value={deal.depreciationYears ?? 27.5}
+                          onChange={(e) => handleInputChange('depreciationYears', parseFloat(e.target.value))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        >
+                          <option value={27.5}>27.5 years (Residential)</option>
+                          <option value={39}>39 years (Commercial)</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Cost Segregation (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="1"
+                            value={deal.costSegregationPct ?? 0}
+                            onChange={(e) => handleInputChange('costSegregationPct', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Basis reclassified to 5-year property</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Bonus Depreciation (%)</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="1"
+                            value={deal.bonusDepreciationPct ?? 0}
+                            onChange={(e) => handleInputChange('bonusDepreciationPct', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Of reclassified basis, taken in year 1</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Partnership Waterfall */}
+              {deal.purchaseType !== 'primary_residence' && (
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <div className="flex items-center gap-2 mb-4">
+                    <input
+                      type="checkbox"
+                      id="partnershipEnabled"
+                      checked={deal.partnershipEnabled || false}
+                      onChange={(e) => handleInputChange('partnershipEnabled', e.target.checked)}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="partnershipEnabled" className="text-sm font-medium text-gray-700">
+                      Partnership Waterfall (LP / GP)
+                    </label>
+                  </div>
+
+                  {deal.partnershipEnabled && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">LP Equity (%)</label>
+                          <div className="relative">
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="1"
+                              value={deal.lpEquityPct ?? 90}
+                              onChange={(e) => handleInputChange('lpEquityPct', parseFloat(e.target.value) || 0)}
+                              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                            />
+                            <span className="absolute right-3 top-2 text-gray-500">%</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">GP co-invests the rest</p>
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Preferred Return (%)</label>
+                          <div className="relative">
+                            <input
+                              type="number"
+                              min="0"
+                              max="50"
+                              step="0.5"
+                              value={deal.preferredReturn ?? 8}
+                              onChange={(e) => handleInputChange('preferredReturn', parseFloat(e.target.value) || 0)}
+                              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                            />
+                            <span className="absolute right-3 top-2 text-gray-500">%</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">Cumulative, compounding LP IRR</p>
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Acquisition Fee (%)</label>
+                          <div className="relative">
+                            <input
+                              type="number"
+                              min="0"
+                              max="10"
+                              step="0.25"
+                              value={deal.acquisitionFeePct ?? 0}
+                              onChange={(e) => handleInputChange('acquisitionFeePct', parseFloat(e.target.value) || 0)}
+                              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                            />
+                            <span className="absolute right-3 top-2 text-gray-500">%</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">Of purchase price, paid to the GP at closing</p>
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Asset Management Fee (%)</label>
+                          <div className="relative">
+                            <input
+                              type="number"
+                              min="0"
+                              max="10"
+                              step="0.25"
+                              value={deal.assetManagementFeePct ?? 0}
+                              onChange={(e) => handleInputChange('assetManagementFeePct', parseFloat(e.target.value) || 0)}
+                              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                            />
+                            <span className="absolute right-3 top-2 text-gray-500">%</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">Of contributed equity, per year</p>
+                        </div>
+                      </div>
+
+                      <div className="mt-4">
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="block text-sm font-medium text-gray-700">Promote Tiers</label>
+                          <button
+                            type="button"
+                            onClick={handleAddPromoteTier}
+                            className="px-3 py-1 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200"
+                          >
+                            + Add Tier
+                          </button>
+                        </div>
+                        <p className="text-xs text-gray-500 mb-3">
+                          Once the LP reaches each IRR hurdle, the GP takes the promote share of further distributions. Without tiers everything is split pro rata.
+                        </p>
+                        {(deal.promoteTiers || []).map((tier, index) => (
+                          <div key={index} className="grid grid-cols-3 gap-2 mb-2 items-end max-w-lg">
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">LP IRR Hurdle (%)</label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={tier.irrHurdle}
+                                onChange={(e) => handlePromoteTierChange(index, { irrHurdle: e.target.value ? parseFloat(e.target.value) : 0 })}
+                                className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">GP Promote (%)</label>
+                              <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="5"
+                                value={tier.promotePct}
+                                onChange={(e) => handlePromoteTierChange(index, { promotePct: e.target.value ? parseFloat(e.target.value) : 0 })}
+                                className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                              />
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => handleRemovePromoteTier(index)}
+                              className="px-3 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Monte Carlo Risk Simulation */}
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <div className="flex items-center gap-2 mb-4">
+                  <input
+                    type="checkbox"
+                    id="monteCarloEnabled"
+                    checked={deal.monteCarloEnabled || false}
+                    onChange={(e) => handleInputChange('monteCarloEnabled', e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <label htmlFor="monteCarloEnabled" className="text-sm font-medium text-gray-700">
+                    Risk Simulation (Monte Carlo)
+                  </label>
+                </div>
+
+                {deal.monteCarloEnabled && (
+                  <>
+                    <p className="text-xs text-gray-500 mb-4">
+                      Each trial draws appreciation, rent growth, expense growth and vacancy from a normal distribution centered on the rates above.
+                      Volatility is one standard deviation in percentage points.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Appreciation Volatility</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="20"
+                            step="0.5"
+                            value={deal.appreciationVolatility ?? 2}
+                            onChange={(e) => handleInputChange('appreciationVolatility', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">±%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Around the appreciation rate</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Rent Growth Volatility</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="20"
+                            step="0.5"
+                            value={deal.rentGrowthVolatility ?? 1.5}
+                            onChange={(e) => handleInputChange('rentGrowthVolatility', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">±%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Around the rent growth rate</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Expense Growth Volatility</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="20"
+                            step="0.5"
+                            value={deal.expenseGrowthVolatility ?? 1}
+                            onChange={(e) => handleInputChange('expenseGrowthVolatility', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">±%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Around the expense growth rate</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Vacancy Volatility</label>
+                        <div className="relative">
+                          <input
+                            type="number"
+                            min="0"
+                            max="20"
+                            step="0.5"
+                            value={deal.vacancyVolatility ?? 2}
+                            onChange={(e) => handleInputChange('vacancyVolatility', parseFloat(e.target.value) || 0)}
+                            className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                          />
+                          <span className="absolute right-3 top-2 text-gray-500">±%</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Around the vacancy rate</p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Trials</label>
+                        <input
+                          type="number"
+                          min="100"
+                          max="5000"
+                          step="100"
+                          value={deal.monteCarloTrials ?? 1000}
+                          onChange={(e) => handleInputChange('monteCarloTrials', parseInt(e.target.value) || 1000)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Seed</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={deal.monteCarloSeed ?? 42}
+                          onChange={(e) => handleInputChange('monteCarloSeed', parseInt(e.target.value) || 0)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Same seed reproduces the same results</p>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+          </div>
+        )}
+
+        {/* Max Offer - Rental investment properties only */}
+        {deal.purchaseType !== 'primary_residence' && deal.purchaseType !== 'flip' && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Max Offer</h2>
+              <button
+                onClick={handleFindMaxOffer}
+                disabled={solvingMaxOffer || missingFields.length > 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {solvingMaxOffer ? 'Solving...' : 'Find Max Offer'}
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Find the highest purchase price that meets every target below, holding all other inputs fixed. Leave a target blank to ignore it.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min Cash-on-Cash (%)</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  value={deal.targetCashOnCash ?? ''}
+                  onChange={(e) => handleInputChange('targetCashOnCash', e.target.value === '' ? null : parseFloat(e.target.value))}
+                  placeholder="e.g. 8"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min DSCR</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={deal.targetDscr ?? ''}
+                  onChange={(e) => handleInputChange('targetDscr', e.target.value === '' ? null : parseFloat(e.target.value))}
+                  placeholder="e.g. 1.25"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min Monthly Cash Flow ($)</label>
+                <input
+                  type="number"
+                  step="25"
+                  value={deal.targetCashFlowMonthly ?? ''}
+                  onChange={(e) => handleInputChange('targetCashFlowMonthly', e.target.value === '' ? null : parseFloat(e.target.value))}
+                  placeholder="e.g. 200"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min Cap Rate (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={deal.targetCapRate ?? ''}
+                  onChange={(e) => handleInputChange('targetCapRate', e.target.value === '' ? null : parseFloat(e.target.value))}
+                  placeholder="e.g. 6"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Min IRR (%)</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  value={deal.targetIrr ?? ''}
+                  onChange={(e) => handleInputChange('targetIrr', e.target.value === '' ? null : parseFloat(e.target.value))}
+                  placeholder="e.g. 12"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                />
+                <p className="text-xs text-gray-500 mt-1">Uses the holding period assumptions above</p>
+              </div>
+            </div>
+
+            {maxOffer && (
+              <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                {maxOffer.maxPurchasePrice !== null && maxOffer.outputs ? (
+                  <>
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+                      <div>
+                        <div className="text-sm text-gray-600">Max Offer</div>
+                        <div className="text-3xl font-bold text-gray-900">${maxOffer.maxPurchasePrice.toLocaleString()}</div>
+                        <div className="text-sm text-gray-600 mt-1">
+                          {deal.purchasePrice
+                            ? `${maxOffer.maxPurchasePrice >= deal.purchasePrice ? '+' : '-'}$${Math.abs(maxOffer.maxPurchasePrice - deal.purchasePrice).toLocaleString()} vs. current price`
+                            : null}
+                          {maxOffer.bindingTarget && (
+                            <> · Limited by {MAX_OFFER_TARGET_LABELS[maxOffer.bindingTarget]}</>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleInputChange('purchasePrice', maxOffer.maxPurchasePrice)}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                      >
+                        Use This Price
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-600">Cash-on-Cash</div>
+                        <div className="font-semibold text-gray-900">{maxOffer.outputs.cashOnCash.toFixed(2)}%</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">DSCR</div>
+                        <div className="font-semibold text-gray-900">{maxOffer.outputs.dscr.toFixed(2)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Monthly Cash Flow</div>
+                        <div className="font-semibold text-gray-900">${Math.round(maxOffer.outputs.cashFlowMonthly).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Cap Rate</div>
+                        <div className="font-semibold text-gray-900">{maxOffer.outputs.capRate.toFixed(2)}%</div>
+                      </div>
+                      {maxOffer.irr !== null && (
+                        <div>
+                          <div className="text-gray-600">IRR</div>
+                          <div className="font-semibold text-gray-900">{maxOffer.irr.toFixed(2)}%</div>
+                        </div>
+                      )}
+                    </div>
+                  </>
+                ) : maxOffer.reason === 'no_limit' ? (
+                  <p className="text-sm text-gray-700">
+                    No limit: these targets are met at any price (e.g. DSCR on an all-cash purchase). Add a return target to cap the offer.
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-700">
+                    No purchase price meets every target
+                    {maxOffer.bindingTarget && <> ({MAX_OFFER_TARGET_LABELS[maxOffer.bindingTarget]} can&apos;t be reached)</>}.
+                  </p>
+                )}
               </div>
             )}
           </div>
-        </div>
+        )}
 
-        {/* Holding Period Projections - Available for all property types */}
-        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Holding Period Projections</h2>
-          <p className="text-sm text-gray-600 mb-4">
-            {deal.purchaseType === 'primary_residence' 
-              ? 'Configure assumptions for multi-year projections to estimate appreciation, equity buildup, and potential return at sale.'
-              : 'Configure assumptions for multi-year projections to estimate appreciation, cash flow growth, and total return.'}
-          </p>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {/* Holding Period */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Holding Period (Years)</label>
-                <input
-                  type="number"
-                  min="1"
-                  max="30"
-                  step="1"
-                  value={deal.holdingPeriodYears ?? 10}
-                  onChange={(e) => handleInputChange('holdingPeriodYears', parseInt(e.target.value) || 10)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
-                />
-              </div>
-              
-              {/* Appreciation Rate */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Annual Appreciation (%)</label>
-                <div className="relative">
-                  <input
-                    type="number"
-                    min="-20"
-                    max="20"
-                    step="0.5"
-                    value={deal.appreciationRate ?? 3}
-                    onChange={(e) => handleInputChange('appreciationRate', parseFloat(e.target.value) || 3)}
-                    className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
-                  />
-                  <span className="absolute right-3 top-2 text-gray-500">%</span>
-                </div>
+        {/* Loan Offers - compare lender quotes against the same property inputs */}
+        {deal.purchaseType !== 'flip' && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Loan Offers</h2>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleAddLoanOffer}
+                  disabled={(deal.loanOffers || []).length >= 6}
+                  className="px-3 py-2 text-sm font-medium text-blue-600 bg-blue-100 rounded-lg hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  + Add Offer
+                </button>
+                <button
+                  onClick={handleCompareLoanOffers}
+                  disabled={comparingLoans || missingFields.length > 0 || (deal.loanOffers || []).length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {comparingLoans ? 'Comparing...' : 'Compare Offers'}
+                </button>
               </div>
-              
-              {/* Rent Growth Rate */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Annual Rent Growth (%)</label>
-                <div className="relative">
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Compare rates, points, lender credits and temporary buydowns on the same property. Each offer is a fixed-rate loan;
+              points and a buyer-paid buydown are added to closing costs. Down payment and term default to the loan above.
+            </p>
+
+            {(deal.loanOffers || []).map((offer, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-8 gap-2 mb-2 items-end">
+                <div className="col-span-2 md:col-span-2">
+                  <label className="block text-xs text-gray-600 mb-1">Offer</label>
                   <input
-                    type="number"
-                    min="-10"
-                    max="20"
-                    step="0.5"
-                    value={deal.rentGrowthRate ?? 2}
-                    onChange={(e) => handleInputChange('rentGrowthRate', parseFloat(e.target.value) || 2)}
-                    className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    type="text"
+                    value={offer.label}
+                    placeholder="Lender A"
+                    onChange={(e) => handleLoanOfferChange(index, { label: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
                   />
-                  <span className="absolute right-3 top-2 text-gray-500">%</span>
                 </div>
-              </div>
-              
-              {/* Expense Growth Rate */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Annual Expense Growth (%)</label>
-                <div className="relative">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Rate (%)</label>
                   <input
                     type="number"
-                    min="-10"
-                    max="20"
-                    step="0.5"
-                    value={deal.expenseGrowthRate ?? 2}
-                    onChange={(e) => handleInputChange('expenseGrowthRate', parseFloat(e.target.value) || 2)}
-                    className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    min="0"
+                    max="100"
+                    step="0.125"
+                    value={offer.interestRate}
+                    onChange={(e) => handleLoanOfferChange(index, { interestRate: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
                   />
-                  <span className="absolute right-3 top-2 text-gray-500">%</span>
                 </div>
-              </div>
-              
-              {/* Selling Costs */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Selling Costs (%)</label>
-                <div className="relative">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Points (%)</label>
                   <input
                     type="number"
                     min="0"
-                    max="20"
-                    step="0.5"
-                    value={deal.sellingCostRate ?? 6}
-                    onChange={(e) => handleInputChange('sellingCostRate', parseFloat(e.target.value) || 6)}
-                    className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+                    max="10"
+                    step="0.125"
+                    value={offer.pointsPct}
+                    onChange={(e) => handleLoanOfferChange(index, { pointsPct: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
                   />
-                  <span className="absolute right-3 top-2 text-gray-500">%</span>
                 </div>
-                <p className="text-xs text-gray-500 mt-1">Typically 5-6% for realtor fees + closing</p>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Lender Credit</label>
+                  <div className="relative">
+                    <span className="absolute left-2 top-2 text-gray-500 text-sm">$</span>
+                    <input
+                      type="text"
+                      value={formatCurrency(offer.lenderCredit)}
+                      onChange={(e) => handleLoanOfferChange(index, { lenderCredit: parseCurrency(e.target.value) ?? 0 })}
+                      className="w-full pl-5 pr-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Buydown</label>
+                  <select
+                    value={offer.buydown}
+                    onChange={(e) => handleLoanOfferChange(index, { buydown: e.target.value as LoanOffer['buydown'] })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  >
+                    {Object.entries(BUYDOWN_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Buydown Paid By</label>
+                  <select
+                    value={offer.buydownPaidBy}
+                    disabled={offer.buydown === 'none'}
+                    onChange={(e) => handleLoanOfferChange(index, { buydownPaidBy: e.target.value as LoanOffer['buydownPaidBy'] })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm disabled:bg-gray-100"
+                  >
+                    <option value="buyer">Buyer</option>
+                    <option value="seller">Seller</option>
+                  </select>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveLoanOffer(index)}
+                  className="px-3 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200"
+                >
+                  Remove
+                </button>
               </div>
-            </div>
+            ))}
+
+            {loanComparison && loanComparison.length > 0 && (
+              <div className="mt-6 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-600">
+                      <th className="py-2 pr-4 font-medium">Offer</th>
+                      <th className="py-2 pr-4 font-medium text-right">Year-1 P&amp;I</th>
+                      <th className="py-2 pr-4 font-medium text-right">Note-Rate P&amp;I</th>
+                      <th className="py-2 pr-4 font-medium text-right">Cash to Close</th>
+                      <th className="py-2 pr-4 font-medium text-right">Points</th>
+                      <th className="py-2 pr-4 font-medium text-right">Buydown Cost</th>
+                      <th className="py-2 pr-4 font-medium text-right">Points Break-Even</th>
+                      <th className="py-2 pr-4 font-medium text-right">Monthly Cash Flow</th>
+                      {loanComparison.some((result) => result.irr !== null) && (
+                        <th className="py-2 font-medium text-right">IRR</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loanComparison.map((result, index) => (
+                      <tr key={index} className="border-b border-gray-100 text-gray-900">
+                        <td className="py-2 pr-4 font-medium">{result.label || `Offer ${index + 1}`}</td>
+                        <td className="py-2 pr-4 text-right">${Math.round(result.monthlyPayment).toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">${Math.round(result.noteRatePayment).toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">${Math.round(result.cashToClose).toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">${Math.round(result.pointsCost).toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">${Math.round(result.buydownCost).toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">
+                          {result.pointsBreakEvenMonths !== null ? `${Math.ceil(result.pointsBreakEvenMonths)} mo` : '—'}
+                        </td>
+                        <td className="py-2 pr-4 text-right">${Math.round(result.cashFlowMonthly).toLocaleString()}</td>
+                        {loanComparison.some((r) => r.irr !== null) && (
+                          <td className="py-2 text-right">{result.irr !== null ? `${result.irr.toFixed(2)}%` : '—'}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-2">
+                  Break-even is measured against the offer with the fewest points net of lender credit. Cash flow uses the note rate;
+                  IRR credits the buydown&apos;s lower payments in its first years.
+                </p>
+              </div>
+            )}
           </div>
+        )}
 
         {/* Notes */}
         <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
@@ -1313,7 +4075,11 @@ export default function DealDetailPage() {
         {/* Analysis Section */}
         <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-gray-900">Analysis</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-semibold text-gray-900">Analysis</h2>
+              {/* Scored against the buy box as it was when the analysis ran */}
+              {analysis?.buyBoxScore && <BuyBoxBadge score={analysis.buyBoxScore} />}
+            </div>
             <div className="flex gap-2">
               <button
                 onClick={handleAnalyze}
@@ -1477,6 +4243,73 @@ export default function DealDetailPage() {
                     )}
                   </div>
                 </>
+              ) : analysis.outputs.flip ? (
+                /* FIX AND FLIP: Profit on the sale after the rehab */
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className={`p-4 rounded-lg ${analysis.outputs.flip.netProfit >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                      <div className="text-sm text-gray-800 font-medium mb-1">Net Profit</div>
+                      <div className={`text-2xl font-bold ${analysis.outputs.flip.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ${Math.round(analysis.outputs.flip.netProfit).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <div className="text-sm text-gray-800 font-medium mb-1">ROI</div>
+                      <div className="text-2xl font-bold text-gray-900">{analysis.outputs.flip.roi.toFixed(1)}%</div>
+                      <div className="text-xs text-gray-500 mt-1">On cash invested over {analysis.outputs.flip.holdMonths} months</div>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <div className="text-sm text-gray-800 font-medium mb-1">Annualized ROI</div>
+                      <div className="text-2xl font-bold text-gray-900">{analysis.outputs.flip.annualizedRoi.toFixed(1)}%</div>
+                    </div>
+                    <div className="bg-gray-50 p-4 rounded-lg">
+                      <div className="text-sm text-gray-800 font-medium mb-1">Cash Invested</div>
+                      <div className="text-2xl font-bold text-gray-900">${Math.round(analysis.outputs.flip.cashInvested).toLocaleString()}</div>
+                      <div className="text-xs text-gray-500 mt-1">Loan of ${Math.round(analysis.outputs.flip.loanAmount).toLocaleString()}</div>
+                    </div>
+                  </div>
+
+                  <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">Project Costs</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-600">Buying Costs</div>
+                        <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.flip.buyingCosts).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Loan Points</div>
+                        <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.flip.loanPoints).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Interest</div>
+                        <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.flip.interestCost).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Holding Costs</div>
+                        <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.flip.holdingCosts).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Selling Costs</div>
+                        <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.flip.sellingCosts).toLocaleString()}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-600">Total Project Cost</div>
+                        <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.flip.totalProjectCost).toLocaleString()}</div>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className={`p-4 rounded-lg border ${analysis.outputs.flip.seventyPercentRule.passes ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-1">
+                      70% Rule: {analysis.outputs.flip.seventyPercentRule.passes ? 'Passes' : 'Fails'}
+                    </h3>
+                    <p className="text-sm text-gray-700">
+                      At this ARV and rehab budget, pay no more than{' '}
+                      <span className="font-semibold">${Math.round(analysis.outputs.flip.seventyPercentRule.maxPurchasePrice).toLocaleString()}</span>
+                      {' '}(70% of ARV less repairs).
+                    </p>
+                  </div>
+                </>
               ) : (
                 /* INVESTMENT PROPERTIES: Original metrics grid */
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -1496,6 +4329,7 @@ export default function DealDetailPage() {
                       </div>
                     </div>
                     <div className="text-xl font-semibold text-gray-900">${analysis.outputs.totalMonthlyPayment.toLocaleString()}</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.totalMonthlyPayment} />
                   </div>
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <div className="text-sm font-medium mb-1 flex items-center gap-1 text-gray-800">
@@ -1513,6 +4347,7 @@ export default function DealDetailPage() {
                       </div>
                     </div>
                     <div className="text-xl font-semibold text-gray-900">${analysis.outputs.noiAnnual.toLocaleString()}</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.noiAnnual} />
                   </div>
                   {/* Cash Flow */}
                   <div className={`p-4 rounded-lg ${
@@ -1562,6 +4397,7 @@ export default function DealDetailPage() {
                         </span>
                       </div>
                     )}
+                    <MetricTraceDetails trace={analysis.outputs.trace?.cashFlowAnnual} />
                   </div>
 
                   {/* Cap Rate */}
@@ -1580,82 +4416,387 @@ export default function DealDetailPage() {
                         </div>
                       </div>
                     </div>
-                    <div className="text-xl font-semibold text-green-700">{analysis.outputs.capRate.toFixed(2)}%</div>
+                    <div className="text-xl font-semibold text-green-700">{analysis.outputs.capRate.toFixed(2)}%</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.capRate} />
+                  </div>
+
+                  {/* Cash-on-Cash */}
+                  <div className="bg-green-50 border-2 border-green-200 p-4 rounded-lg">
+                    <div className="text-sm font-medium mb-1 flex items-center gap-1 text-gray-800">
+                      Cash-on-Cash Return
+                      <div className="group relative inline-block">
+                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+                        </svg>
+                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
+                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
+                            Return on actual cash invested (down payment + closing costs + rehab). Formula: (Cash Flow Annual / All-In Cash) × 100. Higher is better.
+                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-xl font-semibold text-green-700">{analysis.outputs.cashOnCash.toFixed(2)}%</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.cashOnCash} />
+                  </div>
+
+                  {/* DSCR */}
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <div className="text-sm font-medium mb-1 flex items-center gap-1 text-gray-800">
+                      DSCR
+                      <div className="group relative inline-block">
+                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+                        </svg>
+                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
+                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
+                            Debt Service Coverage Ratio: Property&apos;s ability to cover debt payments. Formula: NOI Annual / Annual Debt Service. Lenders typically require ≥ 1.25.
+                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-xl font-semibold text-gray-900">{analysis.outputs.dscr.toFixed(2)}</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.dscr} />
+                  </div>
+
+                  {/* Break-Even Rent */}
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <div className="text-sm text-gray-800 font-medium mb-1 flex items-center gap-1">
+                      {analysis.outputs.shortTermRental ? 'Break-Even Revenue' : 'Break-Even Rent'}
+                      <div className="group relative inline-block">
+                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+                        </svg>
+                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
+                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
+                            {analysis.outputs.shortTermRental
+                              ? 'Minimum monthly booking revenue needed to achieve zero cash flow at the current occupancy. Accounts for platform fees, cleaning, supplies, maintenance, CapEx, and management costs.'
+                              : 'Minimum monthly rent needed to achieve zero cash flow (break-even). Accounts for vacancy, maintenance, CapEx, and management costs.'}
+                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-xl font-semibold text-gray-900">${analysis.outputs.breakEvenRentMonthly.toLocaleString()}</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.breakEvenRentMonthly} />
+                  </div>
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <div className="text-sm text-gray-800 font-medium mb-1 flex items-center gap-1">
+                      All-In Cash
+                      <div className="group relative inline-block">
+                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+                        </svg>
+                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
+                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
+                            Total cash required to close the deal: Down Payment + Closing Costs + Rehab. This is your total initial investment.
+                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-xl font-semibold text-gray-900">${analysis.outputs.allInCashRequired.toLocaleString()}</div>
+                    <MetricTraceDetails trace={analysis.outputs.trace?.allInCashRequired} />
+                  </div>
+                </div>
+              )}
+
+              {/* Payment Shock - ARM, interest-only and balloon loans */}
+              {analysis.outputs.paymentShock && (
+                <div className="mt-6 p-4 bg-amber-50 rounded-lg border border-amber-200">
+                  <h3 className="text-sm font-semibold text-amber-900 mb-1">
+                    Payment Shock in Year {analysis.outputs.paymentShock.year}
+                  </h3>
+                  <p className="text-sm text-amber-800">
+                    {deal.loanType === 'balloon'
+                      ? <>The remaining balance of <span className="font-semibold">${Math.round(analysis.outputs.paymentShock.paymentAfter - analysis.outputs.paymentShock.paymentBefore).toLocaleString()}</span> comes due in month {analysis.outputs.paymentShock.month}. Plan to sell or refinance before then.</>
+                      : <>Monthly P&amp;I rises from <span className="font-semibold">${Math.round(analysis.outputs.paymentShock.paymentBefore).toLocaleString()}</span> to{' '}
+                          <span className="font-semibold">${Math.round(analysis.outputs.paymentShock.paymentAfter).toLocaleString()}</span> in month {analysis.outputs.paymentShock.month}{' '}
+                          (+{analysis.outputs.paymentShock.increasePct.toFixed(1)}%).</>}
+                  </p>
+                </div>
+              )}
+              
+              {/* Short-Term Rental Operations */}
+              {analysis.outputs.shortTermRental && (
+                <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Short-Term Rental Operations</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">Booked Nights</div>
+                      <div className="font-semibold text-gray-900">{Math.round(analysis.outputs.shortTermRental.bookedNightsAnnual)} / yr</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Average Occupancy</div>
+                      <div className="font-semibold text-gray-900">{analysis.outputs.shortTermRental.averageOccupancy.toFixed(1)}%</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Booking Revenue</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.shortTermRental.grossRevenueAnnual).toLocaleString()} / yr</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Platform Fees</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.shortTermRental.platformFeesAnnual).toLocaleString()} / yr</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Cleaning</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.shortTermRental.cleaningAnnual).toLocaleString()} / yr</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Supplies</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.shortTermRental.suppliesAnnual).toLocaleString()} / yr</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">STR Management</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.shortTermRental.managementAnnual).toLocaleString()} / yr</div>
+                    </div>
+                  </div>
+                </div>
+              )}
+              
+              {/* Rent Roll: loss-to-lease and upside at market rent */}
+              {analysis.outputs.rentRoll && (
+                <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Rent Roll</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">Occupancy</div>
+                      <div className="font-semibold text-gray-900">
+                        {analysis.outputs.rentRoll.occupiedUnits} of {analysis.outputs.rentRoll.occupiedUnits + analysis.outputs.rentRoll.vacantUnits} units
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">In-Place Rent</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.rentRoll.inPlaceRentMonthly).toLocaleString()}/mo</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Market Rent</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.rentRoll.marketRentMonthly).toLocaleString()}/mo</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Loss-to-Lease</div>
+                      <div className={`font-semibold ${analysis.outputs.rentRoll.lossToLeaseMonthly > 0 ? 'text-amber-600' : 'text-gray-900'}`}>
+                        ${Math.round(analysis.outputs.rentRoll.lossToLeaseMonthly).toLocaleString()}/mo
+                      </div>
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-700 mt-3">
+                    Raising occupied units to market rent adds{' '}
+                    <span className="font-semibold">${Math.round(analysis.outputs.rentRoll.noiUpsideAnnual).toLocaleString()}</span>/year of NOI,
+                    for a cap rate of <span className="font-semibold">{analysis.outputs.rentRoll.capRateAtMarket.toFixed(2)}%</span> and
+                    cash flow of <span className="font-semibold">${Math.round(analysis.outputs.rentRoll.cashFlowAtMarketMonthly).toLocaleString()}</span>/month.
+                  </p>
+                </div>
+              )}
+              
+              {/* House Hack */}
+              {analysis.outputs.houseHack && (
+                <div className="mt-6 p-4 bg-green-50 rounded-lg border border-green-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">House Hack</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">Rental Income</div>
+                      <div className="font-semibold text-gray-900">
+                        ${Math.round(analysis.outputs.houseHack.rentalIncomeMonthly).toLocaleString()}/mo
+                        <span className="text-gray-500 font-normal"> ({analysis.outputs.houseHack.rentedUnits} of {analysis.outputs.houseHack.totalUnits} units)</span>
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Effective Housing Cost</div>
+                      <div className={`font-semibold ${analysis.outputs.houseHack.effectiveHousingCostMonthly <= 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                        {analysis.outputs.houseHack.effectiveHousingCostMonthly <= 0
+                          ? `Paid $${Math.round(-analysis.outputs.houseHack.effectiveHousingCostMonthly).toLocaleString()}/mo to live here`
+                          : `$${Math.round(analysis.outputs.houseHack.effectiveHousingCostMonthly).toLocaleString()}/mo`}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Savings vs. Renting Your Unit</div>
+                      <div className={`font-semibold ${analysis.outputs.houseHack.savingsVsMarketRentMonthly >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ${Math.round(analysis.outputs.houseHack.savingsVsMarketRentMonthly).toLocaleString()}/mo
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Cash Flow After Move-Out</div>
+                      <div className={`font-semibold ${analysis.outputs.houseHack.cashFlowAfterMoveOutMonthly >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ${Math.round(analysis.outputs.houseHack.cashFlowAfterMoveOutMonthly).toLocaleString()}/mo
+                      </div>
+                    </div>
+                  </div>
+                  {analysis.outputs.houseHack.fha && (
+                    <div className={`mt-3 text-sm ${analysis.outputs.houseHack.fha.eligible ? 'text-green-800' : 'text-amber-800'}`}>
+                      {analysis.outputs.houseHack.fha.eligible ? (
+                        <>Meets FHA owner-occupancy rules.</>
+                      ) : (
+                        <>
+                          <span className="font-semibold">FHA owner-occupancy issues:</span>
+                          <ul className="list-disc list-inside mt-1">
+                            {analysis.outputs.houseHack.fha.issues.map((issue) => (
+                              <li key={issue}>{issue}</li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                      {analysis.outputs.houseHack.fha.selfSufficiency && (
+                        <p className="mt-1">
+                          Self-sufficiency test: 75% of market rent is{' '}
+                          <span className="font-semibold">${Math.round(analysis.outputs.houseHack.fha.selfSufficiency.netRentalIncomeMonthly).toLocaleString()}/mo</span>{' '}
+                          vs. PITI of <span className="font-semibold">${Math.round(analysis.outputs.houseHack.fha.selfSufficiency.pitiMonthly).toLocaleString()}/mo</span>{' '}
+                          ({analysis.outputs.houseHack.fha.selfSufficiency.passes ? 'passes' : 'fails'}).
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              {/* Closing Costs: itemized estimate net of credits */}
+              {analysis.outputs.closingCosts && (
+                <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Closing Costs</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">Total Closing Costs</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.closingCosts.grossClosingCosts).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Seller Concessions</div>
+                      <div className="font-semibold text-green-600">-${Math.round(analysis.outputs.closingCosts.sellerConcessions).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Lender Credits</div>
+                      <div className="font-semibold text-green-600">-${Math.round(analysis.outputs.closingCosts.lenderCredits).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Net at Close</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.closingCosts.netClosingCosts).toLocaleString()}</div>
+                    </div>
                   </div>
-
-                  {/* Cash-on-Cash */}
-                  <div className="bg-green-50 border-2 border-green-200 p-4 rounded-lg">
-                    <div className="text-sm font-medium mb-1 flex items-center gap-1 text-gray-800">
-                      Cash-on-Cash Return
-                      <div className="group relative inline-block">
-                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                        </svg>
-                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
-                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
-                            Return on actual cash invested (down payment + closing costs + rehab). Formula: (Cash Flow Annual / All-In Cash) × 100. Higher is better.
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
-                          </div>
-                        </div>
+                  {Object.keys(analysis.outputs.closingCosts.byCategory).length > 0 && (
+                    <p className="text-sm text-gray-700 mt-3">
+                      {Object.entries(analysis.outputs.closingCosts.byCategory)
+                        .map(([category, amount]) => `${CLOSING_COST_CATEGORY_LABELS[category as ClosingCostCategory]}: $${Math.round(amount || 0).toLocaleString()}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              {/* Rehab & Lease-Up: months without full rent and bridge financing */}
+              {analysis.outputs.rehabPeriod && (
+                <div className="mt-6 p-4 bg-amber-50 rounded-lg border border-amber-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Rehab &amp; Lease-Up</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">Stabilized</div>
+                      <div className="font-semibold text-gray-900">Month {analysis.outputs.rehabPeriod.stabilizedMonth}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Lost Income</div>
+                      <div className="font-semibold text-red-600">${Math.round(analysis.outputs.rehabPeriod.lostIncome).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Holding Costs</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.rehabPeriod.holdingCosts).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">First-Year Cash Flow</div>
+                      <div className={`font-semibold ${analysis.outputs.rehabPeriod.firstYearCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ${Math.round(analysis.outputs.rehabPeriod.firstYearCashFlow).toLocaleString()}
                       </div>
                     </div>
-                    <div className="text-xl font-semibold text-green-700">{analysis.outputs.cashOnCash.toFixed(2)}%</div>
                   </div>
-
-                  {/* DSCR */}
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <div className="text-sm font-medium mb-1 flex items-center gap-1 text-gray-800">
-                      DSCR
-                      <div className="group relative inline-block">
-                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                        </svg>
-                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
-                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
-                            Debt Service Coverage Ratio: Property&apos;s ability to cover debt payments. Formula: NOI Annual / Annual Debt Service. Lenders typically require ≥ 1.25.
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
-                          </div>
-                        </div>
+                  {analysis.outputs.rehabPeriod.bridgeLoan && (
+                    <p className="text-sm text-gray-700 mt-3">
+                      Bridge loan of <span className="font-semibold">${Math.round(analysis.outputs.rehabPeriod.bridgeLoan.amount).toLocaleString()}</span>
+                      {analysis.outputs.rehabPeriod.bridgeLoan.interestReserve > 0 && (
+                        <> plus a ${Math.round(analysis.outputs.rehabPeriod.bridgeLoan.interestReserve).toLocaleString()} interest reserve</>
+                      )}
+                      {' '}costs <span className="font-semibold">${Math.round(analysis.outputs.rehabPeriod.bridgeLoan.pointsCost).toLocaleString()}</span> in points at close
+                      and <span className="font-semibold">${Math.round(analysis.outputs.rehabPeriod.bridgeLoan.monthlyInterest).toLocaleString()}/month</span> in interest until it is repaid.
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2">Cash flow, cap rate and DSCR above are stabilized; the projections and IRR include the rehab.</p>
+                </div>
+              )}
+              
+              {/* Value-Add: forced appreciation at stabilization */}
+              {analysis.outputs.valueAdd && (
+                <div className="mt-6 p-4 bg-green-50 rounded-lg border border-green-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">Value-Add</h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">All-In Cost</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.valueAdd.allInCost).toLocaleString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Equity Created</div>
+                      <div className={`font-semibold ${analysis.outputs.valueAdd.equityCreated >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        ${Math.round(analysis.outputs.valueAdd.equityCreated).toLocaleString()}
                       </div>
                     </div>
-                    <div className="text-xl font-semibold text-gray-900">{analysis.outputs.dscr.toFixed(2)}</div>
-                  </div>
-
-                  {/* Break-Even Rent */}
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <div className="text-sm text-gray-800 font-medium mb-1 flex items-center gap-1">
-                      Break-Even Rent
-                      <div className="group relative inline-block">
-                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                        </svg>
-                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
-                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
-                            Minimum monthly rent needed to achieve zero cash flow (break-even). Accounts for vacancy, maintenance, CapEx, and management costs.
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
-                          </div>
-                        </div>
+                    <div>
+                      <div className="text-gray-600">Return on Rehab</div>
+                      <div className={`font-semibold ${analysis.outputs.valueAdd.returnOnRehab >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {analysis.outputs.valueAdd.returnOnRehab.toFixed(1)}%
                       </div>
                     </div>
-                    <div className="text-xl font-semibold text-gray-900">${analysis.outputs.breakEvenRentMonthly.toLocaleString()}</div>
+                    <div>
+                      <div className="text-gray-600">Rent Increase</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.valueAdd.rentIncreaseMonthly).toLocaleString()}/mo</div>
+                    </div>
                   </div>
-                  <div className="bg-gray-50 p-4 rounded-lg">
-                    <div className="text-sm text-gray-800 font-medium mb-1 flex items-center gap-1">
-                      All-In Cash
-                      <div className="group relative inline-block">
-                        <svg className="w-4 h-4 text-gray-500 cursor-help" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-3a1 1 0 00-.867.5 1 1 0 11-1.731-1A3 3 0 0113 8a3.001 3.001 0 01-2 2.83V11a1 1 0 11-2 0v-1a1 1 0 011-1 1 1 0 100-2zm0 8a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-                        </svg>
-                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block w-64 z-10">
-                          <div className="bg-gray-900 text-white text-xs rounded-lg py-2 px-3 shadow-lg">
-                            Total cash required to close the deal: Down Payment + Closing Costs + Rehab. This is your total initial investment.
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-gray-900"></div>
-                          </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    The ${Math.round(analysis.inputs.rehabCost).toLocaleString()} rehab adds ${Math.round(analysis.outputs.valueAdd.valueAdded).toLocaleString()} of value.
+                    Value and rent step up in month {analysis.outputs.valueAdd.stabilizationMonth}; the projections and IRR include the step-up.
+                  </p>
+                </div>
+              )}
+              
+              {/* Loan Program: upfront fee and PMI/MIP */}
+              {analysis.outputs.loanProgram && (
+                <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                    {analysis.outputs.loanProgram.program === 'conventional' ? 'Conventional' : analysis.outputs.loanProgram.program.toUpperCase()} Loan
+                  </h3>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-600">Loan Amount</div>
+                      <div className="font-semibold text-gray-900">${Math.round(analysis.outputs.loanProgram.loanAmount).toLocaleString()}</div>
+                      {analysis.outputs.loanProgram.upfrontFee > 0 && (
+                        <div className="text-xs text-gray-500">
+                          Includes ${Math.round(analysis.outputs.loanProgram.upfrontFee).toLocaleString()}{' '}
+                          {analysis.outputs.loanProgram.program === 'va' ? 'funding fee' : 'upfront MIP'}
                         </div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-gray-600">LTV</div>
+                      <div className="font-semibold text-gray-900">{analysis.outputs.loanProgram.ltv.toFixed(1)}%</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">{analysis.outputs.loanProgram.program === 'fha' ? 'MIP' : 'PMI'}</div>
+                      <div className="font-semibold text-gray-900">
+                        ${Math.round(analysis.outputs.loanProgram.mortgageInsuranceMonthly).toLocaleString()}/mo
+                        <span className="text-gray-500 font-normal"> ({analysis.outputs.loanProgram.mortgageInsuranceRate.toFixed(2)}%/yr)</span>
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-gray-600">Drops Off</div>
+                      <div className="font-semibold text-gray-900">
+                        {analysis.outputs.loanProgram.mortgageInsuranceMonthly === 0
+                          ? 'None'
+                          : analysis.outputs.loanProgram.mortgageInsuranceEndMonth === null
+                            ? 'Life of loan'
+                            : `Year ${Math.ceil(analysis.outputs.loanProgram.mortgageInsuranceEndMonth / 12)}`}
                       </div>
                     </div>
-                    <div className="text-xl font-semibold text-gray-900">${analysis.outputs.allInCashRequired.toLocaleString()}</div>
                   </div>
+                  {!analysis.outputs.loanProgram.meetsMinDownPayment && (
+                    <p className="text-sm text-amber-800 mt-3">
+                      Down payment is below the {analysis.outputs.loanProgram.minDownPaymentPct}% minimum for this program.
+                    </p>
+                  )}
                 </div>
               )}
               
@@ -1674,6 +4815,18 @@ export default function DealDetailPage() {
                       of that goes toward building equity, so your <span className="font-semibold">true cost of housing</span> is approximately{' '}
                       <span className="font-semibold">${Math.round(primaryResidenceOutputs.annualNetCostOfOwnership / 12).toLocaleString()}/month</span>.
                     </>
+                  ) : analysis.outputs.flip ? (
+                    <>
+                      <span className="font-semibold">Fix and Flip:</span> You&apos;ll need{' '}
+                      <span className="font-semibold">${Math.round(analysis.outputs.flip.cashInvested).toLocaleString()}</span> in cash to fund this flip.{' '}
+                      Selling at the ARV after {analysis.outputs.flip.holdMonths} months{' '}
+                      {analysis.outputs.flip.netProfit >= 0 ? (
+                        <>nets <span className="font-semibold text-green-700">${Math.round(analysis.outputs.flip.netProfit).toLocaleString()}</span></>
+                      ) : (
+                        <>loses <span className="font-semibold text-red-700">${Math.round(-analysis.outputs.flip.netProfit).toLocaleString()}</span></>
+                      )}
+                      {' '}after all costs, a {analysis.outputs.flip.roi.toFixed(1)}% return on your cash.
+                    </>
                   ) : deal.purchaseType === 'house_hack' ? (
                     <>
                       <span className="font-semibold">House Hack Analysis:</span> You&apos;ll need{' '}
@@ -1694,6 +4847,10 @@ export default function DealDetailPage() {
                           )}
                         </>
                       )}
+                      {analysis.outputs.houseHack && deal.moveOutYear && (
+                        <> Once you move out in year {deal.moveOutYear}, renting your unit brings cash flow to{' '}
+                          <span className="font-semibold">${Math.round(analysis.outputs.houseHack.cashFlowAfterMoveOutMonthly).toLocaleString()}</span>/month (in today&apos;s rents).</>
+                      )}
                       {' '}Cap rate: <span className="font-semibold">{analysis.outputs.capRate.toFixed(1)}%</span>.
                       {' '}Cash-on-cash: <span className="font-semibold">{analysis.outputs.cashOnCash.toFixed(1)}%</span>.
                     </>
@@ -1722,7 +4879,7 @@ export default function DealDetailPage() {
                       ) : (
                         <> (below 1.0 - does not cover debt payments), this property needs higher rent or lower expenses to be viable.</>
                       )}
-                      {' '}Break-even rent: <span className="font-semibold">${analysis.outputs.breakEvenRentMonthly.toLocaleString()}</span>/month.
+                      {' '}{analysis.outputs.shortTermRental ? 'Break-even booking revenue' : 'Break-even rent'}: <span className="font-semibold">${analysis.outputs.breakEvenRentMonthly.toLocaleString()}</span>/month.
                     </>
                   )}
                 </p>
@@ -1731,6 +4888,112 @@ export default function DealDetailPage() {
           )}
         </div>
 
+        {/* Sensitivity Analysis */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Sensitivity Analysis</h2>
+            <button
+              onClick={handleRunSensitivity}
+              disabled={runningSensitivity || missingFields.length > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {runningSensitivity ? 'Running...' : 'Run Sensitivity'}
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Vary two inputs at once to see how an output metric responds. The tornado chart flexes each input on its own and ranks which ones move IRR the most.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              ['Rows', sensitivityRowAxis ?? getDefaultSensitivityAxis('interestRate'), setSensitivityRowAxis],
+              ['Columns', sensitivityColumnAxis ?? getDefaultSensitivityAxis('purchasePrice'), setSensitivityColumnAxis],
+            ] as const).map(([label, axis, setAxis]) => (
+              <div key={label}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <select
+                  value={axis.variable}
+                  onChange={(e) => setAxis(getDefaultSensitivityAxis(e.target.value as SensitivityVariable))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black mb-2"
+                >
+                  {(Object.keys(SENSITIVITY_VARIABLES) as SensitivityVariable[]).map((variable) => (
+                    <option key={variable} value={variable}>{SENSITIVITY_VARIABLES[variable].label}</option>
+                  ))}
+                </select>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="number"
+                    value={axis.min}
+                    onChange={(e) => setAxis({ ...axis, min: parseFloat(e.target.value) || 0 })}
+                    title="Min"
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  />
+                  <input
+                    type="number"
+                    value={axis.max}
+                    onChange={(e) => setAxis({ ...axis, max: parseFloat(e.target.value) || 0 })}
+                    title="Max"
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  />
+                  <input
+                    type="number"
+                    min="2"
+                    max="11"
+                    value={axis.steps}
+                    onChange={(e) => setAxis({ ...axis, steps: Math.min(11, Math.max(2, parseInt(e.target.value) || 5)) })}
+                    title="Steps"
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black text-sm"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Min, max and number of steps</p>
+              </div>
+            ))}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Output Metric</label>
+              <select
+                value={sensitivityMetric}
+                onChange={(e) => setSensitivityMetric(e.target.value as SensitivityMetric)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-black"
+              >
+                {(Object.keys(SENSITIVITY_METRICS) as SensitivityMetric[]).map((metric) => (
+                  <option key={metric} value={metric}>{SENSITIVITY_METRICS[metric].label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {sensitivityGrid && (
+            <div className="mt-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                {SENSITIVITY_METRICS[sensitivityGrid.metric].label}
+              </h3>
+              <p className="text-sm text-gray-600 mb-3">
+                Base case: {formatSensitivityMetric(sensitivityGrid.metric, sensitivityGrid.baseValue)}
+              </p>
+              <SensitivityHeatmap
+                grid={sensitivityGrid}
+                rowLabel={SENSITIVITY_VARIABLES[sensitivityGrid.rowVariable].label}
+                columnLabel={SENSITIVITY_VARIABLES[sensitivityGrid.columnVariable].label}
+                formatRowValue={(value) => formatSensitivityVariable(sensitivityGrid.rowVariable, value)}
+                formatColumnValue={(value) => formatSensitivityVariable(sensitivityGrid.columnVariable, value)}
+                formatValue={(value) => formatSensitivityMetric(sensitivityGrid.metric, value)}
+              />
+            </div>
+          )}
+
+          {tornado && (
+            <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <TornadoChart
+                title="What Moves IRR the Most"
+                tornado={tornado}
+                formatLabel={(variable) => SENSITIVITY_VARIABLES[variable].label}
+                formatValue={(value) => formatSensitivityMetric(tornado.metric, value)}
+              />
+            </div>
+          )}
+        </div>
+
         {/* Holding Period Analysis - Available for all property types */}
         {holdingPeriodAnalysis && (
           <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
@@ -1784,6 +5047,44 @@ export default function DealDetailPage() {
                   </div>
                 </div>
 
+                {/* Buy vs Rent - owner equity after a sale against the renter's invested savings */}
+                {primaryResidenceHoldingPeriod.buyVsRentByYear.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">Buy vs Rent and Invest</h3>
+                    <p className="text-xs text-gray-500 mb-3">
+                      The renter invests the cash you&apos;d need at closing, plus each month&apos;s difference between owning and renting, at {primaryResidenceHoldingPeriod.renterInvestmentReturn}% a year.
+                    </p>
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-gray-200">
+                            <th className="text-left py-2 px-2 font-medium text-gray-600">Year</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Renter Saves</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Renter Portfolio</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Owner Equity After Sale</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Owner Ahead By</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {primaryResidenceHoldingPeriod.buyVsRentByYear.map((entry) => (
+                            <tr key={entry.year} className="border-b border-gray-100">
+                              <td className="py-2 px-2 text-gray-900">{entry.year}</td>
+                              <td className={`text-right py-2 px-2 ${entry.renterContributions >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                                ${Math.round(entry.renterContributions).toLocaleString()}
+                              </td>
+                              <td className="text-right py-2 px-2 text-gray-900">${Math.round(entry.renterPortfolio).toLocaleString()}</td>
+                              <td className="text-right py-2 px-2 text-gray-900">${Math.round(entry.ownerEquity).toLocaleString()}</td>
+                              <td className={`text-right py-2 px-2 font-semibold ${entry.ownerEquity >= entry.renterPortfolio ? 'text-green-700' : 'text-red-600'}`}>
+                                ${Math.round(entry.ownerEquity - entry.renterPortfolio).toLocaleString()}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
                 {/* Exit Flexibility - What if you need to sell? */}
                 <div className="mb-6">
                   <h3 className="text-lg font-semibold text-gray-900 mb-3">What If You Need to Sell?</h3>
@@ -1796,6 +5097,9 @@ export default function DealDetailPage() {
                             ${Math.round(scenario.netProceedsFromSale).toLocaleString()}
                           </div>
                           <div className="text-xs text-gray-500">net proceeds at sale</div>
+                          <div className={`text-xs mt-1 ${scenario.netPositionVsRenting >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                            {scenario.netPositionVsRenting >= 0 ? '+' : '-'}${Math.abs(Math.round(scenario.netPositionVsRenting)).toLocaleString()} vs renting
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -1875,6 +5179,12 @@ export default function DealDetailPage() {
                       {holdingPeriodAnalysis.irr.toFixed(1)}%
                     </div>
                     <div className="text-xs text-green-600 mt-1">Annualized return on investment</div>
+                    {holdingPeriodAnalysis.afterTaxIrr !== undefined && (
+                      <div className="text-xs text-green-700 mt-1">
+                        After-tax: <span className="font-semibold">{holdingPeriodAnalysis.afterTaxIrr.toFixed(1)}%</span>
+                      </div>
+                    )}
+                    <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.irr} />
                   </div>
                   
                   <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg p-4 border border-blue-200">
@@ -1883,6 +5193,7 @@ export default function DealDetailPage() {
                       {holdingPeriodAnalysis.equityMultiple.toFixed(2)}x
                     </div>
                     <div className="text-xs text-blue-600 mt-1">Total return / cash invested</div>
+                    <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.equityMultiple} />
                   </div>
                   
                   <div className="bg-gradient-to-br from-purple-50 to-purple-100 rounded-lg p-4 border border-purple-200">
@@ -1891,6 +5202,7 @@ export default function DealDetailPage() {
                       ${Math.abs(holdingPeriodAnalysis.exitScenario.totalProfit).toLocaleString()}
                     </div>
                     <div className="text-xs text-purple-600 mt-1">{deal?.purchaseType === 'primary_residence' ? 'Sale + housing cost vs. investment' : 'Cash flow + sale proceeds - investment'}</div>
+                    <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.totalProfit} />
                   </div>
                   
                   <div className="bg-gradient-to-br from-amber-50 to-amber-100 rounded-lg p-4 border border-amber-200">
@@ -1899,8 +5211,46 @@ export default function DealDetailPage() {
                       {holdingPeriodAnalysis.exitScenario.totalROI.toFixed(1)}%
                     </div>
                     <div className="text-xs text-amber-600 mt-1">{deal?.purchaseType === 'primary_residence' ? 'Net outcome / initial investment' : 'Profit / initial investment'}</div>
+                    <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.totalROI} />
+                    <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.annualizedROI} />
                   </div>
                 </div>
+
+                {/* Time-value metrics */}
+                {holdingPeriodAnalysis.returnMetrics && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                      <div className="text-gray-600">NPV @ {holdingPeriodAnalysis.returnMetrics.discountRate}%</div>
+                      <div className={`text-lg font-semibold ${holdingPeriodAnalysis.returnMetrics.npv >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        ${Math.round(holdingPeriodAnalysis.returnMetrics.npv).toLocaleString()}
+                      </div>
+                      <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.npv} />
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                      <div className="text-gray-600">MIRR</div>
+                      <div className="text-lg font-semibold text-gray-900">{holdingPeriodAnalysis.returnMetrics.mirr.toFixed(1)}%</div>
+                      <div className="text-xs text-gray-500">
+                        Finance {holdingPeriodAnalysis.returnMetrics.financeRate}% / reinvest {holdingPeriodAnalysis.returnMetrics.reinvestmentRate}%
+                      </div>
+                      <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.mirr} />
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                      <div className="text-gray-600">XIRR</div>
+                      <div className="text-lg font-semibold text-gray-900">
+                        {holdingPeriodAnalysis.returnMetrics.xirr !== undefined ? `${holdingPeriodAnalysis.returnMetrics.xirr.toFixed(1)}%` : '—'}
+                      </div>
+                      <div className="text-xs text-gray-500">Monthly cash flows from closing</div>
+                      <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.xirr} />
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                      <div className="text-gray-600">Payback</div>
+                      <div className="text-lg font-semibold text-gray-900">
+                        {holdingPeriodAnalysis.returnMetrics.paybackYear !== null ? `Year ${holdingPeriodAnalysis.returnMetrics.paybackYear}` : 'Not within hold'}
+                      </div>
+                      <div className="text-xs text-gray-500">Including sale proceeds</div>
+                    </div>
+                  </div>
+                )}
               </>
             )}
 
@@ -1915,6 +5265,17 @@ export default function DealDetailPage() {
                       <span className="font-semibold text-gray-900 ml-2">
                         ${holdingPeriodAnalysis.exitScenario.salePrice.toLocaleString()}
                       </span>
+                      {holdingPeriodAnalysis.exitScenario.valuationMethod === 'cap_rate' && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          ${Math.round(holdingPeriodAnalysis.exitScenario.forwardNoi ?? 0).toLocaleString()} forward NOI at a{' '}
+                          {(holdingPeriodAnalysis.exitScenario.exitCapRate ?? 0).toFixed(2)}% cap
+                        </div>
+                      )}
+                      {holdingPeriodAnalysis.exitScenario.valuationMethod === 'grm' && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Multiplier on ${Math.round(holdingPeriodAnalysis.exitScenario.forwardGrossRent ?? 0).toLocaleString()} forward gross rent
+                        </div>
+                      )}
                     </div>
                     <div>
                       <span className="text-gray-600">Selling Costs:</span>
@@ -1933,6 +5294,7 @@ export default function DealDetailPage() {
                       <span className="font-semibold text-green-700 ml-2">
                         ${holdingPeriodAnalysis.exitScenario.netProceedsFromSale.toLocaleString()}
                       </span>
+                      <MetricTraceDetails trace={holdingPeriodAnalysis.trace?.netProceedsFromSale} />
                     </div>
                     <div>
                       <span className="text-gray-600">Cumulative Cash Flow:</span>
@@ -1946,8 +5308,165 @@ export default function DealDetailPage() {
                         ${holdingPeriodAnalysis.exitScenario.initialInvestment.toLocaleString()}
                       </span>
                     </div>
+                    {holdingPeriodAnalysis.exitScenario.afterTaxNetProceeds !== undefined && (
+                      <>
+                        <div>
+                          <span className="text-gray-600">Depreciation Recapture Tax:</span>
+                          <span className="font-semibold text-red-600 ml-2">
+                            -${Math.round(holdingPeriodAnalysis.exitScenario.depreciationRecaptureTax || 0).toLocaleString()}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-600">Capital Gains Tax:</span>
+                          <span className="font-semibold text-red-600 ml-2">
+                            -${Math.round(holdingPeriodAnalysis.exitScenario.capitalGainsTax || 0).toLocaleString()}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-600">After-Tax Proceeds:</span>
+                          <span className="font-semibold text-green-700 ml-2">
+                            ${Math.round(holdingPeriodAnalysis.exitScenario.afterTaxNetProceeds).toLocaleString()}
+                          </span>
+                        </div>
+                      </>
+                    )}
+                    {holdingPeriodAnalysis.refinance && (
+                      <div>
+                        <span className="text-gray-600">Refinance Cash Out:</span>
+                        <span className={`font-semibold ml-2 ${holdingPeriodAnalysis.refinance.cashOut >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                          ${Math.round(holdingPeriodAnalysis.refinance.cashOut).toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Refinance Summary - BRRRR deals only */}
+            {deal.purchaseType !== 'primary_residence' && holdingPeriodAnalysis.refinance && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                  Cash-Out Refinance (Month {holdingPeriodAnalysis.refinance.month})
+                </h3>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-600">Appraised Value:</span>
+                      <span className="font-semibold text-gray-900 ml-2">
+                        ${Math.round(holdingPeriodAnalysis.refinance.appraisedValue).toLocaleString()}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">New Loan:</span>
+                      <span className="font-semibold text-gray-900 ml-2">
+                        ${Math.round(holdingPeriodAnalysis.refinance.newLoanAmount).toLocaleString()}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Original Loan Payoff:</span>
+                      <span className="font-semibold text-red-600 ml-2">
+                        -${Math.round(holdingPeriodAnalysis.refinance.payoffBalance).toLocaleString()}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Refinance Costs:</span>
+                      <span className="font-semibold text-red-600 ml-2">
+                        -${Math.round(holdingPeriodAnalysis.refinance.refinanceCosts).toLocaleString()}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">New Monthly P&I:</span>
+                      <span className="font-semibold text-gray-900 ml-2">
+                        ${Math.round(holdingPeriodAnalysis.refinance.newMonthlyPI).toLocaleString()}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-gray-600">Cash Left in Deal:</span>
+                      <span className={`font-semibold ml-2 ${holdingPeriodAnalysis.refinance.cashLeftInDeal <= 0 ? 'text-green-700' : 'text-gray-900'}`}>
+                        ${Math.round(holdingPeriodAnalysis.refinance.cashLeftInDeal).toLocaleString()}
+                      </span>
+                    </div>
                   </div>
+                  {holdingPeriodAnalysis.refinance.cashLeftInDeal <= 0 && (
+                    <p className="text-xs text-green-700 mt-3">
+                      The refinance returns all of your initial cash — infinite cash-on-cash return after month {holdingPeriodAnalysis.refinance.month}.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Partnership Waterfall - LP/GP distributions */}
+            {deal.purchaseType !== 'primary_residence' && holdingPeriodAnalysis.partnership && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Partnership Waterfall</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-sm">
+                  {([
+                    ['Limited Partner (LP)', holdingPeriodAnalysis.partnership.lp, holdingPeriodAnalysis.partnership.lpEquity],
+                    ['General Partner (GP)', holdingPeriodAnalysis.partnership.gp, holdingPeriodAnalysis.partnership.gpEquity],
+                  ] as const).map(([label, returns, equity]) => (
+                    <div key={label} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                      <div className="font-semibold text-gray-900 mb-2">{label}</div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <span className="text-gray-600">Equity:</span>
+                          <span className="font-semibold text-gray-900 ml-2">${Math.round(equity).toLocaleString()}</span>
+                        </div>
+                        <div>
+                          <span className="text-gray-600">Distributions:</span>
+                          <span className="font-semibold text-gray-900 ml-2">${Math.round(returns.distributions).toLocaleString()}</span>
+                        </div>
+                        <div>
+                          <span className="text-gray-600">IRR:</span>
+                          <span className="font-semibold text-gray-900 ml-2">{returns.irr.toFixed(1)}%</span>
+                        </div>
+                        <div>
+                          <span className="text-gray-600">Equity Multiple:</span>
+                          <span className="font-semibold text-gray-900 ml-2">{returns.equityMultiple.toFixed(2)}x</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-2">
+                  GP totals include ${Math.round(holdingPeriodAnalysis.partnership.acquisitionFee).toLocaleString()} acquisition fee,
+                  ${Math.round(holdingPeriodAnalysis.partnership.totalAssetManagementFees).toLocaleString()} asset management fees and
+                  ${Math.round(holdingPeriodAnalysis.partnership.totalPromote).toLocaleString()} promote.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 px-2 font-medium text-gray-600">Year</th>
+                        <th className="text-right py-2 px-2 font-medium text-gray-600">Cash Available</th>
+                        <th className="text-right py-2 px-2 font-medium text-gray-600">AM Fee</th>
+                        <th className="text-right py-2 px-2 font-medium text-gray-600">LP</th>
+                        <th className="text-right py-2 px-2 font-medium text-gray-600">GP</th>
+                        <th className="text-right py-2 px-2 font-medium text-gray-600">GP Promote</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {holdingPeriodAnalysis.partnership.years.map((year) => (
+                        <tr key={year.year} className="border-b border-gray-100">
+                          <td className="py-2 px-2 text-gray-900">{year.year}</td>
+                          <td className={`text-right py-2 px-2 ${year.cashAvailable >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                            ${Math.round(year.cashAvailable).toLocaleString()}
+                          </td>
+                          <td className="text-right py-2 px-2 text-gray-900">${Math.round(year.assetManagementFee).toLocaleString()}</td>
+                          <td className={`text-right py-2 px-2 ${year.lpDistribution >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                            ${Math.round(year.lpDistribution).toLocaleString()}
+                          </td>
+                          <td className={`text-right py-2 px-2 ${year.gpDistribution >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                            ${Math.round(year.gpDistribution).toLocaleString()}
+                          </td>
+                          <td className="text-right py-2 px-2 text-gray-900">${Math.round(year.gpPromote).toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
+                <p className="text-xs text-gray-500 mt-2">Final year includes sale proceeds. Negative amounts are capital calls funded pro rata.</p>
               </div>
             )}
 
@@ -1993,6 +5512,55 @@ export default function DealDetailPage() {
               </div>
             </div>
 
+            {/* Monte Carlo Risk Simulation */}
+            {monteCarloAnalysis && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                  Risk Simulation ({monteCarloAnalysis.trials.toLocaleString()} trials)
+                </h3>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                    <div>
+                      <div className="text-xs text-gray-600 mb-1">IRR (10th / 50th / 90th)</div>
+                      <div className="text-sm font-semibold text-gray-900">
+                        {monteCarloAnalysis.irr.p10.toFixed(1)}% / {monteCarloAnalysis.irr.p50.toFixed(1)}% / {monteCarloAnalysis.irr.p90.toFixed(1)}%
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-600 mb-1">Equity Multiple (10th / 50th / 90th)</div>
+                      <div className="text-sm font-semibold text-gray-900">
+                        {monteCarloAnalysis.equityMultiple.p10.toFixed(2)}x / {monteCarloAnalysis.equityMultiple.p50.toFixed(2)}x / {monteCarloAnalysis.equityMultiple.p90.toFixed(2)}x
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-600 mb-1">Median Cumulative Cash Flow</div>
+                      <div className={`text-sm font-semibold ${monteCarloAnalysis.cumulativeCashFlow.p50 >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                        ${Math.round(monteCarloAnalysis.cumulativeCashFlow.p50).toLocaleString()}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-600 mb-1">Probability of Losing Money</div>
+                      <div className={`text-sm font-semibold ${monteCarloAnalysis.probabilityOfLoss > 20 ? 'text-red-600' : monteCarloAnalysis.probabilityOfLoss > 5 ? 'text-amber-600' : 'text-green-700'}`}>
+                        {monteCarloAnalysis.probabilityOfLoss.toFixed(1)}%
+                      </div>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FanChart
+                      title="Equity"
+                      bands={monteCarloAnalysis.yearlyEquity}
+                      formatValue={(v) => `$${(v / 1000).toFixed(0)}K`}
+                    />
+                    <FanChart
+                      title="Cumulative Cash Flow"
+                      bands={monteCarloAnalysis.yearlyCumulativeCashFlow}
+                      formatValue={(v) => `$${(v / 1000).toFixed(0)}K`}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Cash Flow Schedule - Investment properties only */}
             {deal.purchaseType !== 'primary_residence' && (
               <div>
@@ -2015,8 +5583,21 @@ export default function DealDetailPage() {
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">Property Value</th>
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">Rent (Annual)</th>
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">NOI</th>
+                          {holdingPeriodAnalysis.yearlyProjections[0]?.capexAnnual !== undefined && (
+                            <>
+                              <th className="px-3 py-2 font-semibold text-gray-700 text-right">Replacements</th>
+                              <th className="px-3 py-2 font-semibold text-gray-700 text-right">CapEx Paid</th>
+                              <th className="px-3 py-2 font-semibold text-gray-700 text-right">Reserve</th>
+                            </>
+                          )}
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">Cash Flow</th>
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">Cumulative CF</th>
+                          {holdingPeriodAnalysis.afterTaxIrr !== undefined && (
+                            <>
+                              <th className="px-3 py-2 font-semibold text-gray-700 text-right">Taxable Income</th>
+                              <th className="px-3 py-2 font-semibold text-gray-700 text-right">Tax Savings</th>
+                            </>
+                          )}
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">Loan Balance</th>
                           <th className="px-3 py-2 font-semibold text-gray-700 text-right">Equity</th>
                         </tr>
@@ -2034,12 +5615,35 @@ export default function DealDetailPage() {
                             <td className="px-3 py-2 text-right text-gray-700">
                               ${year.noiAnnual.toLocaleString()}
                             </td>
+                            {year.capexAnnual !== undefined && (
+                              <>
+                                <td className={`px-3 py-2 text-right ${(year.capexReplacementsAnnual || 0) > 0 ? 'font-medium text-amber-600' : 'text-gray-700'}`}>
+                                  ${Math.round(year.capexReplacementsAnnual || 0).toLocaleString()}
+                                </td>
+                                <td className="px-3 py-2 text-right text-gray-700">
+                                  ${Math.round(year.capexAnnual).toLocaleString()}
+                                </td>
+                                <td className="px-3 py-2 text-right text-gray-700">
+                                  ${Math.round(year.capexReserveBalance || 0).toLocaleString()}
+                                </td>
+                              </>
+                            )}
                             <td className={`px-3 py-2 text-right font-medium ${year.cashFlowAnnual >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                               ${year.cashFlowAnnual.toLocaleString()}
                             </td>
                             <td className={`px-3 py-2 text-right ${year.cumulativeCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                               ${year.cumulativeCashFlow.toLocaleString()}
                             </td>
+                            {holdingPeriodAnalysis.afterTaxIrr !== undefined && (
+                              <>
+                                <td className="px-3 py-2 text-right text-gray-700">
+                                  ${Math.round(year.taxableIncomeAnnual || 0).toLocaleString()}
+                                </td>
+                                <td className={`px-3 py-2 text-right ${(year.taxSavingsAnnual || 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                  ${Math.round(year.taxSavingsAnnual || 0).toLocaleString()}
+                                </td>
+                              </>
+                            )}
                             <td className="px-3 py-2 text-right text-gray-700">
                               ${year.loanBalance.toLocaleString()}
                             </td>
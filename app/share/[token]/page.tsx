@@ -2,14 +2,17 @@
 
 import { useEffect, useState } from 'react'
 import { useParams } from 'next/navigation'
-import { Deal, Analysis } from '@/lib/types'
+import { Deal, ScenarioAnalysis } from '@/lib/types'
+import { MetricTraceDetails } from '@/components/MetricTraceDetails'
+import { applyScenario, findScenario } from '@/lib/scenarios'
 
 export default function SharePage() {
   const params = useParams()
   const token = params.token as string
   
-  const [deal, setDeal] = useState<Deal | null>(null)
-  const [analysis, setAnalysis] = useState<Analysis | null>(null)
+  const [baseDeal, setBaseDeal] = useState<Deal | null>(null)
+  const [scenarios, setScenarios] = useState<ScenarioAnalysis[]>([])
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -29,8 +32,9 @@ export default function SharePage() {
         return
       }
       const data = await res.json()
-      setDeal(data.deal)
-      setAnalysis(data.analysis)
+      setBaseDeal(data.deal)
+      setScenarios(data.scenarios || [])
+      setActiveScenarioId(data.scenarios?.find((scenario: ScenarioAnalysis) => scenario.isPrimary)?.scenarioId ?? null)
     } catch (err: any) {
       setError(err.message || 'An error occurred')
     } finally {
@@ -66,6 +70,10 @@ export default function SharePage() {
     )
   }
 
+  // The viewer toggles between scenarios; each shows its own fields and latest analysis
+  const deal = baseDeal ? applyScenario(baseDeal, findScenario(baseDeal, activeScenarioId)) : null
+  const analysis = scenarios.find((scenario) => scenario.scenarioId === activeScenarioId)?.analysis ?? null
+
   if (error || !deal) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -82,6 +90,24 @@ export default function SharePage() {
         <div className="bg-white rounded-lg border border-gray-200 p-8 mb-6">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">DealMetrics Report</h1>
           <p className="text-gray-600">Shared deal analysis</p>
+          {scenarios.length > 1 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {scenarios.map((scenario) => (
+                <button
+                  key={scenario.scenarioId ?? 'base'}
+                  onClick={() => setActiveScenarioId(scenario.scenarioId)}
+                  className={`px-3 py-1 text-sm font-medium rounded-lg ${
+                    scenario.scenarioId === activeScenarioId
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {scenario.name}
+                  {scenario.isPrimary && ' (Primary)'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Property Summary */}
@@ -159,45 +185,111 @@ export default function SharePage() {
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">Total Monthly Payment</div>
                   <div className="text-xl font-semibold">{formatCurrency(analysis.outputs.totalMonthlyPayment)}</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.totalMonthlyPayment} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">NOI (Annual)</div>
                   <div className="text-xl font-semibold">{formatCurrency(analysis.outputs.noiAnnual)}</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.noiAnnual} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">Cash Flow (Annual)</div>
                   <div className={`text-xl font-semibold ${analysis.outputs.cashFlowAnnual >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                     {formatCurrency(analysis.outputs.cashFlowAnnual)}
                   </div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.cashFlowAnnual} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">Cap Rate</div>
                   <div className="text-xl font-semibold">{analysis.outputs.capRate.toFixed(2)}%</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.capRate} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">Cash-on-Cash</div>
                   <div className="text-xl font-semibold">{analysis.outputs.cashOnCash.toFixed(2)}%</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.cashOnCash} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">DSCR</div>
                   <div className="text-xl font-semibold">{analysis.outputs.dscr.toFixed(2)}</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.dscr} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">Break-Even Rent</div>
                   <div className="text-xl font-semibold">{formatCurrency(analysis.outputs.breakEvenRentMonthly)}</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.breakEvenRentMonthly} />
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="text-sm text-gray-600">All-In Cash Required</div>
                   <div className="text-xl font-semibold">{formatCurrency(analysis.outputs.allInCashRequired)}</div>
+                  <MetricTraceDetails trace={analysis.outputs.trace?.allInCashRequired} />
                 </div>
               </div>
             </div>
 
+            {/* Return Metrics */}
+            {analysis.holdingPeriodOutputs && (
+              <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Return Metrics</h2>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <div className="text-sm text-gray-600">IRR</div>
+                    <div className="text-xl font-semibold">{analysis.holdingPeriodOutputs.irr.toFixed(1)}%</div>
+                    <MetricTraceDetails trace={analysis.holdingPeriodOutputs.trace?.irr} />
+                  </div>
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <div className="text-sm text-gray-600">Equity Multiple</div>
+                    <div className="text-xl font-semibold">{analysis.holdingPeriodOutputs.equityMultiple.toFixed(2)}x</div>
+                    <MetricTraceDetails trace={analysis.holdingPeriodOutputs.trace?.equityMultiple} />
+                  </div>
+                  {analysis.holdingPeriodOutputs.returnMetrics && (
+                    <>
+                      <div className="bg-gray-50 p-4 rounded-lg">
+                        <div className="text-sm text-gray-600">NPV @ {analysis.holdingPeriodOutputs.returnMetrics.discountRate}%</div>
+                        <div className={`text-xl font-semibold ${analysis.holdingPeriodOutputs.returnMetrics.npv >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(analysis.holdingPeriodOutputs.returnMetrics.npv)}
+                        </div>
+                        <MetricTraceDetails trace={analysis.holdingPeriodOutputs.trace?.npv} />
+                      </div>
+                      <div className="bg-gray-50 p-4 rounded-lg">
+                        <div className="text-sm text-gray-600">MIRR</div>
+                        <div className="text-xl font-semibold">{analysis.holdingPeriodOutputs.returnMetrics.mirr.toFixed(1)}%</div>
+                        <MetricTraceDetails trace={analysis.holdingPeriodOutputs.trace?.mirr} />
+                      </div>
+                      <div className="bg-gray-50 p-4 rounded-lg">
+                        <div className="text-sm text-gray-600">XIRR</div>
+                        <div className="text-xl font-semibold">
+                          {analysis.holdingPeriodOutputs.returnMetrics.xirr !== undefined
+                            ? `${analysis.holdingPeriodOutputs.returnMetrics.xirr.toFixed(1)}%`
+                            : '—'}
+                        </div>
+                        <MetricTraceDetails trace={analysis.holdingPeriodOutputs.trace?.xirr} />
+                      </div>
+                      <div className="bg-gray-50 p-4 rounded-lg">
+                        <div className="text-sm text-gray-600">Payback</div>
+                        <div className="text-xl font-semibold">
+                          {analysis.holdingPeriodOutputs.returnMetrics.paybackYear !== null
+                            ? `Year ${analysis.holdingPeriodOutputs.returnMetrics.paybackYear}`
+                            : '—'}
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="text-center text-sm text-gray-500">
               Analysis generated: {formatDate(analysis.createdAt)}
             </div>
           </>
         )}
+
+        {!analysis && scenarios.length > 1 && (
+          <div className="text-center text-sm text-gray-500">
+            This scenario hasn&apos;t been analyzed yet.
+          </div>
+        )}
       </div>
     </div>
   )
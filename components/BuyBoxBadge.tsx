@@ -0,0 +1,29 @@
+'use client'
+
+import { BuyBoxScore } from '@/lib/types'
+
+interface BuyBoxBadgeProps {
+  score: BuyBoxScore
+}
+
+/**
+ * Buy box score with a pass/fail color; gray until anything can be checked
+ */
+export function BuyBoxBadge({ score }: BuyBoxBadgeProps) {
+  const color = score.score === null
+    ? 'bg-gray-100 text-gray-700'
+    : score.passes ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+  const failing = score.checks.filter((check) => check.passes === false).length
+  const title = [
+    `${failing} of ${score.checks.length - score.unknownCount} checks failing`,
+    score.unknownCount > 0 ? `${score.unknownCount} not checked yet (missing data)` : null,
+  ].filter(Boolean).join('; ')
+
+  return (
+    <span title={title} className={`px-2 py-1 text-xs font-medium rounded-full ${color}`}>
+      {score.score === null
+        ? 'Buy box: —'
+        : `${score.passes ? '✓' : '✗'} Buy box ${Math.round(score.score)}`}
+    </span>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { PercentileBand } from '@/lib/types'
+
+interface FanChartProps {
+  title: string
+  bands: PercentileBand[] // One band per year, starting at year 1
+  formatValue: (value: number) => string
+}
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = { top: 10, right: 10, bottom: 24, left: 70 }
+
+/**
+ * Fan chart for Monte Carlo results: shaded 10–90th and 25–75th percentile
+ * bands with the median line, one point per year of the holding period.
+ */
+export function FanChart({ title, bands, formatValue }: FanChartProps) {
+  if (bands.length === 0) return null
+
+  const min = Math.min(0, ...bands.map((b) => b.p10))
+  const max = Math.max(0, ...bands.map((b) => b.p90))
+  const range = max - min || 1
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const x = (i: number) => PADDING.left + (bands.length === 1 ? plotWidth / 2 : (i / (bands.length - 1)) * plotWidth)
+  const y = (value: number) => PADDING.top + ((max - value) / range) * plotHeight
+
+  const area = (upper: keyof PercentileBand, lower: keyof PercentileBand) => {
+    const top = bands.map((b, i) => `${x(i)},${y(b[upper])}`)
+    const bottom = bands.map((b, i) => `${x(i)},${y(b[lower])}`).reverse()
+    return [...top, ...bottom].join(' ')
+  }
+
+  const median = bands.map((b, i) => `${x(i)},${y(b.p50)}`).join(' ')
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {/* Axes */}
+        <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="#d1d5db" strokeDasharray="4 4" />
+        <text x={PADDING.left - 6} y={y(max) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{formatValue(max)}</text>
+        <text x={PADDING.left - 6} y={y(min) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{formatValue(min)}</text>
+        {bands.map((_, i) => (
+          <text key={i} x={x(i)} y={HEIGHT - 6} textAnchor="middle" fontSize="11" fill="#6b7280">
+            Y{i + 1}
+          </text>
+        ))}
+
+        {/* Percentile bands */}
+        <polygon points={area('p90', 'p10')} fill="#bfdbfe" opacity="0.6" />
+        <polygon points={area('p75', 'p25')} fill="#60a5fa" opacity="0.6" />
+        <polyline points={median} fill="none" stroke="#1d4ed8" strokeWidth="2" />
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-600 mt-1">
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-blue-200" /> 10th–90th</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-blue-400" /> 25th–75th</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-blue-700" /> Median</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { MetricTrace, TraceValue } from '@/lib/types'
+
+interface MetricTraceDetailsProps {
+  trace: MetricTrace | undefined
+}
+
+function formatTraceValue({ value, format }: TraceValue): string {
+  switch (format) {
+    case 'currency':
+      return `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`
+    case 'percent':
+      return `${value.toFixed(2)}%`
+    case 'ratio':
+      return value.toFixed(2)
+    default:
+      return value.toLocaleString()
+  }
+}
+
+function TraceRows({ title, values }: { title: string; values: TraceValue[] }) {
+  if (values.length === 0) return null
+
+  return (
+    <div className="mt-2">
+      <div className="font-medium text-gray-700">{title}</div>
+      {values.map((v, i) => (
+        <div key={i} className="flex justify-between gap-2">
+          <span className="text-gray-600">{v.label}</span>
+          <span className="font-mono text-gray-900">{formatTraceValue(v)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * "Show the math" expander: the formula behind a metric, the deal inputs it
+ * used and each intermediate value, so a number can be checked by hand.
+ */
+export function MetricTraceDetails({ trace }: MetricTraceDetailsProps) {
+  if (!trace) return null
+
+  return (
+    <details className="mt-2 text-xs">
+      <summary className="cursor-pointer text-blue-600 hover:text-blue-800 select-none">Show the math</summary>
+      <div className="mt-2 p-2 bg-white rounded border border-gray-200">
+        <div className="font-mono text-gray-800">{trace.formula}</div>
+        <TraceRows title="Inputs" values={trace.inputs} />
+        <TraceRows title="Steps" values={trace.steps} />
+        <div className="flex justify-between gap-2 mt-2 pt-2 border-t border-gray-200 font-semibold">
+          <span className="text-gray-900">{trace.result.label}</span>
+          <span className="font-mono text-gray-900">{formatTraceValue(trace.result)}</span>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { ScreeningOutputs } from '@/lib/types'
+
+interface ScreeningChipsProps {
+  screening: ScreeningOutputs
+}
+
+const formatDollars = (value: number, decimals: number = 0) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`
+
+function RuleChip({ label, passes, title }: { label: string; passes: boolean; title: string }) {
+  return (
+    <span
+      title={title}
+      className={`px-2 py-0.5 text-xs font-medium rounded-full ${passes ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+    >
+      {passes ? '✓' : '✗'} {label}
+    </span>
+  )
+}
+
+function ValueChip({ label, value }: { label: string; value: string }) {
+  return (
+    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+      {label} {value}
+    </span>
+  )
+}
+
+/**
+ * Quick-screen rules of thumb: pass/fail chips for the 1%, 2% and 50% rules,
+ * plain chips for the ratios that have no universal cutoff
+ */
+export function ScreeningChips({ screening }: ScreeningChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      <RuleChip
+        label="1% rule"
+        passes={screening.passesOnePercentRule}
+        title={`Rent is ${screening.rentToPriceRatio.toFixed(2)}% of price + rehab`}
+      />
+      <RuleChip
+        label="2% rule"
+        passes={screening.passesTwoPercentRule}
+        title={`Rent is ${screening.rentToPriceRatio.toFixed(2)}% of price + rehab`}
+      />
+      <RuleChip
+        label="50% rule"
+        passes={screening.passesFiftyPercentRule}
+        title={`Half the rent less P&I: ${formatDollars(screening.fiftyPercentCashFlowMonthly)}/mo`}
+      />
+      {screening.grossRentMultiplier !== null && (
+        <ValueChip label="GRM" value={screening.grossRentMultiplier.toFixed(1)} />
+      )}
+      <ValueChip label="$/door" value={formatDollars(screening.pricePerUnit)} />
+      {screening.pricePerSqft !== null && (
+        <ValueChip label="$/sqft" value={formatDollars(screening.pricePerSqft)} />
+      )}
+      {screening.rentPerSqft !== null && (
+        <ValueChip label="Rent/sqft" value={formatDollars(screening.rentPerSqft, 2)} />
+      )}
+    </div>
+  )
+}
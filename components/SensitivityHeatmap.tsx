@@ -0,0 +1,69 @@
+'use client'
+
+import { SensitivityGrid } from '@/lib/types'
+
+interface SensitivityHeatmapProps {
+  grid: SensitivityGrid
+  rowLabel: string
+  columnLabel: string
+  formatRowValue: (value: number) => string
+  formatColumnValue: (value: number) => string
+  formatValue: (value: number) => string
+}
+
+/**
+ * Two-variable data table with cells shaded from red (worst) to green (best)
+ */
+export function SensitivityHeatmap({
+  grid,
+  rowLabel,
+  columnLabel,
+  formatRowValue,
+  formatColumnValue,
+  formatValue,
+}: SensitivityHeatmapProps) {
+  const allValues = grid.values.flat()
+  const min = Math.min(...allValues)
+  const max = Math.max(...allValues)
+  const range = max - min || 1
+
+  // Hue 0 (red) to 120 (green); higher is better for every metric
+  const cellColor = (value: number) => `hsl(${((value - min) / range) * 120}, 70%, 85%)`
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border-collapse">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left text-xs font-medium text-gray-500">
+              {rowLabel} ↓ / {columnLabel} →
+            </th>
+            {grid.columnValues.map((value, i) => (
+              <th key={i} className="px-2 py-1 text-right text-xs font-medium text-gray-700">
+                {formatColumnValue(value)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.rowValues.map((rowValue, i) => (
+            <tr key={i}>
+              <th className="px-2 py-1 text-left text-xs font-medium text-gray-700 whitespace-nowrap">
+                {formatRowValue(rowValue)}
+              </th>
+              {grid.values[i].map((value, j) => (
+                <td
+                  key={j}
+                  className="px-2 py-1 text-right text-gray-900 border border-white whitespace-nowrap"
+                  style={{ backgroundColor: cellColor(value) }}
+                >
+                  {formatValue(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
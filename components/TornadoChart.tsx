@@ -0,0 +1,74 @@
+'use client'
+
+import { SensitivityVariable, TornadoOutputs } from '@/lib/types'
+
+interface TornadoChartProps {
+  title: string
+  tornado: TornadoOutputs
+  formatLabel: (variable: SensitivityVariable) => string
+  formatValue: (value: number) => string
+}
+
+const WIDTH = 600
+const ROW_HEIGHT = 26
+const PADDING = { top: 10, right: 70, bottom: 10, left: 140 }
+
+/**
+ * Tornado chart: one horizontal bar per input, spanning the metric at the
+ * input's low and high values, sorted so the biggest swing is on top.
+ */
+export function TornadoChart({ title, tornado, formatLabel, formatValue }: TornadoChartProps) {
+  if (tornado.bars.length === 0) return null
+
+  const results = tornado.bars.flatMap((b) => [b.lowResult, b.highResult])
+  const min = Math.min(tornado.baseValue, ...results)
+  const max = Math.max(tornado.baseValue, ...results)
+  const range = max - min || 1
+  const height = PADDING.top + PADDING.bottom + tornado.bars.length * ROW_HEIGHT
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+
+  const x = (value: number) => PADDING.left + ((value - min) / range) * plotWidth
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {tornado.bars.map((bar, i) => {
+          const y = PADDING.top + i * ROW_HEIGHT
+          const base = x(tornado.baseValue)
+          return (
+            <g key={bar.variable}>
+              <text x={PADDING.left - 8} y={y + ROW_HEIGHT / 2 + 4} textAnchor="end" fontSize="11" fill="#374151">
+                {formatLabel(bar.variable)}
+              </text>
+              {/* Low input value in red, high input value in green */}
+              <rect
+                x={Math.min(base, x(bar.lowResult))}
+                y={y + 4}
+                width={Math.abs(x(bar.lowResult) - base)}
+                height={ROW_HEIGHT - 8}
+                fill="#fca5a5"
+              />
+              <rect
+                x={Math.min(base, x(bar.highResult))}
+                y={y + 4}
+                width={Math.abs(x(bar.highResult) - base)}
+                height={ROW_HEIGHT - 8}
+                fill="#86efac"
+              />
+              <text x={WIDTH - PADDING.right + 6} y={y + ROW_HEIGHT / 2 + 4} fontSize="11" fill="#6b7280">
+                {formatValue(bar.swing)}
+              </text>
+            </g>
+          )
+        })}
+        <line x1={x(tornado.baseValue)} y1={PADDING.top} x2={x(tornado.baseValue)} y2={height - PADDING.bottom} stroke="#1f2937" strokeWidth="1" />
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-600 mt-1">
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-red-300" /> Low input</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-green-300" /> High input</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-gray-800" /> Base case ({formatValue(tornado.baseValue)})</span>
+      </div>
+    </div>
+  )
+}
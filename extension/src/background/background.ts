@@ -50,6 +50,12 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       .catch(error => sendResponse({ success: false, error: error?.message ?? 'Failed to save deal' }))
     return true
   }
+  if (request.action === 'getBuyBox') {
+    handleGetBuyBox(request.authToken)
+      .then(buyBox => sendResponse({ success: true, buyBox }))
+      .catch(error => sendResponse({ success: false, error: error?.message ?? 'Failed to load buy box' }))
+    return true
+  }
   if (request.action === 'getValidToken') {
     getValidToken()
       .then(token => sendResponse({ token }))
@@ -144,3 +150,18 @@ async function handleSaveDeal(payload: any, authTokenFromContent: string): Promi
   const result = await response.json()
   return result
 }
+
+/** Fetch the user's buy box (null when none is saved) so the sidebar can score the listing. */
+async function handleGetBuyBox(authTokenFromContent: string): Promise<any> {
+  const authToken = await getValidToken().then(t => t ?? authTokenFromContent)
+  if (!authToken) return null
+  const response = await fetch(`${API_BASE_URL}/api/buy-box`, {
+    headers: { 'Authorization': `Bearer ${authToken}` },
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `HTTP ${response.status}`)
+  }
+  const data = await response.json()
+  return data.buyBox ?? null
+}
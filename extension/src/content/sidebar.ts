@@ -4,7 +4,7 @@
  */
 
 import { extractZillowData } from './extractors'
-import { calculateUnderwriting, calculatePrimaryResidenceAnalysis, calculateAllInCashRequired, calculateHoldingPeriodAnalysis } from '../lib/engine'
+import { calculateUnderwriting, calculatePrimaryResidenceAnalysis, calculateAllInCashRequired, calculateHoldingPeriodAnalysis, calculateMaxOffer, calculateScreening, scoreBuyBox } from '../lib/engine'
 import { 
   UnderwritingInputs, 
   PrimaryResidenceOutputs,
@@ -12,15 +12,50 @@ import {
   UserAssumptions, 
   DEFAULT_ASSUMPTIONS,
   INVESTMENT_ASSUMPTIONS,
-  PurchaseType
+  PurchaseType,
+  MaxOfferTarget,
+  RentalStrategy,
+  BuyBox,
+  BuyBoxCheck,
+  BuyBoxMetric,
+  BuyBoxProperty
 } from '../lib/types'
 import { escapeHtml } from '../lib/utils'
 
 let sidebarElement: HTMLElement | null = null
 let currentAssumptions: UserAssumptions = { ...DEFAULT_ASSUMPTIONS }
+
+const MAX_OFFER_TARGET_LABELS: Record<MaxOfferTarget, string> = {
+  minCashOnCash: 'cash-on-cash',
+  minDscr: 'DSCR',
+  minCashFlowMonthly: 'cash flow',
+  minCapRate: 'cap rate',
+  minIrr: 'IRR',
+}
+
+const BUY_BOX_METRIC_LABELS: Record<BuyBoxMetric, string> = {
+  purchasePrice: 'Price',
+  sqft: 'Sqft',
+  beds: 'Beds',
+  yearBuilt: 'Year built',
+  rentToPriceRatio: 'Rent/price %',
+  grossRentMultiplier: 'GRM',
+  pricePerUnit: 'Price/door',
+  pricePerSqft: 'Price/sqft',
+  cashFlowMonthly: 'Cash flow',
+  cashOnCash: 'Cash-on-cash %',
+  capRate: 'Cap rate %',
+  dscr: 'DSCR',
+  noiAnnual: 'NOI',
+  allInCashRequired: 'Cash required',
+  irr: 'IRR %',
+  equityMultiple: 'Equity multiple',
+}
 let scrapedData: ScrapedPropertyData = {}
 let isLoggedIn = false
 let authToken: string | null = null
+// User's buy box from the web app (null until loaded or when none is saved)
+let buyBox: BuyBox | null = null
 
 // Check auth status
 async function checkAuthStatus(): Promise<void> {
@@ -34,6 +69,17 @@ async function checkAuthStatus(): Promise<void> {
   }
 }
 
+// Load the user's buy box via the background script, then re-render with the score
+async function loadBuyBox(): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({ action: 'getBuyBox', authToken })
+    buyBox = response?.success ? response.buyBox ?? null : null
+  } catch (e) {
+    buyBox = null
+  }
+  updateSidebar()
+}
+
 // Format currency
 function formatCurrency(value: number): string {
   return new Intl.NumberFormat('en-US', {
@@ -53,11 +99,15 @@ function formatPercent(value: number, decimals: number = 1): string {
 function buildInputs(): UnderwritingInputs {
   const price = scrapedData.listPrice || 0
   const isPrimaryResidence = currentAssumptions.purchaseType === 'primary_residence'
+  const isFlip = currentAssumptions.purchaseType === 'flip'
+  const isShortTermRental = !isPrimaryResidence && !isFlip && currentAssumptions.rentalStrategy === 'short_term'
+  // Flips and primary residences earn no rent
+  const hasRent = !isPrimaryResidence && !isFlip
   
   return {
     purchasePrice: price,
     closingCostRate: currentAssumptions.closingCostRate,
-    rehabCost: 0,
+    rehabCost: isFlip ? currentAssumptions.flipRehabCost : 0,
     downPaymentPct: currentAssumptions.downPaymentPct,
     interestRate: currentAssumptions.interestRate,
     termYears: currentAssumptions.termYears,
@@ -67,12 +117,35 @@ function buildInputs(): UnderwritingInputs {
     insuranceAnnual: scrapedData.insuranceAnnual || (price * 0.0035),
     hoaMonthly: scrapedData.hoaMonthly || 0,
     utilitiesMonthly: 0,
-    rentMonthly: isPrimaryResidence ? 0 : (currentAssumptions.estimatedRent || price * 0.007),
+    rentMonthly: hasRent ? (currentAssumptions.estimatedRent || price * 0.007) : 0,
     otherIncomeMonthly: 0,
-    vacancyRate: isPrimaryResidence ? 0 : currentAssumptions.vacancyRate,
+    vacancyRate: hasRent ? currentAssumptions.vacancyRate : 0,
     maintenanceRate: currentAssumptions.maintenanceRate,
     capexRate: currentAssumptions.capexRate,
-    managementRate: isPrimaryResidence ? 0 : currentAssumptions.managementRate,
+    managementRate: hasRent ? currentAssumptions.managementRate : 0,
+    ...(isShortTermRental ? {
+      rentalStrategy: 'short_term' as const,
+      shortTermRental: {
+        averageDailyRate: currentAssumptions.strAverageDailyRate,
+        monthlyOccupancy: Array(12).fill(currentAssumptions.strOccupancy),
+        averageStayNights: 3,
+        cleaningFeePerStay: currentAssumptions.strCleaningFeePerStay,
+        platformFeeRate: currentAssumptions.strPlatformFeeRate,
+        suppliesMonthly: currentAssumptions.strSuppliesMonthly,
+        furnishingCost: currentAssumptions.strFurnishingCost,
+        managementRate: currentAssumptions.strManagementRate,
+      },
+    } : {}),
+    ...(isFlip ? {
+      flip: {
+        afterRepairValue: currentAssumptions.flipAfterRepairValue,
+        rehabMonths: currentAssumptions.flipRehabMonths,
+        monthsToSell: currentAssumptions.flipMonthsToSell,
+        holdingCostsMonthly: currentAssumptions.flipHoldingCostsMonthly,
+        loanPointsPct: currentAssumptions.flipLoanPointsPct,
+        sellingCostRate: currentAssumptions.sellingCostRate,
+      },
+    } : {}),
   }
 }
 
@@ -137,13 +210,78 @@ function createSidebarHTML(): string {
   // Normalize purchase type so we reliably hide investment-only sections for primary residence
   const purchaseTypeRaw = currentAssumptions.purchaseType ?? 'primary_residence'
   const isPrimaryResidence = String(purchaseTypeRaw).toLowerCase() === 'primary_residence'
+  // Flips are sold after the rehab: no rent, holding period or max offer
+  const isFlip = purchaseTypeRaw === 'flip'
+  const isRental = !isPrimaryResidence && !isFlip
+  const isShortTermRental = isRental && currentAssumptions.rentalStrategy === 'short_term'
+  // Short-term rentals break even on monthly booking revenue rather than rent
+  const breakEvenLabel = isShortTermRental ? 'Break-Even Revenue' : 'Break-Even Rent'
   const primaryOutputs = isPrimaryResidence ? calculatePrimaryResidenceAnalysis(inputs) : null
   
   const holdingPeriodInputs = buildHoldingPeriodInputs()
-  const holdingPeriodOutputs = currentAssumptions.holdingPeriodYears > 0
+  const holdingPeriodOutputs = !isFlip && currentAssumptions.holdingPeriodYears > 0
     ? calculateHoldingPeriodAnalysis(holdingPeriodInputs)
     : null
   
+  // Max offer: highest price meeting the target returns (rent, taxes, insurance held at list-price values)
+  const maxOffer = isRental
+    ? calculateMaxOffer({
+        underwritingInputs: inputs,
+        targets: {
+          minCashOnCash: currentAssumptions.targetCashOnCash,
+          minDscr: currentAssumptions.targetDscr,
+          minCashFlowMonthly: currentAssumptions.targetCashFlowMonthly,
+        },
+      })
+    : null
+  
+  // Quick screen: rules of thumb on long-term rent (booking revenue doesn't fit them)
+  const screening = isRental && !isShortTermRental
+    ? calculateScreening({
+        purchasePrice: inputs.purchasePrice,
+        rehabCost: inputs.rehabCost,
+        rentMonthly: inputs.rentMonthly,
+        downPaymentPct: inputs.downPaymentPct,
+        interestRate: inputs.interestRate,
+        termYears: inputs.termYears,
+        units: 1,
+        sqft: scrapedData.sqft ?? null,
+      })
+    : null
+  
+  // Buy box score: listing facts plus whatever the sidebar computed for this purchase type
+  const buyBoxValues: BuyBoxProperty['values'] = {
+    purchasePrice: inputs.purchasePrice,
+    ...(scrapedData.sqft !== undefined && { sqft: scrapedData.sqft }),
+    ...(scrapedData.beds !== undefined && { beds: scrapedData.beds }),
+    ...(scrapedData.yearBuilt !== undefined && { yearBuilt: scrapedData.yearBuilt }),
+    ...(screening && {
+      rentToPriceRatio: screening.rentToPriceRatio,
+      pricePerUnit: screening.pricePerUnit,
+      ...(screening.grossRentMultiplier !== null && { grossRentMultiplier: screening.grossRentMultiplier }),
+      ...(screening.pricePerSqft !== null && { pricePerSqft: screening.pricePerSqft }),
+    }),
+    ...(isRental && {
+      cashFlowMonthly: outputs.cashFlowMonthly,
+      cashOnCash: outputs.cashOnCash,
+      capRate: outputs.capRate,
+      dscr: outputs.dscr,
+      noiAnnual: outputs.noiAnnual,
+    }),
+    allInCashRequired: outputs.allInCashRequired,
+    ...(holdingPeriodOutputs && {
+      irr: holdingPeriodOutputs.irr,
+      equityMultiple: holdingPeriodOutputs.equityMultiple,
+    }),
+  }
+  const buyBoxScore = buyBox
+    ? scoreBuyBox(buyBox, { values: buyBoxValues, state: scrapedData.state ?? null, zip: scrapedData.zip ?? null })
+    : null
+  const buyBoxCheckLabel = (check: BuyBoxCheck): string => {
+    if (check.metric === 'location') return `Location${check.value !== null ? ` (${check.value})` : ''}`
+    return `${BUY_BOX_METRIC_LABELS[check.metric]} ${check.operator === 'min' ? '≥' : '≤'} ${check.threshold}`
+  }
+  
   const addressDisplay = escapeHtml(scrapedData.address || 'Property Address')
   const priceDisplay = scrapedData.listPrice ? formatCurrency(scrapedData.listPrice) : '$--'
   const bedsDisplay = escapeHtml(String(scrapedData.beds ?? '--'))
@@ -151,7 +289,7 @@ function createSidebarHTML(): string {
   const sqftDisplay = escapeHtml(scrapedData.sqft ? scrapedData.sqft.toLocaleString() : '--')
   
   // Advanced Analysis (Cap Rate, NOI, DSCR, Break-Even) only for investment / house hack — never for primary residence
-  const showAdvancedAnalysis = !isPrimaryResidence
+  const showAdvancedAnalysis = isRental
   const advancedAnalysisHTML = showAdvancedAnalysis
     ? `
       <div class="dm-section dm-metrics dm-premium ${isLoggedIn ? '' : 'dm-locked'}">
@@ -173,7 +311,7 @@ function createSidebarHTML(): string {
           <span class="dm-metric-value">${outputs.dscr.toFixed(2)}x</span>
         </div>
         <div class="dm-metric-row">
-          <span class="dm-metric-label">Break-Even Rent</span>
+          <span class="dm-metric-label">${breakEvenLabel}</span>
           <span class="dm-metric-value">${formatCurrency(outputs.breakEvenRentMonthly)}</span>
         </div>
         ` : `
@@ -250,9 +388,69 @@ function createSidebarHTML(): string {
             <option value="primary_residence" ${currentAssumptions.purchaseType === 'primary_residence' ? 'selected' : ''}>Primary Residence</option>
             <option value="investment_property" ${currentAssumptions.purchaseType === 'investment_property' ? 'selected' : ''}>Investment</option>
             <option value="house_hack" ${currentAssumptions.purchaseType === 'house_hack' ? 'selected' : ''}>House Hack</option>
+            <option value="flip" ${isFlip ? 'selected' : ''}>Fix and Flip</option>
           </select>
         </div>
         
+        ${isFlip ? `
+        <div class="dm-input-row">
+          <label>After-Repair Value</label>
+          <div class="dm-input-group">
+            <span class="dm-input-prefix">$</span>
+            <input type="number" id="dm-flip-arv" value="${currentAssumptions.flipAfterRepairValue}" min="0" step="5000" class="dm-input dm-input-currency">
+          </div>
+        </div>
+        
+        <div class="dm-input-row">
+          <label>Rehab Budget</label>
+          <div class="dm-input-group">
+            <span class="dm-input-prefix">$</span>
+            <input type="number" id="dm-flip-rehab" value="${currentAssumptions.flipRehabCost}" min="0" step="1000" class="dm-input dm-input-currency">
+          </div>
+        </div>
+        
+        <div class="dm-input-row">
+          <label>Rehab Time</label>
+          <div class="dm-input-group">
+            <input type="number" id="dm-flip-rehab-months" value="${currentAssumptions.flipRehabMonths}" min="0" max="36" step="1" class="dm-input">
+            <span class="dm-input-suffix">mo</span>
+          </div>
+        </div>
+        
+        <div class="dm-input-row">
+          <label>Time to Sell</label>
+          <div class="dm-input-group">
+            <input type="number" id="dm-flip-months-to-sell" value="${currentAssumptions.flipMonthsToSell}" min="0" max="24" step="1" class="dm-input">
+            <span class="dm-input-suffix">mo</span>
+          </div>
+        </div>
+        
+        <div class="dm-input-row">
+          <label>Holding Costs</label>
+          <div class="dm-input-group">
+            <span class="dm-input-prefix">$</span>
+            <input type="number" id="dm-flip-holding-costs" value="${currentAssumptions.flipHoldingCostsMonthly}" min="0" step="25" class="dm-input dm-input-currency">
+            <span class="dm-input-suffix">/mo</span>
+          </div>
+        </div>
+        
+        <div class="dm-input-row">
+          <label>Loan Points</label>
+          <div class="dm-input-group">
+            <input type="number" id="dm-flip-points" value="${currentAssumptions.flipLoanPointsPct}" min="0" max="10" step="0.25" class="dm-input">
+            <span class="dm-input-suffix">%</span>
+          </div>
+        </div>
+        
+        <div class="dm-input-row">
+          <label>Selling Cost</label>
+          <div class="dm-input-group">
+            <input type="number" id="dm-selling-cost" value="${currentAssumptions.sellingCostRate}" min="0" max="15" step="0.5" class="dm-input">
+            <span class="dm-input-suffix">%</span>
+          </div>
+        </div>
+        ` : ''}
+        
         <div class="dm-input-row">
           <label>Down Payment</label>
           <div class="dm-input-group">
@@ -287,7 +485,17 @@ function createSidebarHTML(): string {
             </div>
           </div>
           
-          ${!isPrimaryResidence ? `
+          ${isRental ? `
+          <div class="dm-input-row">
+            <label>Strategy</label>
+            <select id="dm-rental-strategy" class="dm-select">
+              <option value="long_term" ${!isShortTermRental ? 'selected' : ''}>Long-term rental</option>
+              <option value="short_term" ${isShortTermRental ? 'selected' : ''}>Short-term rental</option>
+            </select>
+          </div>
+          ` : ''}
+          
+          ${isRental && !isShortTermRental ? `
           <div class="dm-input-row">
             <label>Vacancy Rate</label>
             <div class="dm-input-group">
@@ -321,7 +529,67 @@ function createSidebarHTML(): string {
             </div>
           </div>
           
-          ${!isPrimaryResidence ? `
+          ${isShortTermRental ? `
+          <div class="dm-input-row">
+            <label>Nightly Rate</label>
+            <div class="dm-input-group">
+              <span class="dm-input-prefix">$</span>
+              <input type="number" id="dm-str-adr" value="${currentAssumptions.strAverageDailyRate}" min="0" step="5" class="dm-input dm-input-currency">
+              <span class="dm-input-suffix">/night</span>
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Occupancy</label>
+            <div class="dm-input-group">
+              <input type="number" id="dm-str-occupancy" value="${currentAssumptions.strOccupancy}" min="0" max="100" step="1" class="dm-input">
+              <span class="dm-input-suffix">%</span>
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Cleaning / Stay</label>
+            <div class="dm-input-group">
+              <span class="dm-input-prefix">$</span>
+              <input type="number" id="dm-str-cleaning" value="${currentAssumptions.strCleaningFeePerStay}" min="0" step="10" class="dm-input dm-input-currency">
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Platform Fee</label>
+            <div class="dm-input-group">
+              <input type="number" id="dm-str-platform-fee" value="${currentAssumptions.strPlatformFeeRate}" min="0" max="30" step="0.5" class="dm-input">
+              <span class="dm-input-suffix">%</span>
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Supplies</label>
+            <div class="dm-input-group">
+              <span class="dm-input-prefix">$</span>
+              <input type="number" id="dm-str-supplies" value="${currentAssumptions.strSuppliesMonthly}" min="0" step="25" class="dm-input dm-input-currency">
+              <span class="dm-input-suffix">/mo</span>
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Furnishing</label>
+            <div class="dm-input-group">
+              <span class="dm-input-prefix">$</span>
+              <input type="number" id="dm-str-furnishing" value="${currentAssumptions.strFurnishingCost}" min="0" step="500" class="dm-input dm-input-currency">
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>STR Management</label>
+            <div class="dm-input-group">
+              <input type="number" id="dm-str-management" value="${currentAssumptions.strManagementRate}" min="0" max="50" step="1" class="dm-input">
+              <span class="dm-input-suffix">%</span>
+            </div>
+          </div>
+          ` : ''}
+          
+          ${isRental && !isShortTermRental ? `
           <div class="dm-input-row">
             <label>Expected Rent</label>
             <div class="dm-input-group">
@@ -331,6 +599,33 @@ function createSidebarHTML(): string {
             </div>
           </div>
           ` : ''}
+          
+          ${isRental ? `
+          <div class="dm-input-row">
+            <label>Target CoC</label>
+            <div class="dm-input-group">
+              <input type="number" id="dm-target-coc" value="${currentAssumptions.targetCashOnCash}" min="-50" max="50" step="0.5" class="dm-input">
+              <span class="dm-input-suffix">%</span>
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Target DSCR</label>
+            <div class="dm-input-group">
+              <input type="number" id="dm-target-dscr" value="${currentAssumptions.targetDscr}" min="0" max="5" step="0.05" class="dm-input">
+              <span class="dm-input-suffix">x</span>
+            </div>
+          </div>
+          
+          <div class="dm-input-row">
+            <label>Target Cash Flow</label>
+            <div class="dm-input-group">
+              <span class="dm-input-prefix">$</span>
+              <input type="number" id="dm-target-cash-flow" value="${currentAssumptions.targetCashFlowMonthly}" step="25" class="dm-input dm-input-currency">
+              <span class="dm-input-suffix">/mo</span>
+            </div>
+          </div>
+          ` : ''}
         </div>
       </div>
       
@@ -399,7 +694,68 @@ function createSidebarHTML(): string {
       </div>
       ` : ''}
       
-      ${!isPrimaryResidence ? (() => {
+      ${isFlip && outputs.flip ? (() => {
+        const flip = outputs.flip
+        return `
+      <!-- Fix and flip headline -->
+      <div class="dm-section dm-invest-headline">
+        <div class="dm-section-header">
+          <span>Fix and Flip</span>
+        </div>
+        <div class="dm-invest-cards">
+          <div class="dm-invest-card ${flip.netProfit >= 0 ? 'dm-invest-card-green' : 'dm-invest-card-red'}">
+            <div class="dm-invest-card-label">Net Profit</div>
+            <div class="dm-invest-card-value">${formatCurrency(flip.netProfit)}</div>
+          </div>
+          <div class="dm-invest-card dm-invest-card-green">
+            <div class="dm-invest-card-label">ROI</div>
+            <div class="dm-invest-card-value">${formatPercent(flip.roi)}</div>
+          </div>
+          <div class="dm-invest-card dm-invest-card-green">
+            <div class="dm-invest-card-label">Annualized ROI</div>
+            <div class="dm-invest-card-value">${formatPercent(flip.annualizedRoi)}</div>
+          </div>
+          <div class="dm-invest-card dm-invest-card-amber">
+            <div class="dm-invest-card-label">Cash Invested</div>
+            <div class="dm-invest-card-value">${formatCurrency(flip.cashInvested)}</div>
+          </div>
+          <div class="dm-invest-card dm-invest-card-gray">
+            <div class="dm-invest-card-label">Total Project Cost</div>
+            <div class="dm-invest-card-value">${formatCurrency(flip.totalProjectCost)}</div>
+          </div>
+          <div class="dm-invest-card ${flip.seventyPercentRule.passes ? 'dm-invest-card-green' : 'dm-invest-card-red'}">
+            <div class="dm-invest-card-label">70% Rule Max Price</div>
+            <div class="dm-invest-card-value">${formatCurrency(flip.seventyPercentRule.maxPurchasePrice)}</div>
+          </div>
+        </div>
+        <div class="dm-metric-row">
+          <span class="dm-metric-label">Buying Costs</span>
+          <span class="dm-metric-value">${formatCurrency(flip.buyingCosts)}</span>
+        </div>
+        <div class="dm-metric-row">
+          <span class="dm-metric-label">Loan Points</span>
+          <span class="dm-metric-value">${formatCurrency(flip.loanPoints)}</span>
+        </div>
+        <div class="dm-metric-row">
+          <span class="dm-metric-label">Interest (${flip.holdMonths} mo)</span>
+          <span class="dm-metric-value">${formatCurrency(flip.interestCost)}</span>
+        </div>
+        <div class="dm-metric-row">
+          <span class="dm-metric-label">Holding Costs</span>
+          <span class="dm-metric-value">${formatCurrency(flip.holdingCosts)}</span>
+        </div>
+        <div class="dm-metric-row">
+          <span class="dm-metric-label">Selling Costs</span>
+          <span class="dm-metric-value">${formatCurrency(flip.sellingCosts)}</span>
+        </div>
+        <div class="dm-invest-summary">
+          <p class="dm-invest-summary-text">You'll need ${formatCurrency(flip.cashInvested)} in cash. Selling at the ARV after ${flip.holdMonths} months ${flip.netProfit >= 0 ? `nets ${formatCurrency(flip.netProfit)}` : `loses ${formatCurrency(Math.abs(flip.netProfit))}`} after all costs. ${flip.seventyPercentRule.passes ? 'Passes' : 'Fails'} the 70% rule (max price ${formatCurrency(flip.seventyPercentRule.maxPurchasePrice)}).</p>
+        </div>
+      </div>
+      `
+      })() : ''}
+      
+      ${isRental ? (() => {
         const isHouseHack = purchaseTypeRaw === 'house_hack'
         const sectionTitle = isHouseHack ? 'House Hack' : 'Investment'
         const cashFlowLabel = isHouseHack ? 'Net Housing Cost' : 'Cash Flow (Annual)'
@@ -411,7 +767,7 @@ function createSidebarHTML(): string {
         const cashFlowClass = isHouseHack ? 'dm-invest-card-purple' : (outputs.cashFlowAnnual >= 0 ? 'dm-invest-card-green' : 'dm-invest-card-red')
         const summaryText = isHouseHack
           ? `You'll need ${formatCurrency(outputs.allInCashRequired)} in cash to close. ${outputs.cashFlowAnnual >= 0 ? `With rental income you'll live for free and profit ${formatCurrency(outputs.cashFlowAnnual)}/yr (${formatCurrency(Math.round(outputs.cashFlowAnnual / 12))}/mo).` : `Your net housing cost is ${formatCurrency(Math.abs(outputs.cashFlowAnnual))}/yr (${formatCurrency(Math.abs(outputs.cashFlowMonthly))}/mo to live here).`} Cap rate: ${formatPercent(outputs.capRate)}. Cash-on-cash: ${formatPercent(outputs.cashOnCash)}.`
-          : `This deal requires ${formatCurrency(outputs.allInCashRequired)} in total cash. ${outputs.cashFlowAnnual >= 0 ? `Projected to return ${formatCurrency(outputs.cashFlowAnnual)} annually (${formatCurrency(outputs.cashFlowMonthly)}/mo), ${formatPercent(outputs.cashOnCash)} cash-on-cash.` : `Projected to lose ${formatCurrency(Math.abs(outputs.cashFlowAnnual))} annually (${formatCurrency(Math.abs(outputs.cashFlowMonthly))}/mo shortfall).`} Cap rate: ${formatPercent(outputs.capRate)}. DSCR: ${outputs.dscr.toFixed(2)}. Break-even rent: ${formatCurrency(outputs.breakEvenRentMonthly)}/mo.`
+          : `This deal requires ${formatCurrency(outputs.allInCashRequired)} in total cash. ${outputs.cashFlowAnnual >= 0 ? `Projected to return ${formatCurrency(outputs.cashFlowAnnual)} annually (${formatCurrency(outputs.cashFlowMonthly)}/mo), ${formatPercent(outputs.cashOnCash)} cash-on-cash.` : `Projected to lose ${formatCurrency(Math.abs(outputs.cashFlowAnnual))} annually (${formatCurrency(Math.abs(outputs.cashFlowMonthly))}/mo shortfall).`} Cap rate: ${formatPercent(outputs.capRate)}. DSCR: ${outputs.dscr.toFixed(2)}. ${isShortTermRental ? 'Break-even booking revenue' : 'Break-even rent'}: ${formatCurrency(outputs.breakEvenRentMonthly)}/mo.`
         return `
       <!-- ${sectionTitle} headline (mimic dashboard) -->
       <div class="dm-section dm-invest-headline">
@@ -444,7 +800,7 @@ function createSidebarHTML(): string {
             <div class="dm-invest-card-value">${outputs.dscr.toFixed(2)}x</div>
           </div>
           <div class="dm-invest-card dm-invest-card-gray">
-            <div class="dm-invest-card-label">Break-Even Rent</div>
+            <div class="dm-invest-card-label">${breakEvenLabel}</div>
             <div class="dm-invest-card-value">${formatCurrency(outputs.breakEvenRentMonthly)}</div>
           </div>
           <div class="dm-invest-card dm-invest-card-amber">
@@ -459,6 +815,41 @@ function createSidebarHTML(): string {
       `
       })() : ''}
       
+      ${screening ? `
+      <!-- Quick Screen (FREE) -->
+      <div class="dm-section dm-screening">
+        <div class="dm-section-header">
+          <span>Quick Screen</span>
+          <span class="dm-badge dm-badge-free">FREE</span>
+        </div>
+        <div class="dm-chips">
+          <span class="dm-chip ${screening.passesOnePercentRule ? 'dm-chip-pass' : 'dm-chip-fail'}" title="Rent is ${screening.rentToPriceRatio.toFixed(2)}% of price">${screening.passesOnePercentRule ? '&#10003;' : '&#10007;'} 1% rule</span>
+          <span class="dm-chip ${screening.passesTwoPercentRule ? 'dm-chip-pass' : 'dm-chip-fail'}" title="Rent is ${screening.rentToPriceRatio.toFixed(2)}% of price">${screening.passesTwoPercentRule ? '&#10003;' : '&#10007;'} 2% rule</span>
+          <span class="dm-chip ${screening.passesFiftyPercentRule ? 'dm-chip-pass' : 'dm-chip-fail'}" title="Half the rent less P&amp;I: ${formatCurrency(screening.fiftyPercentCashFlowMonthly)}/mo">${screening.passesFiftyPercentRule ? '&#10003;' : '&#10007;'} 50% rule</span>
+          ${screening.grossRentMultiplier !== null ? `<span class="dm-chip">GRM ${screening.grossRentMultiplier.toFixed(1)}</span>` : ''}
+          ${screening.pricePerSqft !== null ? `<span class="dm-chip">${formatCurrency(screening.pricePerSqft)}/sqft</span>` : ''}
+          ${screening.rentPerSqft !== null ? `<span class="dm-chip">Rent $${screening.rentPerSqft.toFixed(2)}/sqft</span>` : ''}
+        </div>
+      </div>
+      ` : ''}
+      
+      ${buyBoxScore ? `
+      <!-- Buy Box -->
+      <div class="dm-section dm-buy-box">
+        <div class="dm-section-header">
+          <span>Buy Box</span>
+          <a href="https://getdealmetrics.com/buy-box" target="_blank" rel="noopener" class="dm-signin-gate-link">Edit</a>
+        </div>
+        <div class="dm-metric-row dm-metric-highlight ${buyBoxScore.score === null ? '' : buyBoxScore.passes ? 'dm-positive' : 'dm-negative'}">
+          <span class="dm-metric-label">Score</span>
+          <span class="dm-metric-value">${buyBoxScore.score === null ? '--' : `${buyBoxScore.passes ? '&#10003;' : '&#10007;'} ${Math.round(buyBoxScore.score)} / 100`}</span>
+        </div>
+        <div class="dm-chips">
+          ${buyBoxScore.checks.map(check => `<span class="dm-chip ${check.passes === null ? '' : check.passes ? 'dm-chip-pass' : 'dm-chip-fail'}"${check.passes === null ? ' title="Not known for this listing"' : ''}>${check.passes === null ? '?' : check.passes ? '&#10003;' : '&#10007;'} ${escapeHtml(buyBoxCheckLabel(check))}</span>`).join('')}
+        </div>
+      </div>
+      ` : ''}
+      
       <!-- Key Metrics (FREE) -->
       <div class="dm-section dm-metrics">
         <div class="dm-section-header">
@@ -468,10 +859,20 @@ function createSidebarHTML(): string {
         
         <div class="dm-metric-row dm-metric-highlight">
           <span class="dm-metric-label">Cash Required</span>
-          <span class="dm-metric-value">${formatCurrency(outputs.allInCashRequired)}</span>
+          <span class="dm-metric-value">${formatCurrency(outputs.flip ? outputs.flip.cashInvested : outputs.allInCashRequired)}</span>
         </div>
         
-        ${!isPrimaryResidence ? `
+        ${outputs.flip ? `
+        <div class="dm-metric-row ${outputs.flip.netProfit >= 0 ? 'dm-positive' : 'dm-negative'}">
+          <span class="dm-metric-label">Net Profit</span>
+          <span class="dm-metric-value">${formatCurrency(outputs.flip.netProfit)}</span>
+        </div>
+        
+        <div class="dm-metric-row ${outputs.flip.roi >= 0 ? 'dm-positive' : 'dm-negative'}">
+          <span class="dm-metric-label">ROI</span>
+          <span class="dm-metric-value">${formatPercent(outputs.flip.roi)}</span>
+        </div>
+        ` : !isPrimaryResidence ? `
         <div class="dm-metric-row ${outputs.cashFlowMonthly >= 0 ? 'dm-positive' : 'dm-negative'}">
           <span class="dm-metric-label">Monthly Cash Flow</span>
           <span class="dm-metric-value">${formatCurrency(outputs.cashFlowMonthly)}</span>
@@ -481,6 +882,16 @@ function createSidebarHTML(): string {
           <span class="dm-metric-label">Cash-on-Cash Return</span>
           <span class="dm-metric-value">${formatPercent(outputs.cashOnCash)}</span>
         </div>
+        
+        ${maxOffer ? `
+        <div class="dm-metric-row dm-metric-highlight">
+          <span class="dm-metric-label">Max offer</span>
+          <span class="dm-metric-value dm-metric-subtext">
+            ${maxOffer.maxPurchasePrice !== null ? formatCurrency(maxOffer.maxPurchasePrice) : maxOffer.reason === 'no_limit' ? 'No limit' : 'Not reachable'}
+            ${maxOffer.bindingTarget ? `<small>(limited by ${MAX_OFFER_TARGET_LABELS[maxOffer.bindingTarget]})</small>` : ''}
+          </span>
+        </div>
+        ` : ''}
         ` : `
         <div class="dm-metric-row">
           <span class="dm-metric-label">True Monthly Cost</span>
@@ -492,6 +903,7 @@ function createSidebarHTML(): string {
         `}
       </div>
       
+      ${!isFlip ? `
       <!-- Holding Period Analysis (website-style: assumptions + metrics + exit scenario) -->
       <div class="dm-section dm-holding-period">
         <div class="dm-section-header">
@@ -648,6 +1060,7 @@ function createSidebarHTML(): string {
         `
         })() : ''}
       </div>
+      ` : ''}
       
       ${advancedAnalysisHTML}
     </div>
@@ -1420,6 +1833,31 @@ function createSidebarStyles(): string {
       color: #92400e;
     }
     
+    .dm-chips {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+    }
+    
+    .dm-chip {
+      font-size: 11px;
+      font-weight: 500;
+      padding: 2px 8px;
+      border-radius: 10px;
+      background: #f3f4f6;
+      color: #374151;
+    }
+    
+    .dm-chip-pass {
+      background: #dcfce7;
+      color: #166534;
+    }
+    
+    .dm-chip-fail {
+      background: #fee2e2;
+      color: #991b1b;
+    }
+    
     .dm-premium.dm-locked {
       position: relative;
     }
@@ -1557,7 +1995,7 @@ function handleInputChange(inputId: string, value: string | number): void {
       const newType = value as PurchaseType
       currentAssumptions.purchaseType = newType
       // Apply appropriate defaults
-      if (newType === 'primary_residence') {
+      if (newType === 'primary_residence' || newType === 'flip') {
         currentAssumptions.maintenanceRate = 0.5
         currentAssumptions.capexRate = 0.5
         currentAssumptions.vacancyRate = 0
@@ -1611,6 +2049,57 @@ function handleInputChange(inputId: string, value: string | number): void {
     case 'dm-selling-cost':
       currentAssumptions.sellingCostRate = Math.max(0, Number(value))
       break
+    case 'dm-target-coc':
+      currentAssumptions.targetCashOnCash = Number(value)
+      break
+    case 'dm-target-dscr':
+      currentAssumptions.targetDscr = Math.max(0, Number(value))
+      break
+    case 'dm-target-cash-flow':
+      currentAssumptions.targetCashFlowMonthly = Number(value)
+      break
+    case 'dm-rental-strategy':
+      currentAssumptions.rentalStrategy = value as RentalStrategy
+      break
+    case 'dm-str-adr':
+      currentAssumptions.strAverageDailyRate = Math.max(0, Number(value))
+      break
+    case 'dm-str-occupancy':
+      currentAssumptions.strOccupancy = Math.max(0, Math.min(100, Number(value)))
+      break
+    case 'dm-str-cleaning':
+      currentAssumptions.strCleaningFeePerStay = Math.max(0, Number(value))
+      break
+    case 'dm-str-platform-fee':
+      currentAssumptions.strPlatformFeeRate = Math.max(0, Number(value))
+      break
+    case 'dm-str-supplies':
+      currentAssumptions.strSuppliesMonthly = Math.max(0, Number(value))
+      break
+    case 'dm-str-furnishing':
+      currentAssumptions.strFurnishingCost = Math.max(0, Number(value))
+      break
+    case 'dm-str-management':
+      currentAssumptions.strManagementRate = Math.max(0, Number(value))
+      break
+    case 'dm-flip-arv':
+      currentAssumptions.flipAfterRepairValue = Math.max(0, Number(value))
+      break
+    case 'dm-flip-rehab':
+      currentAssumptions.flipRehabCost = Math.max(0, Number(value))
+      break
+    case 'dm-flip-rehab-months':
+      currentAssumptions.flipRehabMonths = Math.max(0, Math.min(36, Number(value) || 0))
+      break
+    case 'dm-flip-months-to-sell':
+      currentAssumptions.flipMonthsToSell = Math.max(0, Math.min(24, Number(value) || 0))
+      break
+    case 'dm-flip-holding-costs':
+      currentAssumptions.flipHoldingCostsMonthly = Math.max(0, Number(value))
+      break
+    case 'dm-flip-points':
+      currentAssumptions.flipLoanPointsPct = Math.max(0, Number(value))
+      break
   }
   
   updateSidebar()
@@ -1849,7 +2338,12 @@ function attachEventListeners(): void {
     'dm-purchase-type', 'dm-down-payment', 'dm-interest-rate', 'dm-loan-term',
     'dm-closing-costs', 'dm-vacancy', 'dm-management', 'dm-maintenance',
     'dm-capex', 'dm-rent',
-    'dm-holding-years', 'dm-appreciation', 'dm-rent-growth', 'dm-expense-growth', 'dm-selling-cost'
+    'dm-holding-years', 'dm-appreciation', 'dm-rent-growth', 'dm-expense-growth', 'dm-selling-cost',
+    'dm-target-coc', 'dm-target-dscr', 'dm-target-cash-flow',
+    'dm-rental-strategy', 'dm-str-adr', 'dm-str-occupancy', 'dm-str-cleaning', 'dm-str-platform-fee',
+    'dm-str-supplies', 'dm-str-furnishing', 'dm-str-management',
+    'dm-flip-arv', 'dm-flip-rehab', 'dm-flip-rehab-months', 'dm-flip-months-to-sell',
+    'dm-flip-holding-costs', 'dm-flip-points'
   ]
   
   inputs.forEach(id => {
@@ -1925,6 +2419,7 @@ export async function openSidebar(): Promise<void> {
   
   // Check auth status
   await checkAuthStatus()
+  if (isLoggedIn) loadBuyBox()
   
   // Extract data from page
   refreshData()
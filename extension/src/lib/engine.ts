@@ -10,7 +10,18 @@ import {
   HoldingPeriodOutputs,
   YearlyProjection,
   ExitScenario,
-  PrimaryResidenceOutputs
+  PrimaryResidenceOutputs,
+  MaxOfferInputs,
+  MaxOfferResult,
+  MaxOfferTarget,
+  ShortTermRentalInputs,
+  FlipSummary,
+  ScreeningInputs,
+  ScreeningOutputs,
+  BuyBox,
+  BuyBoxCheck,
+  BuyBoxProperty,
+  BuyBoxScore
 } from './types'
 
 /**
@@ -50,10 +61,57 @@ export function calculateTotalMonthlyPayment(inputs: UnderwritingInputs): number
   return monthlyPI + pmi + monthlyTaxes + monthlyInsurance + inputs.hoaMonthly + inputs.utilitiesMonthly
 }
 
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+function isShortTermRental(inputs: UnderwritingInputs): boolean {
+  return inputs.rentalStrategy === 'short_term' && !!inputs.shortTermRental
+}
+
+/**
+ * Calculate short-term rental revenue and STR-specific costs for one year
+ */
+export function calculateShortTermRental(
+  str: ShortTermRentalInputs,
+  revenueGrowthFactor: number = 1,
+  expenseGrowthFactor: number = 1
+): { grossRevenueAnnual: number; platformFeesAnnual: number; cleaningAnnual: number; suppliesAnnual: number; managementAnnual: number } {
+  const bookedNightsAnnual = DAYS_IN_MONTH.reduce(
+    (sum, days, i) => sum + days * ((str.monthlyOccupancy[i] ?? 0) / 100),
+    0
+  )
+  const grossRevenueAnnual = bookedNightsAnnual * str.averageDailyRate * revenueGrowthFactor
+  const turnovers = str.averageStayNights > 0 ? bookedNightsAnnual / str.averageStayNights : 0
+  
+  return {
+    grossRevenueAnnual,
+    platformFeesAnnual: grossRevenueAnnual * (str.platformFeeRate / 100),
+    cleaningAnnual: turnovers * str.cleaningFeePerStay * expenseGrowthFactor,
+    suppliesAnnual: str.suppliesMonthly * 12 * expenseGrowthFactor,
+    managementAnnual: grossRevenueAnnual * (str.managementRate / 100),
+  }
+}
+
 /**
  * Calculate Net Operating Income (NOI)
  */
 export function calculateNOI(inputs: UnderwritingInputs): { monthly: number; annual: number } {
+  if (isShortTermRental(inputs)) {
+    const str = calculateShortTermRental(inputs.shortTermRental!)
+    const grossIncomeMonthly = str.grossRevenueAnnual / 12 + inputs.otherIncomeMonthly
+    
+    const operatingExpensesMonthly =
+      grossIncomeMonthly * (inputs.maintenanceRate / 100) +
+      grossIncomeMonthly * (inputs.capexRate / 100) +
+      (str.platformFeesAnnual + str.cleaningAnnual + str.suppliesAnnual + str.managementAnnual) / 12 +
+      inputs.taxesAnnual / 12 +
+      inputs.insuranceAnnual / 12 +
+      inputs.hoaMonthly +
+      inputs.utilitiesMonthly
+    
+    const noiMonthly = grossIncomeMonthly - operatingExpensesMonthly
+    return { monthly: noiMonthly, annual: noiMonthly * 12 }
+  }
+  
   const grossIncomeMonthly = inputs.rentMonthly + inputs.otherIncomeMonthly
   const vacancyLossMonthly = grossIncomeMonthly * (inputs.vacancyRate / 100)
   const effectiveIncomeMonthly = grossIncomeMonthly - vacancyLossMonthly
@@ -149,6 +207,18 @@ export function calculateBreakEvenRent(inputs: UnderwritingInputs): number {
     inputs.hoaMonthly +
     inputs.utilitiesMonthly
   
+  if (isShortTermRental(inputs)) {
+    const str = calculateShortTermRental(inputs.shortTermRental!)
+    const strDenominator = 1 -
+      (inputs.maintenanceRate + inputs.capexRate + inputs.shortTermRental!.platformFeeRate + inputs.shortTermRental!.managementRate) / 100
+    const strFixedExpensesMonthly = fixedExpensesMonthly + (str.cleaningAnnual + str.suppliesAnnual) / 12
+    
+    if (strDenominator <= 0) {
+      return debtService.monthly + strFixedExpensesMonthly
+    }
+    return Math.max(0, (debtService.monthly + strFixedExpensesMonthly - inputs.otherIncomeMonthly) / strDenominator)
+  }
+  
   const vacancyRate = inputs.vacancyRate / 100
   const maintenanceRate = inputs.maintenanceRate / 100
   const capexRate = inputs.capexRate / 100
@@ -171,7 +241,61 @@ export function calculateBreakEvenRent(inputs: UnderwritingInputs): number {
 export function calculateAllInCashRequired(inputs: UnderwritingInputs): number {
   const downPayment = inputs.purchasePrice * (inputs.downPaymentPct / 100)
   const closingCosts = inputs.purchasePrice * (inputs.closingCostRate / 100)
-  return downPayment + closingCosts + inputs.rehabCost
+  const furnishing = isShortTermRental(inputs) ? inputs.shortTermRental!.furnishingCost : 0
+  return downPayment + closingCosts + inputs.rehabCost + furnishing
+}
+
+const FLIP_MAX_PRICE_ARV_PCT = 70
+
+/**
+ * Calculate fix-and-flip profit
+ * The purchase loan is interest-only over the rehab and sale; holding costs include
+ * taxes, insurance and HOA; selling costs come out of the sale proceeds
+ */
+export function calculateFlip(inputs: UnderwritingInputs): FlipSummary | null {
+  if (!inputs.flip) return null
+  
+  const { afterRepairValue, rehabMonths, monthsToSell, holdingCostsMonthly, loanPointsPct, sellingCostRate } = inputs.flip
+  const holdMonths = rehabMonths + monthsToSell
+  const loanAmount = inputs.purchasePrice * (1 - inputs.downPaymentPct / 100)
+  
+  const buyingCosts = inputs.purchasePrice * (inputs.closingCostRate / 100)
+  const loanPoints = loanAmount * (loanPointsPct / 100)
+  const interestCost = loanAmount * (inputs.interestRate / 100 / 12) * holdMonths
+  const carryingCostsMonthly = inputs.taxesAnnual / 12 + inputs.insuranceAnnual / 12 + inputs.hoaMonthly + holdingCostsMonthly
+  const holdingCosts = carryingCostsMonthly * holdMonths
+  const sellingCosts = afterRepairValue * (sellingCostRate / 100)
+  
+  const totalProjectCost = inputs.purchasePrice + inputs.rehabCost + buyingCosts + loanPoints +
+    interestCost + holdingCosts + sellingCosts
+  const cashInvested = totalProjectCost - loanAmount - sellingCosts
+  const netProfit = afterRepairValue - totalProjectCost
+  
+  const roi = cashInvested > 0 ? (netProfit / cashInvested) * 100 : 0
+  const annualizedRoi = roi > -100 && holdMonths > 0
+    ? (Math.pow(1 + roi / 100, 12 / holdMonths) - 1) * 100
+    : roi
+  
+  const maxPurchasePrice = afterRepairValue * (FLIP_MAX_PRICE_ARV_PCT / 100) - inputs.rehabCost
+  
+  return {
+    holdMonths,
+    loanAmount,
+    buyingCosts,
+    loanPoints,
+    interestCost,
+    holdingCosts,
+    sellingCosts,
+    totalProjectCost,
+    cashInvested,
+    netProfit,
+    roi,
+    annualizedRoi,
+    seventyPercentRule: {
+      maxPurchasePrice,
+      passes: inputs.purchasePrice <= maxPurchasePrice,
+    },
+  }
 }
 
 /**
@@ -186,6 +310,7 @@ export function calculateUnderwriting(inputs: UnderwritingInputs): UnderwritingO
   const dscr = calculateDSCR(inputs)
   const breakEvenRentMonthly = calculateBreakEvenRent(inputs)
   const allInCashRequired = calculateAllInCashRequired(inputs)
+  const flip = calculateFlip(inputs)
   
   return {
     totalMonthlyPayment,
@@ -198,6 +323,7 @@ export function calculateUnderwriting(inputs: UnderwritingInputs): UnderwritingO
     dscr,
     breakEvenRentMonthly,
     allInCashRequired,
+    ...(flip ? { flip } : {}),
   }
 }
 
@@ -266,25 +392,30 @@ export function calculateYearlyProjection(
   const equity = propertyValue - loanBalance
   
   const rentGrowthFactor = Math.pow(1 + rentGrowthRate / 100, year - 1)
-  const rentAnnual = underwritingInputs.rentMonthly * 12 * rentGrowthFactor
+  const expenseGrowthFactor = Math.pow(1 + expenseGrowthRate / 100, year - 1)
+  const str = isShortTermRental(underwritingInputs)
+    ? calculateShortTermRental(underwritingInputs.shortTermRental!, rentGrowthFactor, expenseGrowthFactor)
+    : null
+  
+  const rentAnnual = str ? str.grossRevenueAnnual : underwritingInputs.rentMonthly * 12 * rentGrowthFactor
   const otherIncomeAnnual = underwritingInputs.otherIncomeMonthly * 12 * rentGrowthFactor
   const grossIncomeAnnual = rentAnnual + otherIncomeAnnual
   
-  const vacancyLossAnnual = grossIncomeAnnual * (underwritingInputs.vacancyRate / 100)
+  const vacancyLossAnnual = str ? 0 : grossIncomeAnnual * (underwritingInputs.vacancyRate / 100)
   const effectiveIncomeAnnual = grossIncomeAnnual - vacancyLossAnnual
   
-  const expenseGrowthFactor = Math.pow(1 + expenseGrowthRate / 100, year - 1)
   const taxesAnnual = underwritingInputs.taxesAnnual * expenseGrowthFactor
   const insuranceAnnual = underwritingInputs.insuranceAnnual * expenseGrowthFactor
   const hoaAnnual = underwritingInputs.hoaMonthly * 12 * expenseGrowthFactor
   const utilitiesAnnual = underwritingInputs.utilitiesMonthly * 12 * expenseGrowthFactor
   const maintenanceAnnual = grossIncomeAnnual * (underwritingInputs.maintenanceRate / 100)
   const capexAnnual = grossIncomeAnnual * (underwritingInputs.capexRate / 100)
-  const managementAnnual = grossIncomeAnnual * (underwritingInputs.managementRate / 100)
+  const managementAnnual = str ? str.managementAnnual : grossIncomeAnnual * (underwritingInputs.managementRate / 100)
+  const strCostsAnnual = str ? str.platformFeesAnnual + str.cleaningAnnual + str.suppliesAnnual : 0
   
   const operatingExpensesAnnual = 
     taxesAnnual + insuranceAnnual + hoaAnnual + utilitiesAnnual + 
-    maintenanceAnnual + capexAnnual + managementAnnual
+    maintenanceAnnual + capexAnnual + managementAnnual + strCostsAnnual
   
   const noiAnnual = effectiveIncomeAnnual - operatingExpensesAnnual
   
@@ -481,3 +612,173 @@ export function calculatePrimaryResidenceAnalysis(inputs: UnderwritingInputs): P
     annualNetCostOfOwnership,
   }
 }
+
+// =============================================================================
+// MAX OFFER SOLVER
+// =============================================================================
+
+const MAX_OFFER_PRICE_FLOOR = 1
+const MAX_OFFER_PRICE_CEILING = 100_000_000
+
+function meetsMaxOfferTarget(inputs: MaxOfferInputs, target: MaxOfferTarget, purchasePrice: number): boolean {
+  const underwritingInputs = { ...inputs.underwritingInputs, purchasePrice }
+  const value = inputs.targets[target] as number
+  
+  switch (target) {
+    case 'minCashOnCash':
+      return calculateCashOnCash(underwritingInputs) >= value
+    case 'minDscr':
+      if (calculateDebtService(underwritingInputs).annual === 0) return true
+      return calculateDSCR(underwritingInputs) >= value
+    case 'minCashFlowMonthly':
+      return calculateCashFlow(underwritingInputs).monthly >= value
+    case 'minCapRate':
+      return calculateCapRate(underwritingInputs) >= value
+    case 'minIrr':
+      if (!inputs.holdingPeriod) return true
+      return calculateHoldingPeriodAnalysis({ ...inputs.holdingPeriod, underwritingInputs }).irr >= value
+  }
+}
+
+/**
+ * Highest purchase price meeting every target, other inputs held fixed
+ * Bisects each target separately; the lowest price is the binding one.
+ * Targets met at every price don't limit the offer (reason 'no_limit' if none does)
+ */
+export function calculateMaxOffer(inputs: MaxOfferInputs): MaxOfferResult {
+  const targets = (Object.keys(inputs.targets) as MaxOfferTarget[])
+    .filter((target) => inputs.targets[target] !== undefined)
+  
+  if (targets.length === 0) {
+    return { maxPurchasePrice: null, reason: 'no_targets', bindingTarget: null, outputs: null, irr: null }
+  }
+  
+  let maxPurchasePrice: number | null = null
+  let bindingTarget: MaxOfferTarget | null = null
+  for (const target of targets) {
+    // Met even at the ceiling: this target doesn't limit the price
+    if (meetsMaxOfferTarget(inputs, target, MAX_OFFER_PRICE_CEILING)) continue
+    
+    let price = 0
+    if (meetsMaxOfferTarget(inputs, target, MAX_OFFER_PRICE_FLOOR)) {
+      let low = MAX_OFFER_PRICE_FLOOR
+      let high = MAX_OFFER_PRICE_CEILING
+      while (high - low > 1) {
+        const mid = (low + high) / 2
+        if (meetsMaxOfferTarget(inputs, target, mid)) {
+          low = mid
+        } else {
+          high = mid
+        }
+      }
+      price = Math.floor(low)
+    }
+    
+    if (maxPurchasePrice === null || price < maxPurchasePrice) {
+      maxPurchasePrice = price
+      bindingTarget = target
+    }
+  }
+  
+  if (maxPurchasePrice === null) {
+    return { maxPurchasePrice: null, reason: 'no_limit', bindingTarget: null, outputs: null, irr: null }
+  }
+  
+  if (maxPurchasePrice <= 0) {
+    return { maxPurchasePrice: null, reason: 'targets_unmet', bindingTarget, outputs: null, irr: null }
+  }
+  
+  const underwritingInputs = { ...inputs.underwritingInputs, purchasePrice: maxPurchasePrice }
+  return {
+    maxPurchasePrice,
+    reason: null,
+    bindingTarget,
+    outputs: calculateUnderwriting(underwritingInputs),
+    irr: inputs.holdingPeriod
+      ? calculateHoldingPeriodAnalysis({ ...inputs.holdingPeriod, underwritingInputs }).irr
+      : null,
+  }
+}
+
+// =============================================================================
+// QUICK SCREEN
+// =============================================================================
+
+/**
+ * Rules of thumb: 1% / 2% rule (rent vs price + rehab), 50% rule cash flow
+ * (half the rent less P&I), GRM, price per unit and price / rent per sqft
+ */
+export function calculateScreening(inputs: ScreeningInputs): ScreeningOutputs {
+  const { purchasePrice, rehabCost, rentMonthly, units, sqft } = inputs
+  const allInPrice = purchasePrice + rehabCost
+  const rentToPriceRatio = allInPrice > 0 ? (rentMonthly / allInPrice) * 100 : 0
+  
+  const loanAmount = purchasePrice * (1 - inputs.downPaymentPct / 100)
+  const monthlyPI = calculateMonthlyPI(loanAmount, inputs.interestRate, inputs.termYears)
+  const fiftyPercentCashFlowMonthly = rentMonthly * 0.5 - monthlyPI
+  
+  const hasSqft = sqft !== null && sqft > 0
+  
+  return {
+    rentToPriceRatio,
+    passesOnePercentRule: rentToPriceRatio >= 1,
+    passesTwoPercentRule: rentToPriceRatio >= 2,
+    fiftyPercentCashFlowMonthly,
+    passesFiftyPercentRule: fiftyPercentCashFlowMonthly >= 0,
+    grossRentMultiplier: rentMonthly > 0 ? purchasePrice / (rentMonthly * 12) : null,
+    pricePerUnit: purchasePrice / Math.max(1, units),
+    pricePerSqft: hasSqft ? purchasePrice / sqft : null,
+    rentPerSqft: hasSqft ? rentMonthly / sqft : null,
+  }
+}
+
+// =============================================================================
+// BUY BOX SCORE
+// =============================================================================
+
+/**
+ * Weighted % of buy box checks the listing passes (mirrors the web app scoring)
+ * Checks without data are left out of the score and counted in unknownCount
+ */
+export function scoreBuyBox(buyBox: BuyBox, property: BuyBoxProperty): BuyBoxScore {
+  const checks: BuyBoxCheck[] = buyBox.criteria.map((criterion) => {
+    const value = property.values[criterion.metric] ?? null
+    return {
+      metric: criterion.metric,
+      operator: criterion.operator,
+      threshold: criterion.threshold,
+      value,
+      weight: criterion.weight,
+      passes: value === null
+        ? null
+        : criterion.operator === 'min' ? value >= criterion.threshold : value <= criterion.threshold,
+    }
+  })
+  
+  if (buyBox.states.length > 0 || buyBox.zips.length > 0) {
+    const state = property.state?.trim().toUpperCase() || null
+    const zip = property.zip?.trim().slice(0, 5) || null
+    const known = (buyBox.states.length > 0 && state !== null) || (buyBox.zips.length > 0 && zip !== null)
+    const passes = (state !== null && buyBox.states.includes(state)) || (zip !== null && buyBox.zips.includes(zip))
+    checks.push({
+      metric: 'location',
+      operator: 'in',
+      threshold: null,
+      value: [zip, state].filter(Boolean).join(' ') || null,
+      weight: buyBox.locationWeight,
+      passes: known ? passes : null,
+    })
+  }
+  
+  const known = checks.filter((check) => check.passes !== null && check.weight > 0)
+  const totalWeight = known.reduce((sum, check) => sum + check.weight, 0)
+  const passingWeight = known.reduce((sum, check) => sum + (check.passes ? check.weight : 0), 0)
+  const score = totalWeight > 0 ? (passingWeight / totalWeight) * 100 : null
+  
+  return {
+    score,
+    passes: score !== null && score >= buyBox.passingScore,
+    checks,
+    unknownCount: checks.filter((check) => check.passes === null).length,
+  }
+}
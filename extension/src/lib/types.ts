@@ -1,6 +1,6 @@
 // Types for underwriting calculations (subset of main app types)
 
-export type PurchaseType = 'primary_residence' | 'investment_property' | 'house_hack' | 'vacation_home' | 'other'
+export type PurchaseType = 'primary_residence' | 'investment_property' | 'house_hack' | 'flip' | 'vacation_home' | 'other'
 
 export interface UnderwritingInputs {
   purchasePrice: number
@@ -21,6 +21,50 @@ export interface UnderwritingInputs {
   maintenanceRate: number
   capexRate: number
   managementRate: number
+  rentalStrategy?: RentalStrategy
+  shortTermRental?: ShortTermRentalInputs
+  flip?: FlipInputs
+}
+
+export type RentalStrategy = 'long_term' | 'short_term'
+
+export interface ShortTermRentalInputs {
+  averageDailyRate: number
+  monthlyOccupancy: number[] // 12 values (Jan–Dec), % of nights booked
+  averageStayNights: number
+  cleaningFeePerStay: number
+  platformFeeRate: number
+  suppliesMonthly: number
+  furnishingCost: number
+  managementRate: number
+}
+
+export interface FlipInputs {
+  afterRepairValue: number // Expected sale price once renovated
+  rehabMonths: number // Renovation timeline (the budget is rehabCost)
+  monthsToSell: number // Listing and closing after the renovation
+  holdingCostsMonthly: number // Utilities, security, etc. on top of taxes, insurance and HOA
+  loanPointsPct: number // Origination points (% of the loan), paid at close
+  sellingCostRate: number // Commissions and seller closing costs, % of ARV
+}
+
+export interface FlipSummary {
+  holdMonths: number // Rehab plus time to sell
+  loanAmount: number
+  buyingCosts: number // Closing costs on the purchase
+  loanPoints: number
+  interestCost: number // Interest-only payments over the hold
+  holdingCosts: number // Taxes, insurance, HOA and other holding costs over the hold
+  sellingCosts: number
+  totalProjectCost: number // Price + rehab + every cost above
+  cashInvested: number // Total project cost less the loan and selling costs (paid from proceeds)
+  netProfit: number // ARV - total project cost
+  roi: number // Net profit / cash invested (%)
+  annualizedRoi: number // ROI compounded to a 12-month rate (%)
+  seventyPercentRule: {
+    maxPurchasePrice: number // ARV × 70% - rehab
+    passes: boolean
+  }
 }
 
 export interface UnderwritingOutputs {
@@ -34,6 +78,7 @@ export interface UnderwritingOutputs {
   dscr: number
   breakEvenRentMonthly: number
   allInCashRequired: number
+  flip?: FlipSummary
 }
 
 export interface HoldingPeriodInputs {
@@ -96,6 +141,113 @@ export interface PrimaryResidenceOutputs {
   annualNetCostOfOwnership: number
 }
 
+// Max offer solver (mirrors the web app solver)
+export interface MaxOfferTargets {
+  minCashOnCash?: number
+  minDscr?: number
+  minCashFlowMonthly?: number
+  minCapRate?: number
+  minIrr?: number
+}
+
+export type MaxOfferTarget = keyof MaxOfferTargets
+
+export interface MaxOfferInputs {
+  underwritingInputs: UnderwritingInputs
+  holdingPeriod?: Omit<HoldingPeriodInputs, 'underwritingInputs'>
+  targets: MaxOfferTargets
+}
+
+export type MaxOfferNoPriceReason = 'no_targets' | 'targets_unmet' | 'no_limit'
+
+export interface MaxOfferResult {
+  maxPurchasePrice: number | null
+  reason: MaxOfferNoPriceReason | null
+  bindingTarget: MaxOfferTarget | null
+  outputs: UnderwritingOutputs | null
+  irr: number | null
+}
+
+// Quick screen rules of thumb (mirrors the web app screening)
+export interface ScreeningInputs {
+  purchasePrice: number
+  rehabCost: number
+  rentMonthly: number
+  downPaymentPct: number
+  interestRate: number
+  termYears: number
+  units: number
+  sqft: number | null
+}
+
+export interface ScreeningOutputs {
+  rentToPriceRatio: number
+  passesOnePercentRule: boolean
+  passesTwoPercentRule: boolean
+  fiftyPercentCashFlowMonthly: number
+  passesFiftyPercentRule: boolean
+  grossRentMultiplier: number | null
+  pricePerUnit: number
+  pricePerSqft: number | null
+  rentPerSqft: number | null
+}
+
+// Buy box saved on the web app (mirrors the web app buy box types)
+export type BuyBoxMetric =
+  | 'purchasePrice'
+  | 'sqft'
+  | 'beds'
+  | 'yearBuilt'
+  | 'rentToPriceRatio'
+  | 'grossRentMultiplier'
+  | 'pricePerUnit'
+  | 'pricePerSqft'
+  | 'cashFlowMonthly'
+  | 'cashOnCash'
+  | 'capRate'
+  | 'dscr'
+  | 'noiAnnual'
+  | 'allInCashRequired'
+  | 'irr'
+  | 'equityMultiple'
+
+export interface BuyBoxCriterion {
+  metric: BuyBoxMetric
+  operator: 'min' | 'max'
+  threshold: number
+  weight: number
+}
+
+export interface BuyBox {
+  criteria: BuyBoxCriterion[]
+  states: string[]
+  zips: string[]
+  locationWeight: number
+  passingScore: number
+}
+
+export interface BuyBoxProperty {
+  values: Partial<Record<BuyBoxMetric, number>>
+  state: string | null
+  zip: string | null
+}
+
+export interface BuyBoxCheck {
+  metric: BuyBoxMetric | 'location'
+  operator: 'min' | 'max' | 'in'
+  threshold: number | null
+  value: number | string | null
+  weight: number
+  passes: boolean | null
+}
+
+export interface BuyBoxScore {
+  score: number | null
+  passes: boolean
+  checks: BuyBoxCheck[]
+  unknownCount: number
+}
+
 // Scraped data from Zillow page
 export interface ScrapedPropertyData {
   address?: string
@@ -137,6 +289,26 @@ export interface UserAssumptions {
   rentGrowthRate: number
   expenseGrowthRate: number
   sellingCostRate: number
+  // Max offer targets (investment only)
+  targetCashOnCash: number
+  targetDscr: number
+  targetCashFlowMonthly: number
+  // Short-term rental (investment only)
+  rentalStrategy: RentalStrategy
+  strAverageDailyRate: number
+  strOccupancy: number // Flat % applied to every month
+  strCleaningFeePerStay: number
+  strPlatformFeeRate: number
+  strSuppliesMonthly: number
+  strFurnishingCost: number
+  strManagementRate: number
+  // Fix and flip (rehab budget and timeline, then sale at the ARV)
+  flipAfterRepairValue: number
+  flipRehabCost: number
+  flipRehabMonths: number
+  flipMonthsToSell: number
+  flipHoldingCostsMonthly: number
+  flipLoanPointsPct: number
 }
 
 // Default assumptions
@@ -156,6 +328,23 @@ export const DEFAULT_ASSUMPTIONS: UserAssumptions = {
   rentGrowthRate: 3,
   expenseGrowthRate: 3,
   sellingCostRate: 6,
+  targetCashOnCash: 8,
+  targetDscr: 1.25,
+  targetCashFlowMonthly: 0,
+  rentalStrategy: 'long_term',
+  strAverageDailyRate: 0,
+  strOccupancy: 65,
+  strCleaningFeePerStay: 100,
+  strPlatformFeeRate: 3,
+  strSuppliesMonthly: 75,
+  strFurnishingCost: 0,
+  strManagementRate: 20,
+  flipAfterRepairValue: 0,
+  flipRehabCost: 0,
+  flipRehabMonths: 4,
+  flipMonthsToSell: 2,
+  flipHoldingCostsMonthly: 0,
+  flipLoanPointsPct: 0,
 }
 
 // Investment property defaults
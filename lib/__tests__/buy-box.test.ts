@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { getBuyBoxProperty, scoreBuyBox } from '../buy-box'
+import { Analysis, BuyBox, Deal } from '../types'
+
+describe('Buy box scoring', () => {
+  const buyBox: BuyBox = {
+    userId: 'user_1',
+    criteria: [
+      { metric: 'cashOnCash', operator: 'min', threshold: 8, weight: 2 },
+      { metric: 'dscr', operator: 'min', threshold: 1.25, weight: 2 },
+      { metric: 'purchasePrice', operator: 'max', threshold: 400000, weight: 1 },
+    ],
+    states: ['OH'],
+    zips: ['46201'],
+    locationWeight: 1,
+    passingScore: 70,
+    updatedAt: '2024-01-01T00:00:00Z',
+  }
+
+  it('scores the weighted share of checks that pass', () => {
+    const score = scoreBuyBox(buyBox, {
+      values: { cashOnCash: 9, dscr: 1.1, purchasePrice: 350000 },
+      state: 'oh',
+      zip: '43215',
+    })
+
+    // Cash-on-cash (2) + price (1) + location (1) of 6
+    expect(score.score).toBeCloseTo((4 / 6) * 100, 10)
+    expect(score.passes).toBe(false)
+    expect(score.checks.map((check) => check.passes)).toEqual([true, false, true, true])
+    expect(score.unknownCount).toBe(0)
+  })
+
+  it('leaves checks without data out of the score', () => {
+    const score = scoreBuyBox(buyBox, {
+      values: { purchasePrice: 350000 },
+      state: null,
+      zip: '46201',
+    })
+
+    expect(score.score).toBe(100)
+    expect(score.passes).toBe(true)
+    expect(score.unknownCount).toBe(2)
+    expect(scoreBuyBox(buyBox, { values: {}, state: null, zip: null }).score).toBeNull()
+  })
+
+  it('takes price from the analysis and returns from its outputs', () => {
+    const deal = {
+      listPrice: 420000,
+      purchasePrice: null,
+      rentMonthly: null,
+      rentRoll: [],
+      sqft: 1500,
+      beds: 3,
+      yearBuilt: 1995,
+      state: 'OH',
+      zip: '43215',
+    } as unknown as Deal
+    const analysis = {
+      inputs: { purchasePrice: 390000 },
+      outputs: { cashFlowMonthly: 250, cashOnCash: 8.5, capRate: 6.5, dscr: 1.3, noiAnnual: 25350, allInCashRequired: 90000 },
+      holdingPeriodOutputs: undefined,
+    } as unknown as Analysis
+
+    expect(getBuyBoxProperty(deal, null).values).toEqual({ purchasePrice: 420000, sqft: 1500, beds: 3, yearBuilt: 1995 })
+
+    const property = getBuyBoxProperty(deal, analysis)
+    expect(property.values.purchasePrice).toBe(390000)
+    expect(property.values.dscr).toBe(1.3)
+    expect(property.values.irr).toBeUndefined()
+    expect(scoreBuyBox(buyBox, property).score).toBe(100)
+  })
+})
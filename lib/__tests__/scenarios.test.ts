@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { applyScenario, findLatestAnalysis, getPrimaryScenarioId, listScenarioAnalyses } from '../scenarios'
+import { Analysis, Deal, DealScenario } from '../types'
+
+describe('Deal scenarios', () => {
+  const downside: DealScenario = {
+    id: 'downside',
+    name: 'Downside',
+    overrides: { rentMonthly: 1800, vacancyRate: 10 },
+    isPrimary: false,
+  }
+
+  const deal = {
+    id: 'deal_1',
+    purchasePrice: 250000,
+    rentMonthly: 2000,
+    vacancyRate: 5,
+    scenarios: [downside],
+  } as Deal
+
+  const analysis = (id: string, createdAt: string, scenarioId?: string | null) =>
+    ({ id, dealId: deal.id, createdAt, scenarioId } as Analysis)
+
+  it('overrides only the fields a scenario sets', () => {
+    const scenarioDeal = applyScenario(deal, downside)
+
+    expect(scenarioDeal.rentMonthly).toBe(1800)
+    expect(scenarioDeal.vacancyRate).toBe(10)
+    expect(scenarioDeal.purchasePrice).toBe(250000)
+    expect(applyScenario(deal, null)).toBe(deal)
+  })
+
+  it('keeps the latest analysis per scenario, treating untagged analyses as the base', () => {
+    const analyses = [
+      analysis('base_old', '2024-01-01T00:00:00Z'),
+      analysis('downside_new', '2024-03-01T00:00:00Z', 'downside'),
+      analysis('base_new', '2024-02-01T00:00:00Z', null),
+      analysis('downside_old', '2024-01-15T00:00:00Z', 'downside'),
+    ]
+
+    expect(findLatestAnalysis(analyses, null)?.id).toBe('base_new')
+    expect(findLatestAnalysis(analyses, 'downside')?.id).toBe('downside_new')
+    expect(findLatestAnalysis(analyses, 'upside')).toBeNull()
+
+    const listed = listScenarioAnalyses(deal, analyses)
+    expect(listed.map((s) => s.name)).toEqual(['Base', 'Downside'])
+    expect(listed[0].isPrimary).toBe(true)
+  })
+
+  it('makes a scenario primary instead of the base when marked', () => {
+    const withPrimary = { ...deal, scenarios: [{ ...downside, isPrimary: true }] }
+
+    expect(getPrimaryScenarioId(deal)).toBeNull()
+    expect(getPrimaryScenarioId(withPrimary)).toBe('downside')
+    expect(listScenarioAnalyses(withPrimary, []).map((s) => s.isPrimary)).toEqual([false, true])
+  })
+})
@@ -0,0 +1,77 @@
+import { z } from 'zod'
+import { analyzeDealSchema } from './schemas'
+import { HoldingPeriodInputs, UnderwritingInputs } from './types'
+
+// Validated analyze request; the max offer, sensitivity and loan comparison schemas extend it
+type AnalyzeDealInput = z.infer<typeof analyzeDealSchema>
+
+/**
+ * Engine inputs from a validated analyze request
+ */
+export function buildUnderwritingInputs(validated: AnalyzeDealInput): UnderwritingInputs {
+  return {
+    purchasePrice: validated.purchasePrice,
+    closingCostRate: validated.closingCostRate,
+    rehabCost: validated.rehabCost,
+    downPaymentPct: validated.downPaymentPct,
+    interestRate: validated.interestRate,
+    termYears: validated.termYears,
+    pmiEnabled: validated.pmiEnabled,
+    pmiMonthly: validated.pmiMonthly,
+    loanProgram: validated.loanProgram,
+    creditTier: validated.creditTier,
+    vaSubsequentUse: validated.vaSubsequentUse,
+    vaFundingFeeExempt: validated.vaFundingFeeExempt,
+    taxesAnnual: validated.taxesAnnual,
+    insuranceAnnual: validated.insuranceAnnual,
+    hoaMonthly: validated.hoaMonthly,
+    utilitiesMonthly: validated.utilitiesMonthly,
+    rentMonthly: validated.rentMonthly,
+    otherIncomeMonthly: validated.otherIncomeMonthly,
+    vacancyRate: validated.vacancyRate,
+    maintenanceRate: validated.maintenanceRate,
+    capexRate: validated.capexRate,
+    managementRate: validated.managementRate,
+    loanType: validated.loanType,
+    interestOnlyYears: validated.interestOnlyYears,
+    armFixedYears: validated.armFixedYears,
+    armAdjustedRate: validated.armAdjustedRate,
+    armPeriodicCap: validated.armPeriodicCap,
+    armLifetimeCap: validated.armLifetimeCap,
+    balloonYears: validated.balloonYears,
+    financingTranches: validated.financingTranches,
+    rentalStrategy: validated.rentalStrategy,
+    shortTermRental: validated.shortTermRental,
+    houseHack: validated.houseHack,
+    rentRoll: validated.rentRoll,
+    closingCostItems: validated.closingCostItems,
+    sellerConcessions: validated.sellerConcessions,
+    lenderCredits: validated.lenderCredits,
+    capexSchedule: validated.capexSchedule,
+    capexReserveMonthly: validated.capexReserveMonthly,
+    rehabPeriod: validated.rehabPeriod,
+    flip: validated.flip,
+    valueAdd: validated.valueAdd,
+  }
+}
+
+/**
+ * Holding period inputs from a validated analyze request, with the default
+ * assumptions filled in (10 year hold, 3% appreciation, 2% rent and expense growth, 6% selling costs)
+ */
+export function buildHoldingPeriodInputs(validated: AnalyzeDealInput, inputs: UnderwritingInputs): HoldingPeriodInputs {
+  return {
+    underwritingInputs: inputs,
+    holdingPeriodYears: validated.holdingPeriodYears || 10,
+    appreciationRate: validated.appreciationRate ?? 3,
+    rentGrowthRate: validated.rentGrowthRate ?? 2,
+    expenseGrowthRate: validated.expenseGrowthRate ?? 2,
+    sellingCostRate: validated.sellingCostRate ?? 6,
+    exitValuation: validated.exitValuation,
+    renterInvestmentReturn: validated.renterInvestmentReturn,
+    refinance: validated.refinance,
+    tax: validated.tax,
+    returnMetrics: validated.returnMetrics,
+    partnership: validated.partnership,
+  }
+}
@@ -0,0 +1,127 @@
+import { Analysis, BuyBox, BuyBoxCheck, BuyBoxCriterion, BuyBoxMetric, BuyBoxProperty, BuyBoxScore, Deal } from './types'
+import { screenDeal } from './underwriting/screening'
+
+export const BUY_BOX_METRIC_LABELS: Record<BuyBoxMetric, string> = {
+  purchasePrice: 'Price',
+  sqft: 'Sqft',
+  beds: 'Beds',
+  yearBuilt: 'Year Built',
+  rentToPriceRatio: 'Rent/Price %',
+  grossRentMultiplier: 'GRM',
+  pricePerUnit: 'Price/Door',
+  pricePerSqft: 'Price/Sqft',
+  cashFlowMonthly: 'Cash Flow/mo',
+  cashOnCash: 'Cash-on-Cash %',
+  capRate: 'Cap Rate %',
+  dscr: 'DSCR',
+  noiAnnual: 'NOI/yr',
+  allInCashRequired: 'Cash Required',
+  irr: 'IRR %',
+  equityMultiple: 'Equity Multiple',
+}
+
+/**
+ * Everything a buy box can check about a deal: listing facts and quick-screen
+ * ratios from the deal itself, returns from its latest analysis when there is one
+ */
+export function getBuyBoxProperty(
+  deal: Deal,
+  analysis: Pick<Analysis, 'inputs' | 'outputs' | 'holdingPeriodOutputs'> | null
+): BuyBoxProperty {
+  const values: BuyBoxProperty['values'] = {}
+  const set = (metric: BuyBoxMetric, value: number | null | undefined) => {
+    if (value !== null && value !== undefined && Number.isFinite(value)) values[metric] = value
+  }
+
+  set('purchasePrice', analysis?.inputs.purchasePrice ?? deal.purchasePrice ?? deal.listPrice)
+  set('sqft', deal.sqft)
+  set('beds', deal.beds)
+  set('yearBuilt', deal.yearBuilt)
+
+  const screening = screenDeal(deal)
+  if (screening) {
+    set('rentToPriceRatio', screening.rentToPriceRatio)
+    set('grossRentMultiplier', screening.grossRentMultiplier)
+    set('pricePerUnit', screening.pricePerUnit)
+    set('pricePerSqft', screening.pricePerSqft)
+  }
+
+  if (analysis) {
+    set('cashFlowMonthly', analysis.outputs.cashFlowMonthly)
+    set('cashOnCash', analysis.outputs.cashOnCash)
+    set('capRate', analysis.outputs.capRate)
+    set('dscr', analysis.outputs.dscr)
+    set('noiAnnual', analysis.outputs.noiAnnual)
+    set('allInCashRequired', analysis.outputs.allInCashRequired)
+    set('irr', analysis.holdingPeriodOutputs?.irr)
+    set('equityMultiple', analysis.holdingPeriodOutputs?.equityMultiple)
+  }
+
+  return { values, state: deal.state, zip: deal.zip }
+}
+
+function checkCriterion(criterion: BuyBoxCriterion, property: BuyBoxProperty): BuyBoxCheck {
+  const value = property.values[criterion.metric] ?? null
+  return {
+    metric: criterion.metric,
+    operator: criterion.operator,
+    threshold: criterion.threshold,
+    value,
+    weight: criterion.weight,
+    passes: value === null
+      ? null
+      : criterion.operator === 'min' ? value >= criterion.threshold : value <= criterion.threshold,
+  }
+}
+
+function checkLocation(buyBox: BuyBox, property: BuyBoxProperty): BuyBoxCheck {
+  const state = property.state?.trim().toUpperCase() || null
+  const zip = property.zip?.trim().slice(0, 5) || null
+  const states = buyBox.states.map((s) => s.trim().toUpperCase())
+  const zips = buyBox.zips.map((z) => z.trim())
+
+  // In any listed state or any listed zip
+  const known = (states.length > 0 && state !== null) || (zips.length > 0 && zip !== null)
+  const passes = (state !== null && states.includes(state)) || (zip !== null && zips.includes(zip))
+
+  return {
+    metric: 'location',
+    operator: 'in',
+    threshold: null,
+    value: [zip, state].filter(Boolean).join(' ') || null,
+    weight: buyBox.locationWeight,
+    passes: known ? passes : null,
+  }
+}
+
+/**
+ * Score a property against a buy box
+ * The score is the weighted share of checks that pass, out of the checks that
+ * could be made; criteria without data (e.g. IRR before an analysis) are left out
+ * and counted in unknownCount.
+ */
+export function scoreBuyBox(buyBox: BuyBox, property: BuyBoxProperty): BuyBoxScore {
+  const checks = buyBox.criteria.map((criterion) => checkCriterion(criterion, property))
+  if (buyBox.states.length > 0 || buyBox.zips.length > 0) {
+    checks.push(checkLocation(buyBox, property))
+  }
+
+  const known = checks.filter((check) => check.passes !== null && check.weight > 0)
+  const totalWeight = known.reduce((sum, check) => sum + check.weight, 0)
+  const passingWeight = known.reduce((sum, check) => sum + (check.passes ? check.weight : 0), 0)
+  const score = totalWeight > 0 ? (passingWeight / totalWeight) * 100 : null
+
+  return {
+    score,
+    passes: score !== null && score >= buyBox.passingScore,
+    checks,
+    unknownCount: checks.filter((check) => check.passes === null).length,
+  }
+}
+
+/**
+ * Score a saved deal (and its latest analysis, if any) against a buy box
+ */
+export function scoreDeal(buyBox: BuyBox, deal: Deal, analysis: Analysis | null): BuyBoxScore {
+  return scoreBuyBox(buyBox, getBuyBoxProperty(deal, analysis))
+}
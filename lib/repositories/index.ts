@@ -2,24 +2,28 @@ import { IDealRepository } from './deal-repository.interface'
 import { IAnalysisRepository } from './json-analysis-repository'
 import { IShareRepository } from './json-share-repository'
 import { IImportLogRepository } from './json-import-log-repository'
+import { IBuyBoxRepository } from './json-buy-box-repository'
 
 // JSON repositories (local file storage)
 import { JsonDealRepository } from './json-deal-repository'
 import { JsonAnalysisRepository } from './json-analysis-repository'
 import { JsonShareRepository } from './json-share-repository'
 import { JsonImportLogRepository } from './json-import-log-repository'
+import { JsonBuyBoxRepository } from './json-buy-box-repository'
 
 // Supabase repositories (PostgreSQL)
 import { SupabaseDealRepository } from './supabase-deal-repository'
 import { SupabaseAnalysisRepository } from './supabase-analysis-repository'
 import { SupabaseShareRepository } from './supabase-share-repository'
 import { SupabaseImportLogRepository } from './supabase-import-log-repository'
+import { SupabaseBuyBoxRepository } from './supabase-buy-box-repository'
 
 // Lazy-initialized repository instances
 let _dealRepository: IDealRepository | null = null
 let _analysisRepository: IAnalysisRepository | null = null
 let _shareRepository: IShareRepository | null = null
 let _importLogRepository: IImportLogRepository | null = null
+let _buyBoxRepository: IBuyBoxRepository | null = null
 
 // Check at runtime if we should use Supabase
 function shouldUseSupabase(): boolean {
@@ -59,6 +63,11 @@ export const importLogRepository: IImportLogRepository = {
   create: (...args) => getOrCreateImportLogRepo().create(...args),
 }
 
+export const buyBoxRepository: IBuyBoxRepository = {
+  findByUserId: (...args) => getOrCreateBuyBoxRepo().findByUserId(...args),
+  upsert: (...args) => getOrCreateBuyBoxRepo().upsert(...args),
+}
+
 function getOrCreateDealRepo(): IDealRepository {
   if (!_dealRepository) {
     _dealRepository = shouldUseSupabase()
@@ -95,8 +104,18 @@ function getOrCreateImportLogRepo(): IImportLogRepository {
   return _importLogRepository
 }
 
+function getOrCreateBuyBoxRepo(): IBuyBoxRepository {
+  if (!_buyBoxRepository) {
+    _buyBoxRepository = shouldUseSupabase()
+      ? new SupabaseBuyBoxRepository()
+      : new JsonBuyBoxRepository()
+  }
+  return _buyBoxRepository
+}
+
 // Re-export interfaces for type usage
 export type { IDealRepository } from './deal-repository.interface'
 export type { IAnalysisRepository } from './json-analysis-repository'
 export type { IShareRepository } from './json-share-repository'
 export type { IImportLogRepository } from './json-import-log-repository'
+export type { IBuyBoxRepository } from './json-buy-box-repository'
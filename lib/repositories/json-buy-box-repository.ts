@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { BuyBox } from '../types'
+
+const DATA_DIR = path.join(process.cwd(), 'data')
+const BUY_BOXES_FILE = path.join(DATA_DIR, 'buy-boxes.json')
+const LOCK_FILE = path.join(DATA_DIR, 'buy-boxes.lock')
+
+async function ensureDataDir() {
+  try {
+    await fs.mkdir(DATA_DIR, { recursive: true })
+  } catch (error) {}
+}
+
+async function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  await ensureDataDir()
+  let attempts = 0
+  const maxAttempts = 10
+  const retryDelay = 50
+  
+  while (attempts < maxAttempts) {
+    try {
+      await fs.writeFile(LOCK_FILE, Date.now().toString(), { flag: 'wx' })
+      try {
+        const result = await fn()
+        await fs.unlink(LOCK_FILE)
+        return result
+      } catch (error) {
+        await fs.unlink(LOCK_FILE).catch(() => {})
+        throw error
+      }
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        attempts++
+        if (attempts >= maxAttempts) throw new Error('Failed to acquire lock')
+        await new Promise(resolve => setTimeout(resolve, retryDelay))
+      } else {
+        throw error
+      }
+    }
+  }
+  throw new Error('Failed to acquire lock')
+}
+
+async function readBuyBoxes(): Promise<BuyBox[]> {
+  await ensureDataDir()
+  try {
+    const data = await fs.readFile(BUY_BOXES_FILE, 'utf-8')
+    return JSON.parse(data)
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return []
+    throw error
+  }
+}
+
+async function writeBuyBoxes(buyBoxes: BuyBox[]): Promise<void> {
+  await ensureDataDir()
+  await fs.writeFile(BUY_BOXES_FILE, JSON.stringify(buyBoxes, null, 2), 'utf-8')
+}
+
+export interface IBuyBoxRepository {
+  findByUserId(userId: string): Promise<BuyBox | null>
+  upsert(buyBox: Omit<BuyBox, 'updatedAt'>): Promise<BuyBox>
+}
+
+export class JsonBuyBoxRepository implements IBuyBoxRepository {
+  async findByUserId(userId: string): Promise<BuyBox | null> {
+    return withLock(async () => {
+      const buyBoxes = await readBuyBoxes()
+      return buyBoxes.find(b => b.userId === userId) || null
+    })
+  }
+
+  async upsert(buyBox: Omit<BuyBox, 'updatedAt'>): Promise<BuyBox> {
+    return withLock(async () => {
+      const buyBoxes = await readBuyBoxes()
+      const saved: BuyBox = {
+        ...buyBox,
+        updatedAt: new Date().toISOString(),
+      }
+      const index = buyBoxes.findIndex(b => b.userId === buyBox.userId)
+      if (index === -1) {
+        buyBoxes.push(saved)
+      } else {
+        buyBoxes[index] = saved
+      }
+      await writeBuyBoxes(buyBoxes)
+      return saved
+    })
+  }
+}
+
+export const buyBoxRepository = new JsonBuyBoxRepository()
@@ -11,8 +11,11 @@ function fromDbAnalysis(row: Record<string, any>): Analysis {
     inputs: row.inputs,
     outputs: row.outputs,
     holdingPeriodOutputs: row.holding_period_outputs,
+    monteCarloOutputs: row.monte_carlo_outputs ?? undefined,
     assumptionsSnapshot: row.assumptions_snapshot || {},
     version: row.version || 'v1',
+    scenarioId: row.scenario_id,
+    buyBoxScore: row.buy_box_score,
   }
 }
 
@@ -40,8 +43,11 @@ export class SupabaseAnalysisRepository implements IAnalysisRepository {
         inputs: analysis.inputs,
         outputs: analysis.outputs,
         holding_period_outputs: analysis.holdingPeriodOutputs,
+        monte_carlo_outputs: analysis.monteCarloOutputs ?? null,
         assumptions_snapshot: analysis.assumptionsSnapshot,
         version: analysis.version,
+        scenario_id: analysis.scenarioId ?? null,
+        buy_box_score: analysis.buyBoxScore ?? null,
       })
       .select()
       .single()
@@ -0,0 +1,58 @@
+import { createClient } from '@/lib/supabase/server'
+import { BuyBox } from '../types'
+import { IBuyBoxRepository } from './json-buy-box-repository'
+
+function fromDbBuyBox(row: Record<string, any>): BuyBox {
+  return {
+    userId: row.user_id,
+    criteria: row.criteria || [],
+    states: row.states || [],
+    zips: row.zips || [],
+    locationWeight: Number(row.location_weight),
+    passingScore: Number(row.passing_score),
+    updatedAt: row.updated_at,
+  }
+}
+
+export class SupabaseBuyBoxRepository implements IBuyBoxRepository {
+  async findByUserId(userId: string): Promise<BuyBox | null> {
+    return this.findByUserIdWithClient(createClient(), userId)
+  }
+
+  /** Find buy box using the given Supabase client (e.g. admin to bypass RLS when auth is Bearer token). */
+  async findByUserIdWithClient(supabase: ReturnType<typeof createClient>, userId: string): Promise<BuyBox | null> {
+    const { data, error } = await supabase
+      .from('buy_boxes')
+      .select('*')
+      .eq('user_id', userId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      throw error
+    }
+    return data ? fromDbBuyBox(data) : null
+  }
+
+  async upsert(buyBox: Omit<BuyBox, 'updatedAt'>): Promise<BuyBox> {
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from('buy_boxes')
+      .upsert({
+        user_id: buyBox.userId,
+        criteria: buyBox.criteria,
+        states: buyBox.states,
+        zips: buyBox.zips,
+        location_weight: buyBox.locationWeight,
+        passing_score: buyBox.passingScore,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return fromDbBuyBox(data)
+  }
+}
+
+export const supabaseBuyBoxRepository = new SupabaseBuyBoxRepository()
@@ -20,12 +20,34 @@ export function toDbDeal(deal: Partial<Deal>): Record<string, any> {
     purchaseType: 'purchase_type',
     purchasePrice: 'purchase_price',
     closingCostRate: 'closing_cost_rate',
+    closingCostItems: 'closing_cost_items',
+    sellerConcessions: 'seller_concessions',
+    lenderCredits: 'lender_credits',
     rehabCost: 'rehab_cost',
+    rehabMonths: 'rehab_months',
+    rehabHoldingCostsMonthly: 'rehab_holding_costs_monthly',
+    leaseUpMonths: 'lease_up_months',
+    bridgeLoanAmount: 'bridge_loan_amount',
+    bridgeLoanRate: 'bridge_loan_rate',
+    bridgeLoanPoints: 'bridge_loan_points',
+    bridgeInterestReserveMonths: 'bridge_interest_reserve_months',
     downPaymentPct: 'down_payment_pct',
     interestRate: 'interest_rate',
     termYears: 'term_years',
     pmiEnabled: 'pmi_enabled',
     pmiMonthly: 'pmi_monthly',
+    loanProgram: 'loan_program',
+    creditTier: 'credit_tier',
+    vaSubsequentUse: 'va_subsequent_use',
+    vaFundingFeeExempt: 'va_funding_fee_exempt',
+    loanType: 'loan_type',
+    interestOnlyYears: 'interest_only_years',
+    armFixedYears: 'arm_fixed_years',
+    armAdjustedRate: 'arm_adjusted_rate',
+    armPeriodicCap: 'arm_periodic_cap',
+    armLifetimeCap: 'arm_lifetime_cap',
+    balloonYears: 'balloon_years',
+    financingTranches: 'financing_tranches',
     insuranceAnnual: 'insurance_annual',
     utilitiesMonthly: 'utilities_monthly',
     rentMonthly: 'rent_monthly',
@@ -33,15 +55,78 @@ export function toDbDeal(deal: Partial<Deal>): Record<string, any> {
     numberOfUnits: 'number_of_units',
     rentPerUnit: 'rent_per_unit',
     vacancyRatePerUnit: 'vacancy_rate_per_unit',
+    ownerUnitMarketRent: 'owner_unit_market_rent',
+    moveOutYear: 'move_out_year',
+    rentRoll: 'rent_roll',
+    rentalStrategy: 'rental_strategy',
+    strAverageDailyRate: 'str_average_daily_rate',
+    strMonthlyOccupancy: 'str_monthly_occupancy',
+    strAverageStayNights: 'str_average_stay_nights',
+    strCleaningFeePerStay: 'str_cleaning_fee_per_stay',
+    strPlatformFeeRate: 'str_platform_fee_rate',
+    strSuppliesMonthly: 'str_supplies_monthly',
+    strFurnishingCost: 'str_furnishing_cost',
+    strManagementRate: 'str_management_rate',
     vacancyRate: 'vacancy_rate',
     maintenanceRate: 'maintenance_rate',
     capexRate: 'capex_rate',
+    capexSchedule: 'capex_schedule',
+    capexReserveMonthly: 'capex_reserve_monthly',
     managementRate: 'management_rate',
     holdingPeriodYears: 'holding_period_years',
     appreciationRate: 'appreciation_rate',
     rentGrowthRate: 'rent_growth_rate',
     expenseGrowthRate: 'expense_growth_rate',
     sellingCostRate: 'selling_cost_rate',
+    discountRate: 'discount_rate',
+    mirrFinanceRate: 'mirr_finance_rate',
+    mirrReinvestmentRate: 'mirr_reinvestment_rate',
+    closingDate: 'closing_date',
+    renterInvestmentReturn: 'renter_investment_return',
+    exitValuationMethod: 'exit_valuation_method',
+    exitCapRate: 'exit_cap_rate',
+    exitCapRateExpansion: 'exit_cap_rate_expansion',
+    exitGrossRentMultiplier: 'exit_gross_rent_multiplier',
+    afterRepairValue: 'after_repair_value',
+    flipMonthsToSell: 'flip_months_to_sell',
+    flipLoanPointsPct: 'flip_loan_points_pct',
+    valueAddEnabled: 'value_add_enabled',
+    stabilizedRentMonthly: 'stabilized_rent_monthly',
+    stabilizationMonth: 'stabilization_month',
+    refinanceEnabled: 'refinance_enabled',
+    refinanceMonth: 'refinance_month',
+    refinanceAppraisedValue: 'refinance_appraised_value',
+    refinanceLtv: 'refinance_ltv',
+    refinanceInterestRate: 'refinance_interest_rate',
+    refinanceTermYears: 'refinance_term_years',
+    refinanceClosingCostRate: 'refinance_closing_cost_rate',
+    monteCarloEnabled: 'monte_carlo_enabled',
+    monteCarloTrials: 'monte_carlo_trials',
+    monteCarloSeed: 'monte_carlo_seed',
+    appreciationVolatility: 'appreciation_volatility',
+    rentGrowthVolatility: 'rent_growth_volatility',
+    expenseGrowthVolatility: 'expense_growth_volatility',
+    vacancyVolatility: 'vacancy_volatility',
+    taxAnalysisEnabled: 'tax_analysis_enabled',
+    marginalTaxRate: 'marginal_tax_rate',
+    capitalGainsRate: 'capital_gains_rate',
+    landValuePct: 'land_value_pct',
+    depreciationYears: 'depreciation_years',
+    costSegregationPct: 'cost_segregation_pct',
+    bonusDepreciationPct: 'bonus_depreciation_pct',
+    partnershipEnabled: 'partnership_enabled',
+    lpEquityPct: 'lp_equity_pct',
+    preferredReturn: 'preferred_return',
+    promoteTiers: 'promote_tiers',
+    acquisitionFeePct: 'acquisition_fee_pct',
+    assetManagementFeePct: 'asset_management_fee_pct',
+    targetCashOnCash: 'target_cash_on_cash',
+    targetDscr: 'target_dscr',
+    targetCashFlowMonthly: 'target_cash_flow_monthly',
+    targetCapRate: 'target_cap_rate',
+    targetIrr: 'target_irr',
+    loanOffers: 'loan_offers',
+    scenarios: 'scenarios',
     createdAt: 'created_at',
     updatedAt: 'updated_at',
   }
@@ -86,12 +171,34 @@ export function fromDbDeal(row: Record<string, any> | null | undefined): Deal {
     purchaseType: row.purchase_type,
     purchasePrice: row.purchase_price,
     closingCostRate: row.closing_cost_rate,
+    closingCostItems: row.closing_cost_items || [],
+    sellerConcessions: row.seller_concessions,
+    lenderCredits: row.lender_credits,
     rehabCost: row.rehab_cost,
+    rehabMonths: row.rehab_months,
+    rehabHoldingCostsMonthly: row.rehab_holding_costs_monthly,
+    leaseUpMonths: row.lease_up_months,
+    bridgeLoanAmount: row.bridge_loan_amount,
+    bridgeLoanRate: row.bridge_loan_rate,
+    bridgeLoanPoints: row.bridge_loan_points,
+    bridgeInterestReserveMonths: row.bridge_interest_reserve_months,
     downPaymentPct: row.down_payment_pct,
     interestRate: row.interest_rate,
     termYears: row.term_years,
     pmiEnabled: row.pmi_enabled ?? false,
     pmiMonthly: row.pmi_monthly,
+    loanProgram: row.loan_program,
+    creditTier: row.credit_tier,
+    vaSubsequentUse: row.va_subsequent_use ?? false,
+    vaFundingFeeExempt: row.va_funding_fee_exempt ?? false,
+    loanType: row.loan_type,
+    interestOnlyYears: row.interest_only_years,
+    armFixedYears: row.arm_fixed_years,
+    armAdjustedRate: row.arm_adjusted_rate,
+    armPeriodicCap: row.arm_periodic_cap,
+    armLifetimeCap: row.arm_lifetime_cap,
+    balloonYears: row.balloon_years,
+    financingTranches: row.financing_tranches || [],
     insuranceAnnual: row.insurance_annual,
     utilitiesMonthly: row.utilities_monthly,
     rentMonthly: row.rent_monthly,
@@ -99,15 +206,78 @@ export function fromDbDeal(row: Record<string, any> | null | undefined): Deal {
     numberOfUnits: row.number_of_units,
     rentPerUnit: row.rent_per_unit,
     vacancyRatePerUnit: row.vacancy_rate_per_unit,
+    ownerUnitMarketRent: row.owner_unit_market_rent,
+    moveOutYear: row.move_out_year,
+    rentRoll: row.rent_roll || [],
+    rentalStrategy: row.rental_strategy,
+    strAverageDailyRate: row.str_average_daily_rate,
+    strMonthlyOccupancy: row.str_monthly_occupancy || [],
+    strAverageStayNights: row.str_average_stay_nights,
+    strCleaningFeePerStay: row.str_cleaning_fee_per_stay,
+    strPlatformFeeRate: row.str_platform_fee_rate,
+    strSuppliesMonthly: row.str_supplies_monthly,
+    strFurnishingCost: row.str_furnishing_cost,
+    strManagementRate: row.str_management_rate,
     vacancyRate: row.vacancy_rate,
     maintenanceRate: row.maintenance_rate,
     capexRate: row.capex_rate,
+    capexSchedule: row.capex_schedule || [],
+    capexReserveMonthly: row.capex_reserve_monthly,
     managementRate: row.management_rate,
     holdingPeriodYears: row.holding_period_years,
     appreciationRate: row.appreciation_rate,
     rentGrowthRate: row.rent_growth_rate,
     expenseGrowthRate: row.expense_growth_rate,
     sellingCostRate: row.selling_cost_rate,
+    discountRate: row.discount_rate,
+    mirrFinanceRate: row.mirr_finance_rate,
+    mirrReinvestmentRate: row.mirr_reinvestment_rate,
+    closingDate: row.closing_date,
+    renterInvestmentReturn: row.renter_investment_return,
+    exitValuationMethod: row.exit_valuation_method,
+    exitCapRate: row.exit_cap_rate,
+    exitCapRateExpansion: row.exit_cap_rate_expansion,
+    exitGrossRentMultiplier: row.exit_gross_rent_multiplier,
+    afterRepairValue: row.after_repair_value,
+    flipMonthsToSell: row.flip_months_to_sell,
+    flipLoanPointsPct: row.flip_loan_points_pct,
+    valueAddEnabled: row.value_add_enabled ?? false,
+    stabilizedRentMonthly: row.stabilized_rent_monthly,
+    stabilizationMonth: row.stabilization_month,
+    refinanceEnabled: row.refinance_enabled ?? false,
+    refinanceMonth: row.refinance_month,
+    refinanceAppraisedValue: row.refinance_appraised_value,
+    refinanceLtv: row.refinance_ltv,
+    refinanceInterestRate: row.refinance_interest_rate,
+    refinanceTermYears: row.refinance_term_years,
+    refinanceClosingCostRate: row.refinance_closing_cost_rate,
+    monteCarloEnabled: row.monte_carlo_enabled ?? false,
+    monteCarloTrials: row.monte_carlo_trials,
+    monteCarloSeed: row.monte_carlo_seed,
+    appreciationVolatility: row.appreciation_volatility,
+    rentGrowthVolatility: row.rent_growth_volatility,
+    expenseGrowthVolatility: row.expense_growth_volatility,
+    vacancyVolatility: row.vacancy_volatility,
+    taxAnalysisEnabled: row.tax_analysis_enabled ?? false,
+    marginalTaxRate: row.marginal_tax_rate,
+    capitalGainsRate: row.capital_gains_rate,
+    landValuePct: row.land_value_pct,
+    depreciationYears: row.depreciation_years,
+    costSegregationPct: row.cost_segregation_pct,
+    bonusDepreciationPct: row.bonus_depreciation_pct,
+    partnershipEnabled: row.partnership_enabled ?? false,
+    lpEquityPct: row.lp_equity_pct,
+    preferredReturn: row.preferred_return,
+    promoteTiers: row.promote_tiers || [],
+    acquisitionFeePct: row.acquisition_fee_pct,
+    assetManagementFeePct: row.asset_management_fee_pct,
+    targetCashOnCash: row.target_cash_on_cash,
+    targetDscr: row.target_dscr,
+    targetCashFlowMonthly: row.target_cash_flow_monthly,
+    targetCapRate: row.target_cap_rate,
+    targetIrr: row.target_irr,
+    loanOffers: row.loan_offers || [],
+    scenarios: row.scenarios || [],
     notes: row.notes,
   }
 }
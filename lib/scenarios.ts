@@ -0,0 +1,60 @@
+import { Analysis, Deal, DealScenario, ScenarioAnalysis } from './types'
+
+export const BASE_SCENARIO_NAME = 'Base'
+
+/**
+ * Deal fields as seen by a scenario (the deal itself for the base scenario)
+ */
+export function applyScenario(deal: Deal, scenario: DealScenario | null | undefined): Deal {
+  if (!scenario) return deal
+  return { ...deal, ...scenario.overrides }
+}
+
+/**
+ * Find a scenario by id; null for the base scenario or an unknown id
+ */
+export function findScenario(deal: Deal, scenarioId: string | null | undefined): DealScenario | null {
+  if (!scenarioId) return null
+  return (deal.scenarios || []).find((scenario) => scenario.id === scenarioId) || null
+}
+
+/**
+ * Id of the primary scenario; null when the base scenario is primary
+ */
+export function getPrimaryScenarioId(deal: Deal): string | null {
+  return (deal.scenarios || []).find((scenario) => scenario.isPrimary)?.id ?? null
+}
+
+/**
+ * Latest analysis of one scenario (analyses without a scenario belong to the base)
+ */
+export function findLatestAnalysis(analyses: Analysis[], scenarioId: string | null): Analysis | null {
+  return analyses
+    .filter((analysis) => (analysis.scenarioId ?? null) === scenarioId)
+    .reduce<Analysis | null>(
+      (latest, analysis) =>
+        !latest || new Date(analysis.createdAt).getTime() > new Date(latest.createdAt).getTime() ? analysis : latest,
+      null
+    )
+}
+
+/**
+ * Base scenario followed by each named scenario, with its latest analysis
+ */
+export function listScenarioAnalyses(deal: Deal, analyses: Analysis[]): ScenarioAnalysis[] {
+  const primaryScenarioId = getPrimaryScenarioId(deal)
+  return [
+    {
+      scenarioId: null,
+      name: BASE_SCENARIO_NAME,
+      isPrimary: primaryScenarioId === null,
+      analysis: findLatestAnalysis(analyses, null),
+    },
+    ...(deal.scenarios || []).map((scenario) => ({
+      scenarioId: scenario.id,
+      name: scenario.name,
+      isPrimary: scenario.isPrimary,
+      analysis: findLatestAnalysis(analyses, scenario.id),
+    })),
+  ]
+}
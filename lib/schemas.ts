@@ -20,7 +20,7 @@ export const extensionImportSchema = z.object({
   missingFields: z.array(z.string()),
   fieldConfidences: z.record(z.string(), z.number().min(0).max(1)).optional().default({}),
   extractorVersion: z.enum(['structured_v1', 'semantic_v1', 'regex_v1', 'sidebar_v1']),
-  purchaseType: z.enum(['primary_residence', 'investment_property', 'house_hack', 'vacation_home', 'other']),
+  purchaseType: z.enum(['primary_residence', 'investment_property', 'house_hack', 'flip', 'vacation_home', 'other']),
   downPaymentPct: z.number().min(0).max(100),
 })
 
@@ -35,7 +35,55 @@ export const createDealSchema = z.object({
   termYears: z.number().int().min(1).max(50).optional(),
 })
 
-export const updateDealSchema = z.object({
+export const financingTrancheSchema = z.object({
+  type: z.enum(['first_mortgage', 'assumed_loan', 'second_mortgage', 'seller_carry', 'heloc']),
+  amount: z.number().positive(),
+  interestRate: z.number().min(0).max(100),
+  termYears: z.number().int().min(1).max(50),
+  amortizationYears: z.number().int().min(0).max(50),
+})
+
+export const rentRollUnitSchema = z.object({
+  label: z.string().max(50),
+  beds: z.number().min(0).nullable(),
+  baths: z.number().min(0).nullable(),
+  currentRent: z.number().min(0),
+  marketRent: z.number().min(0),
+  leaseEndDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  status: z.enum(['occupied', 'vacant', 'owner_occupied']),
+})
+
+export const closingCostItemSchema = z.object({
+  category: z.enum(['origination', 'points', 'appraisal', 'title', 'escrow', 'transfer_tax', 'other']),
+  label: z.string().max(50),
+  amount: z.number().min(0),
+})
+
+export const loanOfferSchema = z.object({
+  label: z.string().max(50),
+  interestRate: z.number().min(0).max(100),
+  pointsPct: z.number().min(0).max(10),
+  lenderCredit: z.number().min(0),
+  buydown: z.enum(['none', '2-1', '1-0']),
+  buydownPaidBy: z.enum(['buyer', 'seller']),
+  downPaymentPct: z.number().min(0).max(100).optional(),
+  termYears: z.number().int().min(1).max(50).optional(),
+})
+
+export const capexItemSchema = z.object({
+  component: z.string().max(50),
+  cost: z.number().min(0),
+  remainingLifeYears: z.number().int().min(0).max(50),
+  inflationRate: z.number().min(-10).max(20),
+})
+
+export const promoteTierSchema = z.object({
+  irrHurdle: z.number().min(0).max(100),
+  promotePct: z.number().min(0).max(100),
+})
+
+// Editable deal fields; a scenario can override any of them
+const dealFieldsSchema = z.object({
   zillowUrl: z.string().url().nullable().optional(),
   address: z.string().nullable().optional(),
   city: z.string().nullable().optional(),
@@ -49,15 +97,37 @@ export const updateDealSchema = z.object({
   listPrice: z.number().positive().nullable().optional(),
   hoaMonthly: z.number().min(0).nullable().optional(),
   taxesAnnual: z.number().min(0).nullable().optional(),
-  purchaseType: z.enum(['primary_residence', 'investment_property', 'house_hack', 'vacation_home', 'other']).nullable().optional(),
+  purchaseType: z.enum(['primary_residence', 'investment_property', 'house_hack', 'flip', 'vacation_home', 'other']).nullable().optional(),
   purchasePrice: z.number().positive().nullable().optional(),
   closingCostRate: z.number().min(0).max(100).nullable().optional(),
+  closingCostItems: z.array(closingCostItemSchema).max(30).optional(),
+  sellerConcessions: z.number().min(0).nullable().optional(),
+  lenderCredits: z.number().min(0).nullable().optional(),
   rehabCost: z.number().min(0).nullable().optional(),
+  rehabMonths: z.number().int().min(0).max(36).nullable().optional(),
+  rehabHoldingCostsMonthly: z.number().min(0).nullable().optional(),
+  leaseUpMonths: z.number().int().min(0).max(24).nullable().optional(),
+  bridgeLoanAmount: z.number().min(0).nullable().optional(),
+  bridgeLoanRate: z.number().min(0).max(100).nullable().optional(),
+  bridgeLoanPoints: z.number().min(0).max(20).nullable().optional(),
+  bridgeInterestReserveMonths: z.number().int().min(0).max(36).nullable().optional(),
   downPaymentPct: z.number().min(0).max(100).nullable().optional(),
   interestRate: z.number().min(0).max(100).nullable().optional(),
   termYears: z.number().int().min(1).max(50).nullable().optional(),
   pmiEnabled: z.boolean().optional(),
   pmiMonthly: z.number().min(0).nullable().optional(),
+  loanProgram: z.enum(['conventional', 'fha', 'va']).nullable().optional(),
+  creditTier: z.enum(['excellent', 'good', 'fair', 'poor']).nullable().optional(),
+  vaSubsequentUse: z.boolean().optional(),
+  vaFundingFeeExempt: z.boolean().optional(),
+  loanType: z.enum(['fixed', 'arm', 'interest_only', 'balloon']).nullable().optional(),
+  interestOnlyYears: z.number().int().min(0).max(30).nullable().optional(),
+  armFixedYears: z.number().int().min(1).max(30).nullable().optional(),
+  armAdjustedRate: z.number().min(0).max(100).nullable().optional(),
+  armPeriodicCap: z.number().min(0).max(100).nullable().optional(),
+  armLifetimeCap: z.number().min(0).max(100).nullable().optional(),
+  balloonYears: z.number().int().min(1).max(50).nullable().optional(),
+  financingTranches: z.array(financingTrancheSchema).optional(),
   insuranceAnnual: z.number().min(0).nullable().optional(),
   utilitiesMonthly: z.number().min(0).nullable().optional(),
   rentMonthly: z.number().min(0).nullable().optional(),
@@ -66,27 +136,173 @@ export const updateDealSchema = z.object({
   maintenanceRate: z.number().min(0).max(100).nullable().optional(),
   capexRate: z.number().min(0).max(100).nullable().optional(),
   managementRate: z.number().min(0).max(100).nullable().optional(),
+  capexSchedule: z.array(capexItemSchema).max(30).optional(),
+  capexReserveMonthly: z.number().min(0).nullable().optional(),
   numberOfUnits: z.number().int().min(1).max(20).nullable().optional(),
   rentPerUnit: z.number().min(0).nullable().optional(),
   vacancyRatePerUnit: z.number().min(0).max(100).nullable().optional(),
+  // House hack inputs
+  ownerUnitMarketRent: z.number().min(0).nullable().optional(),
+  moveOutYear: z.number().int().min(2).max(30).nullable().optional(),
+  rentRoll: z.array(rentRollUnitSchema).max(20).optional(),
+  // Short-term rental inputs
+  rentalStrategy: z.enum(['long_term', 'short_term']).nullable().optional(),
+  strAverageDailyRate: z.number().min(0).nullable().optional(),
+  strMonthlyOccupancy: z.array(z.number().min(0).max(100)).max(12).optional(),
+  strAverageStayNights: z.number().min(1).nullable().optional(),
+  strCleaningFeePerStay: z.number().min(0).nullable().optional(),
+  strPlatformFeeRate: z.number().min(0).max(100).nullable().optional(),
+  strSuppliesMonthly: z.number().min(0).nullable().optional(),
+  strFurnishingCost: z.number().min(0).nullable().optional(),
+  strManagementRate: z.number().min(0).max(100).nullable().optional(),
   // Holding period projection inputs
   holdingPeriodYears: z.number().int().min(1).max(30).nullable().optional(),
   appreciationRate: z.number().min(-20).max(20).nullable().optional(),
   rentGrowthRate: z.number().min(-10).max(20).nullable().optional(),
   expenseGrowthRate: z.number().min(-10).max(20).nullable().optional(),
   sellingCostRate: z.number().min(0).max(20).nullable().optional(),
+  discountRate: z.number().min(0).max(50).nullable().optional(),
+  mirrFinanceRate: z.number().min(0).max(50).nullable().optional(),
+  mirrReinvestmentRate: z.number().min(0).max(50).nullable().optional(),
+  closingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  renterInvestmentReturn: z.number().min(-20).max(30).nullable().optional(),
+  exitValuationMethod: z.enum(['appreciation', 'cap_rate', 'grm']).nullable().optional(),
+  exitCapRate: z.number().min(0.1).max(30).nullable().optional(),
+  exitCapRateExpansion: z.number().min(-5).max(5).nullable().optional(),
+  exitGrossRentMultiplier: z.number().min(0.1).max(50).nullable().optional(),
+  // Fix-and-flip inputs
+  afterRepairValue: z.number().min(0).nullable().optional(),
+  flipMonthsToSell: z.number().int().min(0).max(24).nullable().optional(),
+  flipLoanPointsPct: z.number().min(0).max(10).nullable().optional(),
+  // Value-add inputs (ARV is afterRepairValue above)
+  valueAddEnabled: z.boolean().optional(),
+  stabilizedRentMonthly: z.number().min(0).nullable().optional(),
+  stabilizationMonth: z.number().int().min(1).max(60).nullable().optional(),
+  // Cash-out refinance (BRRRR) inputs
+  refinanceEnabled: z.boolean().optional(),
+  refinanceMonth: z.number().int().min(1).max(360).nullable().optional(),
+  refinanceAppraisedValue: z.number().positive().nullable().optional(),
+  refinanceLtv: z.number().min(0).max(100).nullable().optional(),
+  refinanceInterestRate: z.number().min(0).max(100).nullable().optional(),
+  refinanceTermYears: z.number().int().min(1).max(50).nullable().optional(),
+  refinanceClosingCostRate: z.number().min(0).max(20).nullable().optional(),
+  // Monte Carlo simulation inputs
+  monteCarloEnabled: z.boolean().optional(),
+  monteCarloTrials: z.number().int().min(100).max(5000).nullable().optional(),
+  monteCarloSeed: z.number().int().min(0).nullable().optional(),
+  appreciationVolatility: z.number().min(0).max(20).nullable().optional(),
+  rentGrowthVolatility: z.number().min(0).max(20).nullable().optional(),
+  expenseGrowthVolatility: z.number().min(0).max(20).nullable().optional(),
+  vacancyVolatility: z.number().min(0).max(50).nullable().optional(),
+  // After-tax analysis inputs
+  taxAnalysisEnabled: z.boolean().optional(),
+  marginalTaxRate: z.number().min(0).max(60).nullable().optional(),
+  capitalGainsRate: z.number().min(0).max(40).nullable().optional(),
+  landValuePct: z.number().min(0).max(100).nullable().optional(),
+  depreciationYears: z.number().min(1).max(50).nullable().optional(),
+  costSegregationPct: z.number().min(0).max(100).nullable().optional(),
+  bonusDepreciationPct: z.number().min(0).max(100).nullable().optional(),
+  // Partnership waterfall inputs
+  partnershipEnabled: z.boolean().optional(),
+  lpEquityPct: z.number().min(0).max(100).nullable().optional(),
+  preferredReturn: z.number().min(0).max(50).nullable().optional(),
+  promoteTiers: z.array(promoteTierSchema).max(5).optional(),
+  acquisitionFeePct: z.number().min(0).max(10).nullable().optional(),
+  assetManagementFeePct: z.number().min(0).max(10).nullable().optional(),
+  // Max offer targets
+  targetCashOnCash: z.number().min(-100).max(100).nullable().optional(),
+  targetDscr: z.number().min(0).max(10).nullable().optional(),
+  targetCashFlowMonthly: z.number().nullable().optional(),
+  targetCapRate: z.number().min(0).max(100).nullable().optional(),
+  targetIrr: z.number().min(-100).max(100).nullable().optional(),
+  loanOffers: z.array(loanOfferSchema).max(6).optional(),
   notes: z.string().nullable().optional(),
 })
 
+export const dealScenarioSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().min(1).max(50),
+  overrides: dealFieldsSchema,
+  isPrimary: z.boolean(),
+})
+
+export const updateDealSchema = dealFieldsSchema.extend({
+  scenarios: z.array(dealScenarioSchema).max(10).refine(
+    (scenarios) => scenarios.filter((scenario) => scenario.isPrimary).length <= 1,
+    { message: 'Only one scenario can be primary' }
+  ).optional(),
+})
+
 export const analyzeDealSchema = z.object({
   purchasePrice: z.number().positive(),
   closingCostRate: z.number().min(0).max(100),
+  closingCostItems: z.array(closingCostItemSchema).max(30).optional(),
+  sellerConcessions: z.number().min(0).optional(),
+  lenderCredits: z.number().min(0).optional(),
   rehabCost: z.number().min(0),
   downPaymentPct: z.number().min(0).max(100),
   interestRate: z.number().min(0).max(100),
   termYears: z.number().int().min(1).max(50),
   pmiEnabled: z.boolean(),
   pmiMonthly: z.number().min(0),
+  loanProgram: z.enum(['conventional', 'fha', 'va']).optional(),
+  creditTier: z.enum(['excellent', 'good', 'fair', 'poor']).optional(),
+  vaSubsequentUse: z.boolean().optional(),
+  vaFundingFeeExempt: z.boolean().optional(),
+  // Loan structure (defaults to fixed-rate, fully amortizing)
+  loanType: z.enum(['fixed', 'arm', 'interest_only', 'balloon']).optional(),
+  interestOnlyYears: z.number().int().min(0).max(30).optional(),
+  armFixedYears: z.number().int().min(1).max(30).optional(),
+  armAdjustedRate: z.number().min(0).max(100).optional(),
+  armPeriodicCap: z.number().min(0).max(100).optional(),
+  armLifetimeCap: z.number().min(0).max(100).optional(),
+  balloonYears: z.number().int().min(1).max(50).optional(),
+  // Financing stack (replaces the single loan when non-empty)
+  financingTranches: z.array(financingTrancheSchema).optional(),
+  // Short-term rental (replaces rentMonthly and vacancyRate when selected)
+  rentalStrategy: z.enum(['long_term', 'short_term']).optional(),
+  shortTermRental: z.object({
+    averageDailyRate: z.number().min(0),
+    monthlyOccupancy: z.array(z.number().min(0).max(100)).length(12),
+    averageStayNights: z.number().min(1),
+    cleaningFeePerStay: z.number().min(0),
+    platformFeeRate: z.number().min(0).max(100),
+    suppliesMonthly: z.number().min(0),
+    furnishingCost: z.number().min(0),
+    managementRate: z.number().min(0).max(100),
+  }).optional(),
+  houseHack: z.object({
+    totalUnits: z.number().int().min(2).max(20),
+    ownerUnitMarketRent: z.number().min(0),
+    moveOutYear: z.number().int().min(2).max(30).optional(),
+  }).optional(),
+  rentRoll: z.array(rentRollUnitSchema).max(20).optional(),
+  rehabPeriod: z.object({
+    rehabMonths: z.number().int().min(0).max(36),
+    holdingCostsMonthly: z.number().min(0),
+    leaseUpMonths: z.number().int().min(0).max(24),
+    bridgeLoan: z.object({
+      amount: z.number().min(0),
+      interestRate: z.number().min(0).max(100),
+      pointsPct: z.number().min(0).max(20),
+      interestReserveMonths: z.number().int().min(0).max(36),
+    }).optional(),
+  }).optional(),
+  // Fix-and-flip (replaces the long hold)
+  flip: z.object({
+    afterRepairValue: z.number().positive(),
+    rehabMonths: z.number().int().min(0).max(36),
+    monthsToSell: z.number().int().min(0).max(24),
+    holdingCostsMonthly: z.number().min(0),
+    loanPointsPct: z.number().min(0).max(10),
+    sellingCostRate: z.number().min(0).max(20),
+  }).optional(),
+  // Value-add (forced appreciation at stabilization)
+  valueAdd: z.object({
+    afterRepairValue: z.number().positive(),
+    stabilizedRentMonthly: z.number().min(0),
+    stabilizationMonth: z.number().int().min(1).max(60),
+  }).optional(),
   taxesAnnual: z.number().min(0),
   insuranceAnnual: z.number().min(0),
   hoaMonthly: z.number().min(0),
@@ -97,10 +313,144 @@ export const analyzeDealSchema = z.object({
   maintenanceRate: z.number().min(0).max(100),
   capexRate: z.number().min(0).max(100),
   managementRate: z.number().min(0).max(100),
+  capexSchedule: z.array(capexItemSchema).max(30).optional(),
+  capexReserveMonthly: z.number().min(0).optional(),
   // Holding period projection inputs
   holdingPeriodYears: z.number().int().min(1).max(30).optional(),
   appreciationRate: z.number().min(-20).max(20).optional(),
   rentGrowthRate: z.number().min(-10).max(20).optional(),
   expenseGrowthRate: z.number().min(-10).max(20).optional(),
   sellingCostRate: z.number().min(0).max(20).optional(),
+  renterInvestmentReturn: z.number().min(-20).max(30).optional(),
+  // How the sale price is set at the end of the hold (default: appreciation)
+  exitValuation: z.object({
+    method: z.enum(['appreciation', 'cap_rate', 'grm']),
+    exitCapRate: z.number().min(0.1).max(30).optional(),
+    capRateExpansion: z.number().min(-5).max(5).optional(),
+    grossRentMultiplier: z.number().min(0.1).max(50).optional(),
+  }).refine(
+    (exit) => exit.method !== 'grm' || exit.grossRentMultiplier !== undefined,
+    { message: 'A gross rent multiplier is required', path: ['grossRentMultiplier'] }
+  ).optional(),
+  // NPV/MIRR rates and the closing date that dates the XIRR cash flows
+  returnMetrics: z.object({
+    discountRate: z.number().min(0).max(50).optional(),
+    financeRate: z.number().min(0).max(50).optional(),
+    reinvestmentRate: z.number().min(0).max(50).optional(),
+    closingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  }).optional(),
+  // Cash-out refinance event within the holding period
+  refinance: z.object({
+    month: z.number().int().min(1).max(360),
+    appraisedValue: z.number().positive(),
+    ltv: z.number().min(0).max(100),
+    interestRate: z.number().min(0).max(100),
+    termYears: z.number().int().min(1).max(50),
+    closingCostRate: z.number().min(0).max(20),
+  }).optional(),
+  // Monte Carlo simulation (means default to the holding period rates)
+  monteCarlo: z.object({
+    trials: z.number().int().min(100).max(5000),
+    seed: z.number().int().min(0),
+    appreciationVolatility: z.number().min(0).max(20),
+    rentGrowthVolatility: z.number().min(0).max(20),
+    expenseGrowthVolatility: z.number().min(0).max(20),
+    vacancyVolatility: z.number().min(0).max(50),
+  }).optional(),
+  // After-tax analysis
+  tax: z.object({
+    marginalTaxRate: z.number().min(0).max(60),
+    capitalGainsRate: z.number().min(0).max(40),
+    landValuePct: z.number().min(0).max(100),
+    depreciationYears: z.number().min(1).max(50),
+    costSegregationPct: z.number().min(0).max(100).optional(),
+    bonusDepreciationPct: z.number().min(0).max(100).optional(),
+  }).optional(),
+  // Partnership waterfall
+  partnership: z.object({
+    lpEquityPct: z.number().min(0).max(100),
+    preferredReturn: z.number().min(0).max(50),
+    promoteTiers: z.array(promoteTierSchema).max(5),
+    acquisitionFeePct: z.number().min(0).max(10),
+    assetManagementFeePct: z.number().min(0).max(10),
+  }).optional(),
+  // Scenario the inputs come from (omitted for the base scenario)
+  scenarioId: z.string().max(50).nullable().optional(),
+})
+
+export const maxOfferSchema = analyzeDealSchema.extend({
+  targets: z.object({
+    minCashOnCash: z.number().min(-100).max(100).optional(),
+    minDscr: z.number().min(0).max(10).optional(),
+    minCashFlowMonthly: z.number().optional(),
+    minCapRate: z.number().min(0).max(100).optional(),
+    minIrr: z.number().min(-100).max(100).optional(),
+  }).refine(
+    (targets) => Object.values(targets).some((value) => value !== undefined),
+    { message: 'At least one target is required' }
+  ),
+}).refine(
+  (data) => data.targets.minIrr === undefined || data.holdingPeriodYears !== undefined,
+  { message: 'An IRR target requires holding period assumptions', path: ['targets', 'minIrr'] }
+)
+
+export const loanComparisonSchema = analyzeDealSchema.extend({
+  offers: z.array(loanOfferSchema).min(1).max(6),
+})
+
+const sensitivityVariableSchema = z.enum([
+  'purchasePrice', 'downPaymentPct', 'interestRate', 'rehabCost', 'rentMonthly', 'vacancyRate',
+  'taxesAnnual', 'insuranceAnnual', 'maintenanceRate', 'capexRate', 'managementRate',
+  'appreciationRate', 'rentGrowthRate', 'expenseGrowthRate', 'sellingCostRate', 'exitCapRate',
+])
+
+const sensitivityMetricSchema = z.enum([
+  'cashFlowMonthly', 'cashOnCash', 'capRate', 'dscr', 'noiAnnual', 'irr', 'equityMultiple', 'totalProfit',
+])
+
+const sensitivityAxisSchema = z.object({
+  variable: sensitivityVariableSchema,
+  min: z.number(),
+  max: z.number(),
+  steps: z.number().int().min(2).max(11),
+}).refine((axis) => axis.max > axis.min, { message: 'max must be greater than min', path: ['max'] })
+
+export const sensitivitySchema = analyzeDealSchema.extend({
+  // Two-variable data table
+  grid: z.object({
+    rowAxis: sensitivityAxisSchema,
+    columnAxis: sensitivityAxisSchema,
+    metric: sensitivityMetricSchema,
+  }).refine((grid) => grid.rowAxis.variable !== grid.columnAxis.variable, {
+    message: 'Row and column variables must differ',
+    path: ['columnAxis', 'variable'],
+  }).optional(),
+  // Tornado chart (low/high ranges default to flexes around the deal's inputs)
+  tornado: z.object({
+    metric: sensitivityMetricSchema.optional(),
+    ranges: z.array(z.object({
+      variable: sensitivityVariableSchema,
+      low: z.number(),
+      high: z.number(),
+    })).optional(),
+  }).optional(),
+})
+
+const buyBoxMetricSchema = z.enum([
+  'purchasePrice', 'sqft', 'beds', 'yearBuilt', 'rentToPriceRatio', 'grossRentMultiplier', 'pricePerUnit',
+  'pricePerSqft', 'cashFlowMonthly', 'cashOnCash', 'capRate', 'dscr', 'noiAnnual', 'allInCashRequired',
+  'irr', 'equityMultiple',
+])
+
+export const buyBoxSchema = z.object({
+  criteria: z.array(z.object({
+    metric: buyBoxMetricSchema,
+    operator: z.enum(['min', 'max']),
+    threshold: z.number(),
+    weight: z.number().min(0).max(100),
+  })).max(20),
+  states: z.array(z.string().trim().length(2).toUpperCase()).max(60),
+  zips: z.array(z.string().trim().regex(/^\d{5}$/, 'Zip codes must be 5 digits')).max(200),
+  locationWeight: z.number().min(0).max(100),
+  passingScore: z.number().min(0).max(100),
 })
@@ -1,7 +1,14 @@
 export type ImportStatus = 'success' | 'partial' | 'fail' | 'manual'
 export type FieldSource = 'imported' | 'assumed' | 'missing'
 export type ExtractorVersion = 'structured_v1' | 'semantic_v1' | 'regex_v1' | 'sidebar_v1'
-export type PurchaseType = 'primary_residence' | 'investment_property' | 'house_hack' | 'vacation_home' | 'other'
+export type PurchaseType = 'primary_residence' | 'investment_property' | 'house_hack' | 'flip' | 'vacation_home' | 'other'
+export type LoanType = 'fixed' | 'arm' | 'interest_only' | 'balloon'
+export type LoanProgram = 'conventional' | 'fha' | 'va'
+export type CreditTier = 'excellent' | 'good' | 'fair' | 'poor' // 760+, 700-759, 640-699, below 640
+export type FinancingTrancheType = 'first_mortgage' | 'assumed_loan' | 'second_mortgage' | 'seller_carry' | 'heloc'
+export type RentalStrategy = 'long_term' | 'short_term'
+
+export type RentRollUnitStatus = 'occupied' | 'vacant' | 'owner_occupied'
 
 export interface Deal {
   id: string
@@ -35,7 +42,17 @@ export interface Deal {
   purchaseType: PurchaseType | null
   purchasePrice: number | null
   closingCostRate: number | null
+  closingCostItems: ClosingCostItem[] // When non-empty, replaces closingCostRate with the lender/title estimate
+  sellerConcessions: number | null // Seller credit toward closing costs
+  lenderCredits: number | null // Lender credit toward closing costs
   rehabCost: number | null
+  rehabMonths: number | null // Months with no rent while the rehab runs
+  rehabHoldingCostsMonthly: number | null // Extra carrying costs during the rehab
+  leaseUpMonths: number | null // Months to ramp from empty to full occupancy after the rehab
+  bridgeLoanAmount: number | null // Hard-money/construction loan funding the rehab budget
+  bridgeLoanRate: number | null
+  bridgeLoanPoints: number | null
+  bridgeInterestReserveMonths: number | null
   
   // Loan inputs
   downPaymentPct: number | null
@@ -44,6 +61,24 @@ export interface Deal {
   pmiEnabled: boolean
   pmiMonthly: number | null
   
+  // Loan program (when set, replaces the manual PMI inputs above)
+  loanProgram: LoanProgram | null
+  creditTier: CreditTier | null // Conventional PMI pricing
+  vaSubsequentUse: boolean // VA funding fee: not the first VA loan
+  vaFundingFeeExempt: boolean // VA funding fee waived (e.g. service-connected disability)
+  
+  // Loan structure (null loanType = fixed-rate, fully amortizing)
+  loanType: LoanType | null
+  interestOnlyYears: number | null
+  armFixedYears: number | null // Initial fixed period, e.g. 5 for a 5/1 ARM
+  armAdjustedRate: number | null // Fully indexed rate (index + margin) after the fixed period
+  armPeriodicCap: number | null // Max rate change per annual adjustment (percentage points)
+  armLifetimeCap: number | null // Max increase over the initial rate (percentage points)
+  balloonYears: number | null // Remaining balance due after this many years
+  
+  // Financing stack (when non-empty, replaces the single loan above)
+  financingTranches: FinancingTranche[]
+  
   // Monthly costs (taxesAnnual and hoaMonthly are in Zillow data above)
   insuranceAnnual: number | null
   utilitiesMonthly: number | null
@@ -56,12 +91,28 @@ export interface Deal {
   numberOfUnits: number | null
   rentPerUnit: number | null // Per unit monthly rent
   vacancyRatePerUnit: number | null // Per unit vacancy rate (if different)
+  ownerUnitMarketRent: number | null // House hack: market rent for the owner's unit
+  moveOutYear: number | null // House hack: year the owner moves out and rents their unit
+  rentRoll: RentRollUnit[] // When non-empty, rent and vacancy are derived from it
+  
+  // Short-term rental (null rentalStrategy = long-term)
+  rentalStrategy: RentalStrategy | null
+  strAverageDailyRate: number | null
+  strMonthlyOccupancy: number[] // 12 values (Jan–Dec), % of nights booked
+  strAverageStayNights: number | null
+  strCleaningFeePerStay: number | null
+  strPlatformFeeRate: number | null // % of booking revenue
+  strSuppliesMonthly: number | null
+  strFurnishingCost: number | null
+  strManagementRate: number | null // % of booking revenue
   
   // Assumptions
   vacancyRate: number | null
   maintenanceRate: number | null
   capexRate: number | null
   managementRate: number | null
+  capexSchedule: CapexItem[] // When non-empty, replaces capexRate with itemized replacements
+  capexReserveMonthly: number | null // Optional reserve that smooths the scheduled replacements
   
   // Holding period projections
   holdingPeriodYears: number | null
@@ -69,10 +120,87 @@ export interface Deal {
   rentGrowthRate: number | null
   expenseGrowthRate: number | null
   sellingCostRate: number | null
+  discountRate: number | null // NPV discount rate %
+  mirrFinanceRate: number | null // MIRR rate on negative cash flows %
+  mirrReinvestmentRate: number | null // MIRR rate on positive cash flows %
+  closingDate: string | null // YYYY-MM-DD, dates the XIRR cash flows
+  renterInvestmentReturn: number | null // Primary residence: annual return % on the renter's invested savings
+  exitValuationMethod: ExitValuationMethod | null // How the sale price is set (null = appreciation)
+  exitCapRate: number | null // Cap rate method: blank uses the going-in cap rate
+  exitCapRateExpansion: number | null // Cap rate method: points added to the exit cap rate
+  exitGrossRentMultiplier: number | null // GRM method: sale price ÷ forward annual gross rent
+  
+  // Fix-and-flip (timeline and holding costs reuse rehabMonths / rehabHoldingCostsMonthly, selling costs reuse sellingCostRate)
+  afterRepairValue: number | null
+  flipMonthsToSell: number | null
+  flipLoanPointsPct: number | null
+  
+  // Value-add rental: value steps up to afterRepairValue and rent to market at stabilization
+  valueAddEnabled: boolean
+  stabilizedRentMonthly: number | null // Market rent once the work is done
+  stabilizationMonth: number | null // Month after purchase when the new value and rent take effect
+  
+  // Refinance (BRRRR) event
+  refinanceEnabled: boolean
+  refinanceMonth: number | null // Months after purchase when the refinance closes
+  refinanceAppraisedValue: number | null
+  refinanceLtv: number | null
+  refinanceInterestRate: number | null
+  refinanceTermYears: number | null
+  refinanceClosingCostRate: number | null // Refi costs as % of the new loan
+  
+  // Monte Carlo simulation (means come from the holding period rates above)
+  monteCarloEnabled: boolean
+  monteCarloTrials: number | null
+  monteCarloSeed: number | null
+  appreciationVolatility: number | null // Std dev in percentage points
+  rentGrowthVolatility: number | null
+  expenseGrowthVolatility: number | null
+  vacancyVolatility: number | null
+  
+  // After-tax analysis
+  taxAnalysisEnabled: boolean
+  marginalTaxRate: number | null
+  capitalGainsRate: number | null
+  landValuePct: number | null
+  depreciationYears: number | null // 27.5 residential, 39 commercial
+  costSegregationPct: number | null
+  bonusDepreciationPct: number | null
+  
+  // Partnership waterfall (LP/GP split of cash flow and sale proceeds)
+  partnershipEnabled: boolean
+  lpEquityPct: number | null // LP share of contributed equity
+  preferredReturn: number | null // LP preferred return (IRR %)
+  promoteTiers: PromoteTier[]
+  acquisitionFeePct: number | null // GP fee at closing, % of purchase price
+  assetManagementFeePct: number | null // GP fee per year, % of contributed equity
+  
+  // Max offer targets (solver finds the highest price meeting all of them)
+  targetCashOnCash: number | null
+  targetDscr: number | null
+  targetCashFlowMonthly: number | null
+  targetCapRate: number | null
+  targetIrr: number | null
+  
+  // Financing offers compared side by side against the same property inputs
+  loanOffers: LoanOffer[]
+  
+  // Named what-if scenarios (the deal's own fields are the base scenario)
+  scenarios: DealScenario[]
   
   notes: string | null
 }
 
+// Deal fields a scenario can override
+export type ScenarioOverrides = Partial<Omit<Deal, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'scenarios'>>
+
+export interface DealScenario {
+  id: string
+  name: string // e.g. "Upside", "Downside"
+  overrides: ScenarioOverrides // Applied on top of the deal's fields
+  isPrimary: boolean // At most one; the base scenario is primary when none is
+}
+
 export interface UnderwritingInputs {
   purchasePrice: number
   closingCostRate: number
@@ -92,6 +220,247 @@ export interface UnderwritingInputs {
   maintenanceRate: number
   capexRate: number
   managementRate: number
+  // Loan program presets; when set, PMI/MIP and upfront fees are computed and the manual PMI inputs are ignored
+  loanProgram?: LoanProgram
+  creditTier?: CreditTier
+  vaSubsequentUse?: boolean
+  vaFundingFeeExempt?: boolean
+  // Loan structure (defaults to a fixed-rate, fully amortizing loan)
+  loanType?: LoanType
+  interestOnlyYears?: number
+  armFixedYears?: number
+  armAdjustedRate?: number
+  armPeriodicCap?: number
+  armLifetimeCap?: number
+  balloonYears?: number
+  // Multiple liens; when non-empty, replaces the single loan sized from downPaymentPct
+  financingTranches?: FinancingTranche[]
+  // Short-term rental income replaces rentMonthly and vacancyRate when selected
+  rentalStrategy?: RentalStrategy
+  shortTermRental?: ShortTermRentalInputs
+  // Owner lives in one unit; rentMonthly is rent from the other units only
+  houseHack?: HouseHackInputs
+  // Per-unit leases; rentMonthly and vacancyRate should come from deriveRentRollInputs
+  rentRoll?: RentRollUnit[]
+  // Itemized closing costs; when non-empty, replaces closingCostRate
+  closingCostItems?: ClosingCostItem[]
+  sellerConcessions?: number
+  lenderCredits?: number
+  // Itemized replacements; when non-empty, replaces capexRate
+  capexSchedule?: CapexItem[]
+  capexReserveMonthly?: number
+  // Rehab and lease-up before the property earns full rent
+  rehabPeriod?: RehabPeriodInputs
+  // Fix-and-flip: buy, renovate and sell instead of holding for rent
+  flip?: FlipInputs
+  // Forced appreciation: value and rent step up at stabilization (holding period only)
+  valueAdd?: ValueAddInputs
+}
+
+export interface ValueAddInputs {
+  afterRepairValue: number // Market value once the work is done
+  stabilizedRentMonthly: number // Market rent once the work is done (today's dollars)
+  stabilizationMonth: number // First month at the new value and rent (1 = the month after purchase)
+}
+
+export interface ValueAddSummary {
+  afterRepairValue: number
+  stabilizationMonth: number
+  allInCost: number // Purchase price + net closing costs + rehab
+  equityCreated: number // ARV - all-in cost
+  valueAdded: number // ARV - purchase price
+  returnOnRehab: number // (Value added - rehab) / rehab (%)
+  rentIncreaseMonthly: number // Stabilized rent - in-place rent
+}
+
+export interface FlipInputs {
+  afterRepairValue: number // Expected sale price once renovated
+  rehabMonths: number // Renovation timeline (the budget is rehabCost)
+  monthsToSell: number // Listing and closing after the renovation
+  holdingCostsMonthly: number // Utilities, security, etc. on top of taxes, insurance and HOA
+  loanPointsPct: number // Origination points (% of the loan), paid at close
+  sellingCostRate: number // Commissions and seller closing costs, % of ARV
+}
+
+export interface FlipSummary {
+  holdMonths: number // Rehab plus time to sell
+  loanAmount: number
+  buyingCosts: number // Closing costs on the purchase
+  loanPoints: number
+  interestCost: number // Interest-only payments over the hold
+  holdingCosts: number // Taxes, insurance, HOA and other holding costs over the hold
+  sellingCosts: number
+  totalProjectCost: number // Price + rehab + every cost above
+  cashInvested: number // Total project cost less the loan and selling costs (paid from proceeds)
+  netProfit: number // ARV - total project cost
+  roi: number // Net profit / cash invested (%)
+  annualizedRoi: number // ROI compounded to a 12-month rate (%)
+  seventyPercentRule: {
+    maxPurchasePrice: number // ARV × 70% - rehab
+    passes: boolean
+  }
+}
+
+export interface RehabPeriodInputs {
+  rehabMonths: number // Months with no rent while the rehab runs
+  holdingCostsMonthly: number // Extra carrying costs during the rehab (utilities, security, etc.)
+  leaseUpMonths: number // Months after the rehab to ramp from empty to full occupancy
+  bridgeLoan?: BridgeLoanInputs
+}
+
+export interface BridgeLoanInputs {
+  amount: number // Share of the rehab budget funded by the lender
+  interestRate: number // Interest-only
+  pointsPct: number // Origination points (% of the loan), paid at close
+  interestReserveMonths: number // Months of interest prefunded into the loan
+}
+
+export interface RehabPeriodSummary {
+  rehabMonths: number
+  leaseUpMonths: number
+  stabilizedMonth: number // First month at full occupancy
+  lostIncome: number // Income not earned during the rehab and lease-up
+  holdingCosts: number
+  firstYearCashFlow: number // Year-one cash flow including the rehab, lease-up and bridge interest
+  bridgeLoan?: BridgeLoanSummary
+}
+
+export interface BridgeLoanSummary {
+  amount: number
+  interestReserve: number // Prefunded interest, added to the loan balance
+  balance: number // Amount plus interest reserve; repaid by a refinance or at sale
+  pointsCost: number // Paid at close
+  monthlyInterest: number
+}
+
+export interface ScheduledCapexYear {
+  replacementsAnnual: number // Inflated cost of the items replaced this year
+  capexAnnual: number // Reserve contribution plus the shortfall the reserve can't cover
+  reserveBalance: number // Reserve left at year end
+}
+
+export type ClosingCostCategory = 'origination' | 'points' | 'appraisal' | 'title' | 'escrow' | 'transfer_tax' | 'other'
+
+export interface ClosingCostItem {
+  category: ClosingCostCategory
+  label: string // e.g. "Owner's title policy"
+  amount: number
+}
+
+export interface ClosingCostSummary {
+  grossClosingCosts: number // Itemized total, or purchase price × closingCostRate
+  byCategory: Partial<Record<ClosingCostCategory, number>> // Empty when using the rate
+  sellerConcessions: number // Applied amount (credits can't exceed the costs)
+  lenderCredits: number // Applied amount
+  netClosingCosts: number // Cash the buyer pays at close
+}
+
+export interface CapexItem {
+  component: string // e.g. "Roof"
+  cost: number // Replacement cost in today's dollars
+  remainingLifeYears: number // Replaced in this holding-period year (0 = year 1)
+  inflationRate: number // Annual cost inflation (%)
+}
+
+export interface RentRollUnit {
+  label: string // e.g. "Unit 1"
+  beds: number | null
+  baths: number | null
+  currentRent: number // In-place lease rent
+  marketRent: number
+  leaseEndDate: string | null // YYYY-MM-DD
+  status: RentRollUnitStatus
+}
+
+export interface RentRollSummary {
+  totalUnits: number
+  occupiedUnits: number
+  vacantUnits: number
+  inPlaceRentMonthly: number // Current rent on occupied units
+  marketRentMonthly: number // Market rent on every rentable unit
+  lossToLeaseMonthly: number // Market minus current rent on occupied units
+  noiAtMarketAnnual: number // NOI with every rentable unit leased at market rent
+  noiUpsideAnnual: number // NOI at market minus current NOI
+  cashFlowAtMarketMonthly: number
+  capRateAtMarket: number
+}
+
+export interface HouseHackInputs {
+  totalUnits: number // Including the owner's unit
+  ownerUnitMarketRent: number // What the owner's unit would rent for
+  moveOutYear?: number // Holding-period year the owner's unit starts renting; omit to stay for the whole hold
+}
+
+export interface HouseHackSummary {
+  totalUnits: number
+  rentedUnits: number
+  rentalIncomeMonthly: number // Rent from the other units
+  effectiveHousingCostMonthly: number // What the owner pays to live there after tenant rents (negative = paid to live there)
+  savingsVsMarketRentMonthly: number // Owner unit market rent minus effective housing cost
+  cashFlowAfterMoveOutMonthly: number // Year-one cash flow with the owner's unit rented at market rent
+  fha?: FhaOwnerOccupancyCheck
+}
+
+export interface FhaOwnerOccupancyCheck {
+  eligible: boolean
+  issues: string[] // Rules the deal breaks; empty when eligible
+  selfSufficiency?: FhaSelfSufficiencyTest // 3-4 unit properties only
+}
+
+export interface FhaSelfSufficiencyTest {
+  netRentalIncomeMonthly: number // 75% of market rent for every unit, including the owner's
+  pitiMonthly: number // P&I, MIP, taxes, insurance and HOA
+  passes: boolean
+}
+
+export interface LoanProgramSummary {
+  program: LoanProgram
+  minDownPaymentPct: number
+  meetsMinDownPayment: boolean
+  baseLoanAmount: number // Before the financed upfront fee
+  upfrontFee: number // FHA upfront MIP or VA funding fee, financed into the loan
+  loanAmount: number // Base loan plus upfront fee
+  ltv: number // Base loan / purchase price (%)
+  mortgageInsuranceRate: number // Annual PMI/MIP (% of loan)
+  mortgageInsuranceMonthly: number
+  mortgageInsuranceEndMonth: number | null // First month without PMI/MIP; null when it never drops off
+}
+
+export interface ShortTermRentalInputs {
+  averageDailyRate: number // ADR
+  monthlyOccupancy: number[] // 12 values (Jan–Dec), % of nights booked
+  averageStayNights: number // Used to count turnovers
+  cleaningFeePerStay: number // Host's cleaning cost per turnover
+  platformFeeRate: number // % of booking revenue
+  suppliesMonthly: number
+  furnishingCost: number // Up-front, paid in cash at close
+  managementRate: number // STR management % of booking revenue
+}
+
+export interface ShortTermRentalSummary {
+  bookedNightsAnnual: number
+  averageOccupancy: number // %
+  grossRevenueAnnual: number // Booking revenue
+  platformFeesAnnual: number
+  cleaningAnnual: number
+  suppliesAnnual: number
+  managementAnnual: number
+}
+
+export interface FinancingTranche {
+  type: FinancingTrancheType
+  amount: number
+  interestRate: number
+  termYears: number // Years until the balance is due
+  amortizationYears: number // 0 = interest-only; longer than termYears = balloon at term
+}
+
+export interface PaymentShock {
+  month: number // First month of the higher payment
+  year: number
+  paymentBefore: number // Monthly P&I before the change
+  paymentAfter: number // Monthly P&I after the change (includes the balloon payoff for balloon loans)
+  increasePct: number
 }
 
 export interface UnderwritingOutputs {
@@ -105,6 +474,16 @@ export interface UnderwritingOutputs {
   dscr: number
   breakEvenRentMonthly: number
   allInCashRequired: number
+  paymentShock?: PaymentShock
+  shortTermRental?: ShortTermRentalSummary // Only in short-term rental mode
+  houseHack?: HouseHackSummary // Only for house hacks
+  rentRoll?: RentRollSummary // Only when a rent roll is entered
+  loanProgram?: LoanProgramSummary // Only when a loan program is selected
+  rehabPeriod?: RehabPeriodSummary // Only when a rehab or lease-up period is entered
+  flip?: FlipSummary // Only for fix-and-flip deals
+  valueAdd?: ValueAddSummary // Only when value-add inputs are entered
+  closingCosts?: ClosingCostSummary // Only when closing costs are itemized or credited
+  trace?: Record<UnderwritingTraceMetric, MetricTrace> // Only when requested
 }
 
 export interface Analysis {
@@ -115,8 +494,77 @@ export interface Analysis {
   inputs: UnderwritingInputs
   outputs: UnderwritingOutputs
   holdingPeriodOutputs?: HoldingPeriodOutputs
+  monteCarloOutputs?: MonteCarloOutputs // Only when a simulation was run
   assumptionsSnapshot: Record<string, any>
   version: string
+  scenarioId?: string | null // Scenario analyzed; null/undefined for the base scenario
+  buyBoxScore?: BuyBoxScore | null // Score against the user's buy box when the analysis ran
+}
+
+export interface ScenarioAnalysis {
+  scenarioId: string | null // null for the base scenario
+  name: string
+  isPrimary: boolean
+  analysis: Analysis | null // Latest analysis of this scenario
+}
+
+// Buy Box Types
+
+export type BuyBoxMetric =
+  | 'purchasePrice'
+  | 'sqft'
+  | 'beds'
+  | 'yearBuilt'
+  | 'rentToPriceRatio'
+  | 'grossRentMultiplier'
+  | 'pricePerUnit'
+  | 'pricePerSqft'
+  | 'cashFlowMonthly'
+  | 'cashOnCash'
+  | 'capRate'
+  | 'dscr'
+  | 'noiAnnual'
+  | 'allInCashRequired'
+  | 'irr'
+  | 'equityMultiple'
+
+export interface BuyBoxCriterion {
+  metric: BuyBoxMetric
+  operator: 'min' | 'max' // min: value ≥ threshold; max: value ≤ threshold
+  threshold: number
+  weight: number // Relative weight in the score
+}
+
+export interface BuyBox {
+  userId: string
+  criteria: BuyBoxCriterion[]
+  states: string[] // Two-letter codes; empty = any state
+  zips: string[] // Empty = any zip
+  locationWeight: number // Weight of the state/zip check
+  passingScore: number // Minimum score (0-100) for a deal to pass
+  updatedAt: string
+}
+
+export interface BuyBoxProperty {
+  values: Partial<Record<BuyBoxMetric, number>> // Left out when not known yet (e.g. before an analysis)
+  state: string | null
+  zip: string | null
+}
+
+export interface BuyBoxCheck {
+  metric: BuyBoxMetric | 'location'
+  operator: 'min' | 'max' | 'in'
+  threshold: number | null // null for the location check
+  value: number | string | null // null when not known yet
+  weight: number
+  passes: boolean | null // null when the value isn't known
+}
+
+export interface BuyBoxScore {
+  score: number | null // Weighted % of known checks that pass; null when nothing could be checked
+  passes: boolean // Score ≥ passing score
+  checks: BuyBoxCheck[]
+  unknownCount: number // Checks left out for missing data
 }
 
 export interface ShareLink {
@@ -159,6 +607,50 @@ export interface ExtensionImportPayload {
   extractorVersion: ExtractorVersion
 }
 
+// Calculation Trace Types ("show the math")
+
+export interface CalculationOptions {
+  trace?: boolean // Return the formula, inputs and intermediate values behind each metric
+}
+
+export type TraceValueFormat = 'currency' | 'percent' | 'ratio' | 'number'
+
+export interface TraceValue {
+  label: string
+  value: number
+  format: TraceValueFormat
+}
+
+export interface MetricTrace {
+  formula: string // e.g. "NOI (Annual) ÷ Debt Service (Annual)"
+  inputs: TraceValue[] // Deal inputs the metric used
+  steps: TraceValue[] // Intermediate values, in calculation order
+  result: TraceValue
+}
+
+export type UnderwritingTraceMetric =
+  | 'totalMonthlyPayment'
+  | 'noiAnnual'
+  | 'cashFlowAnnual'
+  | 'capRate'
+  | 'cashOnCash'
+  | 'dscr'
+  | 'breakEvenRentMonthly'
+  | 'allInCashRequired'
+
+export type HoldingPeriodTraceMetric =
+  | 'irr'
+  | 'equityMultiple'
+  | 'netProceedsFromSale'
+  | 'totalProfit'
+  | 'totalROI'
+  | 'annualizedROI'
+  | 'npv'
+  | 'mirr'
+
+// XIRR is only traced when it is calculated (with a closing date)
+export type HoldingPeriodTrace = Record<HoldingPeriodTraceMetric, MetricTrace> & { xirr?: MetricTrace }
+
 // Holding Period Analysis Types
 
 export interface HoldingPeriodInputs {
@@ -170,6 +662,71 @@ export interface HoldingPeriodInputs {
   rentGrowthRate: number // Annual rent growth %
   expenseGrowthRate: number // Annual expense growth %
   sellingCostRate: number // Selling costs as % of sale price
+  renterInvestmentReturn?: number // Primary residence buy vs rent: annual return % on the renter's portfolio (default 3)
+  refinance?: RefinanceInputs // Optional cash-out refinance during the hold
+  tax?: TaxInputs // Optional after-tax analysis
+  returnMetrics?: ReturnMetricsInputs // NPV/MIRR rates and the closing date for XIRR
+  partnership?: PartnershipInputs // Optional LP/GP waterfall
+  exitValuation?: ExitValuationInputs // How the sale price is set (default: appreciation)
+}
+
+export type ExitValuationMethod = 'appreciation' | 'cap_rate' | 'grm'
+
+export interface ExitValuationInputs {
+  method: ExitValuationMethod
+  exitCapRate?: number // Cap rate % applied to forward NOI (default: the going-in cap rate)
+  capRateExpansion?: number // Percentage points added to the exit cap rate (negative for compression)
+  grossRentMultiplier?: number // Sale price ÷ forward annual gross rent
+}
+
+export interface ReturnMetricsInputs {
+  discountRate?: number // NPV discount rate % (default 10)
+  financeRate?: number // MIRR rate on negative cash flows % (default: loan interest rate)
+  reinvestmentRate?: number // MIRR rate on positive cash flows % (default: discount rate)
+  closingDate?: string // YYYY-MM-DD; XIRR is only calculated when set
+}
+
+export interface PromoteTier {
+  irrHurdle: number // LP IRR % above which this promote applies
+  promotePct: number // % of further distributions paid to the GP as promote
+}
+
+export interface PartnershipInputs {
+  lpEquityPct: number // LP share of contributed equity (GP funds the rest)
+  preferredReturn: number // LP IRR % paid pro rata before any promote
+  promoteTiers: PromoteTier[]
+  acquisitionFeePct: number // Paid to the GP at closing, % of purchase price (funded with equity)
+  assetManagementFeePct: number // Paid to the GP each year, % of contributed equity
+}
+
+export interface TaxInputs {
+  marginalTaxRate: number // Ordinary income tax bracket %
+  capitalGainsRate: number // Long-term capital gains rate %
+  landValuePct: number // % of purchase price allocated to land (not depreciable)
+  depreciationYears: number // 27.5 residential, 39 commercial
+  costSegregationPct?: number // % of depreciable basis reclassified to 5-year property
+  bonusDepreciationPct?: number // % of reclassified basis expensed in year 1
+}
+
+export interface RefinanceInputs {
+  month: number // Months after purchase when the refinance closes
+  appraisedValue: number // Appraised value the new loan is sized against
+  ltv: number // New loan as % of appraised value
+  interestRate: number
+  termYears: number
+  closingCostRate: number // Refi costs as % of the new loan
+}
+
+export interface RefinanceSummary {
+  month: number
+  year: number
+  appraisedValue: number
+  payoffBalance: number // Original loan (plus any bridge loan) balance paid off at refi
+  newLoanAmount: number
+  refinanceCosts: number
+  cashOut: number // New loan - payoff - refi costs (negative = cash-in refi)
+  cashLeftInDeal: number // Initial investment - cash out (negative = all cash recovered)
+  newMonthlyPI: number
 }
 
 export interface YearlyProjection {
@@ -193,18 +750,40 @@ export interface YearlyProjection {
   // Cash flow
   cashFlowAnnual: number
   cumulativeCashFlow: number
+  refinanceCashOutAnnual: number // Cash pulled out by a refinance closing this year
+  // Scheduled capex (only when a capex schedule is entered; included in operating expenses)
+  capexAnnual?: number // Reserve contribution plus any replacement cost the reserve can't cover
+  capexReplacementsAnnual?: number // Inflated cost of the items replaced this year
+  capexReserveBalance?: number // Reserve left at year end
+  // After-tax (only when tax inputs are provided)
+  depreciationAnnual?: number
+  taxableIncomeAnnual?: number // NOI - interest - depreciation
+  taxSavingsAnnual?: number // Positive when paper losses offset other income, negative when tax is owed
+  afterTaxCashFlowAnnual?: number // Cash flow + tax savings
 }
 
 export interface ExitScenario {
   salePrice: number
+  valuationMethod: ExitValuationMethod
+  forwardNoi?: number // Cap rate method: NOI for the year after the sale
+  exitCapRate?: number // Cap rate method: cap rate used, including expansion
+  forwardGrossRent?: number // GRM method: gross rent for the year after the sale
   sellingCosts: number
   loanPayoff: number
   netProceedsFromSale: number
   cumulativeCashFlow: number
+  refinanceCashOut: number
   totalProfit: number
   initialInvestment: number
   totalROI: number // (Total Profit / Initial Investment) * 100
   annualizedROI: number // Geometric mean
+  capexReserveBalance?: number // Unspent capex reserve returned at sale (included in net proceeds)
+  // After-tax (only when tax inputs are provided)
+  accumulatedDepreciation?: number
+  depreciationRecaptureTax?: number // Accumulated depreciation taxed at up to 25%
+  capitalGain?: number // Long-term gain above the original basis
+  capitalGainsTax?: number
+  afterTaxNetProceeds?: number // Net proceeds - recapture tax - capital gains tax
 }
 
 export interface HoldingPeriodOutputs {
@@ -212,6 +791,245 @@ export interface HoldingPeriodOutputs {
   exitScenario: ExitScenario
   irr: number // Internal Rate of Return
   equityMultiple: number // Total return / Initial investment
+  refinance?: RefinanceSummary
+  afterTaxIrr?: number // Only when tax inputs are provided
+  returnMetrics?: ReturnMetrics
+  partnership?: PartnershipOutputs
+  trace?: HoldingPeriodTrace // Only when requested
+}
+
+export interface ReturnMetrics {
+  discountRate: number
+  npv: number // Net present value of the IRR cash flows at the discount rate
+  financeRate: number
+  reinvestmentRate: number
+  mirr: number // Modified IRR %
+  paybackYear: number | null // First year cumulative cash (including sale) recovers the investment
+  xirr?: number // IRR % from dated monthly cash flows; only with a closing date
+}
+
+export interface PartnershipYear {
+  year: number
+  cashAvailable: number // Property cash flow after the asset management fee (sale proceeds in the final year)
+  assetManagementFee: number
+  lpDistribution: number // Negative when partners fund a shortfall
+  gpDistribution: number // Includes promote, excludes fees
+  gpPromote: number
+}
+
+export interface PartnerReturns {
+  contributed: number // Initial equity plus any shortfall contributions
+  distributions: number // Total received (GP includes fees)
+  irr: number
+  equityMultiple: number
+}
+
+export interface PartnershipOutputs {
+  totalEquity: number // All-in cash + acquisition fee
+  lpEquity: number
+  gpEquity: number
+  acquisitionFee: number
+  totalAssetManagementFees: number
+  totalPromote: number
+  years: PartnershipYear[]
+  lp: PartnerReturns
+  gp: PartnerReturns
+}
+
+// Monte Carlo Simulation Types
+
+export interface Distribution {
+  mean: number // Mean annual rate %
+  volatility: number // Standard deviation in percentage points
+}
+
+export interface MonteCarloInputs {
+  holdingPeriodInputs: HoldingPeriodInputs
+  appreciationRate: Distribution
+  rentGrowthRate: Distribution
+  expenseGrowthRate: Distribution
+  vacancyRate: Distribution
+  trials: number
+  seed: number // Same seed + inputs = same results
+}
+
+export interface PercentileBand {
+  p10: number
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+}
+
+export interface MonteCarloOutputs {
+  trials: number
+  seed: number
+  irr: PercentileBand
+  equityMultiple: PercentileBand
+  cumulativeCashFlow: PercentileBand // At end of holding period
+  totalProfit: PercentileBand
+  probabilityOfLoss: number // % of trials with negative total profit
+  // Per-year bands for fan charts
+  yearlyCumulativeCashFlow: PercentileBand[]
+  yearlyEquity: PercentileBand[]
+}
+
+// Max Offer Solver Types
+
+export interface MaxOfferTargets {
+  minCashOnCash?: number // %
+  minDscr?: number // e.g. 1.25
+  minCashFlowMonthly?: number
+  minCapRate?: number // %
+  minIrr?: number // %, requires holding period assumptions
+}
+
+export type MaxOfferTarget = keyof MaxOfferTargets
+
+export interface MaxOfferInputs {
+  underwritingInputs: UnderwritingInputs // Everything but the price is held fixed
+  holdingPeriod?: Omit<HoldingPeriodInputs, 'underwritingInputs'>
+  targets: MaxOfferTargets
+}
+
+// Why a max offer has no price: no targets set, a target can't be met at any
+// price, or no target caps the price (e.g. only a DSCR target on an all-cash deal)
+export type MaxOfferNoPriceReason = 'no_targets' | 'targets_unmet' | 'no_limit'
+
+export interface MaxOfferResult {
+  maxPurchasePrice: number | null // null when no price meets every target or no target limits it
+  reason: MaxOfferNoPriceReason | null // Set when maxPurchasePrice is null
+  bindingTarget: MaxOfferTarget | null // Target that caps the price
+  outputs: UnderwritingOutputs | null // Metrics at the max price
+  irr: number | null // IRR at the max price (when holding period assumptions are given)
+}
+
+// Loan Offer Comparison Types
+
+export type TemporaryBuydown = 'none' | '2-1' | '1-0'
+
+export interface LoanOffer {
+  label: string // e.g. "Lender A, 1 point"
+  interestRate: number // Note rate %
+  pointsPct: number // Discount points, % of the loan amount
+  lenderCredit: number // Lender credit toward closing costs
+  buydown: TemporaryBuydown // 2-1: rate is 2 points lower in year 1 and 1 point lower in year 2
+  buydownPaidBy: 'buyer' | 'seller'
+  downPaymentPct?: number // Defaults to the deal's down payment
+  termYears?: number // Defaults to the deal's term
+}
+
+export interface LoanComparisonInputs {
+  underwritingInputs: UnderwritingInputs // Property inputs shared by every offer
+  holdingPeriod?: Omit<HoldingPeriodInputs, 'underwritingInputs'>
+  offers: LoanOffer[]
+}
+
+export interface LoanOfferResult {
+  label: string
+  loanAmount: number
+  monthlyPayment: number // Year-1 P&I (after any temporary buydown)
+  noteRatePayment: number // P&I at the note rate
+  pointsCost: number
+  buydownCost: number // Temporary buydown subsidy (paid at close by the buyer or the seller)
+  cashToClose: number // Down payment + closing costs, points and buyer-paid buydown, net of credits
+  pointsBreakEvenMonths: number | null // Months of payment savings to recover net points vs. the cheapest offer
+  cashFlowMonthly: number // At the note rate
+  cashOnCash: number
+  irr: number | null // Holding-period IRR (when holding period assumptions are given)
+}
+
+// Quick Screen Types (rules of thumb before a full analysis)
+
+export interface ScreeningInputs {
+  purchasePrice: number
+  rehabCost: number
+  rentMonthly: number // Gross scheduled rent, all units
+  downPaymentPct: number
+  interestRate: number
+  termYears: number
+  units: number
+  sqft: number | null
+}
+
+export interface ScreeningOutputs {
+  rentToPriceRatio: number // Monthly rent / (price + rehab) × 100
+  passesOnePercentRule: boolean // Ratio ≥ 1%
+  passesTwoPercentRule: boolean // Ratio ≥ 2%
+  fiftyPercentCashFlowMonthly: number // Rent × 50% - monthly P&I
+  passesFiftyPercentRule: boolean // 50%-rule cash flow ≥ 0
+  grossRentMultiplier: number | null // Price / annual rent (null without rent)
+  pricePerUnit: number
+  pricePerSqft: number | null // null without sqft
+  rentPerSqft: number | null // Monthly rent per sqft
+}
+
+// Sensitivity Analysis Types
+
+export type SensitivityVariable =
+  | 'purchasePrice'
+  | 'downPaymentPct'
+  | 'interestRate'
+  | 'rehabCost'
+  | 'rentMonthly'
+  | 'vacancyRate'
+  | 'taxesAnnual'
+  | 'insuranceAnnual'
+  | 'maintenanceRate'
+  | 'capexRate'
+  | 'managementRate'
+  | 'appreciationRate'
+  | 'rentGrowthRate'
+  | 'expenseGrowthRate'
+  | 'sellingCostRate'
+  | 'exitCapRate'
+
+export type SensitivityMetric =
+  | 'cashFlowMonthly'
+  | 'cashOnCash'
+  | 'capRate'
+  | 'dscr'
+  | 'noiAnnual'
+  | 'irr'
+  | 'equityMultiple'
+  | 'totalProfit'
+
+export interface SensitivityAxis {
+  variable: SensitivityVariable
+  min: number
+  max: number
+  steps: number // Number of values, evenly spaced from min to max
+}
+
+export interface SensitivityGrid {
+  metric: SensitivityMetric
+  rowVariable: SensitivityVariable
+  columnVariable: SensitivityVariable
+  rowValues: number[]
+  columnValues: number[]
+  values: number[][] // values[row][column]
+  baseValue: number // Metric at the deal's own inputs
+}
+
+export interface SensitivityRange {
+  variable: SensitivityVariable
+  low: number
+  high: number
+}
+
+export interface TornadoBar {
+  variable: SensitivityVariable
+  low: number
+  high: number
+  lowResult: number // Metric with the variable at its low value
+  highResult: number
+  swing: number // |highResult - lowResult|
+}
+
+export interface TornadoOutputs {
+  metric: SensitivityMetric
+  baseValue: number
+  bars: TornadoBar[] // Largest swing first
 }
 
 // Primary Residence Analysis Types (homeowner-centric metrics)
@@ -237,6 +1055,13 @@ export interface PrimaryResidenceOutputs {
   annualNetCostOfOwnership: number // Gross cost - principal paydown
 }
 
+export interface BuyVsRentYear {
+  year: number
+  ownerEquity: number // Net proceeds if sold at year end: value less selling costs and loan balance
+  renterContributions: number // Cost of owning minus rent this year (negative when renting costs more)
+  renterPortfolio: number // Year-end value of the renter's investments
+}
+
 export interface PrimaryResidenceHoldingPeriodOutputs {
   // Break-even analysis
   breakEvenYearBuyVsRent: number | null // Years until buying beats renting (null if never)
@@ -250,6 +1075,10 @@ export interface PrimaryResidenceHoldingPeriodOutputs {
   equityFromAppreciation: number // Total appreciation gain
   totalEquityAccumulation: number // Combined
   
+  // Renter path: cash at closing plus monthly savings, invested
+  renterInvestmentReturn: number
+  buyVsRentByYear: BuyVsRentYear[]
+  
   // Exit scenarios at different years
   exitScenarios: {
     year: number
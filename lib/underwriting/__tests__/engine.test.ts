@@ -10,8 +10,34 @@ import {
   calculateBreakEvenRent,
   calculateAllInCashRequired,
   calculateUnderwriting,
+  calculateRefinance,
+  calculateHoldingPeriodAnalysis,
+  calculateHoldingPeriodProjection,
+  calculateYearlyProjection,
+  calculateIRR,
+  generateLoanSchedule,
+  calculatePaymentShock,
+  calculateLoanAmount,
+  calculateDebtService,
+  generateTrancheSchedule,
+  generateFinancingSchedule,
+  calculateDepreciableBasis,
+  calculateDepreciationForYear,
+  calculateShortTermRental,
+  calculateHouseHack,
+  deriveRentRollInputs,
+  calculateRentRoll,
+  calculateLoanProgram,
+  calculateScheduledCapex,
+  calculateRehabPeriod,
+  calculateBridgeLoan,
+  calculatePartnershipWaterfall,
+  calculatePrimaryResidenceAnalysis,
+  calculatePrimaryResidenceHoldingPeriod,
+  calculateFlip,
+  calculateClosingCosts,
 } from '../engine'
-import { UnderwritingInputs } from '@/lib/types'
+import { UnderwritingInputs, HoldingPeriodInputs, FinancingTranche, TaxInputs, ShortTermRentalInputs, RentRollUnit, CapexItem, ClosingCostItem } from '@/lib/types'
 
 describe('Underwriting Engine', () => {
   const baseInputs: UnderwritingInputs = {
@@ -154,4 +180,1132 @@ describe('Underwriting Engine', () => {
       expect(outputs1).toEqual(outputs2)
     })
   })
+
+  describe('calculateRefinance', () => {
+    const holdingInputs: HoldingPeriodInputs = {
+      underwritingInputs: baseInputs,
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+      refinance: {
+        month: 12,
+        appraisedValue: 320000,
+        ltv: 75,
+        interestRate: 7.5,
+        termYears: 30,
+        closingCostRate: 2,
+      },
+    }
+
+    it('returns null when no refinance is configured', () => {
+      expect(calculateRefinance({ ...holdingInputs, refinance: undefined })).toBeNull()
+    })
+
+    it('returns null when the refinance falls outside the holding period', () => {
+      const refinance = { ...holdingInputs.refinance!, month: 72 }
+      expect(calculateRefinance({ ...holdingInputs, refinance })).toBeNull()
+    })
+
+    it('calculates cash out and cash left in deal', () => {
+      const summary = calculateRefinance(holdingInputs)!
+      
+      expect(summary.year).toBe(1)
+      expect(summary.newLoanAmount).toBe(240000) // 75% of 320k
+      expect(summary.refinanceCosts).toBe(4800) // 2% of new loan
+      expect(summary.payoffBalance).toBeLessThan(200000)
+      expect(summary.payoffBalance).toBeGreaterThan(197000)
+      expect(summary.cashOut).toBeCloseTo(240000 - summary.payoffBalance - 4800, 2)
+      expect(summary.cashLeftInDeal).toBeCloseTo(calculateAllInCashRequired(baseInputs) - summary.cashOut, 2)
+    })
+
+    it('switches debt service to the new loan after the refinance', () => {
+      const withRefi = calculateHoldingPeriodAnalysis(holdingInputs)
+      const withoutRefi = calculateHoldingPeriodAnalysis({ ...holdingInputs, refinance: undefined })
+      const summary = withRefi.refinance!
+      
+      // Year 1 is unchanged apart from the cash out
+      expect(withRefi.yearlyProjections[0].debtServiceAnnual).toBeCloseTo(withoutRefi.yearlyProjections[0].debtServiceAnnual, 2)
+      expect(withRefi.yearlyProjections[0].refinanceCashOutAnnual).toBeCloseTo(summary.cashOut, 2)
+      expect(withRefi.yearlyProjections[0].loanBalance).toBe(240000)
+      
+      // Year 2 pays the new, larger loan
+      expect(withRefi.yearlyProjections[1].debtServiceAnnual).toBeCloseTo(summary.newMonthlyPI * 12, 2)
+      expect(withRefi.yearlyProjections[1].refinanceCashOutAnnual).toBe(0)
+      
+      expect(withRefi.exitScenario.refinanceCashOut).toBeCloseTo(summary.cashOut, 2)
+      expect(withRefi.exitScenario.loanPayoff).toBeGreaterThan(withoutRefi.exitScenario.loanPayoff)
+    })
+
+    it('projects each year the same from the shared debt schedule as on its own', () => {
+      const projections = calculateHoldingPeriodProjection(holdingInputs)
+      
+      projections.forEach((projection) => {
+        const standalone = calculateYearlyProjection(holdingInputs, projection.year)
+        expect(projection.debtServiceAnnual).toBeCloseTo(standalone.debtServiceAnnual, 6)
+        expect(projection.loanBalance).toBeCloseTo(standalone.loanBalance, 6)
+        expect(projection.refinanceCashOutAnnual).toBeCloseTo(standalone.refinanceCashOutAnnual, 6)
+      })
+    })
+  })
+
+  describe('generateLoanSchedule', () => {
+    const loanAmount = 200000 // 80% of 250k
+    
+    it('matches the standard schedule for fixed loans', () => {
+      const schedule = generateLoanSchedule(baseInputs, loanAmount)
+      
+      expect(schedule).toHaveLength(360)
+      expect(schedule[0].payment).toBeCloseTo(calculateMonthlyPI(loanAmount, 7, 30), 6)
+      expect(schedule[359].balance).toBeCloseTo(0, 2)
+    })
+
+    it('pays interest only, then amortizes over the remaining term', () => {
+      const inputs = { ...baseInputs, loanType: 'interest_only' as const, interestOnlyYears: 10 }
+      const schedule = generateLoanSchedule(inputs, loanAmount)
+      
+      expect(schedule[0].payment).toBeCloseTo(loanAmount * 0.07 / 12, 6)
+      expect(schedule[119].balance).toBe(loanAmount)
+      expect(schedule[120].payment).toBeCloseTo(calculateMonthlyPI(loanAmount, 7, 20), 6)
+      expect(schedule[359].balance).toBeCloseTo(0, 2)
+    })
+
+    it('adjusts ARM rates within the periodic and lifetime caps', () => {
+      const inputs = {
+        ...baseInputs,
+        interestRate: 6,
+        loanType: 'arm' as const,
+        armFixedYears: 5,
+        armAdjustedRate: 10,
+        armPeriodicCap: 2,
+        armLifetimeCap: 3,
+      }
+      const schedule = generateLoanSchedule(inputs, loanAmount)
+      
+      // 6% for the first 5 years, 8% in year 6, capped at 9% from year 7
+      expect(schedule[59].interest / schedule[58].balance).toBeCloseTo(0.06 / 12, 8)
+      expect(schedule[60].interest / schedule[59].balance).toBeCloseTo(0.08 / 12, 8)
+      expect(schedule[72].interest / schedule[71].balance).toBeCloseTo(0.09 / 12, 8)
+      expect(schedule[359].balance).toBeCloseTo(0, 2)
+    })
+
+    it('pays off the remaining balance at the balloon date', () => {
+      const inputs = { ...baseInputs, loanType: 'balloon' as const, balloonYears: 7 }
+      const schedule = generateLoanSchedule(inputs, loanAmount)
+      const fixedSchedule = generateLoanSchedule(baseInputs, loanAmount)
+      
+      expect(schedule).toHaveLength(84)
+      expect(schedule[83].balance).toBe(0)
+      expect(schedule[83].payment).toBeCloseTo(fixedSchedule[83].payment + fixedSchedule[83].balance, 2)
+    })
+  })
+
+  describe('calculatePaymentShock', () => {
+    it('returns null for fixed-rate loans', () => {
+      expect(calculatePaymentShock(baseInputs)).toBeNull()
+    })
+
+    it('reports the year amortization starts on interest-only loans', () => {
+      const shock = calculatePaymentShock({ ...baseInputs, loanType: 'interest_only', interestOnlyYears: 5 })!
+      
+      expect(shock.month).toBe(61)
+      expect(shock.year).toBe(6)
+      expect(shock.paymentAfter).toBeGreaterThan(shock.paymentBefore)
+    })
+
+    it('uses the interest-only payment for year-one debt service', () => {
+      const outputs = calculateUnderwriting({ ...baseInputs, loanType: 'interest_only', interestOnlyYears: 5 })
+      const fixedOutputs = calculateUnderwriting(baseInputs)
+      
+      expect(outputs.cashFlowMonthly).toBeGreaterThan(fixedOutputs.cashFlowMonthly)
+      expect(outputs.paymentShock?.year).toBe(6)
+      expect(fixedOutputs.paymentShock).toBeUndefined()
+    })
+  })
+
+  describe('financing stack', () => {
+    const assumedFirst: FinancingTranche = {
+      type: 'assumed_loan',
+      amount: 150000,
+      interestRate: 3,
+      termYears: 25,
+      amortizationYears: 25,
+    }
+    const sellerCarry: FinancingTranche = {
+      type: 'seller_carry',
+      amount: 50000,
+      interestRate: 6,
+      termYears: 5,
+      amortizationYears: 0,
+    }
+    const stackedInputs: UnderwritingInputs = {
+      ...baseInputs,
+      financingTranches: [assumedFirst, sellerCarry],
+    }
+
+    it('sums tranche amounts for the loan amount', () => {
+      expect(calculateLoanAmount(stackedInputs)).toBe(200000)
+      expect(calculateLoanAmount(baseInputs)).toBe(200000)
+    })
+
+    it('pays interest only and balloons at term for a seller carry', () => {
+      const schedule = generateTrancheSchedule(sellerCarry)
+      
+      expect(schedule).toHaveLength(60)
+      expect(schedule[0].payment).toBeCloseTo(250, 6) // 50k × 6% / 12
+      expect(schedule[59].payment).toBeCloseTo(50250, 6)
+      expect(schedule[59].balance).toBe(0)
+    })
+
+    it('aggregates debt service across tranches', () => {
+      const debtService = calculateDebtService(stackedInputs)
+      const expected = calculateMonthlyPI(150000, 3, 25) + 250
+      
+      expect(debtService.monthly).toBeCloseTo(expected, 6)
+    })
+
+    it('combines tranche balances month by month', () => {
+      const schedule = generateFinancingSchedule(stackedInputs)
+      const firstSchedule = generateTrancheSchedule(assumedFirst)
+      
+      expect(schedule).toHaveLength(300)
+      expect(schedule[11].balance).toBeCloseTo(firstSchedule[11].balance + 50000, 6)
+      expect(schedule[60].balance).toBeCloseTo(firstSchedule[60].balance, 6)
+    })
+
+    it('sizes the down payment from what the tranches leave uncovered', () => {
+      const withSmallStack = { ...baseInputs, financingTranches: [assumedFirst] }
+      const closingCosts = baseInputs.purchasePrice * 0.03
+      
+      expect(calculateAllInCashRequired(stackedInputs)).toBe(50000 + closingCosts + baseInputs.rehabCost)
+      expect(calculateAllInCashRequired(withSmallStack)).toBe(100000 + closingCosts + baseInputs.rehabCost)
+    })
+
+    it('flows the stack through the holding period and exit payoff', () => {
+      const analysis = calculateHoldingPeriodAnalysis({
+        underwritingInputs: stackedInputs,
+        holdingPeriodYears: 3,
+        appreciationRate: 3,
+        rentGrowthRate: 2,
+        expenseGrowthRate: 2,
+        sellingCostRate: 6,
+      })
+      const firstSchedule = generateTrancheSchedule(assumedFirst)
+      
+      expect(analysis.exitScenario.loanPayoff).toBeCloseTo(firstSchedule[35].balance + 50000, 2)
+      expect(analysis.yearlyProjections[0].debtServiceAnnual).toBeCloseTo(calculateDebtService(stackedInputs).annual, 2)
+    })
+  })
+
+  describe('after-tax analysis', () => {
+    const tax: TaxInputs = {
+      marginalTaxRate: 32,
+      capitalGainsRate: 15,
+      landValuePct: 20,
+      depreciationYears: 27.5,
+    }
+    const holdingInputs: HoldingPeriodInputs = {
+      underwritingInputs: baseInputs,
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+      tax,
+    }
+
+    it('depreciates the building share of price and closing costs plus rehab', () => {
+      // (250k + 7.5k closing) × 80% + 20k rehab
+      expect(calculateDepreciableBasis(baseInputs, tax)).toBe(226000)
+    })
+
+    it('depreciates straight-line over 27.5 years', () => {
+      expect(calculateDepreciationForYear(baseInputs, tax, 1)).toBeCloseTo(226000 / 27.5, 6)
+      expect(calculateDepreciationForYear(baseInputs, tax, 28)).toBeCloseTo(226000 / 27.5 / 2, 6)
+      expect(calculateDepreciationForYear(baseInputs, tax, 29)).toBe(0)
+    })
+
+    it('front-loads bonus depreciation from cost segregation', () => {
+      const costSeg = { ...tax, costSegregationPct: 25, bonusDepreciationPct: 100 }
+      const year1 = calculateDepreciationForYear(baseInputs, costSeg, 1)
+      const year2 = calculateDepreciationForYear(baseInputs, costSeg, 2)
+      
+      expect(year1).toBeCloseTo(226000 * 0.25 + (226000 * 0.75) / 27.5, 6)
+      expect(year2).toBeCloseTo((226000 * 0.75) / 27.5, 6)
+    })
+
+    it('reports taxable income and tax savings each year', () => {
+      const analysis = calculateHoldingPeriodAnalysis(holdingInputs)
+      const year1 = analysis.yearlyProjections[0]
+      
+      expect(year1.taxableIncomeAnnual).toBeCloseTo(year1.noiAnnual - year1.interestPaidAnnual - year1.depreciationAnnual!, 6)
+      expect(year1.taxSavingsAnnual).toBeCloseTo(-year1.taxableIncomeAnnual! * 0.32, 6)
+      expect(year1.afterTaxCashFlowAnnual).toBeCloseTo(year1.cashFlowAnnual + year1.taxSavingsAnnual!, 6)
+    })
+
+    it('taxes recapture and capital gains at sale', () => {
+      const { exitScenario } = calculateHoldingPeriodAnalysis({ ...holdingInputs, appreciationRate: 6 })
+      const accumulated = exitScenario.accumulatedDepreciation!
+      
+      expect(accumulated).toBeCloseTo((226000 / 27.5) * 5, 6)
+      expect(exitScenario.depreciationRecaptureTax).toBeCloseTo(accumulated * 0.25, 6)
+      expect(exitScenario.capitalGain).toBeGreaterThan(0)
+      expect(exitScenario.capitalGainsTax).toBeCloseTo(exitScenario.capitalGain! * 0.15, 6)
+      expect(exitScenario.afterTaxNetProceeds).toBeCloseTo(
+        exitScenario.netProceedsFromSale - exitScenario.depreciationRecaptureTax! - exitScenario.capitalGainsTax!,
+        6
+      )
+    })
+
+    it('caps recapture at the gain on sale', () => {
+      const { exitScenario } = calculateHoldingPeriodAnalysis({ ...holdingInputs, appreciationRate: 0 })
+      
+      expect(exitScenario.depreciationRecaptureTax!).toBeLessThan(exitScenario.accumulatedDepreciation! * 0.25)
+      expect(exitScenario.capitalGainsTax).toBe(0)
+    })
+
+    it('adds an after-tax IRR only when tax inputs are given', () => {
+      const withTax = calculateHoldingPeriodAnalysis(holdingInputs)
+      const withoutTax = calculateHoldingPeriodAnalysis({ ...holdingInputs, tax: undefined })
+      
+      expect(withTax.afterTaxIrr).toBeDefined()
+      expect(withTax.irr).toBeCloseTo(withoutTax.irr, 6)
+      expect(withoutTax.afterTaxIrr).toBeUndefined()
+      expect(withoutTax.yearlyProjections[0].taxableIncomeAnnual).toBeUndefined()
+    })
+  })
+
+  describe('Short-Term Rental', () => {
+    const str: ShortTermRentalInputs = {
+      averageDailyRate: 200,
+      monthlyOccupancy: Array(12).fill(50),
+      averageStayNights: 3,
+      cleaningFeePerStay: 90,
+      platformFeeRate: 3,
+      suppliesMonthly: 100,
+      furnishingCost: 15000,
+      managementRate: 20,
+    }
+    const strInputs: UnderwritingInputs = { ...baseInputs, rentalStrategy: 'short_term', shortTermRental: str }
+
+    it('derives booking revenue and STR costs from occupancy', () => {
+      const summary = calculateShortTermRental(str)
+      
+      expect(summary.bookedNightsAnnual).toBeCloseTo(182.5, 6)
+      expect(summary.averageOccupancy).toBeCloseTo(50, 6)
+      expect(summary.grossRevenueAnnual).toBeCloseTo(36500, 6)
+      expect(summary.platformFeesAnnual).toBeCloseTo(1095, 6)
+      expect(summary.cleaningAnnual).toBeCloseTo((182.5 / 3) * 90, 6)
+      expect(summary.suppliesAnnual).toBe(1200)
+      expect(summary.managementAnnual).toBeCloseTo(7300, 6)
+    })
+
+    it('weights seasonal occupancy by days in month', () => {
+      const seasonal = calculateShortTermRental({ ...str, monthlyOccupancy: [100, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0] })
+      
+      expect(seasonal.bookedNightsAnnual).toBe(31)
+    })
+
+    it('replaces rent and vacancy in NOI', () => {
+      const summary = calculateShortTermRental(str)
+      const noi = calculateNOI(strInputs)
+      const grossMonthly = summary.grossRevenueAnnual / 12
+      const expected = grossMonthly -
+        grossMonthly * 0.13 -
+        (summary.platformFeesAnnual + summary.cleaningAnnual + summary.suppliesAnnual + summary.managementAnnual) / 12 -
+        3000 / 12 - 1200 / 12 - 100
+      
+      expect(noi.monthly).toBeCloseTo(expected, 6)
+      // Long-term rent and vacancy are ignored
+      expect(calculateNOI({ ...strInputs, rentMonthly: 9999, vacancyRate: 50 }).monthly).toBeCloseTo(expected, 6)
+    })
+
+    it('adds furnishing to cash required', () => {
+      expect(calculateAllInCashRequired(strInputs)).toBe(calculateAllInCashRequired(baseInputs) + 15000)
+    })
+
+    it('reports break-even booking revenue that zeroes cash flow', () => {
+      const breakEvenMonthly = calculateBreakEvenRent(strInputs)
+      const scale = breakEvenMonthly / (calculateShortTermRental(str).grossRevenueAnnual / 12)
+      const atBreakEven = { ...strInputs, shortTermRental: { ...str, averageDailyRate: 200 * scale } }
+      
+      expect(calculateCashFlow(atBreakEven).monthly).toBeCloseTo(0, 4)
+    })
+
+    it('feeds the holding period projection', () => {
+      const analysis = calculateHoldingPeriodAnalysis({
+        underwritingInputs: strInputs,
+        holdingPeriodYears: 5,
+        appreciationRate: 3,
+        rentGrowthRate: 2,
+        expenseGrowthRate: 2,
+        sellingCostRate: 6,
+      })
+      const [year1, year2] = analysis.yearlyProjections
+      
+      expect(year1.noiAnnual).toBeCloseTo(calculateNOI(strInputs).annual, 6)
+      expect(year1.vacancyLossAnnual).toBe(0)
+      expect(year2.rentAnnual).toBeCloseTo(36500 * 1.02, 6)
+      expect(analysis.exitScenario.initialInvestment).toBe(calculateAllInCashRequired(strInputs))
+    })
+
+    it('only applies in short-term mode', () => {
+      const longTerm = { ...baseInputs, rentalStrategy: 'long_term' as const, shortTermRental: str }
+      
+      expect(calculateNOI(longTerm).monthly).toBeCloseTo(calculateNOI(baseInputs).monthly, 6)
+      expect(calculateUnderwriting(longTerm).shortTermRental).toBeUndefined()
+      expect(calculateUnderwriting(strInputs).shortTermRental).toBeDefined()
+    })
+  })
+
+  describe('House Hack', () => {
+    // Duplex: owner lives in one unit, the other rents for $1,000
+    const houseHackInputs: UnderwritingInputs = {
+      ...baseInputs,
+      rentMonthly: 1000,
+      houseHack: { totalUnits: 2, ownerUnitMarketRent: 1000 },
+    }
+    const holdingPeriod = {
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('charges maintenance and capex on the owner unit', () => {
+      const noi = calculateNOI(houseHackInputs)
+      // Vacancy and management on $1,000 collected; maintenance and capex on $2,000
+      const expected = 1000 * 0.95 - 1000 * 0.08 - 2000 * 0.13 - 3000 / 12 - 1200 / 12 - 100
+      
+      expect(noi.monthly).toBeCloseTo(expected, 6)
+    })
+
+    it('reports effective housing cost as the owner shortfall', () => {
+      const summary = calculateHouseHack(houseHackInputs)!
+      const cashFlow = calculateCashFlow(houseHackInputs)
+      
+      expect(summary.rentedUnits).toBe(1)
+      expect(summary.effectiveHousingCostMonthly).toBeCloseTo(-cashFlow.monthly, 6)
+      expect(summary.savingsVsMarketRentMonthly).toBeCloseTo(1000 + cashFlow.monthly, 6)
+      // Renting both units matches a plain two-unit rental
+      expect(summary.cashFlowAfterMoveOutMonthly).toBeCloseTo(calculateCashFlow(baseInputs).monthly, 6)
+    })
+
+    it('reports break-even rent from the rented units', () => {
+      const breakEvenRent = calculateBreakEvenRent(houseHackInputs)
+      
+      expect(calculateCashFlow({ ...houseHackInputs, rentMonthly: breakEvenRent }).monthly).toBeCloseTo(0, 4)
+    })
+
+    it('rents the owner unit from the move-out year', () => {
+      const analysis = calculateHoldingPeriodAnalysis({
+        ...holdingPeriod,
+        underwritingInputs: { ...houseHackInputs, houseHack: { totalUnits: 2, ownerUnitMarketRent: 1000, moveOutYear: 3 } },
+      })
+      const [year1, year2, year3] = analysis.yearlyProjections
+      
+      expect(year1.noiAnnual).toBeCloseTo(calculateNOI(houseHackInputs).annual, 6)
+      expect(year2.rentAnnual).toBeCloseTo(12000 * 1.02, 6)
+      expect(year3.rentAnnual).toBeCloseTo(24000 * 1.02 * 1.02, 6)
+      // Once fully rented, the year matches a plain rental
+      const rental = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: baseInputs })
+      expect(year3.noiAnnual).toBeCloseTo(rental.yearlyProjections[2].noiAnnual, 6)
+    })
+
+    it('checks FHA owner-occupancy rules when FHA financed', () => {
+      const fha = { ...houseHackInputs, loanProgram: 'fha' as const, downPaymentPct: 3.5 }
+      
+      expect(calculateHouseHack(houseHackInputs)!.fha).toBeUndefined()
+      expect(calculateHouseHack(fha)!.fha).toEqual({ eligible: true, issues: [] })
+      
+      const ineligible = calculateHouseHack({ ...fha, downPaymentPct: 3, houseHack: { totalUnits: 6, ownerUnitMarketRent: 1000 } })!.fha!
+      expect(ineligible.eligible).toBe(false)
+      expect(ineligible.issues).toContain('FHA allows at most 4 units')
+      expect(ineligible.issues).toContain('FHA requires at least 3.5% down')
+    })
+
+    it('applies the FHA self-sufficiency test to 3-4 units', () => {
+      const triplex = { ...houseHackInputs, loanProgram: 'fha' as const, downPaymentPct: 3.5, houseHack: { totalUnits: 3, ownerUnitMarketRent: 1000 } }
+      const check = calculateHouseHack(triplex)!.fha!
+      
+      expect(check.selfSufficiency!.netRentalIncomeMonthly).toBeCloseTo((1000 + 1000) * 0.75, 6)
+      expect(check.selfSufficiency!.passes).toBe(check.selfSufficiency!.netRentalIncomeMonthly >= check.selfSufficiency!.pitiMonthly)
+      
+      const strongRent = calculateHouseHack({ ...triplex, rentMonthly: 6000 })!.fha!
+      expect(strongRent.selfSufficiency!.passes).toBe(true)
+      expect(strongRent.eligible).toBe(true)
+      
+      const weakRent = calculateHouseHack({ ...triplex, rentMonthly: 500 })!.fha!
+      expect(weakRent.selfSufficiency!.passes).toBe(false)
+      expect(weakRent.eligible).toBe(false)
+    })
+  })
+
+  describe('Rent Roll', () => {
+    const rentRoll: RentRollUnit[] = [
+      { label: 'Unit 1', beds: 2, baths: 1, currentRent: 900, marketRent: 1000, leaseEndDate: '2027-06-30', status: 'occupied' },
+      { label: 'Unit 2', beds: 2, baths: 1, currentRent: 950, marketRent: 1000, leaseEndDate: null, status: 'occupied' },
+      { label: 'Unit 3', beds: 1, baths: 1, currentRent: 0, marketRent: 800, leaseEndDate: null, status: 'vacant' },
+    ]
+
+    it('derives rent from current leases and vacant units at market', () => {
+      const derived = deriveRentRollInputs(rentRoll, 5)
+      
+      expect(derived.rentMonthly).toBe(2650)
+      expect(derived.vacancyRate).toBeCloseTo((800 / 2650) * 100, 6)
+    })
+
+    it('keeps the assumed vacancy when the roll is fully occupied', () => {
+      const occupied = rentRoll.slice(0, 2)
+      
+      expect(deriveRentRollInputs(occupied, 5)).toEqual({ rentMonthly: 1850, vacancyRate: 5 })
+    })
+
+    it('leaves owner-occupied units out of rent', () => {
+      const withOwner: RentRollUnit[] = [...rentRoll.slice(0, 2), { ...rentRoll[2], status: 'owner_occupied' }]
+      
+      expect(deriveRentRollInputs(withOwner, 5).rentMonthly).toBe(1850)
+    })
+
+    it('reports loss-to-lease and the NOI upside at market rent', () => {
+      const inputs = { ...baseInputs, ...deriveRentRollInputs(rentRoll, 5), rentRoll }
+      const summary = calculateRentRoll(inputs)!
+      
+      expect(summary.occupiedUnits).toBe(2)
+      expect(summary.vacantUnits).toBe(1)
+      expect(summary.inPlaceRentMonthly).toBe(1850)
+      expect(summary.marketRentMonthly).toBe(2800)
+      expect(summary.lossToLeaseMonthly).toBe(150)
+      
+      // $150/mo more rent, less vacancy, maintenance, capex and management on it
+      const keptRate = 1 - inputs.vacancyRate / 100 - 0.08 - 0.05 - 0.08
+      expect(summary.noiUpsideAnnual).toBeCloseTo(150 * 12 * keptRate, 6)
+      expect(summary.noiAtMarketAnnual).toBeCloseTo(calculateNOI(inputs).annual + summary.noiUpsideAnnual, 6)
+      expect(calculateUnderwriting(inputs).rentRoll).toEqual(summary)
+    })
+
+    it('is omitted without a rent roll', () => {
+      expect(calculateRentRoll(baseInputs)).toBeNull()
+      expect(calculateUnderwriting(baseInputs).rentRoll).toBeUndefined()
+    })
+  })
+
+  describe('Loan Programs', () => {
+    const holdingPeriod = {
+      holdingPeriodYears: 15,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('prices conventional PMI from LTV and credit tier', () => {
+      const conventional = { ...baseInputs, loanProgram: 'conventional' as const, downPaymentPct: 5 }
+      const summary = calculateLoanProgram(conventional)!
+      
+      expect(summary.ltv).toBe(95)
+      expect(summary.upfrontFee).toBe(0)
+      expect(summary.mortgageInsuranceRate).toBe(0.62)
+      expect(summary.mortgageInsuranceMonthly).toBeCloseTo(237500 * 0.0062 / 12, 6)
+      expect(calculateDebtService(conventional).monthly).toBeCloseTo(
+        calculateMonthlyPI(237500, 7, 30) + summary.mortgageInsuranceMonthly,
+        6
+      )
+    })
+
+    it('finances the FHA upfront MIP and VA funding fee', () => {
+      const fha = calculateLoanProgram({ ...baseInputs, loanProgram: 'fha', downPaymentPct: 3.5 })!
+      expect(fha.baseLoanAmount).toBeCloseTo(241250, 6)
+      expect(fha.upfrontFee).toBeCloseTo(241250 * 0.0175, 6)
+      expect(fha.mortgageInsuranceEndMonth).toBeNull()
+      
+      const va = { ...baseInputs, loanProgram: 'va' as const, downPaymentPct: 0 }
+      expect(calculateLoanAmount(va)).toBeCloseTo(250000 * 1.0215, 6)
+      expect(calculateLoanProgram(va)!.mortgageInsuranceMonthly).toBe(0)
+    })
+
+    it('sizes the primary residence holding period on the FHA loan with the upfront MIP', () => {
+      const fha = { ...baseInputs, loanProgram: 'fha' as const, downPaymentPct: 3.5 }
+      const loanAmount = calculateLoanAmount(fha)
+      const result = calculatePrimaryResidenceHoldingPeriod({ ...holdingPeriod, underwritingInputs: fha }, 1800)
+      const schedule = generateFinancingSchedule(fha)
+      
+      expect(loanAmount).toBeCloseTo(241250 * 1.0175, 6)
+      expect(result.exitScenarios[0].netProceedsFromSale).toBeCloseTo(250000 * Math.pow(1.03, 3) * 0.94 - schedule[35].balance, 2)
+      expect(result.equityFromPrincipalPaydown).toBeCloseTo(loanAmount - schedule[15 * 12 - 1].balance, 2)
+    })
+
+    it('flags a down payment below the program minimum', () => {
+      expect(calculateLoanProgram({ ...baseInputs, loanProgram: 'fha', downPaymentPct: 3 })!.meetsMinDownPayment).toBe(false)
+      expect(calculateLoanProgram({ ...baseInputs, loanProgram: 'va', downPaymentPct: 0 })!.meetsMinDownPayment).toBe(true)
+    })
+
+    it('drops conventional PMI at 78% LTV in the projections', () => {
+      const conventional = { ...baseInputs, loanProgram: 'conventional' as const, downPaymentPct: 10, termYears: 15 }
+      const summary = calculateLoanProgram(conventional)!
+      const schedule = generateFinancingSchedule(conventional)
+      const endMonth = summary.mortgageInsuranceEndMonth!
+      
+      expect(schedule[endMonth - 2].balance).toBeLessThanOrEqual(250000 * 0.78)
+      expect(schedule[endMonth - 3].balance).toBeGreaterThan(250000 * 0.78)
+      
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: conventional })
+      const lastYear = analysis.yearlyProjections[14]
+      expect(lastYear.debtServiceAnnual).toBeCloseTo(schedule[0].payment * 12, 6)
+      expect(analysis.yearlyProjections[0].debtServiceAnnual).toBeCloseTo((schedule[0].payment + summary.mortgageInsuranceMonthly) * 12, 6)
+    })
+
+    it('ignores loan programs on a financing stack', () => {
+      const stacked = { ...baseInputs, loanProgram: 'fha' as const, financingTranches: [{ type: 'first_mortgage', amount: 200000, interestRate: 6, termYears: 30, amortizationYears: 30 } as FinancingTranche] }
+      
+      expect(calculateLoanProgram(stacked)).toBeNull()
+      expect(calculateUnderwriting(baseInputs).loanProgram).toBeUndefined()
+    })
+  })
+
+  describe('Capex Schedule', () => {
+    const capexSchedule: CapexItem[] = [
+      { component: 'Water heater', cost: 1500, remainingLifeYears: 2, inflationRate: 0 },
+      { component: 'Roof', cost: 10000, remainingLifeYears: 4, inflationRate: 3 },
+    ]
+    const scheduled = { ...baseInputs, capexSchedule }
+    const holdingPeriod = {
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('charges each replacement in its year at the inflated cost', () => {
+      expect(calculateScheduledCapex(scheduled, 1).capexAnnual).toBe(0)
+      expect(calculateScheduledCapex(scheduled, 2).capexAnnual).toBe(1500)
+      expect(calculateScheduledCapex(scheduled, 4).capexAnnual).toBeCloseTo(10000 * Math.pow(1.03, 3), 6)
+    })
+
+    it('replaces the capex percentage in the projection', () => {
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: scheduled })
+      const flat = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: baseInputs })
+      const [year1, year2] = analysis.yearlyProjections
+      const flatCapexYear1 = 2000 * 12 * 0.05
+      
+      expect(year1.capexAnnual).toBe(0)
+      expect(year1.noiAnnual).toBeCloseTo(flat.yearlyProjections[0].noiAnnual + flatCapexYear1, 6)
+      expect(year2.capexReplacementsAnnual).toBe(1500)
+      expect(flat.yearlyProjections[0].capexAnnual).toBeUndefined()
+      expect(calculateNOI(scheduled).monthly).toBeCloseTo(calculateNOI(baseInputs).monthly + flatCapexYear1 / 12, 6)
+    })
+
+    it('smooths replacements through a reserve and returns the balance at sale', () => {
+      const reserved = { ...scheduled, capexReserveMonthly: 100 }
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: reserved })
+      const capex = analysis.yearlyProjections.map((p) => p.capexAnnual)
+      
+      // Years 1-3 only fund the reserve; the roof in year 4 overdraws it
+      expect(capex.slice(0, 3)).toEqual([1200, 1200, 1200])
+      expect(analysis.yearlyProjections[2].capexReserveBalance).toBe(2100)
+      expect(capex[3]).toBeCloseTo(1200 + 10000 * Math.pow(1.03, 3) - (2100 + 1200), 6)
+      expect(analysis.yearlyProjections[4].capexReserveBalance).toBe(1200)
+      expect(analysis.exitScenario.capexReserveBalance).toBe(1200)
+    })
+
+    it('covers scheduled capex in break-even rent', () => {
+      const reserved = { ...scheduled, capexReserveMonthly: 150 }
+      const breakEvenRent = calculateBreakEvenRent(reserved)
+      
+      expect(calculateCashFlow({ ...reserved, rentMonthly: breakEvenRent }).monthly).toBeCloseTo(0, 4)
+    })
+  })
+
+  describe('Rehab and Lease-Up', () => {
+    const rehabInputs: UnderwritingInputs = {
+      ...baseInputs,
+      rehabPeriod: { rehabMonths: 3, holdingCostsMonthly: 200, leaseUpMonths: 3 },
+    }
+    const holdingPeriod = {
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('earns no rent during the rehab and ramps occupancy during lease-up', () => {
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: rehabInputs })
+      const [year1, year2] = analysis.yearlyProjections
+      // 3 empty months, then 1/4, 2/4, 3/4 occupied, then 6 full months
+      const occupiedMonths = 0.25 + 0.5 + 0.75 + 6
+      
+      expect(year1.rentAnnual).toBeCloseTo(2000 * occupiedMonths, 6)
+      expect(year2.rentAnnual).toBeCloseTo(2000 * 12 * 1.02, 6)
+    })
+
+    it('reports lost income, holding costs and the first-year cash flow', () => {
+      const summary = calculateRehabPeriod(rehabInputs)!
+      const stabilized = calculateCashFlow(baseInputs).annual
+      
+      expect(summary.stabilizedMonth).toBe(7)
+      expect(summary.lostIncome).toBeCloseTo(2000 * 0.95 * 4.5, 6)
+      expect(summary.holdingCosts).toBe(600)
+      expect(summary.firstYearCashFlow).toBeLessThan(stabilized - summary.holdingCosts)
+      // Year-one metrics stay stabilized
+      expect(calculateUnderwriting(rehabInputs).cashFlowAnnual).toBeCloseTo(stabilized, 6)
+    })
+
+    it('funds the rehab with a bridge loan and an interest reserve', () => {
+      const bridged = {
+        ...rehabInputs,
+        rehabPeriod: {
+          ...rehabInputs.rehabPeriod!,
+          bridgeLoan: { amount: 20000, interestRate: 12, pointsPct: 2, interestReserveMonths: 6 },
+        },
+      }
+      const bridgeLoan = calculateBridgeLoan(bridged)!
+      
+      expect(bridgeLoan.balance).toBeCloseTo(20000 * Math.pow(1.01, 6), 6)
+      expect(bridgeLoan.pointsCost).toBe(400)
+      expect(calculateAllInCashRequired(bridged)).toBeCloseTo(calculateAllInCashRequired(rehabInputs) - 20000 + 400, 6)
+      
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: bridged })
+      const plain = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: rehabInputs })
+      // Reserve covers months 1-6; cash interest for months 7-12
+      expect(analysis.yearlyProjections[0].debtServiceAnnual).toBeCloseTo(
+        plain.yearlyProjections[0].debtServiceAnnual + bridgeLoan.monthlyInterest * 6,
+        6
+      )
+      // Repaid at sale
+      expect(analysis.exitScenario.loanPayoff).toBeCloseTo(plain.exitScenario.loanPayoff + bridgeLoan.balance, 6)
+    })
+
+    it('repays the bridge loan from a refinance', () => {
+      const bridged = {
+        ...baseInputs,
+        rehabPeriod: {
+          rehabMonths: 4,
+          holdingCostsMonthly: 0,
+          leaseUpMonths: 0,
+          bridgeLoan: { amount: 20000, interestRate: 12, pointsPct: 0, interestReserveMonths: 0 },
+        },
+      }
+      const refinance = { month: 6, appraisedValue: 320000, ltv: 75, interestRate: 7, termYears: 30, closingCostRate: 2 }
+      const withBridge = calculateRefinance({ ...holdingPeriod, underwritingInputs: bridged, refinance })!
+      const withoutBridge = calculateRefinance({ ...holdingPeriod, underwritingInputs: baseInputs, refinance })!
+      
+      expect(withBridge.payoffBalance).toBeCloseTo(withoutBridge.payoffBalance + 20000, 6)
+      
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: bridged, refinance })
+      expect(analysis.yearlyProjections[1].interestPaidAnnual).toBeCloseTo(
+        calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: baseInputs, refinance }).yearlyProjections[1].interestPaidAnnual,
+        6
+      )
+    })
+  })
+
+  describe('Return Metrics', () => {
+    const holdingPeriod: HoldingPeriodInputs = {
+      underwritingInputs: baseInputs,
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('discounts the IRR cash flows and defaults the MIRR rates', () => {
+      const analysis = calculateHoldingPeriodAnalysis(holdingPeriod)
+      const metrics = analysis.returnMetrics!
+      
+      expect(metrics.discountRate).toBe(10)
+      expect(metrics.financeRate).toBe(7)
+      expect(metrics.reinvestmentRate).toBe(10)
+      // NPV is zero when discounting at the IRR
+      const atIrr = calculateHoldingPeriodAnalysis({ ...holdingPeriod, returnMetrics: { discountRate: analysis.irr } })
+      expect(atIrr.returnMetrics!.npv).toBeCloseTo(0, 0)
+      expect(metrics.xirr).toBeUndefined()
+    })
+
+    it('calculates XIRR from the closing date', () => {
+      const analysis = calculateHoldingPeriodAnalysis({ ...holdingPeriod, returnMetrics: { closingDate: '2026-03-15' } })
+      
+      // Monthly flows arrive earlier than year-end flows, so XIRR edges above IRR
+      expect(analysis.returnMetrics!.xirr).toBeGreaterThan(analysis.irr)
+      expect(analysis.returnMetrics!.xirr).toBeLessThan(analysis.irr + 2)
+    })
+  })
+
+  describe('Partnership Waterfall', () => {
+    const holdingPeriod: HoldingPeriodInputs = {
+      underwritingInputs: baseInputs,
+      holdingPeriodYears: 2,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+      partnership: {
+        lpEquityPct: 90,
+        preferredReturn: 8,
+        promoteTiers: [{ irrHurdle: 8, promotePct: 20 }],
+        acquisitionFeePct: 0,
+        assetManagementFeePct: 0,
+      },
+    }
+
+    it('pays the pref pro rata and splits the remainder with the promote', () => {
+      const waterfall = calculatePartnershipWaterfall(holdingPeriod, [-100000, 0, 150000])!
+      
+      expect(waterfall.lpEquity).toBe(90000)
+      expect(waterfall.gpEquity).toBe(10000)
+      // LP hurdle: 90,000 × 1.08² = 104,976, reached with 116,640 split 90/10
+      // The remaining 33,360 is split 72/28 (20% promote)
+      expect(waterfall.years[1].lpDistribution).toBeCloseTo(104976 + 24019.2, 1)
+      expect(waterfall.years[1].gpPromote).toBeCloseTo(6672, 1)
+      expect(waterfall.totalPromote).toBeCloseTo(6672, 1)
+      expect(waterfall.lp.irr).toBeCloseTo(19.72, 1)
+      expect(waterfall.gp.irr).toBeGreaterThan(waterfall.lp.irr)
+    })
+
+    it('charges fees and funds shortfalls pro rata', () => {
+      const waterfall = calculatePartnershipWaterfall(
+        {
+          ...holdingPeriod,
+          partnership: { ...holdingPeriod.partnership!, acquisitionFeePct: 1, assetManagementFeePct: 2 },
+        },
+        [-100000, 0, 150000]
+      )!
+      
+      // 1% of the $250,000 price is raised as equity and paid to the GP
+      expect(waterfall.acquisitionFee).toBe(2500)
+      expect(waterfall.totalEquity).toBe(102500)
+      expect(waterfall.years[0].cashAvailable).toBe(-2050)
+      expect(waterfall.years[0].lpDistribution).toBeCloseTo(-1845, 2)
+      expect(waterfall.lp.contributed).toBeCloseTo(92250 + 1845, 2)
+      expect(waterfall.gp.distributions).toBeGreaterThan(waterfall.acquisitionFee + waterfall.totalAssetManagementFees)
+    })
+
+    it('is only reported when partnership inputs are provided', () => {
+      const { partnership, ...ownerOnly } = holdingPeriod
+      
+      expect(partnership).toBeDefined()
+      expect(calculateHoldingPeriodAnalysis(ownerOnly).partnership).toBeUndefined()
+      expect(calculateHoldingPeriodAnalysis(holdingPeriod).partnership!.years).toHaveLength(2)
+    })
+  })
+
+  describe('Buy vs Rent', () => {
+    const holdingPeriod: HoldingPeriodInputs = {
+      underwritingInputs: baseInputs,
+      holdingPeriodYears: 7,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('invests the cash at closing and the monthly savings for the renter', () => {
+      const ownership = calculatePrimaryResidenceAnalysis(baseInputs)
+      const result = calculatePrimaryResidenceHoldingPeriod({ ...holdingPeriod, renterInvestmentReturn: 0 }, 1500)
+      const firstYear = result.buyVsRentByYear[0]
+      
+      expect(result.buyVsRentByYear).toHaveLength(7)
+      expect(firstYear.renterContributions).toBeCloseTo(ownership.annualGrossCost - 18000, 2)
+      expect(firstYear.renterPortfolio).toBeCloseTo(ownership.cashRequiredAtClose + firstYear.renterContributions, 2)
+      expect(result.exitScenarios[0].netPositionVsRenting).toBeCloseTo(
+        result.exitScenarios[0].netProceedsFromSale - result.buyVsRentByYear[2].renterPortfolio,
+        2
+      )
+    })
+
+    it('grows rent and owner costs other than the mortgage payment each year', () => {
+      const ownership = calculatePrimaryResidenceAnalysis(baseInputs)
+      const result = calculatePrimaryResidenceHoldingPeriod({ ...holdingPeriod, rentGrowthRate: 4, expenseGrowthRate: 2 }, 1500)
+      const growingCost = ownership.allInMonthlyCost - ownership.mortgagePI
+      
+      expect(result.buyVsRentByYear[1].renterContributions).toBeCloseTo(
+        (ownership.mortgagePI + growingCost * 1.02 - 1500 * 1.04) * 12,
+        2
+      )
+    })
+
+    it('agrees on the break-even year and the net position at each exit', () => {
+      // Typical upkeep, so owning pulls ahead within the exit years
+      const result = calculatePrimaryResidenceHoldingPeriod(
+        { ...holdingPeriod, underwritingInputs: { ...baseInputs, maintenanceRate: 1, capexRate: 0 }, renterInvestmentReturn: 0 },
+        1800
+      )
+      
+      expect(result.breakEvenYearBuyVsRent).toBe(6)
+      result.exitScenarios.forEach((exit) => {
+        expect(result.buyVsRentByYear[exit.year - 1].ownerEquity).toBeCloseTo(exit.netProceedsFromSale, 2)
+        expect(exit.netPositionVsRenting > 0).toBe(exit.year >= result.breakEvenYearBuyVsRent!)
+      })
+    })
+
+    it('pushes out the break-even year as the renter earns more', () => {
+      const modest = calculatePrimaryResidenceHoldingPeriod({ ...holdingPeriod, renterInvestmentReturn: 0 }, 1500)
+      const market = calculatePrimaryResidenceHoldingPeriod({ ...holdingPeriod, renterInvestmentReturn: 10 }, 1500)
+      
+      expect(market.renterInvestmentReturn).toBe(10)
+      expect(market.buyVsRentByYear[6].renterPortfolio).toBeGreaterThan(modest.buyVsRentByYear[6].renterPortfolio)
+      expect(market.exitScenarios[2].netPositionVsRenting).toBeLessThan(modest.exitScenarios[2].netPositionVsRenting)
+      expect(market.breakEvenYearBuyVsRent ?? Infinity).toBeGreaterThanOrEqual(modest.breakEvenYearBuyVsRent ?? Infinity)
+    })
+  })
+
+  describe('Fix and Flip', () => {
+    const flipInputs: UnderwritingInputs = {
+      ...baseInputs,
+      rentMonthly: 0,
+      flip: {
+        afterRepairValue: 380000,
+        rehabMonths: 4,
+        monthsToSell: 2,
+        holdingCostsMonthly: 200,
+        loanPointsPct: 2,
+        sellingCostRate: 6,
+      },
+    }
+
+    it('totals the project cost and profit over the hold', () => {
+      const flip = calculateFlip(flipInputs)!
+      
+      expect(flip.holdMonths).toBe(6)
+      expect(flip.loanPoints).toBe(4000)
+      // Interest-only: 200,000 × 7% / 12 × 6
+      expect(flip.interestCost).toBeCloseTo(7000, 2)
+      // (3,000 / 12 + 1,200 / 12 + 200) × 6
+      expect(flip.holdingCosts).toBeCloseTo(3300, 2)
+      expect(flip.sellingCosts).toBeCloseTo(22800, 2)
+      expect(flip.totalProjectCost).toBeCloseTo(314600, 2)
+      expect(flip.netProfit).toBeCloseTo(65400, 2)
+      expect(flip.cashInvested).toBeCloseTo(91800, 2)
+      expect(flip.roi).toBeCloseTo(71.24, 2)
+      expect(flip.annualizedRoi).toBeCloseTo((Math.pow(1 + flip.roi / 100, 2) - 1) * 100, 6)
+    })
+
+    it('checks the 70% rule', () => {
+      const flip = calculateFlip(flipInputs)!
+      
+      expect(flip.seventyPercentRule.maxPurchasePrice).toBeCloseTo(246000, 2)
+      expect(flip.seventyPercentRule.passes).toBe(false)
+      expect(calculateFlip({ ...flipInputs, purchasePrice: 240000 })!.seventyPercentRule.passes).toBe(true)
+      expect(calculateUnderwriting(baseInputs).flip).toBeUndefined()
+    })
+  })
+
+  describe('Itemized Closing Costs', () => {
+    const closingCostItems: ClosingCostItem[] = [
+      { category: 'origination', label: 'Origination fee', amount: 2000 },
+      { category: 'points', label: '1 point', amount: 2000 },
+      { category: 'appraisal', label: 'Appraisal', amount: 600 },
+      { category: 'title', label: 'Title policy', amount: 1200 },
+      { category: 'title', label: 'Settlement fee', amount: 600 },
+      { category: 'escrow', label: 'Prepaid taxes and insurance', amount: 1500 },
+      { category: 'transfer_tax', label: 'Transfer tax', amount: 1000 },
+    ]
+
+    it('replaces the closing cost rate and nets out credits', () => {
+      const inputs = { ...baseInputs, closingCostItems, sellerConcessions: 3000, lenderCredits: 500 }
+      const closingCosts = calculateClosingCosts(inputs)
+      
+      expect(closingCosts.grossClosingCosts).toBe(8900)
+      expect(closingCosts.byCategory.title).toBe(1800)
+      expect(closingCosts.netClosingCosts).toBe(5400)
+      // 50,000 down + 5,400 closing + 20,000 rehab
+      expect(calculateAllInCashRequired(inputs)).toBe(75400)
+      
+      const outputs = calculateUnderwriting(inputs)
+      expect(outputs.closingCosts?.netClosingCosts).toBe(5400)
+      expect(outputs.cashOnCash).toBeCloseTo((outputs.cashFlowAnnual / 75400) * 100, 6)
+      expect(calculateUnderwriting(baseInputs).closingCosts).toBeUndefined()
+    })
+
+    it('caps credits at the closing costs', () => {
+      // Rate shortcut: 250,000 × 3% = 7,500
+      const closingCosts = calculateClosingCosts({ ...baseInputs, sellerConcessions: 6000, lenderCredits: 4000 })
+      
+      expect(closingCosts.grossClosingCosts).toBe(7500)
+      expect(closingCosts.sellerConcessions).toBe(6000)
+      expect(closingCosts.lenderCredits).toBe(1500)
+      expect(closingCosts.netClosingCosts).toBe(0)
+    })
+  })
+
+  describe('Calculation Trace', () => {
+    it('explains each underwriting metric with the values behind it', () => {
+      const outputs = calculateUnderwriting(baseInputs, { trace: true })
+      const trace = outputs.trace!
+      
+      expect(calculateUnderwriting(baseInputs).trace).toBeUndefined()
+      expect(trace.dscr.result.value).toBe(outputs.dscr)
+      const [noi, debtService] = trace.dscr.steps
+      expect(noi.value / debtService.value).toBeCloseTo(outputs.dscr, 10)
+      
+      const [gross, vacancy, expenses, noiMonthly] = trace.noiAnnual.steps
+      expect(gross.value - vacancy.value - expenses.value).toBeCloseTo(noiMonthly.value, 6)
+      expect(noiMonthly.value * 12).toBeCloseTo(outputs.noiAnnual, 6)
+      
+      const [debt, fixed, otherIncome, share] = trace.breakEvenRentMonthly.steps
+      expect((debt.value + fixed.value - otherIncome.value) / (share.value / 100)).toBeCloseTo(outputs.breakEvenRentMonthly, 6)
+      
+      const allInSteps = trace.allInCashRequired.steps.map((step) => step.value)
+      expect(allInSteps[0] + allInSteps[1] + allInSteps[2] + allInSteps[3] - allInSteps[4]).toBeCloseTo(outputs.allInCashRequired, 6)
+    })
+
+    it('lists itemized closing costs and credits behind all-in cash', () => {
+      const itemized = calculateUnderwriting(
+        {
+          ...baseInputs,
+          closingCostItems: [
+            { category: 'title', label: 'Title policy', amount: 2000 },
+            { category: 'origination', label: 'Origination fee', amount: 3000 },
+          ],
+          sellerConcessions: 1000,
+          lenderCredits: 500,
+        },
+        { trace: true }
+      ).trace!
+      const labels = itemized.allInCashRequired.inputs.map((input) => input.label)
+      
+      expect(labels).not.toContain('Closing Cost Rate')
+      expect(itemized.allInCashRequired.inputs.slice(2).map((input) => input.value)).toEqual([5000, 1000, 500])
+      expect(calculateUnderwriting(baseInputs, { trace: true }).trace!.allInCashRequired.inputs.map((input) => input.label))
+        .toEqual(['Purchase Price', 'Down Payment', 'Closing Cost Rate'])
+    })
+
+    it('lists the IRR cash flows and exit math for the holding period', () => {
+      const holdingInputs: HoldingPeriodInputs = {
+        underwritingInputs: baseInputs,
+        holdingPeriodYears: 5,
+        appreciationRate: 3,
+        rentGrowthRate: 2,
+        expenseGrowthRate: 2,
+        sellingCostRate: 6,
+      }
+      const result = calculateHoldingPeriodAnalysis(holdingInputs, { trace: true })
+      const trace = result.trace!
+      
+      expect(calculateHoldingPeriodAnalysis(holdingInputs).trace).toBeUndefined()
+      expect(trace.irr.steps).toHaveLength(6)
+      expect(trace.irr.steps[0].value).toBeCloseTo(-result.exitScenario.initialInvestment, 6)
+      expect(calculateIRR(trace.irr.steps.map((step) => step.value))).toBeCloseTo(result.irr, 6)
+      
+      const [netProceeds, cumulativeCashFlow, refinanceCashOut, initialInvestment] = trace.totalProfit.steps
+      expect(netProceeds.value + cumulativeCashFlow.value + refinanceCashOut.value - initialInvestment.value)
+        .toBeCloseTo(result.exitScenario.totalProfit, 6)
+      expect(trace.equityMultiple.result.value).toBe(result.equityMultiple)
+    })
+
+    it('traces NPV, MIRR and XIRR from the same cash flows', () => {
+      const holdingInputs: HoldingPeriodInputs = {
+        underwritingInputs: baseInputs,
+        holdingPeriodYears: 5,
+        appreciationRate: 3,
+        rentGrowthRate: 2,
+        expenseGrowthRate: 2,
+        sellingCostRate: 6,
+      }
+      const trace = calculateHoldingPeriodAnalysis(holdingInputs, { trace: true }).trace!
+      const withClosingDate = calculateHoldingPeriodAnalysis(
+        { ...holdingInputs, returnMetrics: { closingDate: '2026-01-15' } },
+        { trace: true }
+      )
+      const { returnMetrics } = withClosingDate
+      
+      expect(trace.npv.steps.reduce((sum, step) => sum + step.value, 0)).toBeCloseTo(trace.npv.result.value, 6)
+      const [inflows, outflows] = withClosingDate.trace!.mirr.steps
+      expect((Math.pow(inflows.value / outflows.value, 1 / 5) - 1) * 100).toBeCloseTo(returnMetrics!.mirr, 6)
+      expect(trace.xirr).toBeUndefined()
+      expect(withClosingDate.trace!.xirr!.result.value).toBe(returnMetrics!.xirr)
+    })
+  })
+
+  describe('Value-add', () => {
+    const valueAddInputs: UnderwritingInputs = {
+      ...baseInputs,
+      valueAdd: { afterRepairValue: 320000, stabilizedRentMonthly: 2400, stabilizationMonth: 7 },
+    }
+    const holdingInputs: HoldingPeriodInputs = {
+      underwritingInputs: valueAddInputs,
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+
+    it('reports equity created and return on rehab dollars', () => {
+      const valueAdd = calculateUnderwriting(valueAddInputs).valueAdd!
+      
+      // All-in: 250,000 price + 7,500 closing + 20,000 rehab
+      expect(valueAdd.allInCost).toBe(277500)
+      expect(valueAdd.equityCreated).toBe(42500)
+      expect(valueAdd.valueAdded).toBe(70000)
+      // (70,000 value added - 20,000 rehab) / 20,000 rehab
+      expect(valueAdd.returnOnRehab).toBeCloseTo(250, 10)
+      expect(valueAdd.rentIncreaseMonthly).toBe(400)
+      expect(calculateUnderwriting(baseInputs).valueAdd).toBeUndefined()
+    })
+
+    it('steps up value and rent at stabilization, then appreciates from the ARV', () => {
+      const result = calculateHoldingPeriodAnalysis(holdingInputs)
+      const [year1, year2] = result.yearlyProjections
+      
+      // Stabilized from month 7: six months appreciating from the ARV
+      expect(year1.propertyValue).toBeCloseTo(320000 * Math.pow(1.03, 0.5), 6)
+      expect(year2.propertyValue).toBeCloseTo(320000 * Math.pow(1.03, 1.5), 6)
+      // Six months of in-place rent, six at market rent
+      expect(year1.rentAnnual).toBeCloseTo(2000 * 6 + 2400 * 6, 6)
+      expect(year2.rentAnnual).toBeCloseTo(2400 * 12 * 1.02, 6)
+      
+      const withoutValueAdd = calculateHoldingPeriodAnalysis({ ...holdingInputs, underwritingInputs: baseInputs })
+      expect(result.irr).toBeGreaterThan(withoutValueAdd.irr)
+    })
+  })
+
+  describe('Exit Valuation', () => {
+    const holdingInputs: HoldingPeriodInputs = {
+      underwritingInputs: baseInputs,
+      holdingPeriodYears: 5,
+      appreciationRate: 3,
+      rentGrowthRate: 2,
+      expenseGrowthRate: 2,
+      sellingCostRate: 6,
+    }
+    // Year 6 of a six-year projection is the forward year of a five-year hold
+    const forwardYear = calculateHoldingPeriodAnalysis({ ...holdingInputs, holdingPeriodYears: 6 }).yearlyProjections[5]
+
+    it('sells at forward NOI over the exit cap rate plus expansion', () => {
+      const result = calculateHoldingPeriodAnalysis({
+        ...holdingInputs,
+        exitValuation: { method: 'cap_rate', exitCapRate: 6, capRateExpansion: 0.5 },
+      })
+      const { exitScenario } = result
+      
+      expect(exitScenario.valuationMethod).toBe('cap_rate')
+      expect(exitScenario.exitCapRate).toBe(6.5)
+      expect(exitScenario.forwardNoi).toBeCloseTo(forwardYear.noiAnnual, 6)
+      expect(exitScenario.salePrice).toBeCloseTo(forwardYear.noiAnnual / 0.065, 6)
+      expect(exitScenario.sellingCosts).toBeCloseTo(exitScenario.salePrice * 0.06, 6)
+      
+      // Without an exit cap the going-in cap rate is used
+      const goingIn = calculateHoldingPeriodAnalysis({ ...holdingInputs, exitValuation: { method: 'cap_rate' } })
+      expect(goingIn.exitScenario.exitCapRate).toBeCloseTo(calculateCapRate(baseInputs), 10)
+    })
+
+    it('sells at a gross rent multiple, defaulting to appreciation', () => {
+      const grm = calculateHoldingPeriodAnalysis({
+        ...holdingInputs,
+        exitValuation: { method: 'grm', grossRentMultiplier: 10 },
+      }).exitScenario
+      const appreciation = calculateHoldingPeriodAnalysis(holdingInputs)
+      
+      expect(grm.valuationMethod).toBe('grm')
+      expect(grm.forwardGrossRent).toBeCloseTo(forwardYear.grossIncomeAnnual, 6)
+      expect(grm.salePrice).toBeCloseTo(forwardYear.grossIncomeAnnual * 10, 6)
+      expect(appreciation.exitScenario.valuationMethod).toBe('appreciation')
+      expect(appreciation.exitScenario.salePrice).toBe(appreciation.yearlyProjections[4].propertyValue)
+    })
+  })
 })
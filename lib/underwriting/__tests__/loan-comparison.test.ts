@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { compareLoanOffers } from '../loan-comparison'
+import { calculateUnderwriting, calculateHoldingPeriodAnalysis, calculateMonthlyPI } from '../engine'
+import { LoanOffer, UnderwritingInputs } from '@/lib/types'
+
+describe('Loan Offer Comparison', () => {
+  const baseInputs: UnderwritingInputs = {
+    purchasePrice: 250000,
+    closingCostRate: 3,
+    rehabCost: 20000,
+    downPaymentPct: 20,
+    interestRate: 7,
+    termYears: 30,
+    pmiEnabled: false,
+    pmiMonthly: 0,
+    taxesAnnual: 3000,
+    insuranceAnnual: 1200,
+    hoaMonthly: 0,
+    utilitiesMonthly: 100,
+    rentMonthly: 2000,
+    otherIncomeMonthly: 0,
+    vacancyRate: 5,
+    maintenanceRate: 8,
+    capexRate: 5,
+    managementRate: 8,
+  }
+
+  const holdingPeriod = {
+    holdingPeriodYears: 5,
+    appreciationRate: 3,
+    rentGrowthRate: 2,
+    expenseGrowthRate: 2,
+    sellingCostRate: 6,
+  }
+
+  const parRate: LoanOffer = {
+    label: 'Par rate',
+    interestRate: 7,
+    pointsPct: 0,
+    lenderCredit: 0,
+    buydown: 'none',
+    buydownPaidBy: 'buyer',
+  }
+
+  it('matches the deal analysis for a zero-point offer at the deal rate', () => {
+    const [result] = compareLoanOffers({ underwritingInputs: baseInputs, holdingPeriod, offers: [parRate] })
+    const outputs = calculateUnderwriting(baseInputs)
+
+    expect(result.loanAmount).toBe(200000)
+    expect(result.monthlyPayment).toBeCloseTo(calculateMonthlyPI(200000, 7, 30), 6)
+    expect(result.cashToClose).toBeCloseTo(50000 + 7500, 6)
+    expect(result.cashFlowMonthly).toBeCloseTo(outputs.cashFlowMonthly, 6)
+    expect(result.irr).toBeCloseTo(calculateHoldingPeriodAnalysis({ ...holdingPeriod, underwritingInputs: baseInputs }).irr, 6)
+    expect(result.pointsBreakEvenMonths).toBeNull()
+  })
+
+  it('adds points to cash to close and measures the break-even against the cheapest offer', () => {
+    const bought: LoanOffer = { ...parRate, label: 'Two points', interestRate: 6.5, pointsPct: 2 }
+    const [par, points] = compareLoanOffers({ underwritingInputs: baseInputs, offers: [parRate, bought] })
+
+    expect(points.pointsCost).toBe(4000)
+    expect(points.cashToClose).toBeCloseTo(par.cashToClose + 4000, 6)
+    expect(points.irr).toBeNull()
+
+    const savings = calculateMonthlyPI(200000, 7, 30) - calculateMonthlyPI(200000, 6.5, 30)
+    expect(points.pointsBreakEvenMonths).toBeCloseTo(4000 / savings, 6)
+    expect(par.pointsBreakEvenMonths).toBeNull()
+  })
+
+  it('lowers the first-year payment with a 2-1 buydown and charges the subsidy to the payer', () => {
+    const buyerPaid: LoanOffer = { ...parRate, label: '2-1 buyer', buydown: '2-1' }
+    const sellerPaid: LoanOffer = { ...buyerPaid, label: '2-1 seller', buydownPaidBy: 'seller' }
+    const [par, buyer, seller] = compareLoanOffers({
+      underwritingInputs: baseInputs,
+      holdingPeriod,
+      offers: [parRate, buyerPaid, sellerPaid],
+    })
+
+    const notePayment = calculateMonthlyPI(200000, 7, 30)
+    const expectedSubsidy = (notePayment - calculateMonthlyPI(200000, 5, 30)) * 12 +
+      (notePayment - calculateMonthlyPI(200000, 6, 30)) * 12
+
+    expect(buyer.monthlyPayment).toBeCloseTo(calculateMonthlyPI(200000, 5, 30), 6)
+    expect(buyer.noteRatePayment).toBeCloseTo(notePayment, 6)
+    expect(buyer.buydownCost).toBeCloseTo(expectedSubsidy, 6)
+    expect(buyer.cashToClose).toBeCloseTo(par.cashToClose + expectedSubsidy, 6)
+    expect(seller.cashToClose).toBeCloseTo(par.cashToClose, 6)
+
+    // Seller-paid savings are free money; buyer-paid savings only return the subsidy later
+    expect(seller.irr!).toBeGreaterThan(par.irr!)
+    expect(buyer.irr!).toBeLessThan(seller.irr!)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getConventionalPmiRate,
+  getFhaAnnualMipRate,
+  getVaFundingFeeRate,
+  getUpfrontFeeRate,
+  getMortgageInsuranceRate,
+  getFhaMipMonths,
+} from '../loan-programs'
+
+describe('Loan Programs', () => {
+  it('prices conventional PMI by LTV band and credit tier', () => {
+    expect(getConventionalPmiRate(80)).toBe(0)
+    expect(getConventionalPmiRate(97)).toBe(0.85)
+    expect(getConventionalPmiRate(95)).toBe(0.62)
+    expect(getConventionalPmiRate(90, 'excellent')).toBe(0.30)
+    expect(getConventionalPmiRate(85, 'poor')).toBe(0.50)
+  })
+
+  it('prices FHA annual MIP by LTV and term', () => {
+    expect(getFhaAnnualMipRate(96.5, 30)).toBe(0.55)
+    expect(getFhaAnnualMipRate(90, 30)).toBe(0.50)
+    expect(getFhaAnnualMipRate(96.5, 15)).toBe(0.40)
+    expect(getFhaAnnualMipRate(90, 15)).toBe(0.15)
+  })
+
+  it('keeps FHA MIP for the life of the loan above 90% LTV', () => {
+    expect(getFhaMipMonths(96.5)).toBeNull()
+    expect(getFhaMipMonths(90)).toBe(132)
+  })
+
+  it('scales the VA funding fee with down payment and prior use', () => {
+    expect(getVaFundingFeeRate(0)).toBe(2.15)
+    expect(getVaFundingFeeRate(0, true)).toBe(3.3)
+    expect(getVaFundingFeeRate(5, true)).toBe(1.5)
+    expect(getVaFundingFeeRate(10)).toBe(1.25)
+    expect(getVaFundingFeeRate(0, false, true)).toBe(0)
+  })
+
+  it('finances an upfront fee only for FHA and VA', () => {
+    expect(getUpfrontFeeRate('conventional', 5)).toBe(0)
+    expect(getUpfrontFeeRate('fha', 3.5)).toBe(1.75)
+    expect(getUpfrontFeeRate('va', 0)).toBe(2.15)
+  })
+
+  it('charges no monthly mortgage insurance on VA loans', () => {
+    expect(getMortgageInsuranceRate('va', 100, 30)).toBe(0)
+    expect(getMortgageInsuranceRate('fha', 96.5, 30)).toBe(0.55)
+    expect(getMortgageInsuranceRate('conventional', 95, 30, 'fair')).toBe(0.98)
+  })
+})
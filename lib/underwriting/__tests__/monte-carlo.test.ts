@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createSeededRandom,
+  getPercentile,
+  calculatePercentileBand,
+  runMonteCarloSimulation,
+} from '../monte-carlo'
+import { calculateHoldingPeriodAnalysis } from '../engine'
+import { HoldingPeriodInputs, MonteCarloInputs } from '@/lib/types'
+
+describe('Monte Carlo Simulation', () => {
+  const holdingPeriodInputs: HoldingPeriodInputs = {
+    underwritingInputs: {
+      purchasePrice: 250000,
+      closingCostRate: 3,
+      rehabCost: 20000,
+      downPaymentPct: 20,
+      interestRate: 7,
+      termYears: 30,
+      pmiEnabled: false,
+      pmiMonthly: 0,
+      taxesAnnual: 3000,
+      insuranceAnnual: 1200,
+      hoaMonthly: 0,
+      utilitiesMonthly: 100,
+      rentMonthly: 2000,
+      otherIncomeMonthly: 0,
+      vacancyRate: 5,
+      maintenanceRate: 8,
+      capexRate: 5,
+      managementRate: 8,
+    },
+    holdingPeriodYears: 5,
+    appreciationRate: 3,
+    rentGrowthRate: 2,
+    expenseGrowthRate: 2,
+    sellingCostRate: 6,
+  }
+
+  const baseInputs: MonteCarloInputs = {
+    holdingPeriodInputs,
+    appreciationRate: { mean: 3, volatility: 2 },
+    rentGrowthRate: { mean: 2, volatility: 1.5 },
+    expenseGrowthRate: { mean: 2, volatility: 1 },
+    vacancyRate: { mean: 5, volatility: 2 },
+    trials: 200,
+    seed: 42,
+  }
+
+  describe('createSeededRandom', () => {
+    it('produces the same sequence for the same seed', () => {
+      const a = createSeededRandom(7)
+      const b = createSeededRandom(7)
+
+      for (let i = 0; i < 5; i++) {
+        expect(a()).toBe(b())
+      }
+    })
+
+    it('produces values in [0, 1)', () => {
+      const random = createSeededRandom(123)
+      for (let i = 0; i < 1000; i++) {
+        const value = random()
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      }
+    })
+  })
+
+  describe('getPercentile', () => {
+    it('interpolates between sorted values', () => {
+      const sorted = [0, 10, 20, 30, 40]
+
+      expect(getPercentile(sorted, 0)).toBe(0)
+      expect(getPercentile(sorted, 50)).toBe(20)
+      expect(getPercentile(sorted, 90)).toBe(36)
+      expect(getPercentile(sorted, 100)).toBe(40)
+    })
+
+    it('returns 0 for no values', () => {
+      expect(getPercentile([], 50)).toBe(0)
+    })
+  })
+
+  describe('calculatePercentileBand', () => {
+    it('orders percentiles from low to high', () => {
+      const band = calculatePercentileBand([5, 1, 9, 3, 7])
+
+      expect(band.p10).toBeLessThanOrEqual(band.p25)
+      expect(band.p25).toBeLessThanOrEqual(band.p50)
+      expect(band.p50).toBe(5)
+      expect(band.p75).toBeLessThanOrEqual(band.p90)
+    })
+  })
+
+  describe('runMonteCarloSimulation', () => {
+    it('is reproducible for the same seed', () => {
+      expect(runMonteCarloSimulation(baseInputs)).toEqual(runMonteCarloSimulation(baseInputs))
+    })
+
+    it('collapses to the deterministic result with zero volatility', () => {
+      const result = runMonteCarloSimulation({
+        ...baseInputs,
+        appreciationRate: { mean: 3, volatility: 0 },
+        rentGrowthRate: { mean: 2, volatility: 0 },
+        expenseGrowthRate: { mean: 2, volatility: 0 },
+        vacancyRate: { mean: 5, volatility: 0 },
+        trials: 10,
+      })
+      const deterministic = calculateHoldingPeriodAnalysis(holdingPeriodInputs)
+
+      expect(result.irr.p10).toBeCloseTo(deterministic.irr, 6)
+      expect(result.irr.p90).toBeCloseTo(deterministic.irr, 6)
+      expect(result.equityMultiple.p50).toBeCloseTo(deterministic.equityMultiple, 6)
+      expect(result.probabilityOfLoss).toBe(deterministic.exitScenario.totalProfit < 0 ? 100 : 0)
+    })
+
+    it('returns a band per year for fan charts', () => {
+      const result = runMonteCarloSimulation(baseInputs)
+
+      expect(result.yearlyEquity).toHaveLength(5)
+      expect(result.yearlyCumulativeCashFlow).toHaveLength(5)
+      expect(result.yearlyEquity[4].p10).toBeLessThan(result.yearlyEquity[4].p90)
+    })
+
+    it('reports the probability of loss as a percentage of trials', () => {
+      const result = runMonteCarloSimulation({
+        ...baseInputs,
+        appreciationRate: { mean: -5, volatility: 3 },
+      })
+
+      expect(result.probabilityOfLoss).toBeGreaterThan(50)
+      expect(result.probabilityOfLoss).toBeLessThanOrEqual(100)
+    })
+  })
+})
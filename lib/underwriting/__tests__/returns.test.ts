@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { calculateNPV, calculateMIRR, calculatePaybackYear, calculateXIRR, addMonths } from '../returns'
+
+describe('Return Metrics', () => {
+  it('discounts cash flows to present value', () => {
+    expect(calculateNPV([-100, 110], 10)).toBeCloseTo(0, 10)
+    expect(calculateNPV([-1000, 500, 500, 500], 0)).toBe(500)
+  })
+
+  it('calculates MIRR with separate finance and reinvestment rates', () => {
+    const cashFlows = [-120000, 39000, 30000, 21000, 37000, 46000]
+    
+    expect(calculateMIRR(cashFlows, 10, 12)).toBeCloseTo(12.61, 2)
+    expect(calculateMIRR(cashFlows, 10, 14)).toBeCloseTo(13.48, 2)
+  })
+
+  it('finds the payback year', () => {
+    expect(calculatePaybackYear([-1000, 300, 300, 300, 300])).toBe(4)
+    expect(calculatePaybackYear([-1000, 300, 300])).toBeNull()
+  })
+
+  it('solves XIRR from dated cash flows', () => {
+    const xirr = calculateXIRR([
+      { date: '2008-01-01', amount: -10000 },
+      { date: '2008-03-01', amount: 2750 },
+      { date: '2008-10-30', amount: 4250 },
+      { date: '2009-02-15', amount: 3250 },
+      { date: '2009-04-01', amount: 2750 },
+    ])
+    
+    expect(xirr).toBeCloseTo(37.34, 1)
+  })
+
+  it('adds months, clamping to the end of shorter months', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28')
+    expect(addMonths('2026-11-15', 3)).toBe('2027-02-15')
+  })
+})
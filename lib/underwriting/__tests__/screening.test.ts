@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { calculateScreening, getScreeningInputs } from '../screening'
+import { calculateMonthlyPI } from '../engine'
+import { Deal, ScreeningInputs } from '@/lib/types'
+
+describe('Quick Screen', () => {
+  const inputs: ScreeningInputs = {
+    purchasePrice: 180000,
+    rehabCost: 20000,
+    rentMonthly: 2000,
+    downPaymentPct: 20,
+    interestRate: 7,
+    termYears: 30,
+    units: 2,
+    sqft: 1600,
+  }
+
+  it('applies the 1%, 2% and 50% rules to rent, price and rehab', () => {
+    const screening = calculateScreening(inputs)
+
+    // 2,000 / (180,000 + 20,000)
+    expect(screening.rentToPriceRatio).toBeCloseTo(1, 10)
+    expect(screening.passesOnePercentRule).toBe(true)
+    expect(screening.passesTwoPercentRule).toBe(false)
+    expect(screening.fiftyPercentCashFlowMonthly).toBeCloseTo(1000 - calculateMonthlyPI(144000, 7, 30), 6)
+    expect(screening.passesFiftyPercentRule).toBe(true)
+  })
+
+  it('reports GRM and price per unit and sqft', () => {
+    const screening = calculateScreening(inputs)
+
+    expect(screening.grossRentMultiplier).toBeCloseTo(7.5, 10)
+    expect(screening.pricePerUnit).toBe(90000)
+    expect(screening.pricePerSqft).toBe(112.5)
+    expect(screening.rentPerSqft).toBe(1.25)
+    expect(calculateScreening({ ...inputs, sqft: null }).pricePerSqft).toBeNull()
+  })
+
+  it('screens a deal at list price with default financing until it is underwritten', () => {
+    const deal = {
+      listPrice: 200000,
+      purchasePrice: null,
+      rehabCost: null,
+      rentMonthly: 1800,
+      downPaymentPct: null,
+      interestRate: null,
+      termYears: null,
+      numberOfUnits: null,
+      sqft: null,
+      rentRoll: [],
+    } as unknown as Deal
+
+    expect(getScreeningInputs(deal)).toEqual({
+      purchasePrice: 200000,
+      rehabCost: 0,
+      rentMonthly: 1800,
+      downPaymentPct: 20,
+      interestRate: 7,
+      termYears: 30,
+      units: 1,
+      sqft: null,
+    })
+    expect(getScreeningInputs({ ...deal, rentMonthly: null })).toBeNull()
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applySensitivityValue,
+  getSensitivityValue,
+  getAxisValues,
+  calculateSensitivityGrid,
+  getDefaultTornadoRanges,
+  calculateTornado,
+} from '../sensitivity'
+import { calculateUnderwriting, calculateHoldingPeriodAnalysis } from '../engine'
+import { HoldingPeriodInputs } from '@/lib/types'
+
+describe('Sensitivity Analysis', () => {
+  const inputs: HoldingPeriodInputs = {
+    underwritingInputs: {
+      purchasePrice: 250000,
+      closingCostRate: 3,
+      rehabCost: 20000,
+      downPaymentPct: 20,
+      interestRate: 7,
+      termYears: 30,
+      pmiEnabled: false,
+      pmiMonthly: 0,
+      taxesAnnual: 3000,
+      insuranceAnnual: 1200,
+      hoaMonthly: 0,
+      utilitiesMonthly: 100,
+      rentMonthly: 2000,
+      otherIncomeMonthly: 0,
+      vacancyRate: 5,
+      maintenanceRate: 8,
+      capexRate: 5,
+      managementRate: 8,
+    },
+    holdingPeriodYears: 5,
+    appreciationRate: 3,
+    rentGrowthRate: 2,
+    expenseGrowthRate: 2,
+    sellingCostRate: 6,
+  }
+
+  describe('applySensitivityValue', () => {
+    it('sets underwriting and holding period variables in the right place', () => {
+      expect(applySensitivityValue(inputs, 'interestRate', 6).underwritingInputs.interestRate).toBe(6)
+      expect(applySensitivityValue(inputs, 'appreciationRate', 5).appreciationRate).toBe(5)
+      // Original inputs are untouched
+      expect(inputs.underwritingInputs.interestRate).toBe(7)
+    })
+
+    it('values the sale by cap rate when the exit cap rate is flexed', () => {
+      const flexed = applySensitivityValue(inputs, 'exitCapRate', 4.5)
+
+      expect(flexed.exitValuation).toEqual({ method: 'cap_rate', exitCapRate: 4.5 })
+      expect(getSensitivityValue(flexed, 'exitCapRate')).toBe(4.5)
+      // A higher exit cap means a lower sale price
+      expect(calculateHoldingPeriodAnalysis(applySensitivityValue(inputs, 'exitCapRate', 5.5)).irr)
+        .toBeLessThan(calculateHoldingPeriodAnalysis(flexed).irr)
+      expect(getDefaultTornadoRanges(inputs).some((range) => range.variable === 'exitCapRate')).toBe(false)
+      expect(getDefaultTornadoRanges(flexed).find((range) => range.variable === 'exitCapRate'))
+        .toEqual({ variable: 'exitCapRate', low: 3.5, high: 5.5 })
+    })
+  })
+
+  describe('getAxisValues', () => {
+    it('spaces values evenly from min to max', () => {
+      expect(getAxisValues({ variable: 'vacancyRate', min: 0, max: 10, steps: 5 })).toEqual([0, 2.5, 5, 7.5, 10])
+    })
+
+    it('returns the min for a single step', () => {
+      expect(getAxisValues({ variable: 'vacancyRate', min: 4, max: 10, steps: 1 })).toEqual([4])
+    })
+  })
+
+  describe('calculateSensitivityGrid', () => {
+    it('matches the engine at every cell', () => {
+      const grid = calculateSensitivityGrid(
+        inputs,
+        { variable: 'interestRate', min: 6, max: 8, steps: 3 },
+        { variable: 'purchasePrice', min: 225000, max: 275000, steps: 3 },
+        'cashFlowMonthly'
+      )
+
+      expect(grid.values).toHaveLength(3)
+      expect(grid.values[0]).toHaveLength(3)
+
+      const expected = calculateUnderwriting({ ...inputs.underwritingInputs, interestRate: 8, purchasePrice: 225000 })
+      expect(grid.values[2][0]).toBeCloseTo(expected.cashFlowMonthly, 6)
+      expect(grid.baseValue).toBeCloseTo(calculateUnderwriting(inputs.underwritingInputs).cashFlowMonthly, 6)
+    })
+
+    it('runs the holding period analysis for IRR', () => {
+      const grid = calculateSensitivityGrid(
+        inputs,
+        { variable: 'rentMonthly', min: 1800, max: 2200, steps: 3 },
+        { variable: 'appreciationRate', min: 1, max: 5, steps: 3 },
+        'irr'
+      )
+
+      const expected = calculateHoldingPeriodAnalysis({
+        ...inputs,
+        appreciationRate: 5,
+        underwritingInputs: { ...inputs.underwritingInputs, rentMonthly: 1800 },
+      })
+      expect(grid.values[0][2]).toBeCloseTo(expected.irr, 6)
+      // Higher rent and appreciation both raise IRR
+      expect(grid.values[2][2]).toBeGreaterThan(grid.values[0][0])
+    })
+  })
+
+  describe('calculateTornado', () => {
+    it('sorts bars by swing, largest first', () => {
+      const tornado = calculateTornado(inputs, getDefaultTornadoRanges(inputs))
+
+      expect(tornado.metric).toBe('irr')
+      expect(tornado.bars.length).toBeGreaterThan(1)
+      for (let i = 1; i < tornado.bars.length; i++) {
+        expect(tornado.bars[i - 1].swing).toBeGreaterThanOrEqual(tornado.bars[i].swing)
+      }
+    })
+
+    it('brackets the base value for each bar', () => {
+      const tornado = calculateTornado(inputs, [{ variable: 'rentMonthly', low: 1800, high: 2200 }])
+      const bar = tornado.bars[0]
+
+      expect(bar.lowResult).toBeLessThan(tornado.baseValue)
+      expect(bar.highResult).toBeGreaterThan(tornado.baseValue)
+      expect(bar.swing).toBeCloseTo(bar.highResult - bar.lowResult, 6)
+    })
+  })
+})
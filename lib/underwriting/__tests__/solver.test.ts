@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { calculateMaxOffer } from '../solver'
+import { calculateUnderwriting, calculateHoldingPeriodAnalysis } from '../engine'
+import { UnderwritingInputs } from '@/lib/types'
+
+describe('Max Offer Solver', () => {
+  const baseInputs: UnderwritingInputs = {
+    purchasePrice: 250000,
+    closingCostRate: 3,
+    rehabCost: 20000,
+    downPaymentPct: 20,
+    interestRate: 7,
+    termYears: 30,
+    pmiEnabled: false,
+    pmiMonthly: 0,
+    taxesAnnual: 3000,
+    insuranceAnnual: 1200,
+    hoaMonthly: 0,
+    utilitiesMonthly: 100,
+    rentMonthly: 2000,
+    otherIncomeMonthly: 0,
+    vacancyRate: 5,
+    maintenanceRate: 8,
+    capexRate: 5,
+    managementRate: 8,
+  }
+
+  const holdingPeriod = {
+    holdingPeriodYears: 5,
+    appreciationRate: 3,
+    rentGrowthRate: 2,
+    expenseGrowthRate: 2,
+    sellingCostRate: 6,
+  }
+
+  it('finds the highest price that meets a cash flow target', () => {
+    const result = calculateMaxOffer({
+      underwritingInputs: baseInputs,
+      targets: { minCashFlowMonthly: 200 },
+    })
+
+    expect(result.maxPurchasePrice).not.toBeNull()
+    expect(result.bindingTarget).toBe('minCashFlowMonthly')
+    expect(result.outputs!.cashFlowMonthly).toBeGreaterThanOrEqual(200)
+
+    // One step above the answer misses the target
+    const above = calculateUnderwriting({ ...baseInputs, purchasePrice: result.maxPurchasePrice! + 10 })
+    expect(above.cashFlowMonthly).toBeLessThan(200)
+  })
+
+  it('returns the price of the tightest target when several are set', () => {
+    const capRateOnly = calculateMaxOffer({ underwritingInputs: baseInputs, targets: { minCapRate: 6 } })
+    const dscrOnly = calculateMaxOffer({ underwritingInputs: baseInputs, targets: { minDscr: 1.25 } })
+    const both = calculateMaxOffer({ underwritingInputs: baseInputs, targets: { minCapRate: 6, minDscr: 1.25 } })
+
+    expect(both.maxPurchasePrice).toBe(Math.min(capRateOnly.maxPurchasePrice!, dscrOnly.maxPurchasePrice!))
+    expect(both.bindingTarget).toBe(
+      capRateOnly.maxPurchasePrice! <= dscrOnly.maxPurchasePrice! ? 'minCapRate' : 'minDscr'
+    )
+    expect(both.outputs!.capRate).toBeGreaterThanOrEqual(6)
+    expect(both.outputs!.dscr).toBeGreaterThanOrEqual(1.25)
+  })
+
+  it('solves an IRR target with holding period assumptions', () => {
+    const result = calculateMaxOffer({
+      underwritingInputs: baseInputs,
+      holdingPeriod,
+      targets: { minIrr: 12 },
+    })
+
+    expect(result.maxPurchasePrice).not.toBeNull()
+    expect(result.irr).toBeGreaterThanOrEqual(12)
+
+    const above = calculateHoldingPeriodAnalysis({
+      ...holdingPeriod,
+      underwritingInputs: { ...baseInputs, purchasePrice: result.maxPurchasePrice! + 100 },
+    })
+    expect(above.irr).toBeLessThan(12)
+  })
+
+  it('returns null when no price meets the targets', () => {
+    const result = calculateMaxOffer({
+      underwritingInputs: { ...baseInputs, rentMonthly: 100 },
+      targets: { minCashFlowMonthly: 500 },
+    })
+
+    expect(result.maxPurchasePrice).toBeNull()
+    expect(result.reason).toBe('targets_unmet')
+    expect(result.bindingTarget).toBe('minCashFlowMonthly')
+    expect(result.outputs).toBeNull()
+  })
+
+  it('has no max offer when no target limits the price', () => {
+    // All cash: no debt service, so any DSCR target is met at every price
+    const allCash = { ...baseInputs, downPaymentPct: 100 }
+    const result = calculateMaxOffer({ underwritingInputs: allCash, targets: { minDscr: 1.25 } })
+
+    expect(result.maxPurchasePrice).toBeNull()
+    expect(result.reason).toBe('no_limit')
+    expect(result.bindingTarget).toBeNull()
+    expect(result.outputs).toBeNull()
+
+    // Another target still caps the price
+    const withCapRate = calculateMaxOffer({ underwritingInputs: allCash, targets: { minDscr: 1.25, minCapRate: 6 } })
+    expect(withCapRate.maxPurchasePrice).not.toBeNull()
+    expect(withCapRate.bindingTarget).toBe('minCapRate')
+  })
+
+  it('returns null when no targets are set', () => {
+    const result = calculateMaxOffer({ underwritingInputs: baseInputs, targets: {} })
+
+    expect(result.maxPurchasePrice).toBeNull()
+    expect(result.reason).toBe('no_targets')
+    expect(result.bindingTarget).toBeNull()
+  })
+})
@@ -5,9 +5,54 @@ import {
   HoldingPeriodOutputs,
   YearlyProjection,
   ExitScenario,
+  RefinanceSummary,
+  PaymentShock,
+  FinancingTranche,
+  TaxInputs,
+  ShortTermRentalInputs,
+  ShortTermRentalSummary,
+  HouseHackSummary,
+  FhaOwnerOccupancyCheck,
+  FhaSelfSufficiencyTest,
+  RentRollUnit,
+  RentRollSummary,
+  ScheduledCapexYear,
+  LoanProgramSummary,
+  ReturnMetrics,
+  PartnershipOutputs,
+  PartnershipYear,
+  RehabPeriodSummary,
+  BridgeLoanSummary,
+  FlipSummary,
+  ValueAddSummary,
+  ClosingCostSummary,
+  ClosingCostCategory,
+  BuyVsRentYear,
+  CalculationOptions,
+  MetricTrace,
+  TraceValue,
+  TraceValueFormat,
+  UnderwritingTraceMetric,
+  HoldingPeriodTrace,
   PrimaryResidenceOutputs,
   PrimaryResidenceHoldingPeriodOutputs
 } from '../types'
+import {
+  LOAN_PROGRAM_MIN_DOWN_PAYMENT,
+  PMI_REMOVAL_LTV,
+  getFhaMipMonths,
+  getMortgageInsuranceRate,
+  getUpfrontFeeRate,
+} from './loan-programs'
+import {
+  DatedCashFlow,
+  addMonths,
+  calculateMIRR,
+  calculateMIRRComponents,
+  calculateNPV,
+  calculatePaybackYear,
+  calculateXIRR,
+} from './returns'
 
 /**
  * Calculate monthly principal and interest payment
@@ -37,22 +82,133 @@ export function calculateMonthlyPI(
  * Calculate total monthly payment (P&I + PMI + taxes + insurance + HOA + utilities)
  */
 export function calculateTotalMonthlyPayment(inputs: UnderwritingInputs): number {
-  const loanAmount = inputs.purchasePrice * (1 - inputs.downPaymentPct / 100)
-  const monthlyPI = calculateMonthlyPI(loanAmount, inputs.interestRate, inputs.termYears)
+  const monthlyPI = calculateInitialMonthlyPI(inputs)
   const monthlyTaxes = inputs.taxesAnnual / 12
   const monthlyInsurance = inputs.insuranceAnnual / 12
-  const pmi = inputs.pmiEnabled ? (inputs.pmiMonthly || 0) : 0
+  const pmi = calculateMortgageInsuranceMonthly(inputs)
   
   return monthlyPI + pmi + monthlyTaxes + monthlyInsurance + inputs.hoaMonthly + inputs.utilitiesMonthly
 }
 
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+/**
+ * Check whether short-term rental income replaces long-term rent
+ */
+function isShortTermRental(inputs: UnderwritingInputs): boolean {
+  return inputs.rentalStrategy === 'short_term' && !!inputs.shortTermRental
+}
+
+/**
+ * Calculate short-term rental revenue and STR-specific costs for one year
+ * Revenue growth scales the ADR; expense growth scales cleaning and supplies
+ */
+export function calculateShortTermRental(
+  str: ShortTermRentalInputs,
+  revenueGrowthFactor: number = 1,
+  expenseGrowthFactor: number = 1
+): ShortTermRentalSummary {
+  const bookedNightsAnnual = DAYS_IN_MONTH.reduce(
+    (sum, days, i) => sum + days * ((str.monthlyOccupancy[i] ?? 0) / 100),
+    0
+  )
+  const grossRevenueAnnual = bookedNightsAnnual * str.averageDailyRate * revenueGrowthFactor
+  const turnovers = str.averageStayNights > 0 ? bookedNightsAnnual / str.averageStayNights : 0
+  
+  return {
+    bookedNightsAnnual,
+    averageOccupancy: (bookedNightsAnnual / 365) * 100,
+    grossRevenueAnnual,
+    platformFeesAnnual: grossRevenueAnnual * (str.platformFeeRate / 100),
+    cleaningAnnual: turnovers * str.cleaningFeePerStay * expenseGrowthFactor,
+    suppliesAnnual: str.suppliesMonthly * 12 * expenseGrowthFactor,
+    managementAnnual: grossRevenueAnnual * (str.managementRate / 100),
+  }
+}
+
+/**
+ * Check whether the owner lives in one unit of a long-term rental
+ */
+function isHouseHack(inputs: UnderwritingInputs): boolean {
+  return !!inputs.houseHack && !isShortTermRental(inputs)
+}
+
+/**
+ * Check whether the house-hacking owner still lives in their unit in a holding-period year
+ */
+function isOwnerOccupiedInYear(inputs: UnderwritingInputs, year: number): boolean {
+  if (!isHouseHack(inputs)) return false
+  const moveOutYear = inputs.houseHack!.moveOutYear
+  return moveOutYear === undefined || year < moveOutYear
+}
+
+/**
+ * Check whether an itemized capex schedule replaces the flat capex percentage
+ */
+function hasCapexSchedule(inputs: UnderwritingInputs): boolean {
+  return !!inputs.capexSchedule && inputs.capexSchedule.length > 0
+}
+
+/**
+ * Calculate scheduled capex for a holding-period year
+ * Each item is replaced once, in the year its remaining life runs out (year 1 at the earliest),
+ * at its cost inflated from today. A monthly reserve, if set, is paid in every year and funds
+ * replacements first; only the shortfall is paid out of pocket.
+ */
+export function calculateScheduledCapex(inputs: UnderwritingInputs, year: number): ScheduledCapexYear {
+  const contributionAnnual = (inputs.capexReserveMonthly || 0) * 12
+  let reserveBalance = 0
+  let result: ScheduledCapexYear = { replacementsAnnual: 0, capexAnnual: 0, reserveBalance: 0 }
+  
+  for (let y = 1; y <= year; y++) {
+    const replacementsAnnual = (inputs.capexSchedule || [])
+      .filter((item) => Math.max(1, item.remainingLifeYears) === y)
+      .reduce((sum, item) => sum + item.cost * Math.pow(1 + item.inflationRate / 100, y - 1), 0)
+    const available = reserveBalance + contributionAnnual
+    const paidFromReserve = Math.min(available, replacementsAnnual)
+    reserveBalance = available - paidFromReserve
+    result = {
+      replacementsAnnual,
+      capexAnnual: contributionAnnual + replacementsAnnual - paidFromReserve,
+      reserveBalance,
+    }
+  }
+  
+  return result
+}
+
 /**
  * Calculate Net Operating Income (NOI)
  * 
  * For investment properties: maintenance/capex/management are based on gross rent
  * For primary residences: maintenance/capex are based on property value (no management)
+ * For house hacks: the owner's unit earns no rent, but its market rent still counts
+ * toward maintenance/capex because the owner's unit wears like any other
+ * For short-term rentals: booking revenue replaces rent, occupancy replaces vacancy,
+ * and platform fees, cleaning, supplies and STR management are added to expenses
+ * With a capex schedule: year-one scheduled capex replaces the capex percentage
  */
 export function calculateNOI(inputs: UnderwritingInputs): { monthly: number; annual: number } {
+  if (isShortTermRental(inputs)) {
+    const str = calculateShortTermRental(inputs.shortTermRental!)
+    const grossIncomeMonthly = str.grossRevenueAnnual / 12 + inputs.otherIncomeMonthly
+    const strCapexMonthly = hasCapexSchedule(inputs)
+      ? calculateScheduledCapex(inputs, 1).capexAnnual / 12
+      : grossIncomeMonthly * (inputs.capexRate / 100)
+    
+    const operatingExpensesMonthly =
+      grossIncomeMonthly * (inputs.maintenanceRate / 100) +
+      strCapexMonthly +
+      (str.platformFeesAnnual + str.cleaningAnnual + str.suppliesAnnual + str.managementAnnual) / 12 +
+      inputs.taxesAnnual / 12 +
+      inputs.insuranceAnnual / 12 +
+      inputs.hoaMonthly +
+      inputs.utilitiesMonthly
+    
+    const noiMonthly = grossIncomeMonthly - operatingExpensesMonthly
+    return { monthly: noiMonthly, annual: noiMonthly * 12 }
+  }
+  
   // Gross income
   const grossIncomeMonthly = inputs.rentMonthly + inputs.otherIncomeMonthly
   
@@ -69,13 +225,16 @@ export function calculateNOI(inputs: UnderwritingInputs): { monthly: number; ann
   
   // For primary residence, base maintenance/capex on property value (typical 1% annual maintenance = ~0.08%/month * 12)
   // We use purchase price / 100 as a monthly proxy (roughly 1% of value annually distributed monthly)
+  const ownerUnitRentMonthly = isHouseHack(inputs) ? inputs.houseHack!.ownerUnitMarketRent : 0
   const expenseBase = isPrimaryResidence 
     ? inputs.purchasePrice / 100  // ~1% of property value monthly for calculation purposes
-    : grossIncomeMonthly
+    : grossIncomeMonthly + ownerUnitRentMonthly
   
   // Operating expenses (excluding debt service)
   const maintenanceMonthly = expenseBase * (inputs.maintenanceRate / 100)
-  const capexMonthly = expenseBase * (inputs.capexRate / 100)
+  const capexMonthly = hasCapexSchedule(inputs)
+    ? calculateScheduledCapex(inputs, 1).capexAnnual / 12
+    : expenseBase * (inputs.capexRate / 100)
   const managementMonthly = grossIncomeMonthly * (inputs.managementRate / 100) // Management only applies to rental income
   
   const operatingExpensesMonthly =
@@ -94,13 +253,102 @@ export function calculateNOI(inputs: UnderwritingInputs): { monthly: number; ann
   return { monthly: noiMonthly, annual: noiAnnual }
 }
 
+/**
+ * Check whether a conventional/FHA/VA program prices the single loan
+ * Financing stacks carry their own terms, so programs only apply without tranches
+ */
+function hasLoanProgram(inputs: UnderwritingInputs): boolean {
+  return !!inputs.loanProgram && !(inputs.financingTranches && inputs.financingTranches.length > 0)
+}
+
+/**
+ * Calculate the single loan before any financed upfront fee (FHA MIP, VA funding fee)
+ */
+function calculateBaseLoanAmount(inputs: UnderwritingInputs): number {
+  return inputs.purchasePrice * (1 - inputs.downPaymentPct / 100)
+}
+
+/**
+ * Calculate the upfront fee financed into the loan under a loan program
+ */
+function calculateUpfrontFee(inputs: UnderwritingInputs): number {
+  if (!hasLoanProgram(inputs)) return 0
+  const rate = getUpfrontFeeRate(
+    inputs.loanProgram!,
+    inputs.downPaymentPct,
+    inputs.vaSubsequentUse,
+    inputs.vaFundingFeeExempt
+  )
+  return calculateBaseLoanAmount(inputs) * (rate / 100)
+}
+
+/**
+ * Calculate total amount financed
+ * Sum of all financing tranches, or purchase price less down payment for a single loan
+ * (plus any upfront fee the loan program finances)
+ */
+export function calculateLoanAmount(inputs: UnderwritingInputs): number {
+  if (inputs.financingTranches && inputs.financingTranches.length > 0) {
+    return inputs.financingTranches.reduce((sum, tranche) => sum + tranche.amount, 0)
+  }
+  return calculateBaseLoanAmount(inputs) + calculateUpfrontFee(inputs)
+}
+
+/**
+ * Calculate the initial monthly mortgage insurance
+ * Loan programs price PMI/MIP from LTV (and credit tier for conventional);
+ * otherwise the manually entered PMI applies
+ */
+export function calculateMortgageInsuranceMonthly(inputs: UnderwritingInputs): number {
+  if (hasLoanProgram(inputs)) {
+    const rate = getMortgageInsuranceRate(
+      inputs.loanProgram!,
+      100 - inputs.downPaymentPct,
+      inputs.termYears,
+      inputs.creditTier
+    )
+    return calculateBaseLoanAmount(inputs) * (rate / 100) / 12
+  }
+  return inputs.pmiEnabled ? (inputs.pmiMonthly || 0) : 0
+}
+
+/**
+ * Calculate the first month (1-based) without mortgage insurance, or null if it never stops
+ * FHA MIP runs 11 years at or below 90% LTV and for the life of the loan above it;
+ * conventional and manual PMI stop once the scheduled balance reaches 78% of the price
+ */
+export function calculateMortgageInsuranceEndMonth(inputs: UnderwritingInputs): number | null {
+  if (calculateMortgageInsuranceMonthly(inputs) === 0) return null
+  if (hasLoanProgram(inputs) && inputs.loanProgram === 'fha') {
+    const months = getFhaMipMonths(100 - inputs.downPaymentPct)
+    return months === null ? null : months + 1
+  }
+  const removalBalance = inputs.purchasePrice * (PMI_REMOVAL_LTV / 100)
+  const schedule = generateFinancingSchedule(inputs)
+  const removal = schedule.find((row) => row.balance <= removalBalance)
+  return removal ? removal.month + 1 : null
+}
+
+/**
+ * Calculate the first-month P&I for the chosen loan structure
+ * Interest-only loans pay interest only; ARMs use the initial rate;
+ * financing stacks sum the first payment of every tranche
+ */
+function calculateInitialMonthlyPI(inputs: UnderwritingInputs): number {
+  const hasTranches = inputs.financingTranches && inputs.financingTranches.length > 0
+  if (!hasTranches && (!inputs.loanType || inputs.loanType === 'fixed')) {
+    return calculateMonthlyPI(calculateLoanAmount(inputs), inputs.interestRate, inputs.termYears)
+  }
+  const schedule = generateFinancingSchedule(inputs)
+  return schedule.length > 0 ? schedule[0].payment : 0
+}
+
 /**
  * Calculate debt service (P&I + PMI only)
  */
 export function calculateDebtService(inputs: UnderwritingInputs): { monthly: number; annual: number } {
-  const loanAmount = inputs.purchasePrice * (1 - inputs.downPaymentPct / 100)
-  const monthlyPI = calculateMonthlyPI(loanAmount, inputs.interestRate, inputs.termYears)
-  const pmi = inputs.pmiEnabled ? (inputs.pmiMonthly || 0) : 0
+  const monthlyPI = calculateInitialMonthlyPI(inputs)
+  const pmi = calculateMortgageInsuranceMonthly(inputs)
   
   const monthly = monthlyPI + pmi
   return { monthly, annual: monthly * 12 }
@@ -153,56 +401,767 @@ export function calculateDSCR(inputs: UnderwritingInputs): number {
   return noi.annual / debtService.annual
 }
 
+interface BreakEvenComponents {
+  debtServiceMonthly: number
+  fixedExpensesMonthly: number // Expenses that don't scale with rent (incl. owner-unit reserves, STR cleaning/supplies)
+  otherIncomeMonthly: number
+  variableExpenseShare: number // Share of each rent dollar left after vacancy and %-based expenses (decimal)
+}
+
 /**
- * Calculate break-even rent (rent needed for zero cash flow)
- * Uses numerical solve approach for accuracy
+ * Split break-even rent into the pieces of its formula
+ * rent × (1 - vacancy - maint - capex - mgmt) = debtService + fixedExpenses - otherIncome
  */
-export function calculateBreakEvenRent(inputs: UnderwritingInputs): number {
+function calculateBreakEvenComponents(inputs: UnderwritingInputs): BreakEvenComponents {
   const debtService = calculateDebtService(inputs)
   
-  // Fixed operating expenses (not dependent on rent)
+  // Fixed operating expenses (not dependent on rent); scheduled capex replaces the capex percentage
+  const scheduledCapex = hasCapexSchedule(inputs)
   const fixedExpensesMonthly =
     inputs.taxesAnnual / 12 +
     inputs.insuranceAnnual / 12 +
     inputs.hoaMonthly +
-    inputs.utilitiesMonthly
+    inputs.utilitiesMonthly +
+    (scheduledCapex ? calculateScheduledCapex(inputs, 1).capexAnnual / 12 : 0)
+  const capexRatePct = scheduledCapex ? 0 : inputs.capexRate
   
-  // Variable expense rates (as decimal)
-  const vacancyRate = inputs.vacancyRate / 100
-  const maintenanceRate = inputs.maintenanceRate / 100
-  const capexRate = inputs.capexRate / 100
-  const managementRate = inputs.managementRate / 100
+  if (isShortTermRental(inputs)) {
+    // Revenue at the current occupancy: cleaning and supplies are fixed, the rest scale with revenue
+    const str = calculateShortTermRental(inputs.shortTermRental!)
+    return {
+      debtServiceMonthly: debtService.monthly,
+      fixedExpensesMonthly: fixedExpensesMonthly + (str.cleaningAnnual + str.suppliesAnnual) / 12,
+      otherIncomeMonthly: inputs.otherIncomeMonthly,
+      variableExpenseShare: 1 -
+        (inputs.maintenanceRate + capexRatePct + inputs.shortTermRental!.platformFeeRate + inputs.shortTermRental!.managementRate) / 100,
+    }
+  }
   
-  // For break-even: Effective Income = Operating Expenses + Debt Service
-  // rent * (1 - vacancy) - rent * (maint + capex + mgmt) - fixedExpenses = debtService
-  // rent * (1 - vacancy - maint - capex - mgmt) = debtService + fixedExpenses + otherIncome
-  // rent = (debtService + fixedExpenses - otherIncome) / (1 - vacancy - maint - capex - mgmt)
+  // House hacks: maintenance/capex on the owner's unit don't depend on the rent collected
+  const ownerUnitExpensesMonthly = isHouseHack(inputs)
+    ? inputs.houseHack!.ownerUnitMarketRent * ((inputs.maintenanceRate + capexRatePct) / 100)
+    : 0
   
-  const denominator = 1 - vacancyRate - maintenanceRate - capexRate - managementRate
+  return {
+    debtServiceMonthly: debtService.monthly,
+    fixedExpensesMonthly: fixedExpensesMonthly + ownerUnitExpensesMonthly,
+    otherIncomeMonthly: inputs.otherIncomeMonthly,
+    variableExpenseShare: 1 - (inputs.vacancyRate + inputs.maintenanceRate + capexRatePct + inputs.managementRate) / 100,
+  }
+}
+
+/**
+ * Calculate break-even rent (rent needed for zero cash flow)
+ * Uses numerical solve approach for accuracy
+ * For short-term rentals this is the break-even monthly booking revenue
+ */
+export function calculateBreakEvenRent(inputs: UnderwritingInputs): number {
+  const { debtServiceMonthly, fixedExpensesMonthly, otherIncomeMonthly, variableExpenseShare } = calculateBreakEvenComponents(inputs)
   
-  if (denominator <= 0) {
+  if (variableExpenseShare <= 0) {
     // Can't break even with these assumptions - expense rates exceed 100%
-    return debtService.monthly + fixedExpensesMonthly
+    return debtServiceMonthly + fixedExpensesMonthly
   }
   
-  const breakEvenRent = (debtService.monthly + fixedExpensesMonthly - inputs.otherIncomeMonthly) / denominator
+  const breakEvenRent = (debtServiceMonthly + fixedExpensesMonthly - otherIncomeMonthly) / variableExpenseShare
   
   return Math.max(0, breakEvenRent)
 }
 
+/**
+ * Check whether itemized closing costs or credits replace the flat closing cost rate
+ */
+function hasClosingCostDetail(inputs: UnderwritingInputs): boolean {
+  return (inputs.closingCostItems || []).length > 0 || !!inputs.sellerConcessions || !!inputs.lenderCredits
+}
+
+/**
+ * Calculate closing costs net of seller concessions and lender credits
+ * Itemized costs replace closingCostRate when present. Credits only offset
+ * closing costs (seller concessions first), so the net is never negative.
+ */
+export function calculateClosingCosts(inputs: UnderwritingInputs): ClosingCostSummary {
+  const items = inputs.closingCostItems || []
+  const byCategory: Partial<Record<ClosingCostCategory, number>> = {}
+  for (const item of items) {
+    byCategory[item.category] = (byCategory[item.category] || 0) + item.amount
+  }
+  
+  const grossClosingCosts = items.length > 0
+    ? items.reduce((sum, item) => sum + item.amount, 0)
+    : inputs.purchasePrice * (inputs.closingCostRate / 100)
+  const sellerConcessions = Math.min(inputs.sellerConcessions || 0, grossClosingCosts)
+  const lenderCredits = Math.min(inputs.lenderCredits || 0, grossClosingCosts - sellerConcessions)
+  
+  return {
+    grossClosingCosts,
+    byCategory,
+    sellerConcessions,
+    lenderCredits,
+    netClosingCosts: grossClosingCosts - sellerConcessions - lenderCredits,
+  }
+}
+
 /**
  * Calculate all-in cash required (down payment + closing costs + rehab)
+ * Closing costs are net of seller concessions and lender credits
+ * With a financing stack, the down payment is whatever the tranches don't cover
+ * Short-term rentals also need cash for furnishing
+ * A bridge loan funds part of the rehab; its points are paid at close
  */
 export function calculateAllInCashRequired(inputs: UnderwritingInputs): number {
-  const downPayment = inputs.purchasePrice * (inputs.downPaymentPct / 100)
-  const closingCosts = inputs.purchasePrice * (inputs.closingCostRate / 100)
-  return downPayment + closingCosts + inputs.rehabCost
+  const { downPayment, closingCosts, rehabCost, furnishing, bridgeFunding } = calculateAllInCashComponents(inputs)
+  return downPayment + closingCosts + rehabCost + furnishing - bridgeFunding
+}
+
+/**
+ * Split all-in cash required into its components
+ */
+function calculateAllInCashComponents(inputs: UnderwritingInputs): {
+  downPayment: number
+  closingCosts: number
+  rehabCost: number
+  furnishing: number
+  bridgeFunding: number
+} {
+  const downPayment = inputs.financingTranches && inputs.financingTranches.length > 0
+    ? Math.max(0, inputs.purchasePrice - calculateLoanAmount(inputs))
+    : inputs.purchasePrice * (inputs.downPaymentPct / 100)
+  const closingCosts = calculateClosingCosts(inputs).netClosingCosts
+  const furnishing = isShortTermRental(inputs) ? inputs.shortTermRental!.furnishingCost : 0
+  const bridgeLoan = calculateBridgeLoan(inputs)
+  const bridgeFunding = bridgeLoan ? bridgeLoan.amount - bridgeLoan.pointsCost : 0
+  return { downPayment, closingCosts, rehabCost: inputs.rehabCost, furnishing, bridgeFunding }
+}
+
+const FHA_MAX_UNITS = 4
+const FHA_SELF_SUFFICIENCY_MIN_UNITS = 3
+const FHA_SELF_SUFFICIENCY_RENT_FACTOR = 0.75
+
+/**
+ * Check FHA owner-occupancy rules for a house hack
+ * FHA lends on 1-4 units with 3.5% down if the owner lives in one of them
+ * (the one-year occupancy rule is always met: move-out is year 2 at the earliest)
+ * 3-4 unit properties must also pass the self-sufficiency test:
+ * 75% of market rent for all units must cover PITI
+ */
+export function checkFhaOwnerOccupancy(inputs: UnderwritingInputs): FhaOwnerOccupancyCheck {
+  const issues: string[] = []
+  const houseHack = inputs.houseHack
+  let selfSufficiency: FhaSelfSufficiencyTest | undefined
+  
+  if (!houseHack) {
+    issues.push('FHA requires the owner to live in one of the units')
+  } else {
+    if (houseHack.totalUnits > FHA_MAX_UNITS) {
+      issues.push(`FHA allows at most ${FHA_MAX_UNITS} units`)
+    }
+    if (houseHack.totalUnits >= FHA_SELF_SUFFICIENCY_MIN_UNITS) {
+      const netRentalIncomeMonthly =
+        (inputs.rentMonthly + houseHack.ownerUnitMarketRent) * FHA_SELF_SUFFICIENCY_RENT_FACTOR
+      const pitiMonthly =
+        calculateDebtService(inputs).monthly +
+        inputs.taxesAnnual / 12 +
+        inputs.insuranceAnnual / 12 +
+        inputs.hoaMonthly
+      const passes = netRentalIncomeMonthly >= pitiMonthly
+      selfSufficiency = { netRentalIncomeMonthly, pitiMonthly, passes }
+      if (!passes) {
+        issues.push('FHA self-sufficiency test fails: 75% of market rent does not cover PITI')
+      }
+    }
+  }
+  if (inputs.downPaymentPct < LOAN_PROGRAM_MIN_DOWN_PAYMENT.fha) {
+    issues.push(`FHA requires at least ${LOAN_PROGRAM_MIN_DOWN_PAYMENT.fha}% down`)
+  }
+  
+  return { eligible: issues.length === 0, issues, ...(selfSufficiency ? { selfSufficiency } : {}) }
+}
+
+/**
+ * Calculate loan program outputs (minimum down, upfront fee, PMI/MIP and when it drops off)
+ */
+export function calculateLoanProgram(inputs: UnderwritingInputs): LoanProgramSummary | null {
+  if (!hasLoanProgram(inputs)) return null
+  
+  const program = inputs.loanProgram!
+  const minDownPaymentPct = LOAN_PROGRAM_MIN_DOWN_PAYMENT[program]
+  const ltv = 100 - inputs.downPaymentPct
+  
+  return {
+    program,
+    minDownPaymentPct,
+    meetsMinDownPayment: inputs.downPaymentPct >= minDownPaymentPct,
+    baseLoanAmount: calculateBaseLoanAmount(inputs),
+    upfrontFee: calculateUpfrontFee(inputs),
+    loanAmount: calculateLoanAmount(inputs),
+    ltv,
+    mortgageInsuranceRate: getMortgageInsuranceRate(program, ltv, inputs.termYears, inputs.creditTier),
+    mortgageInsuranceMonthly: calculateMortgageInsuranceMonthly(inputs),
+    mortgageInsuranceEndMonth: calculateMortgageInsuranceEndMonth(inputs),
+  }
+}
+
+/**
+ * Calculate house-hack outputs
+ * Effective housing cost is the owner's monthly out-of-pocket cost after the other units' rent
+ */
+export function calculateHouseHack(inputs: UnderwritingInputs): HouseHackSummary | null {
+  if (!isHouseHack(inputs)) return null
+  
+  const houseHack = inputs.houseHack!
+  const cashFlow = calculateCashFlow(inputs)
+  const effectiveHousingCostMonthly = -cashFlow.monthly
+  
+  // After moving out, every unit is rented
+  const fullyRented = calculateCashFlow({
+    ...inputs,
+    rentMonthly: inputs.rentMonthly + houseHack.ownerUnitMarketRent,
+    houseHack: undefined,
+  })
+  
+  return {
+    totalUnits: houseHack.totalUnits,
+    rentedUnits: Math.max(0, houseHack.totalUnits - 1),
+    rentalIncomeMonthly: inputs.rentMonthly,
+    effectiveHousingCostMonthly,
+    savingsVsMarketRentMonthly: houseHack.ownerUnitMarketRent - effectiveHousingCostMonthly,
+    cashFlowAfterMoveOutMonthly: fullyRented.monthly,
+    ...(inputs.loanProgram === 'fha' ? { fha: checkFhaOwnerOccupancy(inputs) } : {}),
+  }
+}
+
+/**
+ * Derive monthly rent and vacancy from a rent roll
+ * Occupied units count at their current rent and vacant units at market rent,
+ * with vacant units' rent as vacancy loss; owner-occupied units are left out.
+ * Vacancy never drops below the assumed rate.
+ */
+export function deriveRentRollInputs(
+  units: RentRollUnit[],
+  assumedVacancyRate: number
+): { rentMonthly: number; vacancyRate: number } {
+  const occupiedRent = units
+    .filter((unit) => unit.status === 'occupied')
+    .reduce((sum, unit) => sum + unit.currentRent, 0)
+  const vacantRent = units
+    .filter((unit) => unit.status === 'vacant')
+    .reduce((sum, unit) => sum + unit.marketRent, 0)
+  
+  const rentMonthly = occupiedRent + vacantRent
+  const physicalVacancyRate = rentMonthly > 0 ? (vacantRent / rentMonthly) * 100 : 0
+  
+  return { rentMonthly, vacancyRate: Math.max(assumedVacancyRate, physicalVacancyRate) }
+}
+
+/**
+ * Calculate rent roll outputs: loss-to-lease and the upside from raising
+ * occupied units to market rent (vacancy and expense rates unchanged)
+ */
+export function calculateRentRoll(inputs: UnderwritingInputs): RentRollSummary | null {
+  if (!inputs.rentRoll || inputs.rentRoll.length === 0 || isShortTermRental(inputs)) return null
+  
+  const rentable = inputs.rentRoll.filter((unit) => unit.status !== 'owner_occupied')
+  const occupied = rentable.filter((unit) => unit.status === 'occupied')
+  const inPlaceRentMonthly = occupied.reduce((sum, unit) => sum + unit.currentRent, 0)
+  const marketRentMonthly = rentable.reduce((sum, unit) => sum + unit.marketRent, 0)
+  const lossToLeaseMonthly = occupied.reduce((sum, unit) => sum + unit.marketRent - unit.currentRent, 0)
+  
+  const atMarket = { ...inputs, rentMonthly: inputs.rentMonthly + lossToLeaseMonthly }
+  const noiAtMarket = calculateNOI(atMarket)
+  
+  return {
+    totalUnits: inputs.rentRoll.length,
+    occupiedUnits: occupied.length,
+    vacantUnits: rentable.length - occupied.length,
+    inPlaceRentMonthly,
+    marketRentMonthly,
+    lossToLeaseMonthly,
+    noiAtMarketAnnual: noiAtMarket.annual,
+    noiUpsideAnnual: noiAtMarket.annual - calculateNOI(inputs).annual,
+    cashFlowAtMarketMonthly: calculateCashFlow(atMarket).monthly,
+    capRateAtMarket: calculateCapRate(atMarket),
+  }
+}
+
+/**
+ * Calculate occupancy for a month after purchase, relative to stabilized occupancy (0-1)
+ * No rent during the rehab; lease-up ramps linearly and reaches full occupancy the month after it ends
+ */
+function getRehabOccupancy(inputs: UnderwritingInputs, month: number): number {
+  if (!inputs.rehabPeriod) return 1
+  const { rehabMonths, leaseUpMonths } = inputs.rehabPeriod
+  if (month <= rehabMonths) return 0
+  if (month <= rehabMonths + leaseUpMonths) return (month - rehabMonths) / (leaseUpMonths + 1)
+  return 1
+}
+
+/**
+ * Calculate the average occupancy and the number of rehab months in a holding-period year
+ */
+function getRehabYear(inputs: UnderwritingInputs, year: number): { occupancy: number; rehabMonths: number } {
+  if (!inputs.rehabPeriod) return { occupancy: 1, rehabMonths: 0 }
+  
+  let occupancy = 0
+  let rehabMonths = 0
+  for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+    occupancy += getRehabOccupancy(inputs, month) / 12
+    if (month <= inputs.rehabPeriod.rehabMonths) rehabMonths++
+  }
+  return { occupancy, rehabMonths }
+}
+
+/**
+ * Calculate the hard-money/construction loan funding the rehab, if any
+ * Interest-only; interest for the reserve months accrues into the balance instead of being paid
+ */
+export function calculateBridgeLoan(inputs: UnderwritingInputs): BridgeLoanSummary | null {
+  const bridgeLoan = inputs.rehabPeriod?.bridgeLoan
+  if (!bridgeLoan || bridgeLoan.amount <= 0) return null
+  
+  const monthlyRate = bridgeLoan.interestRate / 100 / 12
+  const balance = bridgeLoan.amount * Math.pow(1 + monthlyRate, bridgeLoan.interestReserveMonths)
+  
+  return {
+    amount: bridgeLoan.amount,
+    interestReserve: balance - bridgeLoan.amount,
+    balance,
+    pointsCost: bridgeLoan.amount * (bridgeLoan.pointsPct / 100),
+    monthlyInterest: balance * monthlyRate,
+  }
+}
+
+/**
+ * Calculate the bridge loan balance at the end of a month (before any payoff)
+ */
+function getBridgeLoanBalance(inputs: UnderwritingInputs, month: number): number {
+  const bridgeLoan = inputs.rehabPeriod?.bridgeLoan
+  if (!bridgeLoan || bridgeLoan.amount <= 0) return 0
+  const monthlyRate = bridgeLoan.interestRate / 100 / 12
+  return bridgeLoan.amount * Math.pow(1 + monthlyRate, Math.min(month, bridgeLoan.interestReserveMonths))
+}
+
+/**
+ * Calculate rehab and lease-up outputs
+ * Year-one metrics stay stabilized; first-year cash flow shows the months of lost rent,
+ * holding costs and bridge interest
+ */
+export function calculateRehabPeriod(inputs: UnderwritingInputs): RehabPeriodSummary | null {
+  if (!inputs.rehabPeriod) return null
+  
+  const { rehabMonths, leaseUpMonths, holdingCostsMonthly } = inputs.rehabPeriod
+  const effectiveIncomeMonthly = isShortTermRental(inputs)
+    ? calculateShortTermRental(inputs.shortTermRental!).grossRevenueAnnual / 12 + inputs.otherIncomeMonthly
+    : (inputs.rentMonthly + inputs.otherIncomeMonthly) * (1 - inputs.vacancyRate / 100)
+  
+  let lostOccupancyMonths = 0
+  for (let month = 1; month <= rehabMonths + leaseUpMonths; month++) {
+    lostOccupancyMonths += 1 - getRehabOccupancy(inputs, month)
+  }
+  
+  const firstYear = calculateYearlyProjection({
+    underwritingInputs: inputs,
+    holdingPeriodYears: 1,
+    appreciationRate: 0,
+    rentGrowthRate: 0,
+    expenseGrowthRate: 0,
+    sellingCostRate: 0,
+  }, 1)
+  const bridgeLoan = calculateBridgeLoan(inputs)
+  
+  return {
+    rehabMonths,
+    leaseUpMonths,
+    stabilizedMonth: rehabMonths + leaseUpMonths + 1,
+    lostIncome: effectiveIncomeMonthly * lostOccupancyMonths,
+    holdingCosts: holdingCostsMonthly * rehabMonths,
+    firstYearCashFlow: firstYear.cashFlowAnnual,
+    ...(bridgeLoan ? { bridgeLoan } : {}),
+  }
+}
+
+/**
+ * Average monthly rent for a holding-period year, weighted by rehab occupancy
+ * Value-add deals earn the stabilized market rent from the stabilization month on
+ */
+function getRentMonthlyForYear(inputs: UnderwritingInputs, year: number): number {
+  if (!inputs.valueAdd) return inputs.rentMonthly
+  
+  let weightedRent = 0
+  let occupancy = 0
+  for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+    const rent = month >= inputs.valueAdd.stabilizationMonth ? inputs.valueAdd.stabilizedRentMonthly : inputs.rentMonthly
+    const monthOccupancy = getRehabOccupancy(inputs, month)
+    weightedRent += rent * monthOccupancy
+    occupancy += monthOccupancy
+  }
+  return occupancy > 0 ? weightedRent / occupancy : inputs.rentMonthly
+}
+
+/**
+ * Calculate property value at the end of a holding-period year
+ * With value-add inputs the value steps up to the ARV at the start of the
+ * stabilization month and appreciates from there
+ */
+function getPropertyValueAtYear(inputs: HoldingPeriodInputs, year: number): number {
+  const { underwritingInputs, appreciationRate } = inputs
+  const valueAdd = underwritingInputs.valueAdd
+  if (valueAdd && year * 12 >= valueAdd.stabilizationMonth) {
+    const monthsStabilized = year * 12 - valueAdd.stabilizationMonth + 1
+    return valueAdd.afterRepairValue * Math.pow(1 + appreciationRate / 100, monthsStabilized / 12)
+  }
+  return underwritingInputs.purchasePrice * Math.pow(1 + appreciationRate / 100, year)
+}
+
+/**
+ * Calculate forced appreciation from value-add work
+ * Year-one metrics use in-place rent; the holding-period projection steps up
+ * value and rent at stabilization
+ */
+export function calculateValueAdd(inputs: UnderwritingInputs): ValueAddSummary | null {
+  if (!inputs.valueAdd) return null
+  
+  const { afterRepairValue, stabilizedRentMonthly, stabilizationMonth } = inputs.valueAdd
+  const allInCost = inputs.purchasePrice + calculateClosingCosts(inputs).netClosingCosts + inputs.rehabCost
+  const valueAdded = afterRepairValue - inputs.purchasePrice
+  
+  return {
+    afterRepairValue,
+    stabilizationMonth,
+    allInCost,
+    equityCreated: afterRepairValue - allInCost,
+    valueAdded,
+    returnOnRehab: inputs.rehabCost > 0 ? ((valueAdded - inputs.rehabCost) / inputs.rehabCost) * 100 : 0,
+    rentIncreaseMonthly: stabilizedRentMonthly - inputs.rentMonthly,
+  }
+}
+
+const FLIP_MAX_PRICE_ARV_PCT = 70
+
+/**
+ * Calculate fix-and-flip profit
+ * The purchase loan is interest-only over the rehab and sale; holding costs include
+ * taxes, insurance and HOA; selling costs come out of the sale proceeds
+ */
+export function calculateFlip(inputs: UnderwritingInputs): FlipSummary | null {
+  if (!inputs.flip) return null
+  
+  const { afterRepairValue, rehabMonths, monthsToSell, holdingCostsMonthly, loanPointsPct, sellingCostRate } = inputs.flip
+  const holdMonths = rehabMonths + monthsToSell
+  const loanAmount = calculateLoanAmount(inputs)
+  
+  const buyingCosts = calculateClosingCosts(inputs).netClosingCosts
+  const loanPoints = loanAmount * (loanPointsPct / 100)
+  const interestCost = loanAmount * (inputs.interestRate / 100 / 12) * holdMonths
+  const carryingCostsMonthly = inputs.taxesAnnual / 12 + inputs.insuranceAnnual / 12 + inputs.hoaMonthly + holdingCostsMonthly
+  const holdingCosts = carryingCostsMonthly * holdMonths
+  const sellingCosts = afterRepairValue * (sellingCostRate / 100)
+  
+  const totalProjectCost = inputs.purchasePrice + inputs.rehabCost + buyingCosts + loanPoints +
+    interestCost + holdingCosts + sellingCosts
+  const cashInvested = totalProjectCost - loanAmount - sellingCosts
+  const netProfit = afterRepairValue - totalProjectCost
+  
+  const roi = cashInvested > 0 ? (netProfit / cashInvested) * 100 : 0
+  const annualizedRoi = roi > -100 && holdMonths > 0
+    ? (Math.pow(1 + roi / 100, 12 / holdMonths) - 1) * 100
+    : roi
+  
+  const maxPurchasePrice = afterRepairValue * (FLIP_MAX_PRICE_ARV_PCT / 100) - inputs.rehabCost
+  
+  return {
+    holdMonths,
+    loanAmount,
+    buyingCosts,
+    loanPoints,
+    interestCost,
+    holdingCosts,
+    sellingCosts,
+    totalProjectCost,
+    cashInvested,
+    netProfit,
+    roi,
+    annualizedRoi,
+    seventyPercentRule: {
+      maxPurchasePrice,
+      passes: inputs.purchasePrice <= maxPurchasePrice,
+    },
+  }
+}
+
+// =============================================================================
+// CALCULATION TRACE
+// =============================================================================
+
+function traceValue(label: string, value: number, format: TraceValueFormat): TraceValue {
+  return { label, value, format }
+}
+
+/**
+ * Build the formula, inputs and intermediate values behind each underwriting metric
+ * Every step is derived from the same functions that produce the outputs
+ */
+function buildUnderwritingTrace(
+  inputs: UnderwritingInputs,
+  outputs: UnderwritingOutputs
+): Record<UnderwritingTraceMetric, MetricTrace> {
+  const monthlyPI = calculateInitialMonthlyPI(inputs)
+  const mortgageInsurance = calculateMortgageInsuranceMonthly(inputs)
+  const debtService = calculateDebtService(inputs)
+  
+  const str = isShortTermRental(inputs) ? calculateShortTermRental(inputs.shortTermRental!) : null
+  const grossIncomeMonthly = str
+    ? str.grossRevenueAnnual / 12 + inputs.otherIncomeMonthly
+    : inputs.rentMonthly + inputs.otherIncomeMonthly
+  const vacancyLossMonthly = str ? 0 : grossIncomeMonthly * (inputs.vacancyRate / 100)
+  const operatingExpensesMonthly = grossIncomeMonthly - vacancyLossMonthly - outputs.noiMonthly
+  
+  const breakEven = calculateBreakEvenComponents(inputs)
+  const allInCash = calculateAllInCashComponents(inputs)
+  
+  // Itemized costs replace the closing cost rate; credits show what offset them
+  const closingCosts = calculateClosingCosts(inputs)
+  const closingCostInputs = (inputs.closingCostItems || []).length > 0
+    ? [traceValue('Itemized Closing Costs', closingCosts.grossClosingCosts, 'currency')]
+    : [traceValue('Closing Cost Rate', inputs.closingCostRate, 'percent')]
+  if (hasClosingCostDetail(inputs)) {
+    closingCostInputs.push(
+      traceValue('Seller Concessions', closingCosts.sellerConcessions, 'currency'),
+      traceValue('Lender Credits', closingCosts.lenderCredits, 'currency')
+    )
+  }
+  
+  const noiAnnual = traceValue('NOI (Annual)', outputs.noiAnnual, 'currency')
+  const debtServiceAnnual = traceValue('Debt Service (Annual)', debtService.annual, 'currency')
+  const cashFlowAnnual = traceValue('Cash Flow (Annual)', outputs.cashFlowAnnual, 'currency')
+  const allInCashRequired = traceValue('All-In Cash Required', outputs.allInCashRequired, 'currency')
+  const purchasePrice = traceValue('Purchase Price', inputs.purchasePrice, 'currency')
+  
+  return {
+    totalMonthlyPayment: {
+      formula: 'P&I + Mortgage Insurance + Taxes / 12 + Insurance / 12 + HOA + Utilities',
+      inputs: [
+        purchasePrice,
+        traceValue('Down Payment', inputs.downPaymentPct, 'percent'),
+        traceValue('Interest Rate', inputs.interestRate, 'percent'),
+        traceValue('Term (Years)', inputs.termYears, 'number'),
+        traceValue('Taxes (Annual)', inputs.taxesAnnual, 'currency'),
+        traceValue('Insurance (Annual)', inputs.insuranceAnnual, 'currency'),
+      ],
+      steps: [
+        traceValue('P&I', monthlyPI, 'currency'),
+        traceValue('Mortgage Insurance', mortgageInsurance, 'currency'),
+        traceValue('Taxes', inputs.taxesAnnual / 12, 'currency'),
+        traceValue('Insurance', inputs.insuranceAnnual / 12, 'currency'),
+        traceValue('HOA', inputs.hoaMonthly, 'currency'),
+        traceValue('Utilities', inputs.utilitiesMonthly, 'currency'),
+      ],
+      result: traceValue('Total Monthly Payment', outputs.totalMonthlyPayment, 'currency'),
+    },
+    noiAnnual: {
+      formula: '(Gross Income - Vacancy Loss - Operating Expenses) × 12',
+      inputs: [
+        traceValue(str ? 'Booking Revenue (Monthly)' : 'Rent (Monthly)', str ? str.grossRevenueAnnual / 12 : inputs.rentMonthly, 'currency'),
+        traceValue('Other Income (Monthly)', inputs.otherIncomeMonthly, 'currency'),
+        traceValue('Vacancy Rate', str ? 0 : inputs.vacancyRate, 'percent'),
+        traceValue('Maintenance', inputs.maintenanceRate, 'percent'),
+        traceValue('CapEx', hasCapexSchedule(inputs) ? 0 : inputs.capexRate, 'percent'),
+        traceValue('Management', inputs.managementRate, 'percent'),
+      ],
+      steps: [
+        traceValue('Gross Income (Monthly)', grossIncomeMonthly, 'currency'),
+        traceValue('Vacancy Loss (Monthly)', vacancyLossMonthly, 'currency'),
+        traceValue('Operating Expenses (Monthly)', operatingExpensesMonthly, 'currency'),
+        traceValue('NOI (Monthly)', outputs.noiMonthly, 'currency'),
+      ],
+      result: noiAnnual,
+    },
+    cashFlowAnnual: {
+      formula: 'NOI (Annual) - Debt Service (Annual)',
+      inputs: [],
+      steps: [noiAnnual, debtServiceAnnual],
+      result: cashFlowAnnual,
+    },
+    capRate: {
+      formula: 'NOI (Annual) ÷ Purchase Price',
+      inputs: [purchasePrice],
+      steps: [noiAnnual],
+      result: traceValue('Cap Rate', outputs.capRate, 'percent'),
+    },
+    cashOnCash: {
+      formula: 'Cash Flow (Annual) ÷ All-In Cash Required',
+      inputs: [],
+      steps: [cashFlowAnnual, allInCashRequired],
+      result: traceValue('Cash-on-Cash', outputs.cashOnCash, 'percent'),
+    },
+    dscr: {
+      formula: 'NOI (Annual) ÷ Debt Service (Annual)',
+      inputs: [],
+      steps: [noiAnnual, debtServiceAnnual],
+      result: traceValue('DSCR', outputs.dscr, 'ratio'),
+    },
+    breakEvenRentMonthly: {
+      formula: '(Debt Service + Fixed Expenses - Other Income) ÷ Share of Rent Left After Variable Expenses',
+      inputs: [
+        traceValue('Vacancy Rate', str ? 0 : inputs.vacancyRate, 'percent'),
+        traceValue('Maintenance', inputs.maintenanceRate, 'percent'),
+        traceValue('CapEx', hasCapexSchedule(inputs) ? 0 : inputs.capexRate, 'percent'),
+        traceValue('Management', str ? inputs.shortTermRental!.managementRate : inputs.managementRate, 'percent'),
+        ...(str ? [traceValue('Platform Fee', inputs.shortTermRental!.platformFeeRate, 'percent')] : []),
+      ],
+      steps: [
+        traceValue('Debt Service (Monthly)', breakEven.debtServiceMonthly, 'currency'),
+        traceValue('Fixed Expenses (Monthly)', breakEven.fixedExpensesMonthly, 'currency'),
+        traceValue('Other Income (Monthly)', breakEven.otherIncomeMonthly, 'currency'),
+        traceValue('Share of Rent Left', breakEven.variableExpenseShare * 100, 'percent'),
+      ],
+      result: traceValue(str ? 'Break-Even Revenue' : 'Break-Even Rent', outputs.breakEvenRentMonthly, 'currency'),
+    },
+    allInCashRequired: {
+      formula: 'Down Payment + Closing Costs + Rehab + Furnishing - Bridge Loan Funding',
+      inputs: [
+        purchasePrice,
+        traceValue('Down Payment', inputs.downPaymentPct, 'percent'),
+        ...closingCostInputs,
+      ],
+      steps: [
+        traceValue('Down Payment', allInCash.downPayment, 'currency'),
+        traceValue('Closing Costs (Net)', allInCash.closingCosts, 'currency'),
+        traceValue('Rehab', allInCash.rehabCost, 'currency'),
+        traceValue('Furnishing', allInCash.furnishing, 'currency'),
+        traceValue('Bridge Loan Funding', allInCash.bridgeFunding, 'currency'),
+      ],
+      result: allInCashRequired,
+    },
+  }
+}
+
+/**
+ * Inputs behind the sale price for the chosen exit valuation method
+ */
+function getExitValuationTraceInputs(inputs: HoldingPeriodInputs, exitScenario: ExitScenario): TraceValue[] {
+  if (exitScenario.valuationMethod === 'cap_rate') {
+    return [
+      traceValue('Forward NOI', exitScenario.forwardNoi ?? 0, 'currency'),
+      traceValue('Exit Cap Rate', exitScenario.exitCapRate ?? 0, 'percent'),
+    ]
+  }
+  if (exitScenario.valuationMethod === 'grm') {
+    return [
+      traceValue('Forward Gross Rent', exitScenario.forwardGrossRent ?? 0, 'currency'),
+      traceValue('Gross Rent Multiplier', inputs.exitValuation?.grossRentMultiplier ?? 0, 'ratio'),
+    ]
+  }
+  return [traceValue('Appreciation', inputs.appreciationRate, 'percent')]
+}
+
+/**
+ * Build the formula, inputs and intermediate values behind each holding-period metric
+ */
+function buildHoldingPeriodTrace(
+  inputs: HoldingPeriodInputs,
+  cashFlows: number[],
+  outputs: Pick<HoldingPeriodOutputs, 'exitScenario' | 'irr' | 'equityMultiple'> & { returnMetrics: ReturnMetrics }
+): HoldingPeriodTrace {
+  const { exitScenario, returnMetrics } = outputs
+  const assumptions = [
+    traceValue('Holding Period (Years)', inputs.holdingPeriodYears, 'number'),
+    traceValue('Appreciation', inputs.appreciationRate, 'percent'),
+    traceValue('Rent Growth', inputs.rentGrowthRate, 'percent'),
+    traceValue('Expense Growth', inputs.expenseGrowthRate, 'percent'),
+  ]
+  
+  const initialInvestment = traceValue('Initial Investment', exitScenario.initialInvestment, 'currency')
+  const netProceeds = traceValue('Net Sale Proceeds', exitScenario.netProceedsFromSale, 'currency')
+  const cumulativeCashFlow = traceValue('Cumulative Cash Flow', exitScenario.cumulativeCashFlow, 'currency')
+  const refinanceCashOut = traceValue('Refinance Cash Out', exitScenario.refinanceCashOut, 'currency')
+  const totalProfit = traceValue('Total Profit', exitScenario.totalProfit, 'currency')
+  const totalROI = traceValue('Total ROI', exitScenario.totalROI, 'percent')
+  const holdingPeriodYears = traceValue('Holding Period (Years)', inputs.holdingPeriodYears, 'number')
+  const mirr = calculateMIRRComponents(cashFlows, returnMetrics.financeRate, returnMetrics.reinvestmentRate)
+  
+  return {
+    irr: {
+      formula: 'Rate at which the NPV of the yearly cash flows is zero (sale proceeds in the final year)',
+      inputs: assumptions,
+      steps: cashFlows.map((cf, year) => traceValue(`Year ${year} Cash Flow`, cf, 'currency')),
+      result: traceValue('IRR', outputs.irr, 'percent'),
+    },
+    equityMultiple: {
+      formula: '(Cumulative Cash Flow + Refinance Cash Out + Net Sale Proceeds) ÷ Initial Investment',
+      inputs: assumptions,
+      steps: [cumulativeCashFlow, refinanceCashOut, netProceeds, initialInvestment],
+      result: traceValue('Equity Multiple', outputs.equityMultiple, 'ratio'),
+    },
+    netProceedsFromSale: {
+      formula: 'Sale Price - Selling Costs - Loan Payoff + CapEx Reserve Returned',
+      inputs: [
+        ...getExitValuationTraceInputs(inputs, exitScenario),
+        traceValue('Selling Cost Rate', inputs.sellingCostRate, 'percent'),
+      ],
+      steps: [
+        traceValue('Sale Price', exitScenario.salePrice, 'currency'),
+        traceValue('Selling Costs', exitScenario.sellingCosts, 'currency'),
+        traceValue('Loan Payoff', exitScenario.loanPayoff, 'currency'),
+        traceValue('CapEx Reserve Returned', exitScenario.capexReserveBalance || 0, 'currency'),
+      ],
+      result: netProceeds,
+    },
+    totalProfit: {
+      formula: 'Net Sale Proceeds + Cumulative Cash Flow + Refinance Cash Out - Initial Investment',
+      inputs: [],
+      steps: [netProceeds, cumulativeCashFlow, refinanceCashOut, initialInvestment],
+      result: totalProfit,
+    },
+    totalROI: {
+      formula: 'Total Profit ÷ Initial Investment',
+      inputs: [],
+      steps: [totalProfit, initialInvestment],
+      result: totalROI,
+    },
+    annualizedROI: {
+      formula: '(1 + Total ROI)^(1 / Holding Period) - 1',
+      inputs: [holdingPeriodYears],
+      steps: [totalROI],
+      result: traceValue('Annualized ROI', exitScenario.annualizedROI, 'percent'),
+    },
+    npv: {
+      formula: 'Sum of Year N Cash Flow ÷ (1 + Discount Rate)^N',
+      inputs: [traceValue('Discount Rate', returnMetrics.discountRate, 'percent')],
+      steps: cashFlows.map((cf, year) =>
+        traceValue(`Year ${year} Present Value`, cf / Math.pow(1 + returnMetrics.discountRate / 100, year), 'currency')
+      ),
+      result: traceValue('NPV', returnMetrics.npv, 'currency'),
+    },
+    mirr: {
+      formula: '(Future Value of Inflows ÷ Present Value of Outflows)^(1 / Holding Period) - 1',
+      inputs: [
+        holdingPeriodYears,
+        traceValue('Finance Rate', returnMetrics.financeRate, 'percent'),
+        traceValue('Reinvestment Rate', returnMetrics.reinvestmentRate, 'percent'),
+      ],
+      steps: [
+        traceValue('Future Value of Inflows', mirr.futureValueOfInflows, 'currency'),
+        traceValue('Present Value of Outflows', -mirr.presentValueOfOutflows, 'currency'),
+      ],
+      result: traceValue('MIRR', returnMetrics.mirr, 'percent'),
+    },
+    ...(returnMetrics.xirr !== undefined ? {
+      xirr: {
+        formula: 'Rate at which the monthly cash flows from closing, discounted by days ÷ 365, have an NPV of zero',
+        inputs: [holdingPeriodYears],
+        steps: [initialInvestment, cumulativeCashFlow, refinanceCashOut, netProceeds],
+        result: traceValue('XIRR', returnMetrics.xirr, 'percent'),
+      },
+    } : {}),
+  }
 }
 
 /**
  * Main underwriting calculation function
+ * Pass { trace: true } to also get the math behind each metric
  */
-export function calculateUnderwriting(inputs: UnderwritingInputs): UnderwritingOutputs {
+export function calculateUnderwriting(inputs: UnderwritingInputs, options: CalculationOptions = {}): UnderwritingOutputs {
   const totalMonthlyPayment = calculateTotalMonthlyPayment(inputs)
   const noi = calculateNOI(inputs)
   const cashFlow = calculateCashFlow(inputs)
@@ -211,8 +1170,17 @@ export function calculateUnderwriting(inputs: UnderwritingInputs): UnderwritingO
   const dscr = calculateDSCR(inputs)
   const breakEvenRentMonthly = calculateBreakEvenRent(inputs)
   const allInCashRequired = calculateAllInCashRequired(inputs)
-  
-  return {
+  const paymentShock = calculatePaymentShock(inputs)
+  const shortTermRental = isShortTermRental(inputs) ? calculateShortTermRental(inputs.shortTermRental!) : null
+  const houseHack = calculateHouseHack(inputs)
+  const rentRoll = calculateRentRoll(inputs)
+  const loanProgram = calculateLoanProgram(inputs)
+  const rehabPeriod = calculateRehabPeriod(inputs)
+  const flip = calculateFlip(inputs)
+  const valueAdd = calculateValueAdd(inputs)
+  const closingCosts = hasClosingCostDetail(inputs) ? calculateClosingCosts(inputs) : null
+  
+  const outputs: UnderwritingOutputs = {
     totalMonthlyPayment,
     noiMonthly: noi.monthly,
     noiAnnual: noi.annual,
@@ -223,7 +1191,18 @@ export function calculateUnderwriting(inputs: UnderwritingInputs): UnderwritingO
     dscr,
     breakEvenRentMonthly,
     allInCashRequired,
+    ...(paymentShock ? { paymentShock } : {}),
+    ...(shortTermRental ? { shortTermRental } : {}),
+    ...(houseHack ? { houseHack } : {}),
+    ...(rentRoll ? { rentRoll } : {}),
+    ...(loanProgram ? { loanProgram } : {}),
+    ...(rehabPeriod ? { rehabPeriod } : {}),
+    ...(flip ? { flip } : {}),
+    ...(valueAdd ? { valueAdd } : {}),
+    ...(closingCosts ? { closingCosts } : {}),
   }
+  
+  return options.trace ? { ...outputs, trace: buildUnderwritingTrace(inputs, outputs) } : outputs
 }
 
 // =============================================================================
@@ -271,6 +1250,182 @@ export function generateAmortizationSchedule(
   return schedule
 }
 
+/**
+ * Get the ARM rate after an annual adjustment
+ * Moves toward the fully indexed rate, limited by the periodic and lifetime caps
+ */
+function getAdjustedArmRate(inputs: UnderwritingInputs, currentRate: number): number {
+  const targetRate = inputs.armAdjustedRate ?? inputs.interestRate
+  const periodicCap = inputs.armPeriodicCap ?? Infinity
+  const ceiling = inputs.interestRate + (inputs.armLifetimeCap ?? Infinity)
+  
+  const capped = Math.min(Math.max(targetRate, currentRate - periodicCap), currentRate + periodicCap)
+  return Math.max(0, Math.min(capped, ceiling))
+}
+
+/**
+ * Generate amortization schedule for the chosen loan structure
+ * Fixed loans use the standard schedule; ARM, interest-only and balloon loans
+ * re-amortize or pay off the remaining balance as the structure requires
+ */
+export function generateLoanSchedule(
+  inputs: UnderwritingInputs,
+  loanAmount: number
+): AmortizationEntry[] {
+  const loanType = inputs.loanType ?? 'fixed'
+  if (loanType === 'fixed') {
+    return generateAmortizationSchedule(loanAmount, inputs.interestRate, inputs.termYears)
+  }
+  
+  const numPayments = inputs.termYears * 12
+  const interestOnlyMonths = loanType === 'interest_only'
+    ? Math.min((inputs.interestOnlyYears ?? 0) * 12, numPayments)
+    : 0
+  const armFixedMonths = loanType === 'arm' ? (inputs.armFixedYears ?? 5) * 12 : numPayments
+  const lastMonth = loanType === 'balloon' && inputs.balloonYears
+    ? Math.min(inputs.balloonYears * 12, numPayments)
+    : numPayments
+  
+  const schedule: AmortizationEntry[] = []
+  let rate = inputs.interestRate
+  let balance = loanAmount
+  let amortizingPayment = calculateMonthlyPI(loanAmount, rate, inputs.termYears)
+  
+  for (let month = 1; month <= lastMonth; month++) {
+    const remainingYears = (numPayments - month + 1) / 12
+    
+    // ARM: rate adjusts annually once the fixed period ends
+    if (month > armFixedMonths && (month - armFixedMonths - 1) % 12 === 0) {
+      rate = getAdjustedArmRate(inputs, rate)
+      amortizingPayment = calculateMonthlyPI(balance, rate, remainingYears)
+    }
+    
+    // Interest-only: amortize the full balance over the remaining term
+    if (interestOnlyMonths > 0 && month === interestOnlyMonths + 1) {
+      amortizingPayment = calculateMonthlyPI(balance, rate, remainingYears)
+    }
+    
+    const interestPayment = balance * (rate / 100 / 12)
+    const isInterestOnly = month <= interestOnlyMonths
+    let principalPayment = isInterestOnly ? 0 : amortizingPayment - interestPayment
+    let payment = isInterestOnly ? interestPayment : amortizingPayment
+    balance = Math.max(0, balance - principalPayment)
+    
+    // Balloon: remaining balance is due with the final payment
+    if (month === lastMonth && balance > 0) {
+      principalPayment += balance
+      payment += balance
+      balance = 0
+    }
+    
+    schedule.push({
+      month,
+      payment,
+      principal: principalPayment,
+      interest: interestPayment,
+      balance,
+    })
+  }
+  
+  return schedule
+}
+
+/**
+ * Generate amortization schedule for one financing tranche
+ * Interest-only when amortizationYears is 0; any balance left at termYears is due as a balloon
+ */
+export function generateTrancheSchedule(tranche: FinancingTranche): AmortizationEntry[] {
+  const schedule: AmortizationEntry[] = []
+  const monthlyRate = tranche.interestRate / 100 / 12
+  const termMonths = tranche.termYears * 12
+  const isInterestOnly = tranche.amortizationYears === 0
+  const amortizingPayment = calculateMonthlyPI(tranche.amount, tranche.interestRate, tranche.amortizationYears)
+  
+  let balance = tranche.amount
+  
+  for (let month = 1; month <= termMonths; month++) {
+    const interestPayment = balance * monthlyRate
+    let principalPayment = isInterestOnly ? 0 : Math.min(balance, amortizingPayment - interestPayment)
+    let payment = interestPayment + principalPayment
+    balance = Math.max(0, balance - principalPayment)
+    
+    // Balance due at the end of the term
+    if (month === termMonths && balance > 0) {
+      principalPayment += balance
+      payment += balance
+      balance = 0
+    }
+    
+    schedule.push({
+      month,
+      payment,
+      principal: principalPayment,
+      interest: interestPayment,
+      balance,
+    })
+  }
+  
+  return schedule
+}
+
+/**
+ * Generate the combined acquisition debt schedule
+ * Sums every financing tranche month by month, or uses the single loan structure
+ */
+export function generateFinancingSchedule(inputs: UnderwritingInputs): AmortizationEntry[] {
+  if (!inputs.financingTranches || inputs.financingTranches.length === 0) {
+    return generateLoanSchedule(inputs, calculateLoanAmount(inputs))
+  }
+  
+  const trancheSchedules = inputs.financingTranches.map(generateTrancheSchedule)
+  const months = Math.max(0, ...trancheSchedules.map((schedule) => schedule.length))
+  const combined: AmortizationEntry[] = []
+  
+  for (let month = 1; month <= months; month++) {
+    const entry: AmortizationEntry = { month, payment: 0, principal: 0, interest: 0, balance: 0 }
+    for (const schedule of trancheSchedules) {
+      const trancheEntry = schedule[month - 1]
+      if (!trancheEntry) continue
+      entry.payment += trancheEntry.payment
+      entry.principal += trancheEntry.principal
+      entry.interest += trancheEntry.interest
+      entry.balance += trancheEntry.balance
+    }
+    combined.push(entry)
+  }
+  
+  return combined
+}
+
+/**
+ * Find the first payment increase for the chosen loan structure
+ * (ARM reset, end of interest-only period, or balloon due date)
+ * Returns null for a single fixed-rate loan or when the payment never rises
+ */
+export function calculatePaymentShock(inputs: UnderwritingInputs): PaymentShock | null {
+  const hasTranches = inputs.financingTranches && inputs.financingTranches.length > 0
+  if (!hasTranches && (!inputs.loanType || inputs.loanType === 'fixed')) return null
+  
+  const schedule = generateFinancingSchedule(inputs)
+  
+  for (let i = 1; i < schedule.length; i++) {
+    const paymentBefore = schedule[i - 1].payment
+    const paymentAfter = schedule[i].payment
+    // Ignore rounding-level changes
+    if (paymentAfter > paymentBefore + 0.01) {
+      return {
+        month: schedule[i].month,
+        year: Math.ceil(schedule[i].month / 12),
+        paymentBefore,
+        paymentAfter,
+        increasePct: paymentBefore > 0 ? ((paymentAfter - paymentBefore) / paymentBefore) * 100 : 0,
+      }
+    }
+  }
+  
+  return null
+}
+
 /**
  * Get loan balance at end of a specific year
  */
@@ -332,56 +1487,227 @@ export function getInterestPaidInYear(
   return annualPayments - principalPaid
 }
 
+interface DebtScheduleEntry {
+  month: number
+  payment: number // P&I + PMI
+  principal: number
+  interest: number
+  balance: number
+  refinanceCashOut: number
+}
+
+/**
+ * Calculate the refinance event for a holding period, if one is configured
+ * Returns null when no refinance closes within the holding period
+ */
+export function calculateRefinance(inputs: HoldingPeriodInputs): RefinanceSummary | null {
+  const { underwritingInputs, refinance } = inputs
+  if (!refinance) return null
+  if (refinance.month < 1 || refinance.month > inputs.holdingPeriodYears * 12) return null
+  
+  const originalSchedule = generateFinancingSchedule(underwritingInputs)
+  const payoffBalance = (originalSchedule[refinance.month - 1]?.balance ?? 0) +
+    getBridgeLoanBalance(underwritingInputs, refinance.month)
+  
+  const newLoanAmount = refinance.appraisedValue * (refinance.ltv / 100)
+  const refinanceCosts = newLoanAmount * (refinance.closingCostRate / 100)
+  
+  // Cash out = new loan - payoff of the original (and bridge) loan - refi costs
+  const cashOut = newLoanAmount - payoffBalance - refinanceCosts
+  const cashLeftInDeal = calculateAllInCashRequired(underwritingInputs) - cashOut
+  
+  return {
+    month: refinance.month,
+    year: Math.ceil(refinance.month / 12),
+    appraisedValue: refinance.appraisedValue,
+    payoffBalance,
+    newLoanAmount,
+    refinanceCosts,
+    cashOut,
+    cashLeftInDeal,
+    newMonthlyPI: calculateMonthlyPI(newLoanAmount, refinance.interestRate, refinance.termYears),
+  }
+}
+
+/**
+ * Generate month-by-month debt service for the holding period
+ * Follows the original loan until a refinance closes, then the new loan
+ * A bridge loan is interest-only (paid once its interest reserve runs out)
+ * and is repaid by the refinance, or at sale
+ */
+export function generateDebtSchedule(inputs: HoldingPeriodInputs, months: number): DebtScheduleEntry[] {
+  const { underwritingInputs, refinance } = inputs
+  const pmi = calculateMortgageInsuranceMonthly(underwritingInputs)
+  const pmiEndMonth = calculateMortgageInsuranceEndMonth(underwritingInputs)
+  const refinanceSummary = calculateRefinance(inputs)
+  
+  let activeSchedule = generateFinancingSchedule(underwritingInputs)
+  let activePmi = pmi
+  let startMonth = 0
+  let bridgeOutstanding = calculateBridgeLoan(underwritingInputs) !== null
+  const bridgeMonthlyRate = (underwritingInputs.rehabPeriod?.bridgeLoan?.interestRate ?? 0) / 100 / 12
+  const bridgeReserveMonths = underwritingInputs.rehabPeriod?.bridgeLoan?.interestReserveMonths ?? 0
+  
+  const schedule: DebtScheduleEntry[] = []
+  
+  for (let month = 1; month <= months; month++) {
+    if (pmiEndMonth !== null && month >= pmiEndMonth) activePmi = 0
+    const entry = activeSchedule[month - startMonth - 1]
+    const scheduleEntry: DebtScheduleEntry = entry
+      ? {
+          month,
+          payment: entry.payment + activePmi,
+          principal: entry.principal,
+          interest: entry.interest,
+          balance: entry.balance,
+          refinanceCashOut: 0,
+        }
+      : { month, payment: 0, principal: 0, interest: 0, balance: 0, refinanceCashOut: 0 }
+    
+    if (bridgeOutstanding) {
+      const bridgeInterest = getBridgeLoanBalance(underwritingInputs, month - 1) * bridgeMonthlyRate
+      scheduleEntry.interest += bridgeInterest
+      scheduleEntry.payment += month > bridgeReserveMonths ? bridgeInterest : 0
+      scheduleEntry.balance += getBridgeLoanBalance(underwritingInputs, month)
+    }
+    
+    // Refinance closes at the end of its month: pay off the original loan, fund the new one
+    if (refinanceSummary && refinance && month === refinanceSummary.month) {
+      scheduleEntry.balance = refinanceSummary.newLoanAmount
+      scheduleEntry.refinanceCashOut = refinanceSummary.cashOut
+      activeSchedule = generateAmortizationSchedule(
+        refinanceSummary.newLoanAmount,
+        refinance.interestRate,
+        refinance.termYears
+      )
+      activePmi = 0 // New loan is sized by LTV; PMI does not carry over
+      bridgeOutstanding = false
+      startMonth = month
+    }
+    
+    schedule.push(scheduleEntry)
+  }
+  
+  return schedule
+}
+
+/**
+ * Calculate depreciable basis
+ * Building share of purchase price and closing costs, plus rehab
+ */
+export function calculateDepreciableBasis(inputs: UnderwritingInputs, tax: TaxInputs): number {
+  const closingCosts = calculateClosingCosts(inputs).netClosingCosts
+  return (inputs.purchasePrice + closingCosts) * (1 - tax.landValuePct / 100) + inputs.rehabCost
+}
+
+/**
+ * Straight-line depreciation taken in a given year, capped at the remaining basis
+ */
+function getStraightLineDepreciation(basis: number, recoveryYears: number, year: number): number {
+  if (basis <= 0 || recoveryYears <= 0) return 0
+  const annual = basis / recoveryYears
+  return Math.min(annual, Math.max(0, basis - annual * (year - 1)))
+}
+
+/**
+ * Calculate depreciation for a year of ownership
+ * Building basis is straight-line over the recovery period; cost-segregated basis
+ * takes bonus depreciation in year 1 and the rest straight-line over 5 years
+ */
+export function calculateDepreciationForYear(inputs: UnderwritingInputs, tax: TaxInputs, year: number): number {
+  const basis = calculateDepreciableBasis(inputs, tax)
+  const costSegregationBasis = basis * ((tax.costSegregationPct ?? 0) / 100)
+  const buildingBasis = basis - costSegregationBasis
+  const bonusDepreciation = costSegregationBasis * ((tax.bonusDepreciationPct ?? 0) / 100)
+  
+  let depreciation = getStraightLineDepreciation(buildingBasis, tax.depreciationYears, year)
+  depreciation += getStraightLineDepreciation(costSegregationBasis - bonusDepreciation, 5, year)
+  if (year === 1) depreciation += bonusDepreciation
+  
+  return depreciation
+}
+
 /**
  * Calculate yearly projection for a specific year
+ * Pass a debt schedule covering at least this year to avoid rebuilding it for
+ * every year of a projection
  */
 export function calculateYearlyProjection(
   inputs: HoldingPeriodInputs,
   year: number,
-  previousCumulativeCashFlow: number = 0
+  previousCumulativeCashFlow: number = 0,
+  debtSchedule?: DebtScheduleEntry[]
 ): YearlyProjection {
-  const { underwritingInputs, appreciationRate, rentGrowthRate, expenseGrowthRate } = inputs
+  const { underwritingInputs, rentGrowthRate, expenseGrowthRate } = inputs
   
   // Calculate loan parameters
-  const loanAmount = underwritingInputs.purchasePrice * (1 - underwritingInputs.downPaymentPct / 100)
+  const loanAmount = calculateLoanAmount(underwritingInputs)
+  
+  // Property value with appreciation (compounded; from the ARV once a value-add deal stabilizes)
+  const propertyValue = getPropertyValueAtYear(inputs, year)
   
-  // Property value with appreciation (compounded)
-  const propertyValue = underwritingInputs.purchasePrice * Math.pow(1 + appreciationRate / 100, year)
+  // Debt activity for the months in this year (original loan, or the new loan after a refinance)
+  const schedule = debtSchedule && debtSchedule.length >= year * 12
+    ? debtSchedule
+    : generateDebtSchedule(inputs, year * 12)
+  const yearEntries = schedule.slice((year - 1) * 12, year * 12)
   
   // Loan balance at end of year
-  const loanBalance = getLoanBalanceAtYear(
-    loanAmount, 
-    underwritingInputs.interestRate, 
-    underwritingInputs.termYears, 
-    year
-  )
+  const loanBalance = yearEntries.length > 0 ? yearEntries[yearEntries.length - 1].balance : loanAmount
   
   // Equity
   const equity = propertyValue - loanBalance
   
-  // Rent with growth (compounded from year 1)
+  // Rent and expense growth (compounded from year 1)
   const rentGrowthFactor = Math.pow(1 + rentGrowthRate / 100, year - 1)
-  const rentAnnual = underwritingInputs.rentMonthly * 12 * rentGrowthFactor
-  const otherIncomeAnnual = underwritingInputs.otherIncomeMonthly * 12 * rentGrowthFactor
+  const expenseGrowthFactor = Math.pow(1 + expenseGrowthRate / 100, year - 1)
+  
+  // Rehab and lease-up: no income during the rehab, then occupancy ramps up
+  const rehab = getRehabYear(underwritingInputs, year)
+  
+  // Short-term rentals: booking revenue replaces rent (ADR grows with rent growth)
+  const str = isShortTermRental(underwritingInputs)
+    ? calculateShortTermRental(
+        underwritingInputs.shortTermRental!,
+        rentGrowthFactor * rehab.occupancy,
+        expenseGrowthFactor * rehab.occupancy
+      )
+    : null
+  
+  // House hacks: the owner's unit earns market rent once they move out
+  const ownerOccupied = isOwnerOccupiedInYear(underwritingInputs, year)
+  const ownerUnitRentAnnual = isHouseHack(underwritingInputs)
+    ? underwritingInputs.houseHack!.ownerUnitMarketRent * 12 * rentGrowthFactor
+    : 0
+  
+  const rentAnnual = str
+    ? str.grossRevenueAnnual
+    : (getRentMonthlyForYear(underwritingInputs, year) * 12 * rentGrowthFactor + (ownerOccupied ? 0 : ownerUnitRentAnnual)) * rehab.occupancy
+  const otherIncomeAnnual = underwritingInputs.otherIncomeMonthly * 12 * rentGrowthFactor * rehab.occupancy
   const grossIncomeAnnual = rentAnnual + otherIncomeAnnual
   
-  // Vacancy loss
-  const vacancyLossAnnual = grossIncomeAnnual * (underwritingInputs.vacancyRate / 100)
+  // Vacancy loss (occupancy already excludes empty nights for short-term rentals)
+  const vacancyLossAnnual = str ? 0 : grossIncomeAnnual * (underwritingInputs.vacancyRate / 100)
   const effectiveIncomeAnnual = grossIncomeAnnual - vacancyLossAnnual
   
-  // Operating expenses with growth
-  const expenseGrowthFactor = Math.pow(1 + expenseGrowthRate / 100, year - 1)
-  
   // Fixed expenses that grow
   const taxesAnnual = underwritingInputs.taxesAnnual * expenseGrowthFactor
   const insuranceAnnual = underwritingInputs.insuranceAnnual * expenseGrowthFactor
   const hoaAnnual = underwritingInputs.hoaMonthly * 12 * expenseGrowthFactor
   const utilitiesAnnual = underwritingInputs.utilitiesMonthly * 12 * expenseGrowthFactor
+  const rehabHoldingCostsAnnual = (underwritingInputs.rehabPeriod?.holdingCostsMonthly ?? 0) * rehab.rehabMonths
   
-  // Variable expenses (based on rent)
-  const maintenanceAnnual = grossIncomeAnnual * (underwritingInputs.maintenanceRate / 100)
-  const capexAnnual = grossIncomeAnnual * (underwritingInputs.capexRate / 100)
-  const managementAnnual = grossIncomeAnnual * (underwritingInputs.managementRate / 100)
+  // Variable expenses (based on rent, including the owner's unit while they live there)
+  const expenseBaseAnnual = grossIncomeAnnual + (ownerOccupied ? ownerUnitRentAnnual : 0)
+  const maintenanceAnnual = expenseBaseAnnual * (underwritingInputs.maintenanceRate / 100)
+  const scheduledCapex = hasCapexSchedule(underwritingInputs) ? calculateScheduledCapex(underwritingInputs, year) : null
+  const capexAnnual = scheduledCapex
+    ? scheduledCapex.capexAnnual
+    : expenseBaseAnnual * (underwritingInputs.capexRate / 100)
+  const managementAnnual = str ? str.managementAnnual : grossIncomeAnnual * (underwritingInputs.managementRate / 100)
+  
+  // Short-term rental costs (platform fees, cleaning, supplies)
+  const strCostsAnnual = str ? str.platformFeesAnnual + str.cleaningAnnual + str.suppliesAnnual : 0
   
   const operatingExpensesAnnual = 
     taxesAnnual + 
@@ -390,34 +1716,37 @@ export function calculateYearlyProjection(
     utilitiesAnnual + 
     maintenanceAnnual + 
     capexAnnual + 
-    managementAnnual
+    managementAnnual +
+    strCostsAnnual +
+    rehabHoldingCostsAnnual
   
   // NOI
   const noiAnnual = effectiveIncomeAnnual - operatingExpensesAnnual
   
-  // Debt service
-  const monthlyPI = calculateMonthlyPI(loanAmount, underwritingInputs.interestRate, underwritingInputs.termYears)
-  const pmi = underwritingInputs.pmiEnabled ? (underwritingInputs.pmiMonthly || 0) : 0
-  const debtServiceAnnual = (monthlyPI + pmi) * 12
-  
-  // Principal and interest breakdown for the year
-  const principalPaidAnnual = getPrincipalPaidInYear(
-    loanAmount, 
-    underwritingInputs.interestRate, 
-    underwritingInputs.termYears, 
-    year
-  )
-  const interestPaidAnnual = getInterestPaidInYear(
-    loanAmount, 
-    underwritingInputs.interestRate, 
-    underwritingInputs.termYears, 
-    year
-  )
+  // Debt service, principal and interest breakdown for the year
+  const debtServiceAnnual = yearEntries.reduce((sum, e) => sum + e.payment, 0)
+  const principalPaidAnnual = yearEntries.reduce((sum, e) => sum + e.principal, 0)
+  const interestPaidAnnual = yearEntries.reduce((sum, e) => sum + e.interest, 0)
+  const refinanceCashOutAnnual = yearEntries.reduce((sum, e) => sum + e.refinanceCashOut, 0)
   
-  // Cash flow
+  // Cash flow (operating only; refinance proceeds are tracked separately)
   const cashFlowAnnual = noiAnnual - debtServiceAnnual
   const cumulativeCashFlow = previousCumulativeCashFlow + cashFlowAnnual
   
+  // After-tax: paper losses offset other income at the marginal rate
+  let afterTax = {}
+  if (inputs.tax) {
+    const depreciationAnnual = calculateDepreciationForYear(underwritingInputs, inputs.tax, year)
+    const taxableIncomeAnnual = noiAnnual - interestPaidAnnual - depreciationAnnual
+    const taxSavingsAnnual = -taxableIncomeAnnual * (inputs.tax.marginalTaxRate / 100)
+    afterTax = {
+      depreciationAnnual,
+      taxableIncomeAnnual,
+      taxSavingsAnnual,
+      afterTaxCashFlowAnnual: cashFlowAnnual + taxSavingsAnnual,
+    }
+  }
+  
   return {
     year,
     propertyValue,
@@ -434,6 +1763,15 @@ export function calculateYearlyProjection(
     interestPaidAnnual,
     cashFlowAnnual,
     cumulativeCashFlow,
+    refinanceCashOutAnnual,
+    ...(scheduledCapex
+      ? {
+          capexAnnual,
+          capexReplacementsAnnual: scheduledCapex.replacementsAnnual,
+          capexReserveBalance: scheduledCapex.reserveBalance,
+        }
+      : {}),
+    ...afterTax,
   }
 }
 
@@ -443,9 +1781,11 @@ export function calculateYearlyProjection(
 export function calculateHoldingPeriodProjection(inputs: HoldingPeriodInputs): YearlyProjection[] {
   const projections: YearlyProjection[] = []
   let cumulativeCashFlow = 0
+  // One schedule for the whole hold, sliced by year
+  const debtSchedule = generateDebtSchedule(inputs, inputs.holdingPeriodYears * 12)
   
   for (let year = 1; year <= inputs.holdingPeriodYears; year++) {
-    const projection = calculateYearlyProjection(inputs, year, cumulativeCashFlow)
+    const projection = calculateYearlyProjection(inputs, year, cumulativeCashFlow, debtSchedule)
     projections.push(projection)
     cumulativeCashFlow = projection.cumulativeCashFlow
   }
@@ -522,6 +1862,47 @@ export function calculateIRR(cashFlows: number[], maxIterations: number = 100, t
   return rate * 100 // Return best estimate
 }
 
+/**
+ * Sale price at the end of the hold
+ * Appreciation uses the compounded property value. The cap rate method divides
+ * the NOI of the year after the sale (what a buyer underwrites) by the exit cap
+ * rate plus expansion; GRM multiplies that year's gross rent.
+ */
+function calculateExitValuation(
+  inputs: HoldingPeriodInputs,
+  projections: YearlyProjection[]
+): Pick<ExitScenario, 'salePrice' | 'valuationMethod' | 'forwardNoi' | 'exitCapRate' | 'forwardGrossRent'> {
+  const lastYear = projections[projections.length - 1]
+  const exitValuation = inputs.exitValuation
+  const grossRentMultiplier = exitValuation?.grossRentMultiplier
+  if (!exitValuation || exitValuation.method === 'appreciation' ||
+      (exitValuation.method === 'grm' && grossRentMultiplier === undefined)) {
+    return { salePrice: lastYear.propertyValue, valuationMethod: 'appreciation' }
+  }
+  
+  const forwardYear = calculateYearlyProjection(inputs, projections.length + 1)
+  
+  if (exitValuation.method === 'grm') {
+    const forwardGrossRent = forwardYear.grossIncomeAnnual
+    return {
+      salePrice: Math.max(0, forwardGrossRent * grossRentMultiplier!),
+      valuationMethod: 'grm',
+      forwardGrossRent,
+    }
+  }
+  
+  // Exit cap defaults to the going-in cap rate
+  const exitCapRate = (exitValuation.exitCapRate ?? calculateCapRate(inputs.underwritingInputs)) +
+    (exitValuation.capRateExpansion ?? 0)
+  const forwardNoi = forwardYear.noiAnnual
+  return {
+    salePrice: exitCapRate > 0 ? Math.max(0, forwardNoi / (exitCapRate / 100)) : 0,
+    valuationMethod: 'cap_rate',
+    forwardNoi,
+    exitCapRate,
+  }
+}
+
 /**
  * Calculate exit scenario when selling the property
  */
@@ -532,14 +1913,18 @@ export function calculateExitScenario(
   const lastYear = projections[projections.length - 1]
   const initialInvestment = calculateAllInCashRequired(inputs.underwritingInputs)
   
-  const salePrice = lastYear.propertyValue
+  const valuation = calculateExitValuation(inputs, projections)
+  const salePrice = valuation.salePrice
   const sellingCosts = salePrice * (inputs.sellingCostRate / 100)
   const loanPayoff = lastYear.loanBalance
-  const netProceedsFromSale = salePrice - sellingCosts - loanPayoff
+  // Any unspent capex reserve comes back to the owner at sale
+  const capexReserveBalance = lastYear.capexReserveBalance
+  const netProceedsFromSale = salePrice - sellingCosts - loanPayoff + (capexReserveBalance || 0)
   const cumulativeCashFlow = lastYear.cumulativeCashFlow
+  const refinanceCashOut = projections.reduce((sum, p) => sum + (p.refinanceCashOutAnnual || 0), 0)
   
-  // Total profit = Net proceeds + Cumulative cash flow - Initial investment
-  const totalProfit = netProceedsFromSale + cumulativeCashFlow - initialInvestment
+  // Total profit = Net proceeds + Cumulative cash flow + Refi cash out - Initial investment
+  const totalProfit = netProceedsFromSale + cumulativeCashFlow + refinanceCashOut - initialInvestment
   
   // Total ROI
   const totalROI = initialInvestment > 0 ? (totalProfit / initialInvestment) * 100 : 0
@@ -551,54 +1936,247 @@ export function calculateExitScenario(
     ? (Math.pow(endingValue / initialInvestment, 1 / years) - 1) * 100
     : 0
   
+  // After-tax: depreciation is recaptured at up to 25%, the rest of the gain is long-term
+  let afterTax = {}
+  if (inputs.tax) {
+    const { underwritingInputs } = inputs
+    const accumulatedDepreciation = projections.reduce((sum, p) => sum + (p.depreciationAnnual || 0), 0)
+    const originalBasis = underwritingInputs.purchasePrice +
+      calculateClosingCosts(underwritingInputs).netClosingCosts +
+      underwritingInputs.rehabCost
+    const totalGain = salePrice - sellingCosts - (originalBasis - accumulatedDepreciation)
+    const recapturedDepreciation = Math.min(accumulatedDepreciation, Math.max(0, totalGain))
+    const depreciationRecaptureTax = recapturedDepreciation * (Math.min(inputs.tax.marginalTaxRate, 25) / 100)
+    const capitalGain = totalGain - recapturedDepreciation
+    const capitalGainsTax = Math.max(0, capitalGain) * (inputs.tax.capitalGainsRate / 100)
+    afterTax = {
+      accumulatedDepreciation,
+      depreciationRecaptureTax,
+      capitalGain,
+      capitalGainsTax,
+      afterTaxNetProceeds: netProceedsFromSale - depreciationRecaptureTax - capitalGainsTax,
+    }
+  }
+  
   return {
-    salePrice,
+    ...valuation,
     sellingCosts,
     loanPayoff,
     netProceedsFromSale,
     cumulativeCashFlow,
+    refinanceCashOut,
     totalProfit,
     initialInvestment,
     totalROI,
     annualizedROI,
+    ...(capexReserveBalance !== undefined ? { capexReserveBalance } : {}),
+    ...afterTax,
+  }
+}
+
+const DEFAULT_DISCOUNT_RATE = 10
+
+/**
+ * Calculate NPV, MIRR, payback and (with a closing date) XIRR for the IRR cash flows
+ * XIRR spreads each year's operating cash flow evenly over its months and places
+ * refinance proceeds and the sale in their actual months
+ */
+export function calculateReturnMetrics(
+  inputs: HoldingPeriodInputs,
+  cashFlows: number[],
+  yearlyProjections: YearlyProjection[],
+  netProceedsFromSale: number
+): ReturnMetrics {
+  const discountRate = inputs.returnMetrics?.discountRate ?? DEFAULT_DISCOUNT_RATE
+  const financeRate = inputs.returnMetrics?.financeRate ?? inputs.underwritingInputs.interestRate
+  const reinvestmentRate = inputs.returnMetrics?.reinvestmentRate ?? discountRate
+  const closingDate = inputs.returnMetrics?.closingDate
+  
+  let xirr: number | undefined
+  if (closingDate) {
+    const refinance = calculateRefinance(inputs)
+    const months = yearlyProjections.length * 12
+    const datedCashFlows: DatedCashFlow[] = [{ date: closingDate, amount: cashFlows[0] }]
+    for (let month = 1; month <= months; month++) {
+      const projection = yearlyProjections[Math.ceil(month / 12) - 1]
+      let amount = projection.cashFlowAnnual / 12
+      if (refinance && month === refinance.month) amount += refinance.cashOut
+      if (month === months) amount += netProceedsFromSale
+      datedCashFlows.push({ date: addMonths(closingDate, month), amount })
+    }
+    xirr = calculateXIRR(datedCashFlows)
+  }
+  
+  return {
+    discountRate,
+    npv: calculateNPV(cashFlows, discountRate),
+    financeRate,
+    reinvestmentRate,
+    mirr: calculateMIRR(cashFlows, financeRate, reinvestmentRate),
+    paybackYear: calculatePaybackYear(cashFlows),
+    ...(xirr !== undefined ? { xirr } : {}),
+  }
+}
+
+/**
+ * Run the IRR cash flows through an LP/GP waterfall
+ * Each tier pays the LP up to an IRR hurdle (compounded hurdle balances),
+ * first pro rata to the preferred return, then with the GP promote for that tier
+ */
+export function calculatePartnershipWaterfall(inputs: HoldingPeriodInputs, cashFlows: number[]): PartnershipOutputs | null {
+  const partnership = inputs.partnership
+  if (!partnership) return null
+  
+  const lpShare = partnership.lpEquityPct / 100
+  const acquisitionFee = inputs.underwritingInputs.purchasePrice * (partnership.acquisitionFeePct / 100)
+  const totalEquity = -cashFlows[0] + acquisitionFee
+  const lpEquity = totalEquity * lpShare
+  const gpEquity = totalEquity - lpEquity
+  const assetManagementFee = totalEquity * (partnership.assetManagementFeePct / 100)
+  
+  // Promote tiers below the preferred return start at the pref
+  const tiers = partnership.promoteTiers
+    .map((tier) => ({ ...tier, irrHurdle: Math.max(tier.irrHurdle, partnership.preferredReturn) }))
+    .sort((a, b) => a.irrHurdle - b.irrHurdle)
+  const hurdles = Array.from(new Set([partnership.preferredReturn, ...tiers.map((tier) => tier.irrHurdle)]))
+  const promoteAbove = (hurdle: number): number =>
+    tiers.filter((tier) => tier.irrHurdle <= hurdle).pop()?.promotePct ?? 0
+  
+  // Segment k pays the LP up to hurdles[k]; the last promote applies to everything above
+  const segmentPromotes = hurdles.map((_, k) => (k === 0 ? 0 : promoteAbove(hurdles[k - 1])))
+  const residualPromote = promoteAbove(hurdles[hurdles.length - 1])
+  
+  // Amount the LP still needs to reach each hurdle IRR
+  let hurdleBalances = hurdles.map(() => lpEquity)
+  
+  const years: PartnershipYear[] = []
+  for (let t = 1; t < cashFlows.length; t++) {
+    hurdleBalances = hurdleBalances.map((balance, k) => balance * (1 + hurdles[k] / 100))
+    const cashAvailable = cashFlows[t] - assetManagementFee
+    
+    let lpDistribution = 0
+    let gpDistribution = 0
+    let gpPromote = 0
+    
+    if (cashAvailable < 0) {
+      // Shortfalls are funded pro rata and accrue toward the hurdles
+      lpDistribution = cashAvailable * lpShare
+      gpDistribution = cashAvailable - lpDistribution
+      hurdleBalances = hurdleBalances.map((balance) => balance - lpDistribution)
+    } else {
+      let remaining = cashAvailable
+      const distribute = (amount: number, promotePct: number) => {
+        const toLp = amount * lpShare * (1 - promotePct / 100)
+        lpDistribution += toLp
+        gpDistribution += amount - toLp
+        gpPromote += amount * (promotePct / 100)
+        remaining -= amount
+        hurdleBalances = hurdleBalances.map((balance) => Math.max(0, balance - toLp))
+      }
+      
+      hurdles.forEach((_, k) => {
+        const lpSplit = lpShare * (1 - segmentPromotes[k] / 100)
+        if (remaining <= 0 || lpSplit <= 0) return
+        distribute(Math.min(remaining, hurdleBalances[k] / lpSplit), segmentPromotes[k])
+      })
+      if (remaining > 0) distribute(remaining, residualPromote)
+    }
+    
+    years.push({ year: t, cashAvailable, assetManagementFee, lpDistribution, gpDistribution, gpPromote })
+  }
+  
+  const totalAssetManagementFees = assetManagementFee * years.length
+  const partnerReturns = (initialFlow: number, equity: number, yearlyFlows: number[]) => {
+    const contributed = equity + yearlyFlows.reduce((sum, flow) => sum + Math.max(0, -flow), 0)
+    const distributions = Math.max(0, initialFlow + equity) + yearlyFlows.reduce((sum, flow) => sum + Math.max(0, flow), 0)
+    return {
+      contributed,
+      distributions,
+      irr: initialFlow < 0 ? calculateIRR([initialFlow, ...yearlyFlows]) : 0,
+      equityMultiple: contributed > 0 ? distributions / contributed : 0,
+    }
+  }
+  
+  return {
+    totalEquity,
+    lpEquity,
+    gpEquity,
+    acquisitionFee,
+    totalAssetManagementFees,
+    totalPromote: years.reduce((sum, year) => sum + year.gpPromote, 0),
+    years,
+    lp: partnerReturns(-lpEquity, lpEquity, years.map((year) => year.lpDistribution)),
+    // The GP receives the acquisition fee at closing and the asset management fee each year
+    gp: partnerReturns(
+      acquisitionFee - gpEquity,
+      gpEquity,
+      years.map((year) => year.gpDistribution + year.assetManagementFee)
+    ),
   }
 }
 
 /**
  * Calculate complete holding period analysis
+ * Pass { trace: true } to also get the math behind IRR, equity multiple and the exit
  */
-export function calculateHoldingPeriodAnalysis(inputs: HoldingPeriodInputs): HoldingPeriodOutputs {
+export function calculateHoldingPeriodAnalysis(inputs: HoldingPeriodInputs, options: CalculationOptions = {}): HoldingPeriodOutputs {
   const yearlyProjections = calculateHoldingPeriodProjection(inputs)
   const exitScenario = calculateExitScenario(inputs, yearlyProjections)
   
   // Build cash flows for IRR calculation
   // Year 0: Initial investment (negative)
-  // Years 1 to N-1: Annual cash flow
+  // Years 1 to N-1: Annual cash flow (+ refinance cash out in the refi year)
   // Year N: Annual cash flow + Net proceeds from sale
   const initialInvestment = calculateAllInCashRequired(inputs.underwritingInputs)
   const cashFlows: number[] = [-initialInvestment]
   
   for (let i = 0; i < yearlyProjections.length; i++) {
     const projection = yearlyProjections[i]
+    const yearCashFlow = projection.cashFlowAnnual + projection.refinanceCashOutAnnual
     if (i === yearlyProjections.length - 1) {
       // Last year: add net sale proceeds to cash flow
-      cashFlows.push(projection.cashFlowAnnual + exitScenario.netProceedsFromSale)
+      cashFlows.push(yearCashFlow + exitScenario.netProceedsFromSale)
     } else {
-      cashFlows.push(projection.cashFlowAnnual)
+      cashFlows.push(yearCashFlow)
     }
   }
   
   const irr = calculateIRR(cashFlows)
   
   // Equity multiple = Total returns / Initial investment
-  const totalReturns = exitScenario.cumulativeCashFlow + exitScenario.netProceedsFromSale
+  const totalReturns = exitScenario.cumulativeCashFlow + exitScenario.refinanceCashOut + exitScenario.netProceedsFromSale
   const equityMultiple = initialInvestment > 0 ? totalReturns / initialInvestment : 0
   
+  const refinance = calculateRefinance(inputs)
+  
+  // After-tax IRR uses after-tax cash flow and after-tax sale proceeds
+  let afterTaxIrr: number | undefined
+  if (inputs.tax) {
+    const afterTaxCashFlows: number[] = [-initialInvestment]
+    yearlyProjections.forEach((projection, i) => {
+      const yearCashFlow = (projection.afterTaxCashFlowAnnual ?? projection.cashFlowAnnual) + projection.refinanceCashOutAnnual
+      afterTaxCashFlows.push(
+        i === yearlyProjections.length - 1
+          ? yearCashFlow + (exitScenario.afterTaxNetProceeds ?? exitScenario.netProceedsFromSale)
+          : yearCashFlow
+      )
+    })
+    afterTaxIrr = calculateIRR(afterTaxCashFlows)
+  }
+  
+  const returnMetrics = calculateReturnMetrics(inputs, cashFlows, yearlyProjections, exitScenario.netProceedsFromSale)
+  const partnership = calculatePartnershipWaterfall(inputs, cashFlows)
+  
   return {
     yearlyProjections,
     exitScenario,
     irr,
     equityMultiple,
+    ...(refinance ? { refinance } : {}),
+    ...(afterTaxIrr !== undefined ? { afterTaxIrr } : {}),
+    returnMetrics,
+    ...(partnership ? { partnership } : {}),
+    ...(options.trace ? { trace: buildHoldingPeriodTrace(inputs, cashFlows, { exitScenario, irr, equityMultiple, returnMetrics }) } : {}),
   }
 }
 
@@ -611,14 +2189,14 @@ export function calculateHoldingPeriodAnalysis(inputs: HoldingPeriodInputs): Hol
  * Focuses on cost of living rather than investment returns
  */
 export function calculatePrimaryResidenceAnalysis(inputs: UnderwritingInputs): PrimaryResidenceOutputs {
-  const loanAmount = inputs.purchasePrice * (1 - inputs.downPaymentPct / 100)
+  const loanAmount = calculateBaseLoanAmount(inputs) + calculateUpfrontFee(inputs)
   
   // Monthly breakdown
   const mortgagePI = calculateMonthlyPI(loanAmount, inputs.interestRate, inputs.termYears)
   const monthlyTaxes = inputs.taxesAnnual / 12
   const monthlyInsurance = inputs.insuranceAnnual / 12
   const monthlyHOA = inputs.hoaMonthly
-  const pmi = inputs.pmiEnabled ? (inputs.pmiMonthly || 0) : 0
+  const pmi = calculateMortgageInsuranceMonthly(inputs)
   
   // Maintenance reserve based on property value (typical 1% annual = ~0.083%/month)
   const monthlyMaintenanceReserve = inputs.purchasePrice * (inputs.maintenanceRate / 100 / 12) +
@@ -630,7 +2208,7 @@ export function calculatePrimaryResidenceAnalysis(inputs: UnderwritingInputs): P
   
   // Cash required at close
   const downPayment = inputs.purchasePrice * (inputs.downPaymentPct / 100)
-  const closingCosts = inputs.purchasePrice * (inputs.closingCostRate / 100)
+  const closingCosts = calculateClosingCosts(inputs).netClosingCosts
   const cashRequiredAtClose = downPayment + closingCosts + inputs.rehabCost
   
   // Annual view
@@ -656,6 +2234,8 @@ export function calculatePrimaryResidenceAnalysis(inputs: UnderwritingInputs): P
   }
 }
 
+const DEFAULT_RENTER_INVESTMENT_RETURN = 3
+
 /**
  * Calculate primary residence holding period analysis
  * Reframes around time, flexibility, and risk rather than IRR
@@ -665,7 +2245,8 @@ export function calculatePrimaryResidenceHoldingPeriod(
   marketRentMonthly: number = 0
 ): PrimaryResidenceHoldingPeriodOutputs {
   const { underwritingInputs, holdingPeriodYears, appreciationRate, sellingCostRate } = inputs
-  const loanAmount = underwritingInputs.purchasePrice * (1 - underwritingInputs.downPaymentPct / 100)
+  // Same loan as the monthly cost view, including any financed upfront fee
+  const loanAmount = calculateBaseLoanAmount(underwritingInputs) + calculateUpfrontFee(underwritingInputs)
   
   // Calculate monthly cost for first year (approximation for break-even)
   const primaryResidence = calculatePrimaryResidenceAnalysis(underwritingInputs)
@@ -685,35 +2266,42 @@ export function calculatePrimaryResidenceHoldingPeriod(
   const netCostOfHousingTotal = primaryResidence.annualNetCostOfOwnership * holdingPeriodYears
   const netCostOfHousingMonthlyEquivalent = netCostOfHousingTotal / (holdingPeriodYears * 12)
   
-  // Break-even year vs renting
+  // Renter path: the renter invests the cash needed at closing, then each month invests
+  // the difference between the cost of owning and rent (drawn down when rent costs more).
+  // Rent grows at the rent growth rate; owner costs other than the mortgage payment and
+  // mortgage insurance grow at the expense growth rate.
+  const renterInvestmentReturn = inputs.renterInvestmentReturn ?? DEFAULT_RENTER_INVESTMENT_RETURN
+  const fixedOwnerCostMonthly = primaryResidence.mortgagePI + calculateMortgageInsuranceMonthly(underwritingInputs)
+  const growingOwnerCostMonthly = primaryResidence.allInMonthlyCost - fixedOwnerCostMonthly
+  const comparisonYears = Math.max(Math.min(30, holdingPeriodYears + 10), 7)
+  
+  const buyVsRentByYear: BuyVsRentYear[] = []
+  let renterPortfolio = primaryResidence.cashRequiredAtClose
+  for (let year = 1; year <= comparisonYears; year++) {
+    const ownerCostMonthly = fixedOwnerCostMonthly +
+      growingOwnerCostMonthly * Math.pow(1 + inputs.expenseGrowthRate / 100, year - 1)
+    const rentMonthly = marketRentMonthly * Math.pow(1 + inputs.rentGrowthRate / 100, year - 1)
+    const monthlySavings = ownerCostMonthly - rentMonthly
+    for (let month = 1; month <= 12; month++) {
+      renterPortfolio = renterPortfolio * (1 + renterInvestmentReturn / 100 / 12) + monthlySavings
+    }
+    
+    // What the owner would walk away with selling at year end, as in the exit scenarios
+    const propertyValueAtYear = underwritingInputs.purchasePrice * Math.pow(1 + appreciationRate / 100, year)
+    const loanBalanceAtYear = getLoanBalanceAtYear(loanAmount, underwritingInputs.interestRate, underwritingInputs.termYears, year)
+    
+    buyVsRentByYear.push({
+      year,
+      ownerEquity: propertyValueAtYear * (1 - sellingCostRate / 100) - loanBalanceAtYear,
+      renterContributions: monthlySavings * 12,
+      renterPortfolio,
+    })
+  }
+  
+  // Break-even year vs renting: first year the owner's proceeds after a sale exceed the renter's portfolio
   let breakEvenYearBuyVsRent: number | null = null
   if (marketRentMonthly > 0) {
-    // Find year where cumulative cost of ownership < cumulative rent
-    // accounting for equity buildup and appreciation
-    for (let year = 1; year <= Math.min(30, holdingPeriodYears + 10); year++) {
-      const cumulativeRent = marketRentMonthly * 12 * year
-      const cumulativeOwnershipCost = primaryResidence.annualGrossCost * year
-      const equityAtYear = (underwritingInputs.purchasePrice * underwritingInputs.downPaymentPct / 100)
-      let principalPaidToYear = 0
-      for (let y = 1; y <= year; y++) {
-        principalPaidToYear += getPrincipalPaidInYear(loanAmount, underwritingInputs.interestRate, underwritingInputs.termYears, y)
-      }
-      const appreciationAtYear = underwritingInputs.purchasePrice * (Math.pow(1 + appreciationRate / 100, year) - 1)
-      const totalEquityAtYear = equityAtYear + principalPaidToYear + appreciationAtYear
-      
-      // Net wealth from owning = equity - cumulative cost
-      // Net wealth from renting = investment of down payment - cumulative rent
-      // Assume renter invests down payment at modest return (3%)
-      const renterInvestmentGrowth = primaryResidence.cashRequiredAtClose * (Math.pow(1.03, year) - 1)
-      
-      const netWealthOwning = totalEquityAtYear - cumulativeOwnershipCost
-      const netWealthRenting = primaryResidence.cashRequiredAtClose + renterInvestmentGrowth - cumulativeRent
-      
-      if (netWealthOwning > netWealthRenting) {
-        breakEvenYearBuyVsRent = year
-        break
-      }
-    }
+    breakEvenYearBuyVsRent = buyVsRentByYear.find((entry) => entry.ownerEquity > entry.renterPortfolio)?.year ?? null
   }
   
   // Exit scenarios at years 3, 5, 7
@@ -724,17 +2312,12 @@ export function calculatePrimaryResidenceHoldingPeriod(
     const netProceedsFromSale = propertyValueAtYear - sellingCosts - loanBalanceAtYear
     const totalHousingCostToDate = primaryResidence.annualGrossCost * year
     
-    // Compare to renting
-    const cumulativeRent = marketRentMonthly > 0 ? marketRentMonthly * 12 * year : 0
-    const renterInvestmentGrowth = primaryResidence.cashRequiredAtClose * (Math.pow(1.03, year) - 1)
-    const renterNetWealth = primaryResidence.cashRequiredAtClose + renterInvestmentGrowth - cumulativeRent
-    const ownerNetWealth = netProceedsFromSale - totalHousingCostToDate + primaryResidence.cashRequiredAtClose
-    
+    // Compare sale proceeds to what the renter's portfolio is worth by then
     return {
       year,
       netProceedsFromSale,
       totalHousingCostToDate,
-      netPositionVsRenting: ownerNetWealth - renterNetWealth,
+      netPositionVsRenting: netProceedsFromSale - buyVsRentByYear[year - 1].renterPortfolio,
     }
   })
   
@@ -756,6 +2339,8 @@ export function calculatePrimaryResidenceHoldingPeriod(
   
   return {
     breakEvenYearBuyVsRent,
+    renterInvestmentReturn,
+    buyVsRentByYear: buyVsRentByYear.slice(0, holdingPeriodYears),
     netCostOfHousingTotal,
     netCostOfHousingMonthlyEquivalent,
     equityFromPrincipalPaydown: totalPrincipalPaydown,
@@ -0,0 +1,160 @@
+import {
+  UnderwritingInputs,
+  ClosingCostItem,
+  LoanComparisonInputs,
+  LoanOffer,
+  LoanOfferResult,
+  TemporaryBuydown,
+} from '../types'
+import {
+  calculateUnderwriting,
+  calculateHoldingPeriodAnalysis,
+  calculateClosingCosts,
+  calculateLoanAmount,
+  calculateMonthlyPI,
+  calculateIRR,
+} from './engine'
+
+// =============================================================================
+// LOAN OFFER COMPARISON
+// =============================================================================
+
+// Rate reduction (percentage points) in each year of a temporary buydown
+const BUYDOWN_RATE_REDUCTIONS: Record<TemporaryBuydown, number[]> = {
+  'none': [],
+  '2-1': [2, 1],
+  '1-0': [1],
+}
+
+const BUYDOWN_LABELS: Record<TemporaryBuydown, string> = {
+  'none': '',
+  '2-1': '2-1 buydown subsidy',
+  '1-0': '1-0 buydown subsidy',
+}
+
+/**
+ * Monthly P&I in each buydown year, lowest rate first
+ */
+function getBuydownPayments(offer: LoanOffer, loanAmount: number, termYears: number): number[] {
+  return BUYDOWN_RATE_REDUCTIONS[offer.buydown].map((reduction) =>
+    calculateMonthlyPI(loanAmount, Math.max(0, offer.interestRate - reduction), termYears)
+  )
+}
+
+/**
+ * Copy the shared property inputs with one offer's financing
+ * Each offer is a fixed-rate, fully amortizing first lien. Points and a
+ * buyer-paid buydown are added to closing costs; a seller-paid buydown costs
+ * the buyer nothing. The lender credit adds to any credit already on the deal.
+ */
+function withLoanOffer(inputs: UnderwritingInputs, offer: LoanOffer, pointsCost: number, buyerBuydownCost: number): UnderwritingInputs {
+  const offerInputs: UnderwritingInputs = {
+    ...inputs,
+    interestRate: offer.interestRate,
+    termYears: offer.termYears ?? inputs.termYears,
+    downPaymentPct: offer.downPaymentPct ?? inputs.downPaymentPct,
+    loanType: undefined,
+    interestOnlyYears: undefined,
+    armFixedYears: undefined,
+    armAdjustedRate: undefined,
+    armPeriodicCap: undefined,
+    armLifetimeCap: undefined,
+    balloonYears: undefined,
+    financingTranches: undefined,
+    lenderCredits: (inputs.lenderCredits || 0) + offer.lenderCredit,
+  }
+
+  const extraItems: ClosingCostItem[] = []
+  if (pointsCost > 0) {
+    extraItems.push({ category: 'points', label: 'Discount points', amount: pointsCost })
+  }
+  if (buyerBuydownCost > 0) {
+    extraItems.push({ category: 'other', label: BUYDOWN_LABELS[offer.buydown], amount: buyerBuydownCost })
+  }
+  if (extraItems.length === 0) return offerInputs
+
+  // The flat closing cost rate becomes a single item so points can be added to it
+  const baseItems: ClosingCostItem[] = (inputs.closingCostItems || []).length > 0
+    ? inputs.closingCostItems!
+    : [{ category: 'other', label: 'Closing costs', amount: inputs.purchasePrice * (inputs.closingCostRate / 100) }]
+
+  return { ...offerInputs, closingCostItems: [...baseItems, ...extraItems] }
+}
+
+/**
+ * Evaluate one offer against the shared property inputs
+ * IRR adds the buydown's payment savings back to the first years' cash flow,
+ * since the holding-period projection pays the note rate throughout
+ */
+function evaluateLoanOffer(
+  inputs: LoanComparisonInputs,
+  offer: LoanOffer
+): Omit<LoanOfferResult, 'pointsBreakEvenMonths'> {
+  const termYears = offer.termYears ?? inputs.underwritingInputs.termYears
+  const loanAmount = calculateLoanAmount(withLoanOffer(inputs.underwritingInputs, offer, 0, 0))
+  const noteRatePayment = calculateMonthlyPI(loanAmount, offer.interestRate, termYears)
+  const buydownPayments = getBuydownPayments(offer, loanAmount, termYears)
+  const buydownSavings = buydownPayments.map((payment) => (noteRatePayment - payment) * 12)
+  const buydownCost = buydownSavings.reduce((sum, savings) => sum + savings, 0)
+
+  const pointsCost = loanAmount * (offer.pointsPct / 100)
+  const buyerBuydownCost = offer.buydownPaidBy === 'buyer' ? buydownCost : 0
+  const underwritingInputs = withLoanOffer(inputs.underwritingInputs, offer, pointsCost, buyerBuydownCost)
+  const outputs = calculateUnderwriting(underwritingInputs)
+
+  let irr: number | null = null
+  if (inputs.holdingPeriod) {
+    const analysis = calculateHoldingPeriodAnalysis({ ...inputs.holdingPeriod, underwritingInputs })
+    irr = analysis.irr
+    if (buydownCost > 0) {
+      const lastYear = analysis.yearlyProjections.length - 1
+      const cashFlows = [
+        -outputs.allInCashRequired,
+        ...analysis.yearlyProjections.map((projection, i) =>
+          projection.cashFlowAnnual + projection.refinanceCashOutAnnual + (buydownSavings[i] || 0) +
+          (i === lastYear ? analysis.exitScenario.netProceedsFromSale : 0)
+        ),
+      ]
+      irr = calculateIRR(cashFlows)
+    }
+  }
+
+  const downPayment = underwritingInputs.purchasePrice * (underwritingInputs.downPaymentPct / 100)
+
+  return {
+    label: offer.label,
+    loanAmount,
+    monthlyPayment: buydownPayments.length > 0 ? buydownPayments[0] : noteRatePayment,
+    noteRatePayment,
+    pointsCost,
+    buydownCost,
+    cashToClose: downPayment + calculateClosingCosts(underwritingInputs).netClosingCosts,
+    cashFlowMonthly: outputs.cashFlowMonthly,
+    cashOnCash: outputs.cashOnCash,
+    irr,
+  }
+}
+
+/**
+ * Compare financing offers on the same property
+ * Points break-even is measured against the offer with the lowest points net
+ * of lender credit: extra points / monthly note-rate P&I savings. It is null
+ * for that offer and for any offer that doesn't lower the payment.
+ */
+export function compareLoanOffers(inputs: LoanComparisonInputs): LoanOfferResult[] {
+  const results = inputs.offers.map((offer) => evaluateLoanOffer(inputs, offer))
+  if (results.length === 0) return []
+
+  const netPoints = results.map((result, i) => result.pointsCost - inputs.offers[i].lenderCredit)
+  const baselineIndex = netPoints.indexOf(Math.min(...netPoints))
+  const baseline = results[baselineIndex]
+
+  return results.map((result, i) => {
+    const extraPoints = netPoints[i] - netPoints[baselineIndex]
+    const monthlySavings = baseline.noteRatePayment - result.noteRatePayment
+    const pointsBreakEvenMonths = i !== baselineIndex && extraPoints > 0 && monthlySavings > 0
+      ? extraPoints / monthlySavings
+      : null
+    return { ...result, pointsBreakEvenMonths }
+  })
+}
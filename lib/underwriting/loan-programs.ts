@@ -0,0 +1,101 @@
+import { CreditTier, LoanProgram } from '../types'
+
+// =============================================================================
+// LOAN PROGRAMS (CONVENTIONAL, FHA, VA)
+// =============================================================================
+
+/**
+ * Minimum down payment (% of price) for each program
+ */
+export const LOAN_PROGRAM_MIN_DOWN_PAYMENT: Record<LoanProgram, number> = {
+  conventional: 3,
+  fha: 3.5,
+  va: 0,
+}
+
+/**
+ * Conventional PMI stops automatically once the scheduled balance reaches this LTV
+ */
+export const PMI_REMOVAL_LTV = 78
+
+// Conventional PMI, annual % of the loan by credit tier and LTV band
+// Bands: above 95%, 90.01-95%, 85.01-90%, 80.01-85%
+const CONVENTIONAL_PMI_RATES: Record<CreditTier, [number, number, number, number]> = {
+  excellent: [0.55, 0.41, 0.30, 0.19],
+  good: [0.85, 0.62, 0.44, 0.26],
+  fair: [1.30, 0.98, 0.69, 0.38],
+  poor: [1.86, 1.40, 0.96, 0.50],
+}
+
+const FHA_UPFRONT_MIP_RATE = 1.75
+const FHA_MIP_YEARS_AT_OR_BELOW_90_LTV = 11
+
+/**
+ * Conventional PMI rate (annual %) from LTV and credit tier
+ * No PMI at 80% LTV or below
+ */
+export function getConventionalPmiRate(ltv: number, creditTier: CreditTier = 'good'): number {
+  if (ltv <= 80) return 0
+  const rates = CONVENTIONAL_PMI_RATES[creditTier]
+  if (ltv > 95) return rates[0]
+  if (ltv > 90) return rates[1]
+  if (ltv > 85) return rates[2]
+  return rates[3]
+}
+
+/**
+ * FHA annual MIP rate (annual %) from LTV and loan term
+ */
+export function getFhaAnnualMipRate(ltv: number, termYears: number): number {
+  if (termYears <= 15) {
+    return ltv > 90 ? 0.40 : 0.15
+  }
+  return ltv > 95 ? 0.55 : 0.50
+}
+
+/**
+ * VA funding fee (% of the loan) from down payment and prior VA use
+ */
+export function getVaFundingFeeRate(downPaymentPct: number, subsequentUse: boolean = false, exempt: boolean = false): number {
+  if (exempt) return 0
+  if (downPaymentPct >= 10) return 1.25
+  if (downPaymentPct >= 5) return 1.5
+  return subsequentUse ? 3.3 : 2.15
+}
+
+/**
+ * Upfront fee financed into the loan (% of the base loan)
+ * FHA charges upfront MIP; VA charges a funding fee; conventional has none
+ */
+export function getUpfrontFeeRate(
+  program: LoanProgram,
+  downPaymentPct: number,
+  vaSubsequentUse: boolean = false,
+  vaFundingFeeExempt: boolean = false
+): number {
+  if (program === 'fha') return FHA_UPFRONT_MIP_RATE
+  if (program === 'va') return getVaFundingFeeRate(downPaymentPct, vaSubsequentUse, vaFundingFeeExempt)
+  return 0
+}
+
+/**
+ * Annual mortgage insurance rate (% of the base loan) for a program
+ * VA loans carry no monthly mortgage insurance
+ */
+export function getMortgageInsuranceRate(
+  program: LoanProgram,
+  ltv: number,
+  termYears: number,
+  creditTier: CreditTier = 'good'
+): number {
+  if (program === 'fha') return getFhaAnnualMipRate(ltv, termYears)
+  if (program === 'va') return 0
+  return getConventionalPmiRate(ltv, creditTier)
+}
+
+/**
+ * FHA MIP duration in months; null when it lasts the life of the loan
+ */
+export function getFhaMipMonths(ltv: number): number | null {
+  return ltv <= 90 ? FHA_MIP_YEARS_AT_OR_BELOW_90_LTV * 12 : null
+}
@@ -0,0 +1,126 @@
+import {
+  Distribution,
+  MonteCarloInputs,
+  MonteCarloOutputs,
+  PercentileBand,
+  HoldingPeriodInputs,
+} from '../types'
+import { calculateHoldingPeriodAnalysis } from './engine'
+
+// =============================================================================
+// MONTE CARLO SIMULATION
+// =============================================================================
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * Returns a function producing uniform values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Sample a normal distribution using the Box-Muller transform
+ */
+export function sampleNormal(random: () => number, distribution: Distribution): number {
+  if (distribution.volatility === 0) return distribution.mean
+
+  // Avoid log(0)
+  const u1 = Math.max(random(), Number.EPSILON)
+  const u2 = random()
+  const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+
+  return distribution.mean + z * distribution.volatility
+}
+
+/**
+ * Get a percentile from sorted values using linear interpolation
+ */
+export function getPercentile(sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === 0) return 0
+
+  const index = (percentile / 100) * (sortedValues.length - 1)
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  const weight = index - lower
+
+  return sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight
+}
+
+/**
+ * Summarize trial values as a 10/25/50/75/90 percentile band
+ */
+export function calculatePercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b)
+
+  return {
+    p10: getPercentile(sorted, 10),
+    p25: getPercentile(sorted, 25),
+    p50: getPercentile(sorted, 50),
+    p75: getPercentile(sorted, 75),
+    p90: getPercentile(sorted, 90),
+  }
+}
+
+/**
+ * Run a seeded Monte Carlo simulation of holding-period returns
+ * Each trial samples appreciation, rent growth, expense growth and vacancy
+ * once and holds them for the whole period
+ */
+export function runMonteCarloSimulation(inputs: MonteCarloInputs): MonteCarloOutputs {
+  const { holdingPeriodInputs, trials, seed } = inputs
+  const random = createSeededRandom(seed)
+  const years = holdingPeriodInputs.holdingPeriodYears
+
+  const irrs: number[] = []
+  const equityMultiples: number[] = []
+  const cumulativeCashFlows: number[] = []
+  const totalProfits: number[] = []
+  const yearlyCashFlows: number[][] = Array.from({ length: years }, () => [])
+  const yearlyEquities: number[][] = Array.from({ length: years }, () => [])
+  let losingTrials = 0
+
+  for (let trial = 0; trial < trials; trial++) {
+    const vacancyRate = Math.min(100, Math.max(0, sampleNormal(random, inputs.vacancyRate)))
+
+    const trialInputs: HoldingPeriodInputs = {
+      ...holdingPeriodInputs,
+      underwritingInputs: { ...holdingPeriodInputs.underwritingInputs, vacancyRate },
+      appreciationRate: sampleNormal(random, inputs.appreciationRate),
+      rentGrowthRate: sampleNormal(random, inputs.rentGrowthRate),
+      expenseGrowthRate: sampleNormal(random, inputs.expenseGrowthRate),
+    }
+
+    const result = calculateHoldingPeriodAnalysis(trialInputs)
+
+    irrs.push(result.irr)
+    equityMultiples.push(result.equityMultiple)
+    cumulativeCashFlows.push(result.exitScenario.cumulativeCashFlow)
+    totalProfits.push(result.exitScenario.totalProfit)
+    if (result.exitScenario.totalProfit < 0) losingTrials++
+
+    result.yearlyProjections.forEach((projection, i) => {
+      yearlyCashFlows[i].push(projection.cumulativeCashFlow)
+      yearlyEquities[i].push(projection.equity)
+    })
+  }
+
+  return {
+    trials,
+    seed,
+    irr: calculatePercentileBand(irrs),
+    equityMultiple: calculatePercentileBand(equityMultiples),
+    cumulativeCashFlow: calculatePercentileBand(cumulativeCashFlows),
+    totalProfit: calculatePercentileBand(totalProfits),
+    probabilityOfLoss: trials > 0 ? (losingTrials / trials) * 100 : 0,
+    yearlyCumulativeCashFlow: yearlyCashFlows.map(calculatePercentileBand),
+    yearlyEquity: yearlyEquities.map(calculatePercentileBand),
+  }
+}
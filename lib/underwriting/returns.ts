@@ -0,0 +1,131 @@
+// =============================================================================
+// TIME-VALUE RETURN METRICS (NPV, MIRR, PAYBACK, XIRR)
+// =============================================================================
+
+const DAYS_PER_YEAR = 365
+const MAX_ITERATIONS = 100
+const TOLERANCE = 0.0001
+
+export interface DatedCashFlow {
+  date: string // YYYY-MM-DD
+  amount: number
+}
+
+/**
+ * Calculate Net Present Value of annual cash flows (year 0 undiscounted)
+ */
+export function calculateNPV(cashFlows: number[], discountRate: number): number {
+  const rate = discountRate / 100
+  return cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0)
+}
+
+/**
+ * Calculate Modified IRR
+ * Negative flows are discounted to year 0 at the finance rate,
+ * positive flows are compounded to the final year at the reinvestment rate
+ */
+export function calculateMIRR(cashFlows: number[], financeRate: number, reinvestmentRate: number): number {
+  const years = cashFlows.length - 1
+  if (years <= 0) return 0
+
+  const { presentValueOfOutflows, futureValueOfInflows } = calculateMIRRComponents(cashFlows, financeRate, reinvestmentRate)
+
+  if (presentValueOfOutflows === 0) return 0
+  if (futureValueOfInflows === 0) return -100
+
+  return (Math.pow(futureValueOfInflows / -presentValueOfOutflows, 1 / years) - 1) * 100
+}
+
+/**
+ * Split MIRR into the present value of outflows (negative) and the future value of inflows
+ */
+export function calculateMIRRComponents(
+  cashFlows: number[],
+  financeRate: number,
+  reinvestmentRate: number
+): { presentValueOfOutflows: number; futureValueOfInflows: number } {
+  const years = cashFlows.length - 1
+  const presentValueOfOutflows = cashFlows.reduce(
+    (sum, cf, t) => (cf < 0 ? sum + cf / Math.pow(1 + financeRate / 100, t) : sum),
+    0
+  )
+  const futureValueOfInflows = cashFlows.reduce(
+    (sum, cf, t) => (cf > 0 ? sum + cf * Math.pow(1 + reinvestmentRate / 100, years - t) : sum),
+    0
+  )
+  return { presentValueOfOutflows, futureValueOfInflows }
+}
+
+/**
+ * Find the first year in which cumulative cash flow recovers the initial investment
+ * Returns null when the investment is never recovered
+ */
+export function calculatePaybackYear(cashFlows: number[]): number | null {
+  let cumulative = 0
+  for (let t = 0; t < cashFlows.length; t++) {
+    cumulative += cashFlows[t]
+    if (t > 0 && cumulative >= 0) return t
+  }
+  return null
+}
+
+/**
+ * Add whole months to a YYYY-MM-DD date, clamping to the end of shorter months
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const daysInTargetMonth = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate()
+  const result = new Date(Date.UTC(year, month - 1 + months, Math.min(day, daysInTargetMonth)))
+  return result.toISOString().slice(0, 10)
+}
+
+/**
+ * Calculate IRR for irregularly dated cash flows (as %)
+ * Flows are discounted by actual days from the first date / 365
+ * Newton-Raphson with a bisection fallback, like calculateIRR
+ */
+export function calculateXIRR(cashFlows: DatedCashFlow[]): number {
+  if (cashFlows.length === 0) return 0
+
+  const start = Date.parse(cashFlows[0].date)
+  const flows = cashFlows.map((cf) => ({
+    years: (Date.parse(cf.date) - start) / (1000 * 60 * 60 * 24 * DAYS_PER_YEAR),
+    amount: cf.amount,
+  }))
+
+  const npv = (rate: number): number =>
+    flows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, cf.years), 0)
+  const npvDerivative = (rate: number): number =>
+    flows.reduce((sum, cf) => sum - (cf.years * cf.amount) / Math.pow(1 + rate, cf.years + 1), 0)
+
+  let rate = 0.1
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const npvValue = npv(rate)
+    if (Math.abs(npvValue) < TOLERANCE) return rate * 100
+
+    const derivative = npvDerivative(rate)
+    if (Math.abs(derivative) < 1e-10) break
+
+    rate = Math.min(10, Math.max(-0.99, rate - npvValue / derivative))
+  }
+
+  // Newton-Raphson did not converge: bisect
+  let lower = -0.99
+  let upper = 10
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (lower + upper) / 2
+    const npvMid = npv(mid)
+
+    if (Math.abs(npvMid) < TOLERANCE || (upper - lower) / 2 < TOLERANCE / 100) {
+      return mid * 100
+    }
+
+    if (npv(lower) * npvMid < 0) {
+      upper = mid
+    } else {
+      lower = mid
+    }
+  }
+
+  return rate * 100
+}
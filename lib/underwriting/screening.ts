@@ -0,0 +1,72 @@
+import { Deal, ScreeningInputs, ScreeningOutputs } from '../types'
+import { calculateMonthlyPI, deriveRentRollInputs } from './engine'
+
+// =============================================================================
+// QUICK SCREEN
+// =============================================================================
+
+const ONE_PERCENT_RULE = 1
+const TWO_PERCENT_RULE = 2
+const FIFTY_PERCENT_RULE_EXPENSE_RATIO = 50
+
+/**
+ * Rules of thumb for triaging listings before a full analysis
+ * The 1% and 2% rules compare monthly rent to price plus rehab. The 50% rule
+ * assumes operating expenses eat half the rent and subtracts the mortgage P&I.
+ */
+export function calculateScreening(inputs: ScreeningInputs): ScreeningOutputs {
+  const { purchasePrice, rehabCost, rentMonthly, units, sqft } = inputs
+  const allInPrice = purchasePrice + rehabCost
+  const rentToPriceRatio = allInPrice > 0 ? (rentMonthly / allInPrice) * 100 : 0
+
+  const loanAmount = purchasePrice * (1 - inputs.downPaymentPct / 100)
+  const monthlyPI = calculateMonthlyPI(loanAmount, inputs.interestRate, inputs.termYears)
+  const fiftyPercentCashFlowMonthly = rentMonthly * (1 - FIFTY_PERCENT_RULE_EXPENSE_RATIO / 100) - monthlyPI
+
+  const hasSqft = sqft !== null && sqft > 0
+
+  return {
+    rentToPriceRatio,
+    passesOnePercentRule: rentToPriceRatio >= ONE_PERCENT_RULE,
+    passesTwoPercentRule: rentToPriceRatio >= TWO_PERCENT_RULE,
+    fiftyPercentCashFlowMonthly,
+    passesFiftyPercentRule: fiftyPercentCashFlowMonthly >= 0,
+    grossRentMultiplier: rentMonthly > 0 ? purchasePrice / (rentMonthly * 12) : null,
+    pricePerUnit: purchasePrice / Math.max(1, units),
+    pricePerSqft: hasSqft ? purchasePrice / sqft : null,
+    rentPerSqft: hasSqft ? rentMonthly / sqft : null,
+  }
+}
+
+/**
+ * Screening inputs straight from a saved deal (list price until a purchase price
+ * is set; rent from the rent roll when there is one)
+ * Returns null for deals without a price or rent to screen
+ */
+export function getScreeningInputs(deal: Deal): ScreeningInputs | null {
+  const purchasePrice = deal.purchasePrice ?? deal.listPrice
+  const rentRoll = deal.rentRoll || []
+  const rentMonthly = rentRoll.length > 0
+    ? deriveRentRollInputs(rentRoll, 0).rentMonthly
+    : deal.rentMonthly
+  if (!purchasePrice || !rentMonthly) return null
+
+  return {
+    purchasePrice,
+    rehabCost: deal.rehabCost || 0,
+    rentMonthly,
+    downPaymentPct: deal.downPaymentPct ?? 20,
+    interestRate: deal.interestRate ?? 7,
+    termYears: deal.termYears ?? 30,
+    units: rentRoll.length > 0 ? rentRoll.length : deal.numberOfUnits || 1,
+    sqft: deal.sqft,
+  }
+}
+
+/**
+ * Screen a saved deal; null when it has no price or rent
+ */
+export function screenDeal(deal: Deal): ScreeningOutputs | null {
+  const inputs = getScreeningInputs(deal)
+  return inputs ? calculateScreening(inputs) : null
+}
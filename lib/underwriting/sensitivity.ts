@@ -0,0 +1,172 @@
+import {
+  HoldingPeriodInputs,
+  SensitivityAxis,
+  SensitivityGrid,
+  SensitivityMetric,
+  SensitivityRange,
+  SensitivityVariable,
+  TornadoOutputs,
+} from '../types'
+import { calculateUnderwriting, calculateHoldingPeriodAnalysis, calculateCapRate } from './engine'
+
+// =============================================================================
+// SENSITIVITY ANALYSIS
+// =============================================================================
+
+const HOLDING_PERIOD_VARIABLES: SensitivityVariable[] = [
+  'appreciationRate',
+  'rentGrowthRate',
+  'expenseGrowthRate',
+  'sellingCostRate',
+]
+
+const HOLDING_PERIOD_METRICS: SensitivityMetric[] = ['irr', 'equityMultiple', 'totalProfit']
+
+/**
+ * Copy holding period inputs with one variable replaced
+ */
+export function applySensitivityValue(
+  inputs: HoldingPeriodInputs,
+  variable: SensitivityVariable,
+  value: number
+): HoldingPeriodInputs {
+  // Flexing the exit cap rate values the sale by cap rate
+  if (variable === 'exitCapRate') {
+    return { ...inputs, exitValuation: { ...inputs.exitValuation, method: 'cap_rate', exitCapRate: value } }
+  }
+  if (HOLDING_PERIOD_VARIABLES.includes(variable)) {
+    return { ...inputs, [variable]: value }
+  }
+  return { ...inputs, underwritingInputs: { ...inputs.underwritingInputs, [variable]: value } }
+}
+
+/**
+ * Read a variable's current value from holding period inputs
+ */
+export function getSensitivityValue(inputs: HoldingPeriodInputs, variable: SensitivityVariable): number {
+  if (variable === 'exitCapRate') {
+    return inputs.exitValuation?.exitCapRate ?? calculateCapRate(inputs.underwritingInputs)
+  }
+  if (HOLDING_PERIOD_VARIABLES.includes(variable)) {
+    return inputs[variable as keyof HoldingPeriodInputs] as number
+  }
+  return inputs.underwritingInputs[variable as keyof typeof inputs.underwritingInputs] as number
+}
+
+/**
+ * Evaluate one output metric
+ * Holding period metrics run the full projection; the rest only need year-one underwriting
+ */
+export function evaluateSensitivityMetric(inputs: HoldingPeriodInputs, metric: SensitivityMetric): number {
+  if (HOLDING_PERIOD_METRICS.includes(metric)) {
+    const analysis = calculateHoldingPeriodAnalysis(inputs)
+    if (metric === 'irr') return analysis.irr
+    if (metric === 'equityMultiple') return analysis.equityMultiple
+    return analysis.exitScenario.totalProfit
+  }
+
+  const outputs = calculateUnderwriting(inputs.underwritingInputs)
+  return outputs[metric as Exclude<SensitivityMetric, 'irr' | 'equityMultiple' | 'totalProfit'>]
+}
+
+/**
+ * Evenly spaced axis values from min to max (inclusive)
+ */
+export function getAxisValues(axis: SensitivityAxis): number[] {
+  if (axis.steps <= 1) return [axis.min]
+
+  const step = (axis.max - axis.min) / (axis.steps - 1)
+  return Array.from({ length: axis.steps }, (_, i) => axis.min + step * i)
+}
+
+/**
+ * Two-variable data table: the metric at every combination of row and column values
+ */
+export function calculateSensitivityGrid(
+  inputs: HoldingPeriodInputs,
+  rowAxis: SensitivityAxis,
+  columnAxis: SensitivityAxis,
+  metric: SensitivityMetric
+): SensitivityGrid {
+  const rowValues = getAxisValues(rowAxis)
+  const columnValues = getAxisValues(columnAxis)
+
+  const values = rowValues.map((rowValue) => {
+    const rowInputs = applySensitivityValue(inputs, rowAxis.variable, rowValue)
+    return columnValues.map((columnValue) =>
+      evaluateSensitivityMetric(applySensitivityValue(rowInputs, columnAxis.variable, columnValue), metric)
+    )
+  })
+
+  return {
+    metric,
+    rowVariable: rowAxis.variable,
+    columnVariable: columnAxis.variable,
+    rowValues,
+    columnValues,
+    values,
+    baseValue: evaluateSensitivityMetric(inputs, metric),
+  }
+}
+
+/**
+ * Default low/high flexes around the deal's own inputs for the tornado chart
+ */
+export function getDefaultTornadoRanges(inputs: HoldingPeriodInputs): SensitivityRange[] {
+  const percentOf = (variable: SensitivityVariable, pct: number): SensitivityRange => {
+    const base = getSensitivityValue(inputs, variable)
+    return { variable, low: base * (1 - pct / 100), high: base * (1 + pct / 100) }
+  }
+  const pointsAround = (variable: SensitivityVariable, points: number, max: number = Infinity): SensitivityRange => {
+    const base = getSensitivityValue(inputs, variable)
+    return { variable, low: Math.max(0, base - points), high: Math.min(max, base + points) }
+  }
+  const signedPointsAround = (variable: SensitivityVariable, points: number): SensitivityRange => {
+    const base = getSensitivityValue(inputs, variable)
+    return { variable, low: base - points, high: base + points }
+  }
+
+  return [
+    percentOf('purchasePrice', 10),
+    percentOf('rentMonthly', 10),
+    pointsAround('interestRate', 1),
+    pointsAround('downPaymentPct', 5, 100),
+    pointsAround('vacancyRate', 3, 100),
+    pointsAround('maintenanceRate', 2, 100),
+    percentOf('taxesAnnual', 10),
+    signedPointsAround('appreciationRate', 2),
+    signedPointsAround('rentGrowthRate', 1),
+    signedPointsAround('expenseGrowthRate', 1),
+    pointsAround('sellingCostRate', 2, 100),
+    ...(inputs.exitValuation?.method === 'cap_rate' ? [pointsAround('exitCapRate', 1)] : []),
+  ]
+}
+
+/**
+ * Tornado chart: flex each input to its low and high value one at a time
+ * Bars are sorted so the input that moves the metric most comes first
+ */
+export function calculateTornado(
+  inputs: HoldingPeriodInputs,
+  ranges: SensitivityRange[],
+  metric: SensitivityMetric = 'irr'
+): TornadoOutputs {
+  const bars = ranges.map((range) => {
+    const lowResult = evaluateSensitivityMetric(applySensitivityValue(inputs, range.variable, range.low), metric)
+    const highResult = evaluateSensitivityMetric(applySensitivityValue(inputs, range.variable, range.high), metric)
+    return {
+      variable: range.variable,
+      low: range.low,
+      high: range.high,
+      lowResult,
+      highResult,
+      swing: Math.abs(highResult - lowResult),
+    }
+  })
+
+  return {
+    metric,
+    baseValue: evaluateSensitivityMetric(inputs, metric),
+    bars: bars.sort((a, b) => b.swing - a.swing),
+  }
+}
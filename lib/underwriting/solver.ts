@@ -0,0 +1,121 @@
+import {
+  UnderwritingInputs,
+  MaxOfferInputs,
+  MaxOfferResult,
+  MaxOfferTarget,
+} from '../types'
+import {
+  calculateUnderwriting,
+  calculateDebtService,
+  calculateHoldingPeriodAnalysis,
+} from './engine'
+
+// =============================================================================
+// MAX OFFER SOLVER
+// =============================================================================
+
+const PRICE_FLOOR = 1
+const PRICE_CEILING = 100_000_000
+const PRICE_TOLERANCE = 1
+
+/**
+ * Copy underwriting inputs at a different purchase price
+ * Rent, taxes, insurance and every other input stay fixed
+ */
+function withPurchasePrice(inputs: UnderwritingInputs, purchasePrice: number): UnderwritingInputs {
+  return { ...inputs, purchasePrice }
+}
+
+/**
+ * Check a single target at a given purchase price
+ */
+function meetsTarget(inputs: MaxOfferInputs, target: MaxOfferTarget, purchasePrice: number): boolean {
+  const underwritingInputs = withPurchasePrice(inputs.underwritingInputs, purchasePrice)
+  const value = inputs.targets[target] as number
+
+  switch (target) {
+    case 'minCashOnCash':
+      return calculateUnderwriting(underwritingInputs).cashOnCash >= value
+    case 'minDscr':
+      // An all-cash purchase has no debt to cover
+      if (calculateDebtService(underwritingInputs).annual === 0) return true
+      return calculateUnderwriting(underwritingInputs).dscr >= value
+    case 'minCashFlowMonthly':
+      return calculateUnderwriting(underwritingInputs).cashFlowMonthly >= value
+    case 'minCapRate':
+      return calculateUnderwriting(underwritingInputs).capRate >= value
+    case 'minIrr':
+      if (!inputs.holdingPeriod) return true
+      return calculateHoldingPeriodAnalysis({ ...inputs.holdingPeriod, underwritingInputs }).irr >= value
+  }
+}
+
+/**
+ * Bisect for the highest price that meets one target
+ * Assumes the metric falls as the price rises; returns 0 if no price meets it and
+ * null if the target is met at every price (it doesn't limit the offer)
+ */
+function solveTargetPrice(inputs: MaxOfferInputs, target: MaxOfferTarget): number | null {
+  if (!meetsTarget(inputs, target, PRICE_FLOOR)) return 0
+  if (meetsTarget(inputs, target, PRICE_CEILING)) return null
+
+  let low = PRICE_FLOOR
+  let high = PRICE_CEILING
+  while (high - low > PRICE_TOLERANCE) {
+    const mid = (low + high) / 2
+    if (meetsTarget(inputs, target, mid)) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+
+  return Math.floor(low)
+}
+
+/**
+ * Solve for the highest purchase price that meets every target
+ * Each target is solved on its own; the lowest price wins and names the binding target.
+ * Targets met at every price are left out, and when none limits the price there is
+ * no max offer (reason 'no_limit'). An IRR target is skipped when no holding period
+ * assumptions are given.
+ */
+export function calculateMaxOffer(inputs: MaxOfferInputs): MaxOfferResult {
+  const targets = (Object.keys(inputs.targets) as MaxOfferTarget[])
+    .filter((target) => inputs.targets[target] !== undefined)
+
+  if (targets.length === 0) {
+    return { maxPurchasePrice: null, reason: 'no_targets', bindingTarget: null, outputs: null, irr: null }
+  }
+
+  let maxPurchasePrice: number | null = null
+  let bindingTarget: MaxOfferTarget | null = null
+  for (const target of targets) {
+    const price = solveTargetPrice(inputs, target)
+    if (price !== null && (maxPurchasePrice === null || price < maxPurchasePrice)) {
+      maxPurchasePrice = price
+      bindingTarget = target
+    }
+  }
+
+  if (maxPurchasePrice === null) {
+    return { maxPurchasePrice: null, reason: 'no_limit', bindingTarget: null, outputs: null, irr: null }
+  }
+
+  if (maxPurchasePrice <= 0) {
+    return { maxPurchasePrice: null, reason: 'targets_unmet', bindingTarget, outputs: null, irr: null }
+  }
+
+  const underwritingInputs = withPurchasePrice(inputs.underwritingInputs, maxPurchasePrice)
+  const irr = inputs.holdingPeriod
+    ? calculateHoldingPeriodAnalysis({ ...inputs.holdingPeriod, underwritingInputs }).irr
+    : null
+
+  return {
+    maxPurchasePrice,
+    reason: null,
+    bindingTarget,
+    outputs: calculateUnderwriting(underwritingInputs),
+    irr,
+  }
+}